@@ -14,24 +14,41 @@ import AuthPage from "@/pages/auth-page";
 import LandingPage from "@/pages/landing-page";
 import Settings from "@/pages/settings";
 import HelpCenter from "@/pages/help-center";
+import MockExams from "@/pages/mock-exams";
+import MockExam from "@/pages/mock-exam";
+import Bookmarks from "@/pages/bookmarks";
+import Mistakes from "@/pages/mistakes";
 import { AuthProvider } from "@/hooks/use-auth";
 import { ProtectedRoute } from "@/lib/protected-route";
 import { AdminRoute } from "@/lib/admin-route";
 import AdminDashboard from "@/pages/admin";
 import AdminTopics from "@/pages/admin/topics";
 import AdminQuestions from "@/pages/admin/questions";
+import AdminQuestionReports from "@/pages/admin/question-reports";
+import AdminQuestionGroups from "@/pages/admin/question-groups";
+import AdminLearningOutcomes from "@/pages/admin/learning-outcomes";
 import AdminPracticeSets from "@/pages/admin/practice-sets";
 import AdminUsers from "@/pages/admin/users";
 import AdminChapters from "@/pages/admin/chapters";
 import StudentAnalytics from "@/pages/admin/student-analytics";
+import AdminJobs from "@/pages/admin/jobs";
+import AdminMockExams from "@/pages/admin/mock-exams";
 
 function Router() {
   return (
     <Switch>
       {/* Standard user routes */}
       <ProtectedRoute path="/dashboard" component={Dashboard} />
+      <ProtectedRoute path="/practice/review" component={Practice} />
+      <ProtectedRoute path="/practice/bookmarks" component={Practice} />
+      <ProtectedRoute path="/practice/mistakes" component={Practice} />
+      <ProtectedRoute path="/practice/set/:setId" component={Practice} />
       <ProtectedRoute path="/practice/:topicId" component={Practice} />
       <ProtectedRoute path="/analytics" component={Analytics} />
+      <ProtectedRoute path="/bookmarks" component={Bookmarks} />
+      <ProtectedRoute path="/mistakes" component={Mistakes} />
+      <ProtectedRoute path="/mock-exams" component={MockExams} />
+      <ProtectedRoute path="/mock-exams/attempts/:attemptId" component={MockExam} />
       <ProtectedRoute path="/subscription" component={Subscription} />
       <ProtectedRoute path="/settings" component={Settings} />
       <ProtectedRoute path="/help-center" component={HelpCenter} />
@@ -46,9 +63,14 @@ function Router() {
       <AdminRoute path="/admin/topics" component={AdminTopics} />
       <AdminRoute path="/admin/chapters" component={AdminChapters} />
       <AdminRoute path="/admin/questions" component={AdminQuestions} />
+      <AdminRoute path="/admin/question-groups" component={AdminQuestionGroups} />
+      <AdminRoute path="/admin/learning-outcomes" component={AdminLearningOutcomes} />
+      <AdminRoute path="/admin/question-reports" component={AdminQuestionReports} />
       <AdminRoute path="/admin/practice-sets" component={AdminPracticeSets} />
+      <AdminRoute path="/admin/mock-exams" component={AdminMockExams} />
       <AdminRoute path="/admin/users" component={AdminUsers} />
       <AdminRoute path="/admin/student-analytics" component={StudentAnalytics} />
+      <AdminRoute path="/admin/jobs" component={AdminJobs} />
       <AdminRoute path="/admin/settings" component={Settings} />
       <AdminRoute path="/admin/help-center" component={HelpCenter} />
       
@@ -0,0 +1,316 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Chapter, PracticeSet, Question } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ArrowDown, ArrowUp, Plus, Save, Wand2, X } from "lucide-react";
+
+type PracticeSetQuestionsDialogProps = {
+  practiceSet: PracticeSet | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+const difficultyLabels: Record<number, string> = { 1: "Easy", 2: "Medium", 3: "Hard" };
+
+export function PracticeSetQuestionsDialog({ practiceSet, open, onOpenChange }: PracticeSetQuestionsDialogProps) {
+  const { toast } = useToast();
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [chapterFilter, setChapterFilter] = useState<string>("all");
+  const [difficultyFilter, setDifficultyFilter] = useState<string>("all");
+  const [search, setSearch] = useState("");
+  const [autoFillCount, setAutoFillCount] = useState<number>(10);
+
+  const { data: currentQuestions, isLoading } = useQuery<Question[]>({
+    queryKey: ["/api/practice-sets", practiceSet?.id, "questions"],
+    enabled: open && !!practiceSet,
+  });
+
+  const { data: allQuestions } = useQuery<Question[]>({
+    queryKey: ["/api/questions/all"],
+    enabled: open,
+    refetchOnWindowFocus: false,
+  });
+
+  const { data: chapters } = useQuery<Chapter[]>({
+    queryKey: ["/api/chapters/topic", practiceSet?.topicId],
+    enabled: open && !!practiceSet,
+  });
+
+  // Load the saved ordering whenever the dialog opens for a set
+  useEffect(() => {
+    if (open && currentQuestions) {
+      setSelectedIds(currentQuestions.map((q) => q.id));
+    }
+  }, [open, currentQuestions]);
+
+  useEffect(() => {
+    if (practiceSet) {
+      setAutoFillCount(practiceSet.questionCount || 10);
+      setChapterFilter("all");
+      setDifficultyFilter("all");
+      setSearch("");
+    }
+  }, [practiceSet]);
+
+  const saveQuestionsMutation = useMutation({
+    mutationFn: async (questionIds: number[]) => {
+      const res = await apiRequest("PUT", `/api/practice-sets/${practiceSet?.id}/questions`, { questionIds });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Practice set updated",
+        description: "The question list has been saved.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/practice-sets"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save questions",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const autoFillMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/practice-sets/${practiceSet?.id}/questions/auto-fill`, {
+        chapterId: chapterFilter !== "all" ? parseInt(chapterFilter) : null,
+        difficulty: difficultyFilter !== "all" ? parseInt(difficultyFilter) : null,
+        count: autoFillCount,
+      });
+      return res.json();
+    },
+    onSuccess: (questions: Question[]) => {
+      setSelectedIds(questions.map((q) => q.id));
+      toast({
+        title: "Practice set filled",
+        description: `${questions.length} questions were drawn from the question bank.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/practice-sets"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Auto-fill failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const questionsById = new Map((allQuestions || []).map((q) => [q.id, q]));
+  (currentQuestions || []).forEach((q) => questionsById.set(q.id, q));
+
+  const availableQuestions = (allQuestions || []).filter((q) =>
+    q.topicId === practiceSet?.topicId &&
+    !selectedIds.includes(q.id) &&
+    (chapterFilter === "all" || q.chapterId === parseInt(chapterFilter)) &&
+    (difficultyFilter === "all" || q.difficulty === parseInt(difficultyFilter)) &&
+    (!search || q.questionText.toLowerCase().includes(search.toLowerCase()))
+  );
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= selectedIds.length) return;
+    const next = [...selectedIds];
+    [next[index], next[target]] = [next[target], next[index]];
+    setSelectedIds(next);
+  };
+
+  const getChapterName = (chapterId: number | null) => {
+    return chapters?.find((c) => c.id === chapterId)?.name || "General";
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[960px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Questions in "{practiceSet?.name}"</DialogTitle>
+          <DialogDescription>
+            Pick questions by hand or auto-fill from the question bank. Students see them in this order.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Filters shared by the question picker and auto-fill */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 py-2">
+          <div className="grid gap-2">
+            <Label>Chapter</Label>
+            <Select value={chapterFilter} onValueChange={setChapterFilter}>
+              <SelectTrigger>
+                <SelectValue placeholder="All chapters" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All chapters</SelectItem>
+                {chapters?.map((chapter) => (
+                  <SelectItem key={chapter.id} value={chapter.id.toString()}>
+                    {chapter.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label>Difficulty</Label>
+            <Select value={difficultyFilter} onValueChange={setDifficultyFilter}>
+              <SelectTrigger>
+                <SelectValue placeholder="Any difficulty" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any difficulty</SelectItem>
+                <SelectItem value="1">Easy</SelectItem>
+                <SelectItem value="2">Medium</SelectItem>
+                <SelectItem value="3">Hard</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="autoFillCount">Auto-fill count</Label>
+            <Input
+              id="autoFillCount"
+              type="number"
+              min="1"
+              max="200"
+              value={autoFillCount}
+              onChange={(e) => setAutoFillCount(parseInt(e.target.value) || 1)}
+            />
+          </div>
+          <div className="flex items-end">
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => autoFillMutation.mutate()}
+              disabled={autoFillMutation.isPending}
+            >
+              <Wand2 className="mr-2 h-4 w-4" />
+              {autoFillMutation.isPending ? "Filling..." : "Auto-fill"}
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {/* Question bank */}
+          <div className="border rounded-md">
+            <div className="p-3 border-b">
+              <Input
+                placeholder="Search question text..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+            </div>
+            <div className="max-h-[400px] overflow-y-auto divide-y">
+              {availableQuestions.length === 0 ? (
+                <p className="p-4 text-sm text-muted-foreground">No more questions match these filters.</p>
+              ) : (
+                availableQuestions.map((question) => (
+                  <div key={question.id} className="flex items-start justify-between p-3 gap-2">
+                    <div className="text-sm">
+                      <p className="line-clamp-2">{question.questionText}</p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {getChapterName(question.chapterId)} • {difficultyLabels[question.difficulty] || "Unknown"}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setSelectedIds((prev) => [...prev, question.id])}
+                    >
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+
+          {/* Selected questions, in order */}
+          <div className="border rounded-md">
+            <div className="p-3 border-b flex items-center justify-between">
+              <span className="text-sm font-medium">Selected questions</span>
+              <Badge variant="secondary">{selectedIds.length}</Badge>
+            </div>
+            <div className="max-h-[400px] overflow-y-auto divide-y">
+              {isLoading ? (
+                <p className="p-4 text-sm text-muted-foreground">Loading...</p>
+              ) : selectedIds.length === 0 ? (
+                <p className="p-4 text-sm text-muted-foreground">This practice set has no questions yet.</p>
+              ) : (
+                selectedIds.map((questionId, index) => {
+                  const question = questionsById.get(questionId);
+                  return (
+                    <div key={questionId} className="flex items-start justify-between p-3 gap-2">
+                      <div className="text-sm flex">
+                        <span className="text-muted-foreground mr-2">{index + 1}.</span>
+                        <p className="line-clamp-2">{question?.questionText || `Question #${questionId}`}</p>
+                      </div>
+                      <div className="flex flex-shrink-0">
+                        <Button size="sm" variant="ghost" onClick={() => moveQuestion(index, -1)} disabled={index === 0}>
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => moveQuestion(index, 1)}
+                          disabled={index === selectedIds.length - 1}
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setSelectedIds((prev) => prev.filter((id) => id !== questionId))}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="mt-4">
+          <Button
+            onClick={() => saveQuestionsMutation.mutate(selectedIds)}
+            disabled={saveQuestionsMutation.isPending}
+          >
+            {saveQuestionsMutation.isPending ? (
+              <div className="flex items-center">
+                <div className="animate-spin mr-2 h-4 w-4 border-2 border-b-transparent border-white rounded-full"></div>
+                Saving...
+              </div>
+            ) : (
+              <div className="flex items-center">
+                <Save className="mr-2 h-4 w-4" />
+                Save Questions
+              </div>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
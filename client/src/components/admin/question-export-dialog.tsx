@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Chapter, Topic } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { Download } from "lucide-react";
+
+type QuestionExportDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+type ExportFormat = "csv" | "json" | "qti";
+
+export function QuestionExportDialog({ open, onOpenChange }: QuestionExportDialogProps) {
+  const { toast } = useToast();
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [topicId, setTopicId] = useState<string>("all");
+  const [chapterId, setChapterId] = useState<string>("all");
+  const [difficulty, setDifficulty] = useState<string>("all");
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const { data: topics } = useQuery<Topic[]>({
+    queryKey: ["/api/topics"],
+    enabled: open,
+  });
+
+  const { data: chapters } = useQuery<Chapter[]>({
+    queryKey: ["/api/chapters/topic", topicId],
+    enabled: open && topicId !== "all",
+  });
+
+  const handleTopicChange = (value: string) => {
+    setTopicId(value);
+    setChapterId("all");
+  };
+
+  // Fetch the file with the session cookie and hand it to the browser as a download
+  const handleDownload = async () => {
+    const params = new URLSearchParams({ format });
+    if (topicId !== "all") params.set("topic", topicId);
+    if (chapterId !== "all") params.set("chapter", chapterId);
+    if (difficulty !== "all") params.set("difficulty", difficulty);
+
+    setIsDownloading(true);
+    try {
+      const res = await fetch(`/api/questions/export?${params.toString()}`, { credentials: "include" });
+      if (!res.ok) {
+        throw new Error((await res.text()) || res.statusText);
+      }
+
+      const disposition = res.headers.get("Content-Disposition") || "";
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || `questions.${format === "qti" ? "zip" : format}`;
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Unable to export questions",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Export Questions</DialogTitle>
+          <DialogDescription>
+            Download the question bank for backup, sharing or loading into an LMS.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csv">CSV spreadsheet</SelectItem>
+                <SelectItem value="json">JSON bundle (topics, chapters and questions)</SelectItem>
+                <SelectItem value="qti">IMS QTI 2.1 package (.zip)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label>Topic</Label>
+            <Select value={topicId} onValueChange={handleTopicChange}>
+              <SelectTrigger>
+                <SelectValue placeholder="All topics" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All topics</SelectItem>
+                {topics?.map((topic) => (
+                  <SelectItem key={topic.id} value={topic.id.toString()}>
+                    {topic.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label>Chapter</Label>
+            <Select value={chapterId} onValueChange={setChapterId} disabled={topicId === "all"}>
+              <SelectTrigger>
+                <SelectValue placeholder="All chapters" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All chapters</SelectItem>
+                {chapters?.map((chapter) => (
+                  <SelectItem key={chapter.id} value={chapter.id.toString()}>
+                    {chapter.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label>Difficulty</Label>
+            <Select value={difficulty} onValueChange={setDifficulty}>
+              <SelectTrigger>
+                <SelectValue placeholder="Any difficulty" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any difficulty</SelectItem>
+                <SelectItem value="1">Easy</SelectItem>
+                <SelectItem value="2">Medium</SelectItem>
+                <SelectItem value="3">Hard</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleDownload} disabled={isDownloading}>
+            <Download className="mr-2 h-4 w-4" />
+            {isDownloading ? "Exporting..." : "Download"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
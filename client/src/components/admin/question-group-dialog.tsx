@@ -0,0 +1,413 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Chapter, Question, QuestionGroup, Topic } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { RichContentEditor } from "@/components/admin/rich-content-editor";
+import { ArrowDown, ArrowUp, Plus, Save, Trash } from "lucide-react";
+
+type QuestionGroupWithQuestions = QuestionGroup & { questions: Question[] };
+
+type ChildForm = {
+  id?: number;
+  key: string; // stable React key for questions not saved yet
+  questionText: string;
+  optionA: string;
+  optionB: string;
+  optionC: string;
+  optionD: string;
+  correctOption: string;
+  explanation: string;
+  difficulty: number;
+};
+
+type GroupForm = {
+  topicId: number;
+  chapterId: number | null;
+  title: string;
+  context: string;
+  exhibits: string;
+  contentFormat: "plain" | "markdown";
+};
+
+type QuestionGroupDialogProps = {
+  groupId: number | null; // null creates a new item set
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+const emptyGroup: GroupForm = {
+  topicId: 0,
+  chapterId: null,
+  title: "",
+  context: "",
+  exhibits: "",
+  contentFormat: "plain",
+};
+
+let nextChildKey = 0;
+
+function emptyChild(): ChildForm {
+  return {
+    key: `new-${nextChildKey++}`,
+    questionText: "",
+    optionA: "",
+    optionB: "",
+    optionC: "",
+    optionD: "",
+    correctOption: "A",
+    explanation: "",
+    difficulty: 2,
+  };
+}
+
+function toChildForm(question: Question): ChildForm {
+  return {
+    id: question.id,
+    key: `question-${question.id}`,
+    questionText: question.questionText,
+    optionA: question.optionA,
+    optionB: question.optionB,
+    optionC: question.optionC,
+    optionD: question.optionD || "",
+    correctOption: question.correctOption,
+    explanation: question.explanation,
+    difficulty: question.difficulty,
+  };
+}
+
+export function QuestionGroupDialog({ groupId, open, onOpenChange }: QuestionGroupDialogProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<GroupForm>(emptyGroup);
+  const [children, setChildren] = useState<ChildForm[]>([emptyChild()]);
+
+  const { data: topics } = useQuery<Topic[]>({
+    queryKey: ["/api/topics"],
+    enabled: open,
+  });
+
+  const { data: chapters } = useQuery<Chapter[]>({
+    queryKey: ["/api/chapters/topic", form.topicId],
+    enabled: open && !!form.topicId,
+  });
+
+  const { data: group, isLoading } = useQuery<QuestionGroupWithQuestions>({
+    queryKey: ["/api/question-groups", groupId],
+    enabled: open && groupId !== null,
+  });
+
+  // Load the item set being edited, or start from a blank one
+  useEffect(() => {
+    if (!open) return;
+    if (groupId === null) {
+      setForm(emptyGroup);
+      setChildren([emptyChild()]);
+    } else if (group) {
+      setForm({
+        topicId: group.topicId,
+        chapterId: group.chapterId,
+        title: group.title,
+        context: group.context,
+        exhibits: group.exhibits || "",
+        contentFormat: group.contentFormat === "markdown" ? "markdown" : "plain",
+      });
+      setChildren(group.questions.map(toChildForm));
+    }
+  }, [open, groupId, group]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        ...form,
+        exhibits: form.exhibits || null,
+        questions: children.map(({ key, optionD, ...child }) => ({
+          ...child,
+          optionD: optionD || null,
+        })),
+      };
+      const res = groupId === null
+        ? await apiRequest("POST", "/api/question-groups", payload)
+        : await apiRequest("PUT", `/api/question-groups/${groupId}`, payload);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: groupId === null ? "Item set created" : "Item set updated",
+        description: "The vignette and its questions have been saved.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/question-groups"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/questions/all"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save item set",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateChild = (index: number, changes: Partial<ChildForm>) => {
+    setChildren((prev) => prev.map((child, i) => (i === index ? { ...child, ...changes } : child)));
+  };
+
+  const moveChild = (index: number, direction: -1 | 1) => {
+    setChildren((prev) => {
+      const next = [...prev];
+      const target = index + direction;
+      if (target < 0 || target >= next.length) return prev;
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.topicId) {
+      toast({
+        title: "Topic required",
+        description: "Choose the topic this item set belongs to.",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{groupId === null ? "Add Item Set" : "Edit Item Set"}</DialogTitle>
+          <DialogDescription>
+            A vignette with exhibits, answered through several questions that students see side by side.
+          </DialogDescription>
+        </DialogHeader>
+
+        {groupId !== null && isLoading ? (
+          <p className="text-sm text-muted-foreground py-4">Loading item set...</p>
+        ) : (
+          <form onSubmit={handleSubmit} className="grid gap-4 py-2">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label>Topic</Label>
+                <Select
+                  value={form.topicId ? form.topicId.toString() : ""}
+                  onValueChange={(value) => setForm((prev) => ({ ...prev, topicId: parseInt(value), chapterId: null }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a topic" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {topics?.map((topic) => (
+                      <SelectItem key={topic.id} value={topic.id.toString()}>
+                        {topic.name} ({topic.level})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label>Chapter (Optional)</Label>
+                <Select
+                  value={form.chapterId?.toString() || ""}
+                  onValueChange={(value) => setForm((prev) => ({ ...prev, chapterId: value ? parseInt(value) : null }))}
+                  disabled={!form.topicId || !chapters?.length}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a chapter" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="">None</SelectItem>
+                    {chapters?.map((chapter) => (
+                      <SelectItem key={chapter.id} value={chapter.id.toString()}>
+                        {chapter.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="groupTitle">Title</Label>
+              <Input
+                id="groupTitle"
+                placeholder="e.g., Ridgeline Capital case"
+                value={form.title}
+                onChange={(e) => setForm((prev) => ({ ...prev, title: e.target.value }))}
+                required
+              />
+            </div>
+
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <Label htmlFor="groupContentFormat">Rich formatting</Label>
+                <p className="text-xs text-muted-foreground">
+                  Markdown with $LaTeX$ formulas, tables and images in the vignette and its questions
+                </p>
+              </div>
+              <Switch
+                id="groupContentFormat"
+                checked={form.contentFormat === "markdown"}
+                onCheckedChange={(checked) =>
+                  setForm((prev) => ({ ...prev, contentFormat: checked ? "markdown" : "plain" }))
+                }
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="groupContext">Vignette</Label>
+              <RichContentEditor
+                id="groupContext"
+                placeholder="The case text shared by every question in the set"
+                value={form.context}
+                onChange={(value) => setForm((prev) => ({ ...prev, context: value }))}
+                format={form.contentFormat}
+                rows={8}
+                required
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="groupExhibits">Exhibits (Optional)</Label>
+              <RichContentEditor
+                id="groupExhibits"
+                placeholder="Tables and figures referenced by the questions"
+                value={form.exhibits}
+                onChange={(value) => setForm((prev) => ({ ...prev, exhibits: value }))}
+                format={form.contentFormat}
+                rows={4}
+              />
+            </div>
+
+            <div className="flex items-center justify-between pt-2">
+              <h3 className="font-medium">Questions ({children.length})</h3>
+              <Button type="button" variant="outline" size="sm" onClick={() => setChildren((prev) => [...prev, emptyChild()])}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Question
+              </Button>
+            </div>
+
+            {children.map((child, index) => (
+              <div key={child.key} className="rounded-md border p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Question {index + 1}</span>
+                  <div className="flex gap-1">
+                    <Button type="button" variant="ghost" size="sm" onClick={() => moveChild(index, -1)} disabled={index === 0}>
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveChild(index, 1)}
+                      disabled={index === children.length - 1}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setChildren((prev) => prev.filter((_, i) => i !== index))}
+                      disabled={children.length === 1}
+                    >
+                      <Trash className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <RichContentEditor
+                  id={`questionText-${child.key}`}
+                  placeholder="Question text"
+                  value={child.questionText}
+                  onChange={(value) => updateChild(index, { questionText: value })}
+                  format={form.contentFormat}
+                  rows={2}
+                  required
+                />
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {(["A", "B", "C", "D"] as const).map((option) => (
+                    <Input
+                      key={option}
+                      placeholder={option === "D" ? "Option D (optional)" : `Option ${option}`}
+                      value={child[`option${option}`]}
+                      onChange={(e) => updateChild(index, { [`option${option}`]: e.target.value })}
+                      required={option !== "D"}
+                    />
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <Select value={child.correctOption} onValueChange={(value) => updateChild(index, { correctOption: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Correct option" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="A">Correct: A</SelectItem>
+                      <SelectItem value="B">Correct: B</SelectItem>
+                      <SelectItem value="C">Correct: C</SelectItem>
+                      {child.optionD && <SelectItem value="D">Correct: D</SelectItem>}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={child.difficulty.toString()}
+                    onValueChange={(value) => updateChild(index, { difficulty: parseInt(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Difficulty" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="1">Easy</SelectItem>
+                      <SelectItem value="2">Medium</SelectItem>
+                      <SelectItem value="3">Hard</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <RichContentEditor
+                  id={`explanation-${child.key}`}
+                  placeholder="Explanation of the correct answer"
+                  value={child.explanation}
+                  onChange={(value) => updateChild(index, { explanation: value })}
+                  format={form.contentFormat}
+                  rows={2}
+                  required
+                />
+              </div>
+            ))}
+
+            <DialogFooter>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                <Save className="mr-2 h-4 w-4" />
+                {saveMutation.isPending ? "Saving..." : "Save Item Set"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
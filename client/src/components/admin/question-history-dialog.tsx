@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Question, QuestionRevision } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { RotateCcw } from "lucide-react";
+
+type QuestionHistoryEntry = Omit<QuestionRevision, "createdAt"> & {
+  createdAt: string;
+  changedByName: string | null;
+  isCurrent: boolean;
+};
+
+type QuestionHistoryDialogProps = {
+  question: Question | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+const fieldLabels: Record<string, string> = {
+  topicId: "Topic",
+  chapterId: "Chapter",
+  subtopic: "Subtopic",
+  questionText: "Question",
+  context: "Context",
+  optionA: "Option A",
+  optionB: "Option B",
+  optionC: "Option C",
+  optionD: "Option D",
+  correctOption: "Correct option",
+  explanation: "Explanation",
+  difficulty: "Difficulty",
+  contentFormat: "Format",
+  level: "Level",
+};
+
+const changeTypeLabels: Record<string, string> = {
+  create: "Created",
+  update: "Edited",
+  restore: "Restored",
+};
+
+function formatValue(value: unknown) {
+  return value === null || value === undefined || value === "" ? "—" : String(value);
+}
+
+export function QuestionHistoryDialog({ question, open, onOpenChange }: QuestionHistoryDialogProps) {
+  const { toast } = useToast();
+  const [selectedRevision, setSelectedRevision] = useState<number | null>(null);
+
+  const { data: history, isLoading } = useQuery<QuestionHistoryEntry[]>({
+    queryKey: ["/api/questions", question?.id, "revisions"],
+    enabled: open && !!question,
+  });
+
+  // Start on the latest revision each time the dialog opens
+  useEffect(() => {
+    if (open && history?.length) {
+      setSelectedRevision(history[0].revision);
+    }
+  }, [open, history]);
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revision: number) => {
+      const res = await apiRequest("POST", `/api/questions/${question?.id}/revisions/${revision}/restore`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Revision restored",
+        description: "The question now matches the selected revision.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/questions/all"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/questions", question?.id, "revisions"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to restore revision",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selected = history?.find((entry) => entry.revision === selectedRevision);
+  const previous = history?.find((entry) => selected && entry.revision === selected.revision - 1);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Question History</DialogTitle>
+          <DialogDescription>
+            Every change to this question is kept as a revision. Restoring creates a new revision.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground py-4">Loading history...</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-2">
+            {/* Revision list */}
+            <div className="border rounded-md divide-y max-h-[500px] overflow-y-auto">
+              {history?.map((entry) => (
+                <button
+                  key={entry.id}
+                  type="button"
+                  className={`w-full text-left p-3 text-sm hover:bg-muted ${entry.revision === selectedRevision ? "bg-muted" : ""}`}
+                  onClick={() => setSelectedRevision(entry.revision)}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">Revision {entry.revision}</span>
+                    {entry.isCurrent && <Badge variant="correct">Current</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {changeTypeLabels[entry.changeType] || entry.changeType}
+                    {entry.restoredFromRevision ? ` from revision ${entry.restoredFromRevision}` : ""}
+                    {" by "}{entry.changedByName || "system"}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(entry.createdAt).toLocaleString()}
+                  </p>
+                </button>
+              ))}
+            </div>
+
+            {/* Diff against the revision before it */}
+            <div className="md:col-span-2 space-y-3">
+              {selected && (
+                <>
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-medium">
+                      {previous ? `Changes from revision ${previous.revision}` : "Original content"}
+                    </h3>
+                    {!selected.isCurrent && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => restoreMutation.mutate(selected.revision)}
+                        disabled={restoreMutation.isPending}
+                      >
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                        {restoreMutation.isPending ? "Restoring..." : "Restore this revision"}
+                      </Button>
+                    )}
+                  </div>
+
+                  {(previous ? selected.changedFields : Object.keys(fieldLabels)).map((field) => {
+                    const after = selected.snapshot[field as keyof typeof selected.snapshot];
+                    const before = previous?.snapshot[field as keyof typeof previous.snapshot];
+                    return (
+                      <div key={field} className="border rounded-md p-3 text-sm">
+                        <p className="font-medium mb-1">{fieldLabels[field] || field}</p>
+                        {previous && (
+                          <p className="bg-red-50 dark:bg-red-950/20 line-through text-muted-foreground p-2 rounded mb-1 whitespace-pre-wrap">
+                            {formatValue(before)}
+                          </p>
+                        )}
+                        <p className={`p-2 rounded whitespace-pre-wrap ${previous ? "bg-green-50 dark:bg-green-950/20" : ""}`}>
+                          {formatValue(after)}
+                        </p>
+                      </div>
+                    );
+                  })}
+
+                  {previous && selected.changedFields.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No content changes in this revision.</p>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Upload } from "lucide-react";
+
+type ImportRowResult = {
+  row: number;
+  status: "valid" | "invalid" | "duplicate";
+  questionText: string;
+  topic: string;
+  chapter: string | null;
+  errors: { field: string; message: string }[];
+};
+
+type ImportReport = {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  duplicates: number;
+  imported: number;
+  rows: ImportRowResult[];
+};
+
+type QuestionImportDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+type ImportFile = {
+  name: string;
+  format: "csv" | "json";
+  content: string;
+};
+
+export function QuestionImportDialog({ open, onOpenChange }: QuestionImportDialogProps) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const importMutation = useMutation({
+    mutationFn: async ({ importFile, dryRun }: { importFile: ImportFile; dryRun: boolean }) => {
+      const res = await apiRequest("POST", "/api/questions/import", {
+        format: importFile.format,
+        content: importFile.content,
+        dryRun,
+      });
+      return res.json() as Promise<ImportReport>;
+    },
+    onSuccess: (result: ImportReport) => {
+      setReport(result);
+      if (!result.dryRun) {
+        toast({
+          title: "Questions imported",
+          description: `${result.imported} questions were added to the question bank.`,
+        });
+        queryClient.invalidateQueries({ queryKey: ["/api/questions/all"] });
+        handleOpenChange(false);
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setFile(null);
+      setReport(null);
+    }
+    onOpenChange(isOpen);
+  };
+
+  // Read the file in the browser and run a dry run straight away
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+
+    const format = selected.name.toLowerCase().endsWith(".json") ? "json" : "csv";
+    const importFile = { name: selected.name, format, content: await selected.text() } as ImportFile;
+    setFile(importFile);
+    setReport(null);
+    importMutation.mutate({ importFile, dryRun: true });
+  };
+
+  const getStatusBadge = (status: ImportRowResult["status"]) => {
+    switch (status) {
+      case "valid":
+        return <Badge variant="correct">Valid</Badge>;
+      case "duplicate":
+        return <Badge variant="secondary">Duplicate</Badge>;
+      default:
+        return <Badge variant="incorrect">Invalid</Badge>;
+    }
+  };
+
+  // Problem rows first so they're visible without scrolling
+  const sortedRows = report
+    ? [...report.rows].sort((a, b) => Number(a.status === "valid") - Number(b.status === "valid") || a.row - b.row)
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Questions</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or JSON file with columns topic, chapter, subtopic, questionText, context,
+            optionA-optionD, correctOption, explanation, difficulty and optionally contentFormat (plain or markdown)
+            and level (Level I, II or III). Topics and chapters are matched by name within the level; without a
+            level, questions take their topic's level. Rows that share an itemSet value are imported as one
+            item set, with the vignette in context and optional itemSetTitle and exhibits columns.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-2 py-2">
+          <Label htmlFor="importFile">File</Label>
+          <Input id="importFile" type="file" accept=".csv,.json" onChange={handleFileChange} />
+        </div>
+
+        {importMutation.isPending && !report && (
+          <p className="text-sm text-muted-foreground">Checking {file?.name}...</p>
+        )}
+
+        {report && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">{report.total} rows</Badge>
+              <Badge variant="correct">{report.valid} valid</Badge>
+              <Badge variant="incorrect">{report.invalid} invalid</Badge>
+              <Badge variant="secondary">{report.duplicates} duplicates</Badge>
+            </div>
+
+            <div className="border rounded-md max-h-[400px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[60px]">Row</TableHead>
+                    <TableHead className="w-[100px]">Status</TableHead>
+                    <TableHead>Question</TableHead>
+                    <TableHead>Problems</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sortedRows.map((row) => (
+                    <TableRow key={row.row}>
+                      <TableCell>{row.row}</TableCell>
+                      <TableCell>{getStatusBadge(row.status)}</TableCell>
+                      <TableCell>
+                        <p className="line-clamp-2 text-sm">{row.questionText || "—"}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {[row.topic, row.chapter].filter(Boolean).join(" • ")}
+                        </p>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {row.errors.map((error, index) => (
+                          <p key={index}>
+                            <span className="font-medium">{error.field}:</span> {error.message}
+                          </p>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="mt-4">
+          <Button
+            onClick={() => file && importMutation.mutate({ importFile: file, dryRun: false })}
+            disabled={!file || !report || report.valid === 0 || importMutation.isPending}
+          >
+            {importMutation.isPending && report ? (
+              <div className="flex items-center">
+                <div className="animate-spin mr-2 h-4 w-4 border-2 border-b-transparent border-white rounded-full"></div>
+                Importing...
+              </div>
+            ) : (
+              <div className="flex items-center">
+                <Upload className="mr-2 h-4 w-4" />
+                Import {report?.valid ?? 0} Valid Questions
+              </div>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,134 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { RichContent } from "@/components/practice/rich-content";
+import { useToast } from "@/hooks/use-toast";
+import { ImagePlus, Sigma, Table } from "lucide-react";
+
+const TABLE_TEMPLATE = "\n| Year | Cash flow |\n| --- | --- |\n| 1 | 100 |\n| 2 | 110 |\n";
+const FORMULA_TEMPLATE = "$PV = \\frac{FV}{(1 + r)^n}$";
+
+type RichContentEditorProps = {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  format: string;
+  placeholder?: string;
+  rows?: number;
+  required?: boolean;
+};
+
+async function uploadImage(file: File): Promise<string> {
+  const res = await fetch("/api/uploads/images", {
+    method: "POST",
+    headers: { "Content-Type": file.type || "application/octet-stream" },
+    body: file,
+    credentials: "include",
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.message || res.statusText);
+  }
+  return data.url;
+}
+
+/**
+ * Textarea for question content. In Markdown mode it adds shortcuts for
+ * formulas, tables and image uploads, and a live preview underneath.
+ */
+export function RichContentEditor({
+  id,
+  value,
+  onChange,
+  format,
+  placeholder,
+  rows = 3,
+  required,
+}: RichContentEditorProps) {
+  const { toast } = useToast();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const isMarkdown = format === "markdown";
+
+  // Insert at the cursor, or append when the textarea hasn't been focused
+  const insertText = (text: string) => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? value.length;
+    const end = textarea?.selectionEnd ?? value.length;
+    onChange(value.slice(0, start) + text + value.slice(end));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const url = await uploadImage(file);
+      const alt = file.name.replace(/\.[^.]+$/, "").replace(/[[\]]/g, "");
+      insertText(`![${alt}](${url})`);
+    } catch (error) {
+      toast({
+        title: "Image upload failed",
+        description: error instanceof Error ? error.message : "Unable to upload image",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="grid gap-2">
+      {isMarkdown && (
+        <div className="flex flex-wrap gap-1">
+          <Button type="button" variant="outline" size="sm" onClick={() => insertText(FORMULA_TEMPLATE)}>
+            <Sigma className="mr-1 h-4 w-4" />
+            Formula
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={() => insertText(TABLE_TEMPLATE)}>
+            <Table className="mr-1 h-4 w-4" />
+            Table
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+          >
+            <ImagePlus className="mr-1 h-4 w-4" />
+            {isUploading ? "Uploading..." : "Image"}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/png,image/jpeg,image/gif,image/webp"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+        </div>
+      )}
+
+      <Textarea
+        ref={textareaRef}
+        id={id}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        rows={rows}
+        required={required}
+        className={isMarkdown ? "font-mono text-sm" : undefined}
+      />
+
+      {isMarkdown && value.trim() && (
+        <div className="rounded-md border bg-muted/30 p-3">
+          <p className="text-xs font-medium text-muted-foreground mb-1">Preview</p>
+          <RichContent content={value} format={format} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+
+type MasteryStatus = 'not_started' | 'learning' | 'proficient' | 'mastered';
+
+interface LearningOutcomeMasteryRow {
+  id: number;
+  code: string;
+  statement: string;
+  order: number;
+  topicId: number;
+  topicName: string;
+  chapterId: number;
+  chapterName: string;
+  questionCount: number;
+  answered: number;
+  correct: number;
+  accuracy: number | null;
+  status: MasteryStatus;
+}
+
+const statusLabels: Record<MasteryStatus, { label: string; className: string }> = {
+  not_started: { label: 'Not started', className: 'bg-neutral-100 text-neutral-500' },
+  learning: { label: 'Learning', className: 'bg-red-50 text-red-600' },
+  proficient: { label: 'Proficient', className: 'bg-amber-50 text-amber-600' },
+  mastered: { label: 'Mastered', className: 'bg-green-50 text-green-600' },
+};
+
+export function LearningOutcomeMastery() {
+  const { data: outcomes, isLoading } = useQuery<LearningOutcomeMasteryRow[]>({
+    queryKey: ['/api/learning-outcomes/mastery'],
+  });
+
+  // Group outcomes under their chapter, keeping curriculum order
+  const chapters: { chapterId: number; title: string; outcomes: LearningOutcomeMasteryRow[] }[] = [];
+  (outcomes || [])
+    .slice()
+    .sort((a, b) =>
+      a.topicName.localeCompare(b.topicName) ||
+      a.chapterId - b.chapterId ||
+      a.order - b.order
+    )
+    .forEach(outcome => {
+      let chapter = chapters.find(c => c.chapterId === outcome.chapterId);
+      if (!chapter) {
+        chapter = { chapterId: outcome.chapterId, title: `${outcome.topicName} · ${outcome.chapterName}`, outcomes: [] };
+        chapters.push(chapter);
+      }
+      chapter.outcomes.push(outcome);
+    });
+
+  const mastered = (outcomes || []).filter(o => o.status === 'mastered').length;
+
+  return (
+    <Card className="mb-8">
+      <CardContent className="pt-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-medium text-neutral-800">Learning Outcome Mastery</h3>
+          {outcomes && outcomes.length > 0 && (
+            <p className="text-sm text-neutral-500">{mastered} of {outcomes.length} mastered</p>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : chapters.length === 0 ? (
+          <p className="text-neutral-400 text-center py-8">No learning outcomes have been tagged for your level yet</p>
+        ) : (
+          <div className="space-y-6">
+            {chapters.map(chapter => (
+              <div key={chapter.chapterId}>
+                <p className="text-sm font-medium text-neutral-600 mb-2">{chapter.title}</p>
+                <div className="divide-y divide-neutral-100">
+                  {chapter.outcomes.map(outcome => (
+                    <div key={outcome.id} className="py-2 flex items-center gap-4">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-neutral-800">
+                          <span className="font-medium">{outcome.code}</span> {outcome.statement}
+                        </p>
+                        <p className="text-xs text-neutral-400">
+                          {outcome.answered}/{outcome.questionCount} questions answered
+                        </p>
+                      </div>
+                      <div className="w-32 hidden md:block">
+                        <Progress value={outcome.accuracy ?? 0} className="w-full h-2" />
+                      </div>
+                      <span className="w-12 text-right text-sm font-medium">
+                        {outcome.accuracy === null ? '-' : `${outcome.accuracy}%`}
+                      </span>
+                      <Badge variant="outline" className={`w-24 justify-center ${statusLabels[outcome.status].className}`}>
+                        {statusLabels[outcome.status].label}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
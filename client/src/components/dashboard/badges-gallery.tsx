@@ -0,0 +1,99 @@
+import React from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import {
+  Award,
+  CheckCircle,
+  Crosshair,
+  Flame,
+  Footprints,
+  GraduationCap,
+  Lock,
+  Scale,
+  Target,
+  Zap,
+  type LucideIcon,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+// What /api/badges returns for each badge in the catalogue
+export type BadgeStatus = {
+  key: string;
+  name: string;
+  description: string;
+  icon: string;
+  earnedAt: string | null;
+};
+
+type BadgesGalleryProps = {
+  badges: BadgeStatus[];
+};
+
+const badgeIcons: Record<string, LucideIcon> = {
+  CheckCircle,
+  Crosshair,
+  Flame,
+  Footprints,
+  GraduationCap,
+  Scale,
+  Target,
+  Zap,
+};
+
+export function BadgesGallery({ badges }: BadgesGalleryProps) {
+  const earnedCount = badges.filter(badge => badge.earnedAt).length;
+
+  return (
+    <Card className="mb-8">
+      <CardContent className="pt-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-neutral-800">Badges</h3>
+          <span className="text-sm text-neutral-400">{earnedCount} of {badges.length} earned</span>
+        </div>
+        <TooltipProvider>
+          <div className="grid grid-cols-3 sm:grid-cols-5 lg:grid-cols-9 gap-4">
+            {badges.map(badge => {
+              const Icon = badgeIcons[badge.icon] || Award;
+              const earned = !!badge.earnedAt;
+              return (
+                <Tooltip key={badge.key}>
+                  <TooltipTrigger asChild>
+                    <div className="flex flex-col items-center text-center">
+                      <div
+                        className={cn(
+                          'relative w-14 h-14 flex items-center justify-center rounded-full mb-2',
+                          earned ? 'bg-[#FF9800] bg-opacity-10' : 'bg-neutral-100'
+                        )}
+                      >
+                        <Icon className={cn('h-6 w-6', earned ? 'text-[#FF9800]' : 'text-neutral-300')} />
+                        {!earned && (
+                          <Lock className="absolute -bottom-1 -right-1 h-4 w-4 text-neutral-400 bg-white rounded-full p-0.5" />
+                        )}
+                      </div>
+                      <p className={cn('text-xs font-medium', earned ? 'text-neutral-800' : 'text-neutral-400')}>
+                        {badge.name}
+                      </p>
+                    </div>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>{badge.description}</p>
+                    {badge.earnedAt && (
+                      <p className="text-xs text-neutral-400">
+                        Earned {new Date(badge.earnedAt).toLocaleDateString()}
+                      </p>
+                    )}
+                  </TooltipContent>
+                </Tooltip>
+              );
+            })}
+          </div>
+        </TooltipProvider>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,20 +2,45 @@ import React from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { PieChart, BarChart, Clock } from 'lucide-react';
 
+// What /api/streak returns
+export type StreakSummary = {
+  currentStreak: number;
+  longestStreak: number;
+  freezes: number;
+  maxFreezes: number;
+  dailyGoal: number;
+  todayAnswered: number;
+  studiedToday: boolean;
+  recentDays: Array<{
+    date: string;
+    questionsAnswered: number;
+    isActive: boolean;
+    isFrozen: boolean;
+  }>;
+};
+
 type ProgressSummaryProps = {
   overallProgress: {
     percentage: number;
     completed: number;
     total: number;
   };
-  streakDays: number;
+  streak: {
+    current: number;
+    longest: number;
+    freezes: number;
+    todayAnswered: number;
+    dailyGoal: number;
+  };
   averageScore: {
     percentage: number;
     change: number;
   };
 };
 
-export function ProgressSummary({ overallProgress, streakDays, averageScore }: ProgressSummaryProps) {
+export function ProgressSummary({ overallProgress, streak, averageScore }: ProgressSummaryProps) {
+  const goalMet = streak.dailyGoal > 0 && streak.todayAnswered >= streak.dailyGoal;
+
   return (
     <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
       {/* Overall Progress Card */}
@@ -62,12 +87,23 @@ export function ProgressSummary({ overallProgress, streakDays, averageScore }: P
             <span className="text-[#FF9800]">🔥</span>
           </div>
           <div className="flex items-center">
-            <div className="text-3xl font-bold text-[#FF9800] mr-4">{streakDays}</div>
+            <div className="text-3xl font-bold text-[#FF9800] mr-4">{streak.current}</div>
             <div>
-              <p className="text-sm text-neutral-400">Consecutive days</p>
-              <p className="text-sm font-medium mt-1">Keep going!</p>
+              <p className="text-sm text-neutral-400">Consecutive days · best {streak.longest}</p>
+              <p className="text-sm font-medium mt-1">
+                {streak.dailyGoal === 0
+                  ? 'Keep going!'
+                  : goalMet
+                    ? "Today's goal done. Keep going!"
+                    : `${streak.todayAnswered} of ${streak.dailyGoal} questions today`}
+              </p>
             </div>
           </div>
+          {streak.freezes > 0 && (
+            <p className="text-xs text-neutral-400 mt-3">
+              ❄️ {streak.freezes} streak freeze{streak.freezes === 1 ? '' : 's'} banked to cover a missed day
+            </p>
+          )}
         </CardContent>
       </Card>
 
@@ -6,18 +6,28 @@ import { Link } from 'wouter';
 
 type PracticeSet = {
   id: number;
+  type: 'practice_set' | 'chapter';
   name: string;
   topic: string;
   topicId: number;
+  chapterId: number | null;
   questions: number;
   duration: number;
   status: 'new' | 'needs_review' | null;
+  reason: string;
 };
 
 type RecommendedSetsProps = {
   sets: PracticeSet[];
 };
 
+// Chapters open as a chapter-scoped sitting, sets run their own question list
+function getPracticeUrl(set: PracticeSet) {
+  return set.type === 'chapter'
+    ? `/practice/${set.topicId}?chapter=${set.chapterId}`
+    : `/practice/set/${set.id}`;
+}
+
 export function RecommendedSets({ sets }: RecommendedSetsProps) {
   const getBorderColor = (status: PracticeSet['status']) => {
     switch (status) {
@@ -58,7 +68,7 @@ export function RecommendedSets({ sets }: RecommendedSetsProps) {
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         {sets.map((set) => (
           <Card
-            key={set.id}
+            key={`${set.type}-${set.id}`}
             className={`p-5 border-l-4 ${getBorderColor(set.status)}`}
           >
             <div className="flex justify-between items-start">
@@ -71,8 +81,11 @@ export function RecommendedSets({ sets }: RecommendedSetsProps) {
                 </Badge>
                 <h4 className="text-base font-medium mt-2">{set.name}</h4>
                 <p className="text-sm text-neutral-400 mt-1">{set.questions} questions • ~{set.duration} min</p>
+                {set.reason && (
+                  <p className="text-xs text-neutral-500 mt-2">{set.reason}</p>
+                )}
               </div>
-              <Link href={`/practice/${set.topicId}?set=${set.id}`}>
+              <Link href={getPracticeUrl(set)}>
                 <div className="mt-1 text-primary hover:text-primary-dark cursor-pointer">
                   <Play />
                 </div>
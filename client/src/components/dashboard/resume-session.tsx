@@ -0,0 +1,88 @@
+import React from 'react';
+import { useLocation } from 'wouter';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { PlayCircle } from 'lucide-react';
+
+export type ActivePracticeSession = {
+  id: number;
+  mode: string;
+  topicId: number | null;
+  chapterId: number | null;
+  topicName: string | null;
+  chapterName: string | null;
+  practiceSetId: number | null;
+  practiceSetName: string | null;
+  answeredCount: number;
+  totalQuestions: number;
+  lastActivityAt: string;
+};
+
+type ResumeSessionProps = {
+  session: ActivePracticeSession;
+};
+
+// Build the practice URL that reopens a session where it stopped
+function getResumeUrl(session: ActivePracticeSession) {
+  if (session.mode === 'review') {
+    return `/practice/review?session=${session.id}`;
+  }
+  if (session.mode === 'set') {
+    return `/practice/set/${session.practiceSetId}?session=${session.id}`;
+  }
+  if (session.mode === 'bookmarks') {
+    const topicParam = session.topicId ? `topic=${session.topicId}&` : '';
+    return `/practice/bookmarks?${topicParam}session=${session.id}`;
+  }
+  if (session.mode === 'mistakes') {
+    return `/practice/mistakes?session=${session.id}`;
+  }
+  if (session.mode === 'adaptive') {
+    return `/practice/${session.topicId}?mode=adaptive&session=${session.id}`;
+  }
+  const chapterParam = session.chapterId ? `chapter=${session.chapterId}&` : '';
+  return `/practice/${session.topicId}?${chapterParam}session=${session.id}`;
+}
+
+export function ResumeSession({ session }: ResumeSessionProps) {
+  const [, setLocation] = useLocation();
+
+  const title = session.mode === 'review'
+    ? 'Review due questions'
+    : session.mode === 'set'
+    ? session.practiceSetName || 'Practice set'
+    : session.mode === 'bookmarks'
+    ? 'Bookmarked questions'
+    : session.mode === 'mistakes'
+    ? 'Past mistakes'
+    : session.mode === 'adaptive'
+    ? `${session.topicName || 'Topic'} • Adaptive`
+    : [session.topicName, session.chapterName].filter(Boolean).join(' • ') || 'Practice session';
+  const percentage = session.totalQuestions > 0
+    ? Math.round((session.answeredCount / session.totalQuestions) * 100)
+    : 0;
+
+  return (
+    <Card className="mb-8 border-primary/30">
+      <CardContent className="pt-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex-1">
+            <p className="text-sm text-neutral-400">Resume where you left off</p>
+            <h3 className="text-lg font-medium text-neutral-800">{title}</h3>
+            <div className="flex items-center mt-2">
+              <Progress value={percentage} className="h-2 w-48 mr-3" />
+              <span className="text-sm text-neutral-500">
+                {session.answeredCount} of {session.totalQuestions} answered
+              </span>
+            </div>
+          </div>
+          <Button onClick={() => setLocation(getResumeUrl(session))}>
+            <PlayCircle className="mr-2 h-5 w-5" />
+            Resume
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
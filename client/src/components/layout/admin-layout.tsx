@@ -11,7 +11,12 @@ import {
   Layers,
   FileText,
   BarChart,
-  Users
+  Users,
+  ClipboardList,
+  Flag,
+  FileStack,
+  Target,
+  Timer
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
@@ -37,9 +42,14 @@ export function AdminLayout({ children }: AdminLayoutProps) {
     { path: '/admin/topics', label: 'Topics', icon: <BookOpen className="h-5 w-5 mr-2" /> },
     { path: '/admin/chapters', label: 'Chapters', icon: <FileText className="h-5 w-5 mr-2" /> },
     { path: '/admin/questions', label: 'Questions', icon: <HelpCircle className="h-5 w-5 mr-2" /> },
+    { path: '/admin/question-groups', label: 'Item Sets', icon: <FileStack className="h-5 w-5 mr-2" /> },
+    { path: '/admin/learning-outcomes', label: 'Learning Outcomes', icon: <Target className="h-5 w-5 mr-2" /> },
+    { path: '/admin/question-reports', label: 'Question Reports', icon: <Flag className="h-5 w-5 mr-2" /> },
     { path: '/admin/practice-sets', label: 'Practice Sets', icon: <Layers className="h-5 w-5 mr-2" /> },
+    { path: '/admin/mock-exams', label: 'Mock Exams', icon: <ClipboardList className="h-5 w-5 mr-2" /> },
     { path: '/admin/users', label: 'Users', icon: <User className="h-5 w-5 mr-2" /> },
     { path: '/admin/student-analytics', label: 'Student Analytics', icon: <BarChart className="h-5 w-5 mr-2" /> },
+    { path: '/admin/jobs', label: 'Scheduled Jobs', icon: <Timer className="h-5 w-5 mr-2" /> },
   ];
 
   return (
@@ -17,7 +17,12 @@ import {
   ChevronDown, 
   X, 
   Plus,
-  CreditCard
+  CreditCard,
+  ClipboardList,
+  RotateCcw,
+  Gauge,
+  Bookmark,
+  NotebookTabs
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/use-auth';
@@ -285,6 +290,50 @@ export function SideNavigation({ topics, user, activeTopic }: SideNavigationProp
                       </div>
                     </div>
                   </Link>
+                  <Link href="/practice/review">
+                    <div className={cn(
+                      "block px-4 py-2 text-sm text-neutral-800 hover:bg-neutral-100 cursor-pointer",
+                      location === "/practice/review" && "bg-neutral-100"
+                    )}>
+                      <div className="flex items-center">
+                        <RotateCcw className="h-5 w-5 text-neutral-400 mr-3" />
+                        Review Due
+                      </div>
+                    </div>
+                  </Link>
+                  <Link href="/bookmarks">
+                    <div className={cn(
+                      "block px-4 py-2 text-sm text-neutral-800 hover:bg-neutral-100 cursor-pointer",
+                      location === "/bookmarks" && "bg-neutral-100"
+                    )}>
+                      <div className="flex items-center">
+                        <Bookmark className="h-5 w-5 text-neutral-400 mr-3" />
+                        My Bookmarks
+                      </div>
+                    </div>
+                  </Link>
+                  <Link href="/mistakes">
+                    <div className={cn(
+                      "block px-4 py-2 text-sm text-neutral-800 hover:bg-neutral-100 cursor-pointer",
+                      location === "/mistakes" && "bg-neutral-100"
+                    )}>
+                      <div className="flex items-center">
+                        <NotebookTabs className="h-5 w-5 text-neutral-400 mr-3" />
+                        Mistake Notebook
+                      </div>
+                    </div>
+                  </Link>
+                  <Link href="/mock-exams">
+                    <div className={cn(
+                      "block px-4 py-2 text-sm text-neutral-800 hover:bg-neutral-100 cursor-pointer",
+                      location.startsWith("/mock-exams") && "bg-neutral-100"
+                    )}>
+                      <div className="flex items-center">
+                        <ClipboardList className="h-5 w-5 text-neutral-400 mr-3" />
+                        Mock Exams
+                      </div>
+                    </div>
+                  </Link>
                 </div>
               </div>
               
@@ -375,6 +424,14 @@ export function SideNavigation({ topics, user, activeTopic }: SideNavigationProp
                       {/* Chapters for this topic */}
                       {expandedTopics[topic.id] && (
                         <div className="pl-6 pr-4 py-1 bg-neutral-50">
+                          {user.role !== 'admin' && (
+                            <Link href={`/practice/${topic.id}?mode=adaptive`}>
+                              <div className="flex items-center py-2 px-2 text-sm font-medium text-primary hover:bg-neutral-100 rounded cursor-pointer">
+                                <Gauge className="h-4 w-4 mr-2" />
+                                Adaptive practice
+                              </div>
+                            </Link>
+                          )}
                           {chaptersMap[topic.id]?.length > 0 ? (
                             <>
                               {chaptersMap[topic.id].map((chapter) => (
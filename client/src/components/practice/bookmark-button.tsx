@@ -0,0 +1,67 @@
+import React from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { cn } from '@/lib/utils';
+import { Bookmark } from 'lucide-react';
+
+export type QuestionAnnotations = {
+  bookmarked: boolean;
+  note: string | null;
+};
+
+// Refetch the bookmarks page after a bookmark or note changes
+export const invalidateBookmarks = () => {
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith('/api/bookmarks'),
+  });
+};
+
+type BookmarkButtonProps = {
+  questionId: number;
+};
+
+export function BookmarkButton({ questionId }: BookmarkButtonProps) {
+  const { toast } = useToast();
+  const annotationsKey = [`/api/questions/${questionId}/annotations`];
+
+  const { data: annotations } = useQuery<QuestionAnnotations>({
+    queryKey: annotationsKey,
+  });
+  const isBookmarked = !!annotations?.bookmarked;
+
+  const bookmarkMutation = useMutation({
+    mutationFn: async (bookmark: boolean) => {
+      await apiRequest(bookmark ? 'PUT' : 'DELETE', `/api/questions/${questionId}/bookmark`);
+      return bookmark;
+    },
+    onSuccess: (bookmark) => {
+      queryClient.setQueryData<QuestionAnnotations>(annotationsKey, (current) => ({
+        note: current?.note ?? null,
+        bookmarked: bookmark,
+      }));
+      invalidateBookmarks();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Could not update bookmark',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => bookmarkMutation.mutate(!isBookmarked)}
+      disabled={bookmarkMutation.isPending}
+      className={cn(isBookmarked ? 'text-primary' : 'text-neutral-500')}
+    >
+      <Bookmark className={cn('mr-1 h-4 w-4', isBookmarked && 'fill-current')} />
+      {isBookmarked ? 'Bookmarked' : 'Bookmark'}
+    </Button>
+  );
+}
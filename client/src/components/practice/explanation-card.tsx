@@ -1,20 +1,36 @@
 import React from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { CheckCircle } from 'lucide-react';
+import { ReportIssueButton } from './report-issue-button';
+import { QuestionNoteEditor } from './question-note-editor';
+import { RichContent } from './rich-content';
 
 type ExplanationCardProps = {
   correctOption: string;
   explanation: string;
+  contentFormat?: string;
   selectedOption: string;
+  questionId?: number; // shows a "Report an issue" action when set
+  noteQuestionId?: number; // shows the student's note editor when set
 };
 
-export function ExplanationCard({ correctOption, explanation, selectedOption }: ExplanationCardProps) {
+export function ExplanationCard({
+  correctOption,
+  explanation,
+  contentFormat = 'plain',
+  selectedOption,
+  questionId,
+  noteQuestionId,
+}: ExplanationCardProps) {
   const isCorrect = selectedOption === correctOption;
 
   return (
     <Card className="mb-6">
       <CardContent className="pt-6">
-        <h3 className="text-lg font-medium text-neutral-800 mb-4">Explanation</h3>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-neutral-800">Explanation</h3>
+          {questionId && <ReportIssueButton questionId={questionId} />}
+        </div>
         
         <div className="p-4 bg-[#4CAF50] bg-opacity-10 rounded-lg mb-4 flex items-start">
           <CheckCircle className="text-[#4CAF50] mr-3" />
@@ -26,11 +42,17 @@ export function ExplanationCard({ correctOption, explanation, selectedOption }:
           </div>
         </div>
         
-        <div className="text-neutral-600">
-          {explanation.split('\n').map((paragraph, i) => (
-            <p key={i} className="mb-3">{paragraph}</p>
-          ))}
-        </div>
+        {contentFormat === 'markdown' ? (
+          <RichContent content={explanation} format={contentFormat} className="text-neutral-600" />
+        ) : (
+          <div className="text-neutral-600">
+            {explanation.split('\n').map((paragraph, i) => (
+              <p key={i} className="mb-3">{paragraph}</p>
+            ))}
+          </div>
+        )}
+
+        {noteQuestionId && <QuestionNoteEditor questionId={noteQuestionId} />}
       </CardContent>
     </Card>
   );
@@ -4,6 +4,10 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { QuestionOption } from './question-option';
 import { ExplanationCard } from './explanation-card';
+import { ReportIssueButton } from './report-issue-button';
+import { BookmarkButton } from './bookmark-button';
+import { RichContent } from './rich-content';
+import { useToast } from '@/hooks/use-toast';
 
 export type Question = {
   id: number;
@@ -15,6 +19,18 @@ export type Question = {
   optionB: string;
   optionC: string;
   optionD?: string; // Option D is now optional
+  correctOption?: string; // only sent once the question has been answered
+  explanation?: string;
+  contentFormat?: string;
+  groupId?: number | null; // item set the question belongs to
+  difficulty?: number; // 1 easy, 2 medium, 3 hard
+};
+
+// The server's verdict on a submitted answer
+export type AnswerFeedback = {
+  questionId: number;
+  userOption: string;
+  isCorrect: boolean;
   correctOption: string;
   explanation: string;
 };
@@ -23,7 +39,8 @@ type QuestionCardProps = {
   question: Question;
   questionNumber: number;
   totalQuestions: number;
-  onSubmit: (answer: string, isCorrect: boolean, timeSpent: number) => void;
+  previousAnswer?: AnswerFeedback; // an answer given before a page refresh
+  onSubmit: (answer: string, timeSpent: number) => Promise<AnswerFeedback>;
   onNext: () => void;
   startTime: number;
 };
@@ -32,29 +49,39 @@ export function QuestionCard({
   question,
   questionNumber,
   totalQuestions,
+  previousAnswer,
   onSubmit,
   onNext,
   startTime,
 }: QuestionCardProps) {
-  const [selectedOption, setSelectedOption] = useState<string | null>(null);
-  const [isSubmitted, setIsSubmitted] = useState(false);
-  const [timeSpent, setTimeSpent] = useState(0);
+  const { toast } = useToast();
+  const [selectedOption, setSelectedOption] = useState<string | null>(previousAnswer?.userOption ?? null);
+  const [feedback, setFeedback] = useState<AnswerFeedback | null>(previousAnswer ?? null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const isSubmitted = feedback !== null;
 
   const handleOptionClick = (option: string) => {
-    if (!isSubmitted) {
+    if (!isSubmitted && !isSubmitting) {
       setSelectedOption(option);
     }
   };
 
-  const handleSubmit = () => {
-    if (selectedOption) {
-      const endTime = Date.now();
-      const timeElapsed = Math.floor((endTime - startTime) / 1000); // in seconds
-      setTimeSpent(timeElapsed);
-      
-      const isCorrect = selectedOption === question.correctOption;
-      setIsSubmitted(true);
-      onSubmit(selectedOption, isCorrect, timeElapsed);
+  // The answer is graded on the server, which sends back the answer key and explanation
+  const handleSubmit = async () => {
+    if (!selectedOption || isSubmitting) return;
+
+    const timeElapsed = Math.floor((Date.now() - startTime) / 1000); // in seconds
+    setIsSubmitting(true);
+    try {
+      setFeedback(await onSubmit(selectedOption, timeElapsed));
+    } catch (error) {
+      toast({
+        title: 'Could not submit answer',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -63,16 +90,25 @@ export function QuestionCard({
       <Card className="mb-6">
         <CardContent className="pt-6">
           <div className="mb-6">
-            {question.subtopic && (
-              <Badge variant="topic" style={{color:'white'}} className="mb-3">
-                {question.subtopic}
-              </Badge>
-            )}
-            <h3 className="text-lg font-medium text-neutral-800 mb-4">
-              {question.questionText}
-            </h3>
+            <div className="flex items-start justify-between">
+              {question.subtopic ? (
+                <Badge variant="topic" style={{color:'white'}} className="mb-3">
+                  {question.subtopic}
+                </Badge>
+              ) : <span />}
+              <BookmarkButton questionId={question.id} />
+            </div>
+            <RichContent
+              content={question.questionText}
+              format={question.contentFormat}
+              className="text-lg font-medium text-neutral-800 mb-4"
+            />
             {question.context && (
-              <p className="text-neutral-600 mb-4">{question.context}</p>
+              <RichContent
+                content={question.context}
+                format={question.contentFormat}
+                className="text-neutral-600 mb-4"
+              />
             )}
           </div>
 
@@ -81,8 +117,9 @@ export function QuestionCard({
               option="A"
               label="A"
               text={question.optionA}
+              contentFormat={question.contentFormat}
               isSelected={selectedOption === 'A'}
-              isCorrect={question.correctOption === 'A'}
+              isCorrect={feedback?.correctOption === 'A'}
               isSubmitted={isSubmitted}
               onClick={() => handleOptionClick('A')}
             />
@@ -90,8 +127,9 @@ export function QuestionCard({
               option="B"
               label="B"
               text={question.optionB}
+              contentFormat={question.contentFormat}
               isSelected={selectedOption === 'B'}
-              isCorrect={question.correctOption === 'B'}
+              isCorrect={feedback?.correctOption === 'B'}
               isSubmitted={isSubmitted}
               onClick={() => handleOptionClick('B')}
             />
@@ -99,8 +137,9 @@ export function QuestionCard({
               option="C"
               label="C"
               text={question.optionC}
+              contentFormat={question.contentFormat}
               isSelected={selectedOption === 'C'}
-              isCorrect={question.correctOption === 'C'}
+              isCorrect={feedback?.correctOption === 'C'}
               isSubmitted={isSubmitted}
               onClick={() => handleOptionClick('C')}
             />
@@ -110,15 +149,17 @@ export function QuestionCard({
                 option="D"
                 label="D"
                 text={question.optionD || ''}
+                contentFormat={question.contentFormat}
                 isSelected={selectedOption === 'D'}
-                isCorrect={question.correctOption === 'D'}
+                isCorrect={feedback?.correctOption === 'D'}
                 isSubmitted={isSubmitted}
                 onClick={() => handleOptionClick('D')}
               />
             )}
           </div>
 
-          <div className="mt-6 flex justify-end">
+          <div className="mt-6 flex justify-between">
+            <ReportIssueButton questionId={question.id} />
             {isSubmitted ? (
               <Button onClick={onNext}>
                 Next Question
@@ -126,20 +167,22 @@ export function QuestionCard({
             ) : (
               <Button
                 onClick={handleSubmit}
-                disabled={!selectedOption}
+                disabled={!selectedOption || isSubmitting}
               >
-                Submit Answer
+                {isSubmitting ? 'Submitting...' : 'Submit Answer'}
               </Button>
             )}
           </div>
         </CardContent>
       </Card>
 
-      {isSubmitted && (
+      {feedback && (
         <ExplanationCard
-          correctOption={question.correctOption}
-          explanation={question.explanation}
-          selectedOption={selectedOption || ''}
+          correctOption={feedback.correctOption}
+          explanation={feedback.explanation}
+          contentFormat={question.contentFormat}
+          selectedOption={feedback.userOption}
+          noteQuestionId={question.id}
         />
       )}
     </>
@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { QuestionOption } from './question-option';
+import { ReportIssueButton } from './report-issue-button';
+import { RichContent } from './rich-content';
+import { useToast } from '@/hooks/use-toast';
+import type { AnswerFeedback, Question } from './question-card';
+import { CheckCircle, XCircle } from 'lucide-react';
+
+export type QuestionGroup = {
+  id: number;
+  title: string;
+  context: string;
+  exhibits?: string | null;
+  contentFormat?: string;
+};
+
+export type GroupAnswer = {
+  questionId: number;
+  userOption: string;
+  timeSpent: number;
+};
+
+export type GroupResult = {
+  score: { correct: number; total: number };
+  feedback: AnswerFeedback[];
+};
+
+type QuestionGroupCardProps = {
+  group: QuestionGroup;
+  questions: Question[];
+  firstQuestionNumber: number;
+  previousAnswers: Record<number, string>; // answers given before a page refresh
+  onSubmit: (answers: GroupAnswer[]) => Promise<GroupResult>;
+  onNext: () => void;
+  startTime: number;
+};
+
+const OPTIONS = ['A', 'B', 'C', 'D'] as const;
+
+/**
+ * An item set: the vignette and exhibits on one side, all of its questions on
+ * the other. The questions are submitted and scored together.
+ */
+export function QuestionGroupCard({
+  group,
+  questions,
+  firstQuestionNumber,
+  previousAnswers,
+  onSubmit,
+  onNext,
+  startTime,
+}: QuestionGroupCardProps) {
+  const { toast } = useToast();
+  const unanswered = questions.filter(q => !(q.id in previousAnswers));
+
+  const [selected, setSelected] = useState<Record<number, string>>(previousAnswers);
+  // Answered questions arrive with their answer key; the rest are graded on submit
+  const [feedback, setFeedback] = useState<Record<number, AnswerFeedback>>(() => Object.fromEntries(
+    questions
+      .filter(q => q.id in previousAnswers && q.correctOption)
+      .map(q => [q.id, {
+        questionId: q.id,
+        userOption: previousAnswers[q.id],
+        isCorrect: previousAnswers[q.id] === q.correctOption,
+        correctOption: q.correctOption!,
+        explanation: q.explanation || '',
+      }])
+  ));
+  // A set answered in full before a refresh is shown already scored
+  const [score, setScore] = useState<{ correct: number; total: number } | null>(() =>
+    unanswered.length === 0
+      ? { correct: questions.filter(q => previousAnswers[q.id] === q.correctOption).length, total: questions.length }
+      : null
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const isSubmitted = score !== null;
+  const allSelected = questions.every(q => selected[q.id]);
+
+  const handleSubmit = async () => {
+    if (!allSelected || isSubmitting) return;
+
+    // Time is tracked for the set as a whole, so split it across its questions
+    const elapsed = Math.floor((Date.now() - startTime) / 1000);
+    const perQuestion = Math.round(elapsed / Math.max(unanswered.length, 1));
+
+    setIsSubmitting(true);
+    try {
+      const result = await onSubmit(unanswered.map(q => ({
+        questionId: q.id,
+        userOption: selected[q.id],
+        timeSpent: perQuestion,
+      })));
+      setFeedback(Object.fromEntries(result.feedback.map(f => [f.questionId, f])));
+      setScore(result.score);
+    } catch (error) {
+      toast({
+        title: 'Could not submit answers',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 p-6">
+      {/* Vignette */}
+      <div>
+        <Card className="lg:sticky lg:top-6">
+          <CardContent className="pt-6 space-y-4 max-h-[80vh] overflow-y-auto">
+            <div>
+              <Badge variant="topic" style={{ color: 'white' }} className="mb-3">
+                Item set
+              </Badge>
+              <h3 className="text-lg font-medium text-neutral-800">{group.title}</h3>
+            </div>
+            <RichContent content={group.context} format={group.contentFormat} className="text-neutral-700" />
+            {group.exhibits && (
+              <div className="border-t pt-4">
+                <p className="text-sm font-medium text-neutral-500 mb-2">Exhibits</p>
+                <RichContent content={group.exhibits} format={group.contentFormat} className="text-neutral-700" />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Questions */}
+      <div className="space-y-6">
+        {questions.map((question, index) => {
+          const locked = isSubmitted || question.id in previousAnswers;
+          const questionFeedback = feedback[question.id];
+          return (
+            <Card key={question.id}>
+              <CardContent className="pt-6">
+                <div className="flex items-start justify-between mb-3">
+                  <p className="text-sm text-neutral-500">Question {firstQuestionNumber + index}</p>
+                  {questionFeedback && (
+                    questionFeedback.isCorrect
+                      ? <CheckCircle className="h-5 w-5 text-[#4CAF50]" />
+                      : <XCircle className="h-5 w-5 text-[#F44336]" />
+                  )}
+                </div>
+                <RichContent
+                  content={question.questionText}
+                  format={question.contentFormat}
+                  className="font-medium text-neutral-800 mb-4"
+                />
+                <div className="space-y-3">
+                  {OPTIONS.map(option => {
+                    const text = question[`option${option}`];
+                    if (!text) return null;
+                    return (
+                      <QuestionOption
+                        key={option}
+                        option={option}
+                        label={option}
+                        text={text}
+                        contentFormat={question.contentFormat}
+                        isSelected={selected[question.id] === option}
+                        isCorrect={questionFeedback?.correctOption === option}
+                        isSubmitted={locked}
+                        onClick={() => setSelected(prev => ({ ...prev, [question.id]: option }))}
+                      />
+                    );
+                  })}
+                </div>
+                {questionFeedback && (
+                  <div className="mt-4 text-sm text-neutral-600 border-t pt-4">
+                    <p className="font-medium text-[#4CAF50] mb-2">Correct Answer: {questionFeedback.correctOption}</p>
+                    <RichContent content={questionFeedback.explanation} format={question.contentFormat} />
+                  </div>
+                )}
+                <div className="mt-4">
+                  <ReportIssueButton questionId={question.id} />
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+
+        <div className="flex items-center justify-between">
+          {score ? (
+            <p className="font-medium text-neutral-800">
+              You scored {score.correct} of {score.total} on this item set
+            </p>
+          ) : (
+            <p className="text-sm text-neutral-500">
+              Answer every question, then submit the set.
+            </p>
+          )}
+          {isSubmitted ? (
+            <Button onClick={onNext}>Next</Button>
+          ) : (
+            <Button onClick={handleSubmit} disabled={!allSelected || isSubmitting}>
+              {isSubmitting ? 'Submitting...' : 'Submit Item Set'}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { invalidateBookmarks, type QuestionAnnotations } from './bookmark-button';
+import { NotebookPen } from 'lucide-react';
+
+type QuestionNoteEditorProps = {
+  questionId: number;
+};
+
+export function QuestionNoteEditor({ questionId }: QuestionNoteEditorProps) {
+  const { toast } = useToast();
+  const annotationsKey = [`/api/questions/${questionId}/annotations`];
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  const { data: annotations } = useQuery<QuestionAnnotations>({
+    queryKey: annotationsKey,
+  });
+  const note = annotations?.note ?? null;
+
+  const noteMutation = useMutation({
+    mutationFn: async (content: string) => {
+      if (content) {
+        await apiRequest('PUT', `/api/questions/${questionId}/note`, { content });
+      } else {
+        await apiRequest('DELETE', `/api/questions/${questionId}/note`);
+      }
+      return content || null;
+    },
+    onSuccess: (content) => {
+      queryClient.setQueryData<QuestionAnnotations>(annotationsKey, (current) => ({
+        bookmarked: current?.bookmarked ?? false,
+        note: content,
+      }));
+      invalidateBookmarks();
+      setIsEditing(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Could not save note',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const startEditing = () => {
+    setDraft(note || '');
+    setIsEditing(true);
+  };
+
+  return (
+    <div className="mt-6 border-t pt-4">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-neutral-800 flex items-center">
+          <NotebookPen className="h-4 w-4 mr-2 text-primary" />
+          My note
+        </h4>
+        {!isEditing && (
+          <Button variant="ghost" size="sm" onClick={startEditing}>
+            {note ? 'Edit' : 'Add a note'}
+          </Button>
+        )}
+      </div>
+
+      {isEditing ? (
+        <div className="space-y-2">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="What tripped you up, a formula to remember..."
+            rows={3}
+            maxLength={5000}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+              Cancel
+            </Button>
+            {note && (
+              <Button variant="ghost" size="sm" onClick={() => noteMutation.mutate('')} disabled={noteMutation.isPending}>
+                Delete
+              </Button>
+            )}
+            <Button size="sm" onClick={() => noteMutation.mutate(draft.trim())} disabled={noteMutation.isPending}>
+              {noteMutation.isPending ? 'Saving...' : 'Save note'}
+            </Button>
+          </div>
+        </div>
+      ) : note ? (
+        <p className="text-sm text-neutral-600 whitespace-pre-wrap">{note}</p>
+      ) : (
+        <p className="text-sm text-neutral-400">Only you can see your notes.</p>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
 import React from 'react';
 import { cn } from '@/lib/utils';
+import { RichContent } from './rich-content';
 
 type QuestionOptionProps = {
   option: string;
   label: string;
   text: string;
+  contentFormat?: string;
   isSelected: boolean;
   isCorrect?: boolean;
   isSubmitted?: boolean;
@@ -15,6 +17,7 @@ export function QuestionOption({
   option,
   label,
   text,
+  contentFormat,
   isSelected,
   isCorrect,
   isSubmitted = false,
@@ -65,8 +68,8 @@ export function QuestionOption({
         <div className={getLabelClasses()}>
           {label}
         </div>
-        <div>
-          <p className="text-neutral-800">{text}</p>
+        <div className="min-w-0">
+          <RichContent content={text} format={contentFormat} inline className="text-neutral-800" />
         </div>
       </div>
     </div>
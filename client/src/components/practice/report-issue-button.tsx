@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import type { QuestionReportCategory } from '@shared/schema';
+import { Flag } from 'lucide-react';
+
+const categoryOptions: { value: QuestionReportCategory; label: string }[] = [
+  { value: 'wrong_key', label: 'The marked answer is wrong' },
+  { value: 'typo', label: 'Typo or formatting problem' },
+  { value: 'unclear_explanation', label: 'The explanation is unclear' },
+  { value: 'outdated_curriculum', label: 'Outdated for the current curriculum' },
+  { value: 'other', label: 'Something else' },
+];
+
+type ReportIssueButtonProps = {
+  questionId: number;
+};
+
+export function ReportIssueButton({ questionId }: ReportIssueButtonProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [category, setCategory] = useState<QuestionReportCategory>('wrong_key');
+  const [message, setMessage] = useState('');
+
+  const reportMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/questions/${questionId}/reports`, { category, message });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Thanks for the report',
+        description: 'Our content team will review this question.',
+      });
+      setOpen(false);
+      setMessage('');
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Could not send report',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <>
+      <Button variant="ghost" size="sm" className="text-neutral-500" onClick={() => setOpen(true)}>
+        <Flag className="mr-2 h-4 w-4" />
+        Report an issue
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Report an issue</DialogTitle>
+            <DialogDescription>
+              Tell us what's wrong with this question and we'll fix it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-2">
+            <RadioGroup value={category} onValueChange={(value) => setCategory(value as QuestionReportCategory)}>
+              {categoryOptions.map((option) => (
+                <div key={option.value} className="flex items-center space-x-2">
+                  <RadioGroupItem value={option.value} id={`report-${option.value}`} />
+                  <Label htmlFor={`report-${option.value}`} className="font-normal">
+                    {option.label}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+            <div className="grid gap-2">
+              <Label htmlFor="report-message">Details (optional)</Label>
+              <Textarea
+                id="report-message"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                placeholder="What did you notice?"
+                maxLength={2000}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button onClick={() => reportMutation.mutate()} disabled={reportMutation.isPending}>
+              {reportMutation.isPending ? 'Sending...' : 'Send report'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
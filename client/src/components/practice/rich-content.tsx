@@ -0,0 +1,35 @@
+import React, { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { renderRichContent } from '@/lib/rich-content';
+
+type RichContentProps = {
+  content: string;
+  format?: string; // "plain" or "markdown", see CONTENT_FORMATS
+  inline?: boolean; // short fragments such as answer options
+  className?: string;
+};
+
+/**
+ * Shows question content. Plain text keeps its line breaks; Markdown is
+ * rendered with tables, images and KaTeX math.
+ */
+export function RichContent({ content, format = 'plain', inline = false, className }: RichContentProps) {
+  const html = useMemo(
+    () => (format === 'markdown' ? renderRichContent(content, inline) : null),
+    [content, format, inline]
+  );
+
+  if (html === null) {
+    return <div className={cn('whitespace-pre-line', className)}>{content}</div>;
+  }
+
+  return (
+    <div
+      className={cn(
+        'prose prose-neutral max-w-none prose-p:my-2 prose-img:rounded-md prose-table:my-3 prose-th:px-3 prose-td:px-3',
+        className
+      )}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
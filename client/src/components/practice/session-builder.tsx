@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Switch } from '@/components/ui/switch';
+import { apiRequest } from '@/lib/queryClient';
+import type { PracticeSessionOptions } from '@shared/schema';
+import { Play, SlidersHorizontal } from 'lucide-react';
+
+type QuestionPool = 'all' | 'unseen' | 'incorrect';
+
+const difficultyOptions = [
+  { value: 1, label: 'Easy' },
+  { value: 2, label: 'Medium' },
+  { value: 3, label: 'Hard' },
+];
+
+type SessionBuilderProps = {
+  topicId: number;
+  topicName: string;
+  chapters: { id: number; name: string }[];
+  onStart: (options: PracticeSessionOptions) => void;
+  isStarting?: boolean;
+};
+
+export function SessionBuilder({ topicId, topicName, chapters, onStart, isStarting }: SessionBuilderProps) {
+  const [count, setCount] = useState(10);
+  const [difficulties, setDifficulties] = useState<number[]>([]);
+  const [chapterIds, setChapterIds] = useState<number[]>([]);
+  const [pool, setPool] = useState<QuestionPool>('all');
+  const [shuffleQuestions, setShuffleQuestions] = useState(false);
+  const [shuffleOptions, setShuffleOptions] = useState(false);
+
+  const filters = {
+    difficulties,
+    chapterIds,
+    unseenOnly: pool === 'unseen',
+    incorrectOnly: pool === 'incorrect',
+  };
+
+  // How many questions the filters leave to draw from
+  const { data: preview, isLoading: previewLoading } = useQuery<{ available: number }>({
+    queryKey: ['/api/sessions/preview', topicId, filters],
+    queryFn: async () => {
+      const res = await apiRequest('POST', '/api/sessions/preview', { topicId, options: filters });
+      return await res.json();
+    },
+  });
+  const available = preview?.available ?? 0;
+
+  const toggle = (values: number[], value: number, checked: boolean) =>
+    checked ? [...values, value] : values.filter(v => v !== value);
+
+  const handleStart = () => {
+    onStart({ count, ...filters, shuffleQuestions, shuffleOptions });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 space-y-6">
+      <div className="flex items-center">
+        <SlidersHorizontal className="h-5 w-5 text-primary mr-2" />
+        <div>
+          <h3 className="text-lg font-bold text-neutral-800">Set up your practice</h3>
+          <p className="text-sm text-neutral-500">Choose which {topicName} questions to practise and how they are shown.</p>
+        </div>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="question-count">Number of questions</Label>
+          <Input
+            id="question-count"
+            type="number"
+            min={1}
+            max={50}
+            className="w-24"
+            value={count}
+            onChange={(e) => setCount(Math.min(50, Math.max(1, parseInt(e.target.value) || 1)))}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Difficulty</Label>
+          <div className="flex items-center gap-4">
+            {difficultyOptions.map(option => (
+              <div key={option.value} className="flex items-center gap-2">
+                <Checkbox
+                  id={`difficulty-${option.value}`}
+                  checked={difficulties.includes(option.value)}
+                  onCheckedChange={(checked) => setDifficulties(prev => toggle(prev, option.value, checked === true))}
+                />
+                <Label htmlFor={`difficulty-${option.value}`} className="font-normal">{option.label}</Label>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-neutral-400">Leave unticked for every difficulty.</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Questions</Label>
+          <RadioGroup value={pool} onValueChange={(value) => setPool(value as QuestionPool)}>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="all" id="pool-all" />
+              <Label htmlFor="pool-all" className="font-normal">All questions</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="unseen" id="pool-unseen" />
+              <Label htmlFor="pool-unseen" className="font-normal">Only questions I haven't seen</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="incorrect" id="pool-incorrect" />
+              <Label htmlFor="pool-incorrect" className="font-normal">Only questions I last got wrong</Label>
+            </div>
+          </RadioGroup>
+        </div>
+
+        <div className="space-y-3">
+          <Label>Order</Label>
+          <div className="flex items-center gap-2">
+            <Switch id="shuffle-questions" checked={shuffleQuestions} onCheckedChange={setShuffleQuestions} />
+            <Label htmlFor="shuffle-questions" className="font-normal">Shuffle questions</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="shuffle-options" checked={shuffleOptions} onCheckedChange={setShuffleOptions} />
+            <Label htmlFor="shuffle-options" className="font-normal">Shuffle answer options</Label>
+          </div>
+        </div>
+      </div>
+
+      {chapters.length > 0 && (
+        <div className="space-y-2">
+          <Label>Chapters</Label>
+          <div className="grid gap-2 sm:grid-cols-2">
+            {chapters.map(chapter => (
+              <div key={chapter.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`chapter-${chapter.id}`}
+                  checked={chapterIds.includes(chapter.id)}
+                  onCheckedChange={(checked) => setChapterIds(prev => toggle(prev, chapter.id, checked === true))}
+                />
+                <Label htmlFor={`chapter-${chapter.id}`} className="font-normal">{chapter.name}</Label>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-neutral-400">Leave unticked for the whole topic.</p>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 border-t pt-4">
+        <p className="text-sm text-neutral-600">
+          {previewLoading
+            ? 'Counting matching questions...'
+            : available === 0
+            ? 'No questions match these settings.'
+            : `${available} question${available === 1 ? '' : 's'} match; this session will have ${Math.min(count, available)}.`}
+        </p>
+        <Button onClick={handleStart} disabled={previewLoading || available === 0 || isStarting}>
+          <Play className="mr-2 h-4 w-4" />
+          {isStarting ? 'Starting...' : 'Start practice'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
-import React, { useState } from 'react';
+import React from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
 import { Bell, X, Settings, Info, CheckCircle, AlertTriangle } from 'lucide-react';
 import { 
   Popover, 
@@ -9,68 +11,65 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { Link } from 'wouter';
+import { Link, useLocation } from 'wouter';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { Notification } from '@shared/schema';
 
-type Notification = {
-  id: string;
-  title: string;
-  message: string;
-  type: 'info' | 'success' | 'warning';
-  time: string;
-  read: boolean;
+type Inbox = {
+  notifications: Notification[];
+  unreadCount: number;
 };
 
+const INBOX_KEY = ['/api/notifications/inbox'];
+
 export function NotificationsPopover() {
-  const [notifications, setNotifications] = useState<Notification[]>([
-    {
-      id: '1',
-      title: 'New practice set available',
-      message: 'A new practice set for Quants has been added.',
-      type: 'info',
-      time: '2 hours ago',
-      read: false
-    },
-    {
-      id: '2',
-      title: 'Streak milestone',
-      message: 'You\'ve maintained a 5-day streak! Keep it up!',
-      type: 'success',
-      time: '1 day ago',
-      read: false
-    },
-    {
-      id: '3',
-      title: 'Reminder',
-      message: 'You haven\'t practiced Economics in the last week.',
-      type: 'warning',
-      time: '3 days ago',
-      read: true
-    }
-  ]);
+  const [, setLocation] = useLocation();
 
-  const unreadCount = notifications.filter(n => !n.read).length;
+  const { data: inbox } = useQuery<Inbox>({
+    queryKey: INBOX_KEY,
+    retry: false,
+    refetchInterval: 60000,
+  });
 
-  const markAllAsRead = () => {
-    setNotifications(notifications.map(n => ({ ...n, read: true })));
-  };
+  const notifications = inbox?.notifications || [];
+  const unreadCount = inbox?.unreadCount || 0;
 
-  const markAsRead = (id: string) => {
-    setNotifications(notifications.map(n => 
-      n.id === id ? { ...n, read: true } : n
-    ));
-  };
+  const refreshInbox = () => queryClient.invalidateQueries({ queryKey: INBOX_KEY });
+
+  const markAllAsReadMutation = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/notifications/inbox/read-all'),
+    onSuccess: refreshInbox,
+  });
 
-  const removeNotification = (id: string) => {
-    setNotifications(notifications.filter(n => n.id !== id));
+  const markAsReadMutation = useMutation({
+    mutationFn: (id: number) => apiRequest('POST', `/api/notifications/inbox/${id}/read`),
+    onSuccess: refreshInbox,
+  });
+
+  const removeNotificationMutation = useMutation({
+    mutationFn: (id: number) => apiRequest('DELETE', `/api/notifications/inbox/${id}`),
+    onSuccess: refreshInbox,
+  });
+
+  const openNotification = (notification: Notification) => {
+    if (!notification.readAt) {
+      markAsReadMutation.mutate(notification.id);
+    }
+    if (notification.link) {
+      setLocation(notification.link);
+    }
   };
 
   const getIcon = (type: string) => {
     switch(type) {
-      case 'info':
+      case 'new_practice_set':
+      case 'report_resolved':
         return <Info className="h-5 w-5 text-blue-500" />;
-      case 'success':
+      case 'badge_earned':
+      case 'streak_milestone':
         return <CheckCircle className="h-5 w-5 text-green-500" />;
-      case 'warning':
+      case 'subscription_expiring':
+      case 'subscription_expired':
         return <AlertTriangle className="h-5 w-5 text-amber-500" />;
       default:
         return <Info className="h-5 w-5 text-blue-500" />;
@@ -99,8 +98,8 @@ export function NotificationsPopover() {
             <Button 
               variant="ghost" 
               size="sm" 
-              onClick={markAllAsRead}
-              disabled={unreadCount === 0}
+              onClick={() => markAllAsReadMutation.mutate()}
+              disabled={unreadCount === 0 || markAllAsReadMutation.isPending}
               className="text-xs"
             >
               Mark all as read
@@ -118,26 +117,34 @@ export function NotificationsPopover() {
               {notifications.map((notification) => (
                 <div 
                   key={notification.id} 
-                  className={`relative p-4 border-b last:border-b-0 ${notification.read ? 'bg-white' : 'bg-neutral-50'}`}
+                  className={`relative p-4 border-b last:border-b-0 ${notification.readAt ? 'bg-white' : 'bg-neutral-50'}`}
                 >
-                  <div className="flex items-start">
+                  <div
+                    className={`flex items-start ${notification.link ? 'cursor-pointer' : ''}`}
+                    onClick={() => openNotification(notification)}
+                  >
                     <div className="mr-3 mt-0.5">
                       {getIcon(notification.type)}
                     </div>
                     <div className="flex-1">
                       <div className="flex items-center justify-between mb-1">
                         <h4 className="font-medium text-sm">{notification.title}</h4>
-                        <span className="text-xs text-neutral-400">{notification.time}</span>
+                        <span className="text-xs text-neutral-400 shrink-0 ml-2">
+                          {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                        </span>
                       </div>
                       <p className="text-sm text-neutral-600">{notification.message}</p>
                     </div>
                     <div className="flex flex-col space-y-1 ml-2">
-                      {!notification.read && (
+                      {!notification.readAt && (
                         <Button 
                           variant="ghost" 
                           size="icon" 
                           className="h-6 w-6" 
-                          onClick={() => markAsRead(notification.id)}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            markAsReadMutation.mutate(notification.id);
+                          }}
                         >
                           <CheckCircle className="h-4 w-4" />
                         </Button>
@@ -146,7 +153,10 @@ export function NotificationsPopover() {
                         variant="ghost" 
                         size="icon" 
                         className="h-6 w-6 text-neutral-400" 
-                        onClick={() => removeNotification(notification.id)}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          removeNotificationMutation.mutate(notification.id);
+                        }}
                       >
                         <X className="h-4 w-4" />
                       </Button>
@@ -0,0 +1,106 @@
+import MarkdownIt, { type StateBlock, type StateInline } from "markdown-it";
+import katex from "katex";
+import "katex/dist/katex.min.css";
+
+function renderMath(tex: string, displayMode: boolean): string {
+  // Bad TeX shows as a red error message instead of breaking the whole question
+  return katex.renderToString(tex, { displayMode, throwOnError: false, trust: false });
+}
+
+function isDigit(char: string | undefined) {
+  return char !== undefined && char >= "0" && char <= "9";
+}
+
+/**
+ * Inline math: $...$ on one line. Follows Pandoc's rules so currency such as
+ * "$100 and $200" is left alone: the opening $ can't be followed by a space
+ * and the closing $ can't follow a space or be followed by a digit.
+ */
+function mathInline(state: StateInline, silent: boolean): boolean {
+  const { src, pos, posMax } = state;
+  if (src[pos] !== "$") return false;
+
+  const display = src[pos + 1] === "$";
+  const delimiter = display ? "$$" : "$";
+  const start = pos + delimiter.length;
+  if (start >= posMax || /\s/.test(src[start])) return false;
+
+  let end = src.indexOf(delimiter, start);
+  while (end !== -1) {
+    const escaped = src[end - 1] === "\\";
+    const valid = display || (!/\s/.test(src[end - 1]) && !isDigit(src[end + 1]));
+    if (!escaped && valid) break;
+    end = src.indexOf(delimiter, end + 1);
+  }
+  if (end === -1 || end > posMax || end === start) return false;
+
+  if (!silent) {
+    const token = state.push(display ? "math_block_inline" : "math_inline", "math", 0);
+    token.content = src.slice(start, end);
+  }
+  state.pos = end + delimiter.length;
+  return true;
+}
+
+/**
+ * Display math: a block that opens with $$ at the start of a line and runs
+ * until a line that ends with $$.
+ */
+function mathBlock(state: StateBlock, startLine: number, endLine: number, silent: boolean): boolean {
+  let pos = state.bMarks[startLine] + state.tShift[startLine];
+  let max = state.eMarks[startLine];
+  if (state.src.slice(pos, pos + 2) !== "$$") return false;
+  if (silent) return true;
+
+  let content = "";
+  let line = startLine;
+  let text = state.src.slice(pos + 2, max);
+  let closed = false;
+
+  while (line < endLine) {
+    const trimmed = text.trimEnd();
+    if (trimmed.endsWith("$$") && (line > startLine || trimmed.length >= 2)) {
+      content += trimmed.slice(0, -2);
+      closed = true;
+      break;
+    }
+    content += text + "\n";
+    line++;
+    if (line >= endLine) break;
+    pos = state.bMarks[line] + state.tShift[line];
+    max = state.eMarks[line];
+    text = state.src.slice(pos, max);
+  }
+  if (!closed) return false;
+
+  const token = state.push("math_block", "math", 0);
+  token.block = true;
+  token.content = content.trim();
+  token.map = [startLine, line + 1];
+  state.line = line + 1;
+  return true;
+}
+
+// Raw HTML is never rendered; the server strips it too
+const markdown = new MarkdownIt({ html: false, linkify: true, breaks: true });
+
+markdown.inline.ruler.before("escape", "math_inline", mathInline);
+markdown.block.ruler.before("fence", "math_block", mathBlock, {
+  alt: ["paragraph", "reference", "blockquote", "list"],
+});
+markdown.renderer.rules.math_inline = (tokens, idx) => renderMath(tokens[idx].content, false);
+markdown.renderer.rules.math_block_inline = (tokens, idx) => renderMath(tokens[idx].content, true);
+markdown.renderer.rules.math_block = (tokens, idx) => `<div class="my-3 overflow-x-auto">${renderMath(tokens[idx].content, true)}</div>`;
+
+// Exhibits are often wider than the card, so let tables scroll
+markdown.renderer.rules.table_open = () => '<div class="overflow-x-auto"><table>';
+markdown.renderer.rules.table_close = () => "</table></div>";
+
+/**
+ * Render question content written in Markdown with $LaTeX$ math to HTML.
+ * Use `inline` for short fragments such as answer options, which shouldn't
+ * be wrapped in a paragraph.
+ */
+export function renderRichContent(source: string, inline = false): string {
+  return inline ? markdown.renderInline(source) : markdown.render(source);
+}
@@ -32,6 +32,7 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
+import { CURRICULUM_LEVELS, CurriculumLevel } from "@shared/schema";
 import {
   Table,
   TableBody,
@@ -79,6 +80,7 @@ const chapterSchema = z.object({
   topicId: z.string().min(1, "Topic is required"),
   description: z.string().nullable().optional(),
   order: z.coerce.number().int().min(1, "Order must be a positive number"),
+  level: z.enum(CURRICULUM_LEVELS),
 });
 
 type ChapterFormValues = z.infer<typeof chapterSchema>;
@@ -89,6 +91,7 @@ type Topic = {
   name: string;
   description: string | null;
   icon: string | null;
+  level: string;
 };
 
 type Chapter = {
@@ -97,6 +100,7 @@ type Chapter = {
   topicId: number;
   description: string | null;
   order: number;
+  level: string;
   topic?: Topic; // Optional joined topic data
 };
 
@@ -160,8 +164,18 @@ export default function AdminChaptersPage() {
       topicId: "",
       description: "",
       order: 1,
+      level: "Level I",
     },
   });
+
+  // A new topic brings its curriculum level with it
+  const handleTopicChange = (topicId: string) => {
+    form.setValue("topicId", topicId);
+    const topic = topics?.find((t) => t.id.toString() === topicId);
+    if (topic) {
+      form.setValue("level", topic.level as CurriculumLevel);
+    }
+  };
   
   // Create chapter mutation
   const createMutation = useMutation({
@@ -171,6 +185,7 @@ export default function AdminChaptersPage() {
         topicId: parseInt(values.topicId),
         description: values.description || null,
         order: values.order,
+        level: values.level,
       });
       return res.json();
     },
@@ -200,6 +215,7 @@ export default function AdminChaptersPage() {
         topicId: parseInt(values.topicId),
         description: values.description || null,
         order: values.order,
+        level: values.level,
       });
       return res.json();
     },
@@ -272,6 +288,7 @@ export default function AdminChaptersPage() {
       topicId: chapter.topicId.toString(),
       description: chapter.description || "",
       order: chapter.order,
+      level: chapter.level as CurriculumLevel,
     });
     setIsEditDialogOpen(true);
   };
@@ -327,7 +344,7 @@ export default function AdminChaptersPage() {
                       <FormItem>
                         <FormLabel>Topic</FormLabel>
                         <Select
-                          onValueChange={field.onChange}
+                          onValueChange={handleTopicChange}
                           defaultValue={field.value}
                         >
                           <FormControl>
@@ -343,7 +360,7 @@ export default function AdminChaptersPage() {
                             ) : (
                               topics?.map((topic) => (
                                 <SelectItem key={topic.id} value={topic.id.toString()}>
-                                  {topic.name}
+                                  {topic.name} ({topic.level})
                                 </SelectItem>
                               ))
                             )}
@@ -353,6 +370,30 @@ export default function AdminChaptersPage() {
                       </FormItem>
                     )}
                   />
+                  <FormField
+                    control={form.control}
+                    name="level"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Curriculum Level</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a level" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {CURRICULUM_LEVELS.map((level) => (
+                              <SelectItem key={level} value={level}>
+                                {level}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                   <FormField
                     control={form.control}
                     name="name"
@@ -460,6 +501,7 @@ export default function AdminChaptersPage() {
                     <TableHead>Order</TableHead>
                     <TableHead>Name</TableHead>
                     <TableHead>Topic</TableHead>
+                    <TableHead>Level</TableHead>
                     <TableHead>Description</TableHead>
                     <TableHead className="w-[100px]">Actions</TableHead>
                   </TableRow>
@@ -470,6 +512,7 @@ export default function AdminChaptersPage() {
                       <TableCell>{chapter.order}</TableCell>
                       <TableCell className="font-medium">{chapter.name}</TableCell>
                       <TableCell>{chapter.topic?.name}</TableCell>
+                      <TableCell>{chapter.level}</TableCell>
                       <TableCell className="max-w-[300px] truncate">
                         {chapter.description}
                       </TableCell>
@@ -536,7 +579,7 @@ export default function AdminChaptersPage() {
                   <FormItem>
                     <FormLabel>Topic</FormLabel>
                     <Select
-                      onValueChange={field.onChange}
+                      onValueChange={handleTopicChange}
                       defaultValue={field.value}
                     >
                       <FormControl>
@@ -552,7 +595,7 @@ export default function AdminChaptersPage() {
                         ) : (
                           topics?.map((topic) => (
                             <SelectItem key={topic.id} value={topic.id.toString()}>
-                              {topic.name}
+                              {topic.name} ({topic.level})
                             </SelectItem>
                           ))
                         )}
@@ -562,6 +605,30 @@ export default function AdminChaptersPage() {
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="level"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Curriculum Level</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a level" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {CURRICULUM_LEVELS.map((level) => (
+                          <SelectItem key={level} value={level}>
+                            {level}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               <FormField
                 control={form.control}
                 name="name"
@@ -0,0 +1,224 @@
+import { AdminLayout } from "@/components/layout/admin-layout";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { JobRun } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, Play, Timer } from "lucide-react";
+
+type JobRunRow = Omit<JobRun, "startedAt" | "finishedAt"> & {
+  startedAt: string;
+  finishedAt: string | null;
+};
+
+type JobStatus = {
+  name: string;
+  description: string;
+  schedule: string;
+  isRunning: boolean;
+  lastRun: JobRunRow | null;
+  nextRunAt: string;
+};
+
+const jobLabels: Record<string, string> = {
+  "practice-reminders": "Practice reminders",
+  "progress-digest": "Weekly progress digest",
+  "new-practice-sets": "New practice set notifications",
+  "subscription-expiry": "Subscription expiry notices",
+};
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString();
+
+function RunStatusBadge({ status }: { status: string }) {
+  switch (status) {
+    case "succeeded":
+      return <Badge variant="outline" className="bg-green-50 text-green-600">Succeeded</Badge>;
+    case "failed":
+      return <Badge variant="outline" className="bg-red-50 text-red-600">Failed</Badge>;
+    default:
+      return <Badge variant="outline">Running</Badge>;
+  }
+}
+
+export default function AdminJobs() {
+  const { toast } = useToast();
+
+  const { data: jobs, isLoading: jobsLoading } = useQuery<JobStatus[]>({
+    queryKey: ["/api/admin/jobs"],
+    refetchOnWindowFocus: false,
+  });
+
+  const { data: runs, isLoading: runsLoading } = useQuery<JobRunRow[]>({
+    queryKey: ["/api/admin/jobs/runs"],
+    refetchOnWindowFocus: false,
+  });
+
+  const runJobMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", `/api/admin/jobs/${name}/run`);
+      return res.json() as Promise<JobRunRow>;
+    },
+    onSuccess: (run) => {
+      const label = jobLabels[run.jobName] || run.jobName;
+      toast({
+        title: run.status === "succeeded" ? `${label} finished` : `${label} failed`,
+        description: run.status === "succeeded"
+          ? `${run.summary?.sent ?? 0} sent, ${run.summary?.processed ?? 0} checked.`
+          : run.error || "See the run history for details.",
+        variant: run.status === "succeeded" ? "default" : "destructive",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to run job",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/jobs"),
+      });
+    },
+  });
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Scheduled Jobs</h1>
+          <p className="text-muted-foreground">
+            Emails and notifications sent on a schedule by the server.
+          </p>
+        </div>
+
+        {jobsLoading ? (
+          <div className="flex justify-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2">
+            {jobs?.map((job) => {
+              const isRunning = job.isRunning || (runJobMutation.isPending && runJobMutation.variables === job.name);
+              return (
+                <Card key={job.name}>
+                  <CardHeader>
+                    <div className="flex justify-between items-start gap-4">
+                      <div>
+                        <CardTitle>{jobLabels[job.name] || job.name}</CardTitle>
+                        <CardDescription>{job.description}</CardDescription>
+                      </div>
+                      <Button
+                        size="sm"
+                        onClick={() => runJobMutation.mutate(job.name)}
+                        disabled={isRunning}
+                      >
+                        {isRunning ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Play className="mr-2 h-4 w-4" />
+                        )}
+                        Run now
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-1 text-sm">
+                    <p><span className="text-muted-foreground">Schedule:</span> {job.schedule}</p>
+                    <p><span className="text-muted-foreground">Next run:</span> {formatDateTime(job.nextRunAt)}</p>
+                    <p className="flex items-center gap-2">
+                      <span className="text-muted-foreground">Last run:</span>
+                      {job.lastRun ? (
+                        <>
+                          {formatDateTime(job.lastRun.startedAt)}
+                          <RunStatusBadge status={job.lastRun.status} />
+                        </>
+                      ) : (
+                        "Never"
+                      )}
+                    </p>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Run History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {runsLoading ? (
+              <div className="flex justify-center p-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : !runs?.length ? (
+              <div className="text-center p-8">
+                <Timer className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+                <h3 className="text-lg font-medium">No runs yet</h3>
+                <p className="text-muted-foreground">Jobs show up here once they have run.</p>
+              </div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Job</TableHead>
+                      <TableHead>Started</TableHead>
+                      <TableHead>Trigger</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Checked</TableHead>
+                      <TableHead>Sent</TableHead>
+                      <TableHead>Failed</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {runs.map((run) => (
+                      <TableRow key={run.id}>
+                        <TableCell className="font-medium">{jobLabels[run.jobName] || run.jobName}</TableCell>
+                        <TableCell className="text-sm">
+                          <p>{formatDateTime(run.startedAt)}</p>
+                          {run.finishedAt && (
+                            <p className="text-xs text-muted-foreground">
+                              took {Math.max(0, Math.round((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000))}s
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">{run.trigger === "manual" ? "Run now" : "Schedule"}</TableCell>
+                        <TableCell>
+                          <RunStatusBadge status={run.status} />
+                          {run.error && (
+                            <p className="text-xs text-red-600 mt-1 max-w-[250px] truncate">{run.error}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>{run.summary?.processed ?? "-"}</TableCell>
+                        <TableCell>{run.summary?.sent ?? "-"}</TableCell>
+                        <TableCell>{run.summary?.failed ?? "-"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,498 @@
+import { AdminLayout } from "@/components/layout/admin-layout";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Chapter, InsertLearningOutcome, LearningOutcome, Topic } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Edit, Plus, Target, Trash } from "lucide-react";
+
+type ChapterWithTopic = Chapter & { topic: Pick<Topic, "id" | "name"> };
+
+type CoverageStatus = "uncovered" | "thin" | "covered";
+
+type OutcomeCoverage = LearningOutcome & {
+  topicId: number;
+  topicName: string;
+  chapterName: string;
+  level: string;
+  questionCount: number;
+  status: CoverageStatus;
+};
+
+type CoverageReport = {
+  threshold: number;
+  totalOutcomes: number;
+  uncovered: number;
+  thin: number;
+  untaggedQuestions: number;
+  outcomes: OutcomeCoverage[];
+};
+
+const emptyForm: Partial<InsertLearningOutcome> = {
+  chapterId: 0,
+  code: "",
+  statement: "",
+  order: 0,
+};
+
+function CoverageBadge({ status }: { status: CoverageStatus }) {
+  switch (status) {
+    case "uncovered":
+      return <Badge variant="outline" className="bg-red-50 text-red-600">No questions</Badge>;
+    case "thin":
+      return <Badge variant="outline" className="bg-amber-50 text-amber-600">Thin</Badge>;
+    default:
+      return <Badge variant="outline" className="bg-green-50 text-green-600">Covered</Badge>;
+  }
+}
+
+export default function LearningOutcomesManagement() {
+  const [threshold, setThreshold] = useState(3);
+  const [chapterFilter, setChapterFilter] = useState("all");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isDeleteAlertOpen, setIsDeleteAlertOpen] = useState(false);
+  const [selectedOutcome, setSelectedOutcome] = useState<OutcomeCoverage | null>(null);
+  const [formData, setFormData] = useState<Partial<InsertLearningOutcome>>(emptyForm);
+  const { toast } = useToast();
+
+  const { data: report, isLoading } = useQuery<CoverageReport>({
+    queryKey: [`/api/learning-outcomes/coverage?threshold=${threshold}`],
+    refetchOnWindowFocus: false,
+  });
+
+  const { data: chapters } = useQuery<ChapterWithTopic[]>({
+    queryKey: ["/api/chapters"],
+    refetchOnWindowFocus: false,
+  });
+
+  const invalidateOutcomes = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/learning-outcomes"),
+    });
+  };
+
+  const saveOutcomeMutation = useMutation({
+    mutationFn: async (data: Partial<InsertLearningOutcome>) => {
+      const res = selectedOutcome
+        ? await apiRequest("PATCH", `/api/learning-outcomes/${selectedOutcome.id}`, data)
+        : await apiRequest("POST", "/api/learning-outcomes", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: selectedOutcome ? "Learning outcome updated" : "Learning outcome created",
+        description: "The learning outcome catalogue has been updated.",
+      });
+      invalidateOutcomes();
+      setIsDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save learning outcome",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteOutcomeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/learning-outcomes/${id}`);
+      return true;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Learning outcome deleted",
+        description: "The learning outcome has been removed from the catalogue.",
+      });
+      invalidateOutcomes();
+      setIsDeleteAlertOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete learning outcome",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddClick = () => {
+    setSelectedOutcome(null);
+    setFormData({
+      ...emptyForm,
+      chapterId: chapterFilter !== "all" ? parseInt(chapterFilter) : 0,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleEditClick = (outcome: OutcomeCoverage) => {
+    setSelectedOutcome(outcome);
+    setFormData({
+      chapterId: outcome.chapterId,
+      code: outcome.code,
+      statement: outcome.statement,
+      order: outcome.order,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDeleteClick = (outcome: OutcomeCoverage) => {
+    setSelectedOutcome(outcome);
+    setIsDeleteAlertOpen(true);
+  };
+
+  const handleFormChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: name === "order" ? parseInt(value) || 0 : value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.chapterId) {
+      toast({
+        title: "Chapter required",
+        description: "Please select the chapter this learning outcome belongs to.",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveOutcomeMutation.mutate(formData);
+  };
+
+  const getChapterLabel = (chapter: ChapterWithTopic) =>
+    `${chapter.topic.name} (${chapter.level}) › ${chapter.name}`;
+
+  if (isLoading) {
+    return (
+      <AdminLayout>
+        <div className="flex justify-center items-center h-full">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  // The catalogue reads in curriculum order rather than by coverage
+  const catalogue = (report?.outcomes || [])
+    .filter((outcome) => chapterFilter === "all" || outcome.chapterId.toString() === chapterFilter)
+    .sort((a, b) =>
+      a.topicName.localeCompare(b.topicName) ||
+      a.chapterId - b.chapterId ||
+      a.order - b.order ||
+      a.code.localeCompare(b.code)
+    );
+  const gaps = (report?.outcomes || []).filter((outcome) => outcome.status !== "covered");
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Learning Outcomes</h1>
+            <p className="text-muted-foreground">
+              The LOS catalogue for each chapter and how well the question bank covers it.
+            </p>
+          </div>
+          <Button onClick={handleAddClick}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Outcome
+          </Button>
+        </div>
+
+        <Tabs defaultValue="catalogue">
+          <TabsList>
+            <TabsTrigger value="catalogue">Catalogue</TabsTrigger>
+            <TabsTrigger value="coverage">Coverage</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="catalogue" className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Label htmlFor="chapter-filter">Chapter</Label>
+              <Select value={chapterFilter} onValueChange={setChapterFilter}>
+                <SelectTrigger id="chapter-filter" className="w-[360px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All chapters</SelectItem>
+                  {chapters?.map((chapter) => (
+                    <SelectItem key={chapter.id} value={chapter.id.toString()}>
+                      {getChapterLabel(chapter)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {catalogue.length === 0 ? (
+              <div className="text-center p-8 border rounded-lg">
+                <Target className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+                <h3 className="text-lg font-medium">No learning outcomes yet</h3>
+                <p className="text-muted-foreground mb-4">
+                  Add the curriculum's learning outcome statements so questions can be tagged with them.
+                </p>
+                <Button onClick={handleAddClick}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Outcome
+                </Button>
+              </div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Code</TableHead>
+                      <TableHead className="w-1/2">Statement</TableHead>
+                      <TableHead>Chapter</TableHead>
+                      <TableHead>Questions</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {catalogue.map((outcome) => (
+                      <TableRow key={outcome.id}>
+                        <TableCell className="font-medium whitespace-nowrap">{outcome.code}</TableCell>
+                        <TableCell>{outcome.statement}</TableCell>
+                        <TableCell>
+                          <p>{outcome.chapterName}</p>
+                          <p className="text-xs text-muted-foreground">{outcome.topicName} · {outcome.level}</p>
+                        </TableCell>
+                        <TableCell>{outcome.questionCount}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            <Button variant="ghost" size="sm" onClick={() => handleEditClick(outcome)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => handleDeleteClick(outcome)}>
+                              <Trash className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="coverage" className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground">Learning outcomes</p>
+                  <p className="text-2xl font-bold">{report?.totalOutcomes ?? 0}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground">With no questions</p>
+                  <p className="text-2xl font-bold text-red-600">{report?.uncovered ?? 0}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground">Below {report?.threshold ?? threshold} questions</p>
+                  <p className="text-2xl font-bold text-amber-600">{report?.thin ?? 0}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground">Untagged questions</p>
+                  <p className="text-2xl font-bold">{report?.untaggedQuestions ?? 0}</p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Label htmlFor="threshold">Flag outcomes with fewer than</Label>
+              <Input
+                id="threshold"
+                type="number"
+                min="1"
+                max="50"
+                className="w-20"
+                value={threshold}
+                onChange={(e) => setThreshold(Math.min(50, Math.max(1, parseInt(e.target.value) || 1)))}
+              />
+              <span className="text-sm">questions</span>
+            </div>
+
+            {gaps.length === 0 ? (
+              <div className="text-center p-8 border rounded-lg">
+                <h3 className="text-lg font-medium">No gaps</h3>
+                <p className="text-muted-foreground">
+                  Every learning outcome has at least {report?.threshold ?? threshold} questions.
+                </p>
+              </div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Code</TableHead>
+                      <TableHead className="w-1/2">Statement</TableHead>
+                      <TableHead>Chapter</TableHead>
+                      <TableHead>Questions</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {gaps.map((outcome) => (
+                      <TableRow key={outcome.id}>
+                        <TableCell className="font-medium whitespace-nowrap">{outcome.code}</TableCell>
+                        <TableCell>{outcome.statement}</TableCell>
+                        <TableCell>
+                          <p>{outcome.chapterName}</p>
+                          <p className="text-xs text-muted-foreground">{outcome.topicName} · {outcome.level}</p>
+                        </TableCell>
+                        <TableCell>{outcome.questionCount}</TableCell>
+                        <TableCell><CoverageBadge status={outcome.status} /></TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      {/* Add / Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedOutcome ? "Edit Learning Outcome" : "Add Learning Outcome"}</DialogTitle>
+            <DialogDescription>
+              A learning outcome statement from the curriculum, listed under its chapter.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit}>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="chapterId">Chapter</Label>
+                <Select
+                  value={formData.chapterId ? formData.chapterId.toString() : ""}
+                  onValueChange={(value) => setFormData((prev) => ({ ...prev, chapterId: parseInt(value) }))}
+                >
+                  <SelectTrigger id="chapterId">
+                    <SelectValue placeholder="Select a chapter" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {chapters?.map((chapter) => (
+                      <SelectItem key={chapter.id} value={chapter.id.toString()}>
+                        {getChapterLabel(chapter)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="grid gap-2 col-span-2">
+                  <Label htmlFor="code">Code</Label>
+                  <Input
+                    id="code"
+                    name="code"
+                    placeholder="e.g., LOS 4.a"
+                    value={formData.code}
+                    onChange={handleFormChange}
+                    required
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="order">Order</Label>
+                  <Input
+                    id="order"
+                    name="order"
+                    type="number"
+                    min="0"
+                    value={formData.order}
+                    onChange={handleFormChange}
+                  />
+                </div>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="statement">Statement</Label>
+                <Textarea
+                  id="statement"
+                  name="statement"
+                  placeholder="e.g., calculate and interpret the future value of a single cash flow"
+                  value={formData.statement}
+                  onChange={handleFormChange}
+                  rows={3}
+                  required
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={saveOutcomeMutation.isPending}>
+                {saveOutcomeMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Alert */}
+      <AlertDialog open={isDeleteAlertOpen} onOpenChange={setIsDeleteAlertOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will remove {selectedOutcome?.code} from the catalogue. Questions tagged with it keep their other tags.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => selectedOutcome && deleteOutcomeMutation.mutate(selectedOutcome.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteOutcomeMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,478 @@
+import { AdminLayout } from "@/components/layout/admin-layout";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { InsertMockExam, MockExam, Topic } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ClipboardList, Clock, Edit, Layers, Plus, Save, Trash } from "lucide-react";
+
+type MockExamFormData = {
+  name: string;
+  description: string;
+  sessionCount: number;
+  questionsPerSession: number;
+  sessionDuration: number;
+  passingScore: number;
+  isActive: boolean;
+  // Keyed by topic id; topics left at 0 are not part of the blueprint
+  weights: Record<number, number>;
+};
+
+const emptyForm: MockExamFormData = {
+  name: "",
+  description: "",
+  sessionCount: 2,
+  questionsPerSession: 90,
+  sessionDuration: 135,
+  passingScore: 70,
+  isActive: true,
+  weights: {},
+};
+
+export default function MockExamsManagement() {
+  const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
+  const [isDeleteAlertOpen, setIsDeleteAlertOpen] = useState(false);
+  const [selectedExam, setSelectedExam] = useState<MockExam | null>(null);
+  const [formData, setFormData] = useState<MockExamFormData>(emptyForm);
+  const { toast } = useToast();
+
+  const { data: topics } = useQuery<Topic[]>({
+    queryKey: ["/api/topics"],
+    refetchOnWindowFocus: false,
+  });
+
+  const { data: mockExams, isLoading } = useQuery<MockExam[]>({
+    queryKey: ["/api/mock-exams"],
+    refetchOnWindowFocus: false,
+  });
+
+  const saveMockExamMutation = useMutation({
+    mutationFn: async (exam: InsertMockExam & { id?: number }) => {
+      const { id, ...data } = exam;
+      const res = id
+        ? await apiRequest("PATCH", `/api/mock-exams/${id}`, data)
+        : await apiRequest("POST", "/api/mock-exams", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: selectedExam ? "Mock exam updated" : "Mock exam created",
+        description: "The mock exam blueprint has been saved.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/mock-exams"] });
+      setIsFormDialogOpen(false);
+      resetForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save mock exam",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMockExamMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("DELETE", `/api/mock-exams/${id}`);
+      if (!res.ok) {
+        throw new Error("Failed to delete mock exam");
+      }
+      return true;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Mock exam deleted",
+        description: "The mock exam has been deleted successfully.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/mock-exams"] });
+      setIsDeleteAlertOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete mock exam",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setSelectedExam(null);
+  };
+
+  const handleFormChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => {
+    const { name, value } = e.target;
+
+    if (name === "name" || name === "description") {
+      setFormData((prev) => ({ ...prev, [name]: value }));
+    } else {
+      setFormData((prev) => ({ ...prev, [name]: parseInt(value) || 0 }));
+    }
+  };
+
+  const handleWeightChange = (topicId: number, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      weights: { ...prev.weights, [topicId]: parseFloat(value) || 0 },
+    }));
+  };
+
+  const handleAddClick = () => {
+    resetForm();
+    setIsFormDialogOpen(true);
+  };
+
+  const handleEditClick = (exam: MockExam) => {
+    setSelectedExam(exam);
+    setFormData({
+      name: exam.name,
+      description: exam.description || "",
+      sessionCount: exam.sessionCount,
+      questionsPerSession: exam.questionsPerSession,
+      sessionDuration: exam.sessionDuration,
+      passingScore: exam.passingScore,
+      isActive: exam.isActive,
+      weights: Object.fromEntries(exam.topicWeights.map((w) => [w.topicId, w.weight])),
+    });
+    setIsFormDialogOpen(true);
+  };
+
+  const handleFormSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const topicWeights = Object.entries(formData.weights)
+      .filter(([, weight]) => weight > 0)
+      .map(([topicId, weight]) => ({ topicId: parseInt(topicId), weight }));
+
+    if (topicWeights.length === 0) {
+      toast({
+        title: "Topic weights required",
+        description: "Give at least one topic a weight above zero.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const { weights, ...rest } = formData;
+    saveMockExamMutation.mutate({
+      id: selectedExam?.id,
+      ...rest,
+      topicWeights,
+    });
+  };
+
+  const handleDeleteClick = (exam: MockExam) => {
+    setSelectedExam(exam);
+    setIsDeleteAlertOpen(true);
+  };
+
+  const handleDeleteConfirm = () => {
+    if (selectedExam) {
+      deleteMockExamMutation.mutate(selectedExam.id);
+    }
+  };
+
+  const getTopicName = (topicId: number) => {
+    return topics?.find(t => t.id === topicId)?.name || "Unknown Topic";
+  };
+
+  const totalWeight = Object.values(formData.weights).reduce((sum, w) => sum + (w > 0 ? w : 0), 0);
+
+  if (isLoading) {
+    return (
+      <AdminLayout>
+        <div className="flex justify-center items-center h-full">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Mock Exams Management</h1>
+            <p className="text-muted-foreground">
+              Define full-length timed papers and how their questions are weighted across topics.
+            </p>
+          </div>
+          <Button onClick={handleAddClick}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Mock Exam
+          </Button>
+        </div>
+
+        {mockExams?.length === 0 ? (
+          <div className="text-center p-8 border rounded-lg">
+            <ClipboardList className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium">No mock exams found</h3>
+            <p className="text-muted-foreground mb-4">
+              Get started by creating your first mock exam.
+            </p>
+            <Button onClick={handleAddClick}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Mock Exam
+            </Button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {mockExams?.map((exam) => (
+              <Card key={exam.id}>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    <span className="truncate">{exam.name}</span>
+                    {exam.isActive ? (
+                      <Badge variant="outline" className="bg-green-50 text-green-600">Active</Badge>
+                    ) : (
+                      <Badge variant="outline">Inactive</Badge>
+                    )}
+                  </CardTitle>
+                  {exam.description && <CardDescription>{exam.description}</CardDescription>}
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  <div className="flex items-center text-sm">
+                    <Layers className="h-4 w-4 mr-2 text-muted-foreground" />
+                    <span>{exam.sessionCount} × {exam.questionsPerSession} questions</span>
+                  </div>
+                  <div className="flex items-center text-sm">
+                    <Clock className="h-4 w-4 mr-2 text-muted-foreground" />
+                    <span>{exam.sessionDuration} minutes per session • pass at {exam.passingScore}%</span>
+                  </div>
+                  <div className="flex flex-wrap gap-1 pt-2">
+                    {exam.topicWeights.map((w) => (
+                      <Badge key={w.topicId} variant="secondary">
+                        {getTopicName(w.topicId)}: {w.weight}
+                      </Badge>
+                    ))}
+                  </div>
+                </CardContent>
+                <CardFooter className="flex justify-between">
+                  <Button variant="outline" size="sm" onClick={() => handleEditClick(exam)}>
+                    <Edit className="mr-2 h-4 w-4" />
+                    Edit
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleDeleteClick(exam)}>
+                    <Trash className="mr-2 h-4 w-4" />
+                    Delete
+                  </Button>
+                </CardFooter>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Add / Edit Mock Exam Dialog */}
+      <Dialog open={isFormDialogOpen} onOpenChange={setIsFormDialogOpen}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedExam ? "Edit Mock Exam" : "Add New Mock Exam"}</DialogTitle>
+            <DialogDescription>
+              Each attempt draws a fresh paper using the topic weights below.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleFormSubmit}>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  name="name"
+                  placeholder="e.g., Level I Mock Exam A"
+                  value={formData.name}
+                  onChange={handleFormChange}
+                  required
+                />
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="description">Description (Optional)</Label>
+                <Textarea
+                  id="description"
+                  name="description"
+                  value={formData.description}
+                  onChange={handleFormChange}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="sessionCount">Sessions</Label>
+                  <Input
+                    id="sessionCount"
+                    name="sessionCount"
+                    type="number"
+                    min="1"
+                    max="4"
+                    value={formData.sessionCount}
+                    onChange={handleFormChange}
+                    required
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="questionsPerSession">Questions / session</Label>
+                  <Input
+                    id="questionsPerSession"
+                    name="questionsPerSession"
+                    type="number"
+                    min="1"
+                    max="200"
+                    value={formData.questionsPerSession}
+                    onChange={handleFormChange}
+                    required
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="sessionDuration">Minutes / session</Label>
+                  <Input
+                    id="sessionDuration"
+                    name="sessionDuration"
+                    type="number"
+                    min="1"
+                    max="300"
+                    value={formData.sessionDuration}
+                    onChange={handleFormChange}
+                    required
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="passingScore">Passing score (%)</Label>
+                  <Input
+                    id="passingScore"
+                    name="passingScore"
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={formData.passingScore}
+                    onChange={handleFormChange}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="grid gap-2">
+                <Label>Topic weights</Label>
+                <div className="border rounded-md divide-y">
+                  {topics?.map((topic) => {
+                    const weight = formData.weights[topic.id] || 0;
+                    const total = formData.sessionCount * formData.questionsPerSession;
+                    const share = totalWeight > 0 && weight > 0 ? Math.round((weight / totalWeight) * total) : 0;
+                    return (
+                      <div key={topic.id} className="flex items-center justify-between px-3 py-2">
+                        <span className="text-sm">{topic.name}</span>
+                        <div className="flex items-center gap-3">
+                          <span className="text-xs text-muted-foreground w-20 text-right">
+                            ~{share} questions
+                          </span>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="any"
+                            className="w-24"
+                            value={weight}
+                            onChange={(e) => handleWeightChange(topic.id, e.target.value)}
+                          />
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-2 pt-2">
+                <Switch
+                  id="isActive"
+                  checked={formData.isActive}
+                  onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, isActive: checked }))}
+                />
+                <Label htmlFor="isActive" className="cursor-pointer">
+                  Available to students
+                </Label>
+              </div>
+            </div>
+            <DialogFooter className="mt-4">
+              <Button type="submit" disabled={saveMockExamMutation.isPending}>
+                {saveMockExamMutation.isPending ? (
+                  <div className="flex items-center">
+                    <div className="animate-spin mr-2 h-4 w-4 border-2 border-b-transparent border-white rounded-full"></div>
+                    Saving...
+                  </div>
+                ) : (
+                  <div className="flex items-center">
+                    <Save className="mr-2 h-4 w-4" />
+                    {selectedExam ? "Save Changes" : "Create Mock Exam"}
+                  </div>
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Alert */}
+      <AlertDialog open={isDeleteAlertOpen} onOpenChange={setIsDeleteAlertOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will delete the mock exam "{selectedExam?.name}". Students will no longer
+              be able to start or review it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDeleteConfirm}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteMockExamMutation.isPending ? (
+                <div className="flex items-center">
+                  <div className="animate-spin mr-2 h-4 w-4 border-2 border-b-transparent border-white rounded-full"></div>
+                  Deleting...
+                </div>
+              ) : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AdminLayout>
+  );
+}
@@ -48,6 +48,8 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { 
+  CURRICULUM_LEVELS,
+  CurriculumLevel,
   InsertPracticeSet, 
   PracticeSet, 
   Topic,
@@ -60,6 +62,7 @@ import {
   Clock, 
   Edit, 
   Layers, 
+  ListOrdered,
   Plus, 
   Save, 
   Trash,
@@ -69,11 +72,13 @@ import {
 } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
+import { PracticeSetQuestionsDialog } from "@/components/admin/practice-set-questions-dialog";
 
 export default function PracticeSetsManagement() {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteAlertOpen, setIsDeleteAlertOpen] = useState(false);
+  const [isQuestionsDialogOpen, setIsQuestionsDialogOpen] = useState(false);
   const [selectedPracticeSet, setSelectedPracticeSet] = useState<PracticeSet | null>(null);
   const [selectedTopicId, setSelectedTopicId] = useState<number | null>(null);
   const [formData, setFormData] = useState<Partial<InsertPracticeSet>>({
@@ -84,7 +89,8 @@ export default function PracticeSetsManagement() {
     estimatedTime: 15,
     difficulty: 1,
     isRecommended: false,
-    status: "new"
+    status: "new",
+    level: "Level I"
   });
   const { toast } = useToast();
 
@@ -187,7 +193,8 @@ export default function PracticeSetsManagement() {
       estimatedTime: 15,
       difficulty: 1,
       isRecommended: false,
-      status: "new"
+      status: "new",
+      level: "Level I"
     });
     setSelectedPracticeSet(null);
   };
@@ -205,7 +212,15 @@ export default function PracticeSetsManagement() {
   };
 
   const handleSelectChange = (name: string, value: string) => {
-    if (name === "topicId" || name === "difficulty") {
+    if (name === "topicId") {
+      // A practice set follows its topic's curriculum level
+      const topic = topics?.find(t => t.id === parseInt(value));
+      setFormData((prev) => ({
+        ...prev,
+        topicId: parseInt(value),
+        level: (topic?.level as CurriculumLevel | undefined) ?? prev.level
+      }));
+    } else if (name === "difficulty") {
       setFormData((prev) => ({ ...prev, [name]: parseInt(value) }));
     } else {
       setFormData((prev) => ({ ...prev, [name]: value }));
@@ -239,7 +254,8 @@ export default function PracticeSetsManagement() {
       estimatedTime: practiceSet.estimatedTime,
       difficulty: practiceSet.difficulty,
       isRecommended: practiceSet.isRecommended,
-      status: practiceSet.status || "new"
+      status: practiceSet.status || "new",
+      level: practiceSet.level as CurriculumLevel
     });
     setIsEditDialogOpen(true);
   };
@@ -259,6 +275,11 @@ export default function PracticeSetsManagement() {
     setIsDeleteAlertOpen(true);
   };
 
+  const handleQuestionsClick = (practiceSet: PracticeSet) => {
+    setSelectedPracticeSet(practiceSet);
+    setIsQuestionsDialogOpen(true);
+  };
+
   const handleDeleteConfirm = () => {
     if (selectedPracticeSet) {
       deletePracticeSetMutation.mutate(selectedPracticeSet.id);
@@ -322,7 +343,7 @@ export default function PracticeSetsManagement() {
             <SelectContent>
               {topics?.map((topic) => (
                 <SelectItem key={topic.id} value={topic.id.toString()}>
-                  {topic.name} ({getTopicCount(topic.id)} questions)
+                  {topic.name} ({topic.level}, {getTopicCount(topic.id)} questions)
                 </SelectItem>
               ))}
             </SelectContent>
@@ -341,6 +362,25 @@ export default function PracticeSetsManagement() {
         </div>
       </div>
 
+      <div className="grid gap-2">
+        <Label htmlFor="level">Curriculum Level</Label>
+        <Select
+          value={formData.level || "Level I"}
+          onValueChange={(value) => handleSelectChange("level", value)}
+        >
+          <SelectTrigger id="level">
+            <SelectValue placeholder="Select a level" />
+          </SelectTrigger>
+          <SelectContent>
+            {CURRICULUM_LEVELS.map((level) => (
+              <SelectItem key={level} value={level}>
+                {level}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div className="grid gap-2">
           <Label htmlFor="questionCount">Number of Questions</Label>
@@ -534,7 +574,7 @@ export default function PracticeSetsManagement() {
                     </div>
                   </CardTitle>
                   <CardDescription>
-                    {getTopicName(practiceSet.topicId)}
+                    {practiceSet.level} • {getTopicName(practiceSet.topicId)}
                     {practiceSet.subtopic && ` • ${practiceSet.subtopic}`}
                   </CardDescription>
                 </CardHeader>
@@ -561,6 +601,14 @@ export default function PracticeSetsManagement() {
                     <Edit className="mr-2 h-4 w-4" />
                     Edit
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleQuestionsClick(practiceSet)}
+                  >
+                    <ListOrdered className="mr-2 h-4 w-4" />
+                    Questions
+                  </Button>
                   <Button
                     variant="outline"
                     size="sm"
@@ -609,6 +657,13 @@ export default function PracticeSetsManagement() {
         </DialogContent>
       </Dialog>
 
+      {/* Practice Set Questions Dialog */}
+      <PracticeSetQuestionsDialog
+        practiceSet={selectedPracticeSet}
+        open={isQuestionsDialogOpen}
+        onOpenChange={setIsQuestionsDialogOpen}
+      />
+
       {/* Delete Confirmation Alert */}
       <AlertDialog open={isDeleteAlertOpen} onOpenChange={setIsDeleteAlertOpen}>
         <AlertDialogContent>
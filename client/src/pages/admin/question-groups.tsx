@@ -0,0 +1,189 @@
+import { AdminLayout } from "@/components/layout/admin-layout";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { QuestionGroup } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { QuestionGroupDialog } from "@/components/admin/question-group-dialog";
+import { Edit, FileStack, Plus, Trash } from "lucide-react";
+
+type QuestionGroupRow = QuestionGroup & {
+  topicName: string | null;
+  questionCount: number;
+};
+
+export default function QuestionGroupsManagement() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isDeleteAlertOpen, setIsDeleteAlertOpen] = useState(false);
+  const [selectedGroup, setSelectedGroup] = useState<QuestionGroupRow | null>(null);
+  const { toast } = useToast();
+
+  const { data: groups, isLoading } = useQuery<QuestionGroupRow[]>({
+    queryKey: ["/api/question-groups"],
+    refetchOnWindowFocus: false,
+  });
+
+  const deleteGroupMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/question-groups/${id}`);
+      return true;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Item set deleted",
+        description: "The item set and its questions have been deleted.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/question-groups"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/questions/all"] });
+      setIsDeleteAlertOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete item set",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddClick = () => {
+    setSelectedGroup(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleEditClick = (group: QuestionGroupRow) => {
+    setSelectedGroup(group);
+    setIsDialogOpen(true);
+  };
+
+  const handleDeleteClick = (group: QuestionGroupRow) => {
+    setSelectedGroup(group);
+    setIsDeleteAlertOpen(true);
+  };
+
+  if (isLoading) {
+    return (
+      <AdminLayout>
+        <div className="flex justify-center items-center h-full">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Item Sets</h1>
+            <p className="text-muted-foreground">
+              Vignettes with several questions that share the same case and exhibits.
+            </p>
+          </div>
+          <Button onClick={handleAddClick}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Item Set
+          </Button>
+        </div>
+
+        {!groups?.length ? (
+          <div className="text-center p-8 border rounded-lg">
+            <FileStack className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium">No item sets yet</h3>
+            <p className="text-muted-foreground mb-4">
+              Create a vignette and add the questions that go with it.
+            </p>
+            <Button onClick={handleAddClick}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Item Set
+            </Button>
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-1/2">Title</TableHead>
+                  <TableHead>Topic</TableHead>
+                  <TableHead>Questions</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {groups.map((group) => (
+                  <TableRow key={group.id}>
+                    <TableCell>
+                      <p className="font-medium">{group.title}</p>
+                      <p className="text-xs text-muted-foreground truncate max-w-[400px]">{group.context}</p>
+                    </TableCell>
+                    <TableCell>{group.topicName || "Unknown"}</TableCell>
+                    <TableCell>{group.questionCount}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => handleEditClick(group)}>
+                          <Edit className="mr-1 h-4 w-4" />
+                          Edit
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDeleteClick(group)}>
+                          <Trash className="mr-1 h-4 w-4" />
+                          Delete
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+
+      <QuestionGroupDialog
+        groupId={selectedGroup?.id ?? null}
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+      />
+
+      {/* Delete Confirmation Alert */}
+      <AlertDialog open={isDeleteAlertOpen} onOpenChange={setIsDeleteAlertOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will delete the item set "{selectedGroup?.title}" and all {selectedGroup?.questionCount} of its questions.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => selectedGroup && deleteGroupMutation.mutate(selectedGroup.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteGroupMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AdminLayout>
+  );
+}
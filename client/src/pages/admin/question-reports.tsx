@@ -0,0 +1,256 @@
+import { AdminLayout } from "@/components/layout/admin-layout";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { QuestionReport } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CheckCircle, Edit, Flag, RotateCcw, XCircle } from "lucide-react";
+
+type ReportStatus = "open" | "resolved" | "rejected";
+
+type QuestionReportRow = Omit<QuestionReport, "createdAt" | "resolvedAt"> & {
+  createdAt: string;
+  resolvedAt: string | null;
+  questionText?: string;
+  topicName?: string;
+  isOutdated: boolean;
+  reporterName?: string;
+};
+
+const categoryLabels: Record<string, string> = {
+  wrong_key: "Wrong key",
+  typo: "Typo",
+  unclear_explanation: "Unclear explanation",
+  outdated_curriculum: "Outdated curriculum",
+  other: "Other",
+};
+
+export default function QuestionReportsManagement() {
+  const [statusFilter, setStatusFilter] = useState<ReportStatus>("open");
+  const [selectedReport, setSelectedReport] = useState<QuestionReportRow | null>(null);
+  const [pendingStatus, setPendingStatus] = useState<ReportStatus | null>(null);
+  const [resolutionNote, setResolutionNote] = useState("");
+  const { toast } = useToast();
+
+  const { data: reports, isLoading } = useQuery<QuestionReportRow[]>({
+    queryKey: [`/api/question-reports?status=${statusFilter}`],
+    refetchOnWindowFocus: false,
+  });
+
+  const updateReportMutation = useMutation({
+    mutationFn: async ({ id, status, note }: { id: number; status: ReportStatus; note?: string }) => {
+      const res = await apiRequest("PATCH", `/api/question-reports/${id}`, {
+        status,
+        resolutionNote: note || null,
+      });
+      return res.json();
+    },
+    onSuccess: (_, variables) => {
+      toast({
+        title: variables.status === "open" ? "Report reopened" : `Report ${variables.status}`,
+        description: "The triage queue has been updated.",
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/question-reports"),
+      });
+      closeDialog();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update report",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = (report: QuestionReportRow, status: ReportStatus) => {
+    setSelectedReport(report);
+    setPendingStatus(status);
+    setResolutionNote(report.resolutionNote || "");
+  };
+
+  const closeDialog = () => {
+    setSelectedReport(null);
+    setPendingStatus(null);
+    setResolutionNote("");
+  };
+
+  const handleConfirm = () => {
+    if (selectedReport && pendingStatus) {
+      updateReportMutation.mutate({ id: selectedReport.id, status: pendingStatus, note: resolutionNote });
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Question Reports</h1>
+          <p className="text-muted-foreground">
+            Problems students have reported with questions.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <CardTitle>Triage Queue</CardTitle>
+              <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as ReportStatus)}>
+                <TabsList>
+                  <TabsTrigger value="open">Open</TabsTrigger>
+                  <TabsTrigger value="resolved">Resolved</TabsTrigger>
+                  <TabsTrigger value="rejected">Rejected</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center p-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : !reports?.length ? (
+              <div className="text-center p-8">
+                <Flag className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+                <h3 className="text-lg font-medium">No {statusFilter} reports</h3>
+                <p className="text-muted-foreground">
+                  {statusFilter === "open" ? "Nothing waiting for triage." : "Nothing here yet."}
+                </p>
+              </div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-1/3">Question</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Details</TableHead>
+                      <TableHead>Reported</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {reports.map((report) => (
+                      <TableRow key={report.id}>
+                        <TableCell>
+                          <p className="font-medium truncate max-w-[300px]">{report.questionText || `Question #${report.questionId}`}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {report.topicName}
+                            {report.isOutdated && " • edited since report"}
+                          </p>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={report.category === "wrong_key" ? "incorrect" : "outline"}>
+                            {categoryLabels[report.category] || report.category}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm max-w-[250px]">
+                          <p className="line-clamp-3">{report.message || "-"}</p>
+                          {report.resolutionNote && (
+                            <p className="text-xs text-muted-foreground mt-1">Note: {report.resolutionNote}</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          <p>{report.reporterName || "Unknown"}</p>
+                          <p className="text-xs text-muted-foreground">{new Date(report.createdAt).toLocaleDateString()}</p>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            <Link href={`/admin/questions?question=${report.questionId}`}>
+                              <Button variant="ghost" size="sm">
+                                <Edit className="mr-1 h-4 w-4" />
+                                Edit
+                              </Button>
+                            </Link>
+                            {report.status === "open" ? (
+                              <>
+                                <Button variant="ghost" size="sm" onClick={() => openDialog(report, "resolved")}>
+                                  <CheckCircle className="mr-1 h-4 w-4" />
+                                  Resolve
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => openDialog(report, "rejected")}>
+                                  <XCircle className="mr-1 h-4 w-4" />
+                                  Reject
+                                </Button>
+                              </>
+                            ) : (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => updateReportMutation.mutate({ id: report.id, status: "open" })}
+                              >
+                                <RotateCcw className="mr-1 h-4 w-4" />
+                                Reopen
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Resolve / Reject Dialog */}
+      <Dialog open={!!selectedReport} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{pendingStatus === "resolved" ? "Resolve Report" : "Reject Report"}</DialogTitle>
+            <DialogDescription>
+              {pendingStatus === "resolved"
+                ? "Mark this report as fixed. Edit the question first if it needs changes."
+                : "Close this report without changing the question."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2 py-2">
+            <Label htmlFor="resolutionNote">Note (optional)</Label>
+            <Textarea
+              id="resolutionNote"
+              value={resolutionNote}
+              onChange={(e) => setResolutionNote(e.target.value)}
+              placeholder="What was done, or why no change is needed"
+            />
+          </div>
+          <DialogFooter>
+            <Button onClick={handleConfirm} disabled={updateReportMutation.isPending}>
+              {updateReportMutation.isPending ? "Saving..." : pendingStatus === "resolved" ? "Resolve" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  );
+}
@@ -31,7 +31,8 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Select,
   SelectContent,
@@ -54,7 +55,10 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { 
+  CURRICULUM_LEVELS,
+  CurriculumLevel,
   InsertQuestion, 
+  LearningOutcome,
   Question, 
   Topic,
   Chapter
@@ -62,11 +66,15 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { 
+  ArrowUpDown,
   ChevronDown, 
+  Download,
   Edit, 
   Eye, 
   FileQuestion, 
+  FileUp,
   HelpCircle, 
+  History,
   Plus, 
   Save, 
   Trash 
@@ -80,15 +88,46 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
+import { QuestionImportDialog } from "@/components/admin/question-import-dialog";
+import { QuestionExportDialog } from "@/components/admin/question-export-dialog";
+import { QuestionHistoryDialog } from "@/components/admin/question-history-dialog";
+import { RichContentEditor } from "@/components/admin/rich-content-editor";
+import { RichContent } from "@/components/practice/rich-content";
+
+type ItemStatistics = {
+  questionId: number;
+  responses: number;
+  pValue: number | null;
+  discrimination: number | null;
+  medianTimeSpent: number | null;
+  optionRates: Record<string, number>;
+  flags: string[];
+};
+
+type SortKey = "pValue" | "discrimination" | "medianTimeSpent" | "flags";
+
+const flagLabels: Record<string, string> = {
+  too_easy: "Too easy",
+  too_hard: "Too hard",
+  low_discrimination: "Low discrimination",
+  negative_discrimination: "Negative discrimination",
+  distractor_beats_key: "Check answer key",
+  unused_distractor: "Unused distractor",
+};
 
 export default function QuestionsManagement() {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
   const [isDeleteAlertOpen, setIsDeleteAlertOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [isHistoryDialogOpen, setIsHistoryDialogOpen] = useState(false);
+  const [sortBy, setSortBy] = useState<{ key: SortKey; direction: "asc" | "desc" } | null>(null);
   const [selectedQuestion, setSelectedQuestion] = useState<Question | null>(null);
   const [selectedTopicId, setSelectedTopicId] = useState<number | null>(null);
   const [chapters, setChapters] = useState<Chapter[]>([]);
+  const [learningOutcomeIds, setLearningOutcomeIds] = useState<number[]>([]);
   const [formData, setFormData] = useState<Partial<InsertQuestion>>({
     topicId: 0,
     chapterId: null,
@@ -102,6 +141,8 @@ export default function QuestionsManagement() {
     difficulty: 1,
     subtopic: "",
     context: "",
+    contentFormat: "plain",
+    level: "Level I",
   });
   const { toast } = useToast();
 
@@ -133,14 +174,81 @@ export default function QuestionsManagement() {
     }
   }, [chapterData]);
 
-  const filteredQuestions = selectedTopicId
+  const { data: learningOutcomes } = useQuery<LearningOutcome[]>({
+    queryKey: ["/api/learning-outcomes"],
+    refetchOnWindowFocus: false,
+  });
+
+  // A question can be tagged with outcomes from any chapter of its topic
+  const topicOutcomeGroups = chapters
+    .map((chapter) => ({
+      chapter,
+      outcomes: (learningOutcomes || []).filter((outcome) => outcome.chapterId === chapter.id),
+    }))
+    .filter((group) => group.outcomes.length > 0);
+
+  const saveLearningOutcomes = async (questionId: number) => {
+    await apiRequest("PUT", `/api/questions/${questionId}/learning-outcomes`, { learningOutcomeIds });
+  };
+
+  const invalidateLearningOutcomes = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/learning-outcomes"),
+    });
+  };
+
+  const { data: statistics } = useQuery<ItemStatistics[]>({
+    queryKey: ["/api/questions/statistics"],
+    refetchOnWindowFocus: false,
+  });
+
+  const statisticsById = new Map((statistics || []).map((stat) => [stat.questionId, stat]));
+
+  const getSortValue = (questionId: number, key: SortKey) => {
+    const stat = statisticsById.get(questionId);
+    if (!stat) return null;
+    return key === "flags" ? stat.flags.length : stat[key];
+  };
+
+  // Questions without data always sink to the bottom, whichever way we sort
+  const filteredQuestions = (selectedTopicId
     ? questions?.filter((q) => q.topicId === selectedTopicId)
-    : questions;
+    : questions
+  )?.slice().sort((a, b) => {
+    if (!sortBy) return 0;
+    const aValue = getSortValue(a.id, sortBy.key);
+    const bValue = getSortValue(b.id, sortBy.key);
+    if (aValue === null && bValue === null) return 0;
+    if (aValue === null) return 1;
+    if (bValue === null) return -1;
+    return sortBy.direction === "asc" ? aValue - bValue : bValue - aValue;
+  });
+
+  const handleSort = (key: SortKey) => {
+    setSortBy((current) =>
+      current?.key === key
+        ? { key, direction: current.direction === "asc" ? "desc" : "asc" }
+        : { key, direction: key === "flags" ? "desc" : "asc" }
+    );
+  };
+
+  const sortableHead = (key: SortKey, label: string) => (
+    <TableHead>
+      <Button variant="ghost" size="sm" className="-ml-3" onClick={() => handleSort(key)}>
+        {label}
+        <ArrowUpDown className="ml-2 h-3 w-3" />
+      </Button>
+    </TableHead>
+  );
 
   const createQuestionMutation = useMutation({
     mutationFn: async (newQuestion: InsertQuestion) => {
       const res = await apiRequest("POST", "/api/questions", newQuestion);
-      return res.json();
+      const question: Question = await res.json();
+      if (learningOutcomeIds.length > 0) {
+        await saveLearningOutcomes(question.id);
+      }
+      return question;
     },
     onSuccess: () => {
       toast({
@@ -148,6 +256,7 @@ export default function QuestionsManagement() {
         description: "The question has been created successfully.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/questions/all"] });
+      invalidateLearningOutcomes();
       setIsAddDialogOpen(false);
       resetForm();
     },
@@ -163,7 +272,9 @@ export default function QuestionsManagement() {
   const updateQuestionMutation = useMutation({
     mutationFn: async (question: Partial<Question>) => {
       const res = await apiRequest("PATCH", `/api/questions/${question.id}`, question);
-      return res.json();
+      const updated: Question = await res.json();
+      await saveLearningOutcomes(updated.id);
+      return updated;
     },
     onSuccess: () => {
       toast({
@@ -171,6 +282,9 @@ export default function QuestionsManagement() {
         description: "The question has been updated successfully.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/questions/all"] });
+      invalidateLearningOutcomes();
+      // Each edit adds a revision to the question's history
+      queryClient.invalidateQueries({ queryKey: ["/api/questions"] });
       setIsEditDialogOpen(false);
       resetForm();
     },
@@ -222,7 +336,10 @@ export default function QuestionsManagement() {
       difficulty: 1,
       subtopic: "",
       context: "",
+      contentFormat: "plain",
+      level: "Level I",
     });
+    setLearningOutcomeIds([]);
     setSelectedQuestion(null);
   };
 
@@ -233,13 +350,25 @@ export default function QuestionsManagement() {
     setFormData((prev) => ({ ...prev, [name]: value }));
   };
 
+  const handleContentChange = (name: "questionText" | "context" | "explanation") => (value: string) => {
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleLearningOutcomeToggle = (id: number, checked: boolean) => {
+    setLearningOutcomeIds((prev) => (checked ? [...prev, id] : prev.filter((outcomeId) => outcomeId !== id)));
+  };
+
   const handleSelectChange = (name: string, value: string) => {
-    // Reset chapter selection when topic changes
+    // Reset chapter selection and take the topic's level when topic changes
     if (name === 'topicId') {
+      const topic = topics?.find((t) => t.id === parseInt(value));
+      // Outcomes belong to the old topic's chapters
+      setLearningOutcomeIds([]);
       setFormData((prev) => ({ 
         ...prev, 
         [name]: parseInt(value),
-        chapterId: null 
+        chapterId: null,
+        level: (topic?.level as CurriculumLevel | undefined) ?? prev.level
       }));
     } else if (name === 'chapterId') {
       setFormData((prev) => ({ 
@@ -280,6 +409,15 @@ export default function QuestionsManagement() {
         console.error("Failed to load chapters:", error);
       }
     }
+
+    try {
+      const res = await apiRequest("GET", `/api/questions/${question.id}/learning-outcomes`);
+      const tags: { learningOutcomeIds: number[] } = await res.json();
+      setLearningOutcomeIds(tags.learningOutcomeIds);
+    } catch (error) {
+      console.error("Failed to load learning outcomes:", error);
+      setLearningOutcomeIds([]);
+    }
     
     setFormData({
       topicId: question.topicId,
@@ -294,11 +432,25 @@ export default function QuestionsManagement() {
       difficulty: question.difficulty,
       subtopic: question.subtopic || "",
       context: question.context || "",
+      contentFormat: question.contentFormat === "markdown" ? "markdown" : "plain",
+      level: question.level as CurriculumLevel,
     });
     
     setIsEditDialogOpen(true);
   };
 
+  // Open the editor straight away when linked from the question reports queue
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const linkedId = Number(params.get("question"));
+    if (!linkedId || !questions) return;
+    const linked = questions.find((q) => q.id === linkedId);
+    if (linked) {
+      handleEditClick(linked);
+    }
+    window.history.replaceState(null, "", window.location.pathname);
+  }, [questions]);
+
   const handleViewClick = (question: Question) => {
     setSelectedQuestion(question);
     setIsViewDialogOpen(true);
@@ -314,6 +466,11 @@ export default function QuestionsManagement() {
     });
   };
 
+  const handleHistoryClick = (question: Question) => {
+    setSelectedQuestion(question);
+    setIsHistoryDialogOpen(true);
+  };
+
   const handleDeleteClick = (question: Question) => {
     setSelectedQuestion(question);
     setIsDeleteAlertOpen(true);
@@ -329,6 +486,10 @@ export default function QuestionsManagement() {
     return topics?.find(t => t.id === topicId)?.name || "Unknown Topic";
   };
 
+  const formatStat = (value: number | null | undefined, places: number) => {
+    return value === null || value === undefined ? "-" : value.toFixed(places);
+  };
+
   const getDifficultyLabel = (level: number) => {
     switch (level) {
       case 1: return <Badge variant="outline">Easy</Badge>;
@@ -353,7 +514,7 @@ export default function QuestionsManagement() {
             <SelectContent>
               {topics?.map((topic) => (
                 <SelectItem key={topic.id} value={topic.id.toString()}>
-                  {topic.name}
+                  {topic.name} ({topic.level})
                 </SelectItem>
               ))}
             </SelectContent>
@@ -382,25 +543,62 @@ export default function QuestionsManagement() {
         </div>
       </div>
       
-      <div className="grid gap-2">
-        <Label htmlFor="subtopic">Subtopic (Optional)</Label>
-        <Input
-          id="subtopic"
-          name="subtopic"
-          placeholder="e.g., Time Value of Money"
-          value={formData.subtopic || ""}
-          onChange={handleFormChange}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="grid gap-2">
+          <Label htmlFor="subtopic">Subtopic (Optional)</Label>
+          <Input
+            id="subtopic"
+            name="subtopic"
+            placeholder="e.g., Time Value of Money"
+            value={formData.subtopic || ""}
+            onChange={handleFormChange}
+          />
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="level">Curriculum Level</Label>
+          <Select
+            value={formData.level || "Level I"}
+            onValueChange={(value) => handleSelectChange("level", value)}
+          >
+            <SelectTrigger id="level">
+              <SelectValue placeholder="Select a level" />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRICULUM_LEVELS.map((level) => (
+                <SelectItem key={level} value={level}>
+                  {level}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between rounded-md border p-3">
+        <div>
+          <Label htmlFor="contentFormat">Rich formatting</Label>
+          <p className="text-xs text-muted-foreground">
+            Markdown with $LaTeX$ formulas, tables and images in the question, options and explanation
+          </p>
+        </div>
+        <Switch
+          id="contentFormat"
+          checked={formData.contentFormat === "markdown"}
+          onCheckedChange={(checked) =>
+            setFormData((prev) => ({ ...prev, contentFormat: checked ? "markdown" : "plain" }))
+          }
         />
       </div>
 
       <div className="grid gap-2">
         <Label htmlFor="questionText">Question Text</Label>
-        <Textarea
+        <RichContentEditor
           id="questionText"
-          name="questionText"
           placeholder="Enter the question text"
-          value={formData.questionText}
-          onChange={handleFormChange}
+          value={formData.questionText || ""}
+          onChange={handleContentChange("questionText")}
+          format={formData.contentFormat || "plain"}
           rows={3}
           required
         />
@@ -408,12 +606,12 @@ export default function QuestionsManagement() {
 
       <div className="grid gap-2">
         <Label htmlFor="context">Context (Optional)</Label>
-        <Textarea
+        <RichContentEditor
           id="context"
-          name="context"
           placeholder="Additional context for the question"
-          value={formData.context}
-          onChange={handleFormChange}
+          value={formData.context || ""}
+          onChange={handleContentChange("context")}
+          format={formData.contentFormat || "plain"}
           rows={2}
         />
       </div>
@@ -468,6 +666,22 @@ export default function QuestionsManagement() {
         </div>
       </div>
 
+      {formData.contentFormat === "markdown" && (
+        <div className="rounded-md border bg-muted/30 p-3 space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Options preview</p>
+          {(["A", "B", "C", "D"] as const).map((option) => {
+            const text = formData[`option${option}`];
+            if (!text) return null;
+            return (
+              <div key={option} className="flex items-start gap-2">
+                <span className="font-semibold">{option}:</span>
+                <RichContent content={text} format="markdown" inline />
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div className="grid gap-2">
           <Label htmlFor="correctOption">Correct Option</Label>
@@ -507,16 +721,47 @@ export default function QuestionsManagement() {
 
       <div className="grid gap-2">
         <Label htmlFor="explanation">Explanation</Label>
-        <Textarea
+        <RichContentEditor
           id="explanation"
-          name="explanation"
           placeholder="Explanation of the correct answer"
-          value={formData.explanation}
-          onChange={handleFormChange}
+          value={formData.explanation || ""}
+          onChange={handleContentChange("explanation")}
+          format={formData.contentFormat || "plain"}
           rows={3}
           required
         />
       </div>
+
+      <div className="grid gap-2">
+        <Label>Learning Outcomes (Optional)</Label>
+        {topicOutcomeGroups.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {!formData.topicId
+              ? "Select a topic to tag this question with learning outcomes."
+              : "No learning outcomes have been added for this topic's chapters yet."}
+          </p>
+        ) : (
+          <div className="rounded-md border p-3 space-y-3 max-h-60 overflow-y-auto">
+            {topicOutcomeGroups.map(({ chapter, outcomes }) => (
+              <div key={chapter.id} className="space-y-2">
+                <p className="text-xs font-medium text-muted-foreground">{chapter.name}</p>
+                {outcomes.map((outcome) => (
+                  <div key={outcome.id} className="flex items-start gap-2">
+                    <Checkbox
+                      id={`outcome-${outcome.id}`}
+                      checked={learningOutcomeIds.includes(outcome.id)}
+                      onCheckedChange={(checked) => handleLearningOutcomeToggle(outcome.id, checked === true)}
+                    />
+                    <Label htmlFor={`outcome-${outcome.id}`} className="font-normal leading-snug">
+                      <span className="font-medium">{outcome.code}</span> {outcome.statement}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
     </div>
   );
 
@@ -540,43 +785,53 @@ export default function QuestionsManagement() {
               Manage CFA Level I practice questions.
             </p>
           </div>
-          <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="mr-2 h-4 w-4" />
-                Add Question
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
-              <DialogHeader>
-                <DialogTitle>Add New Question</DialogTitle>
-                <DialogDescription>
-                  Create a new CFA Level I practice question.
-                </DialogDescription>
-              </DialogHeader>
-              <form onSubmit={handleAddSubmit}>
-                {questionForm}
-                <DialogFooter className="mt-4">
-                  <Button 
-                    type="submit" 
-                    disabled={createQuestionMutation.isPending}
-                  >
-                    {createQuestionMutation.isPending ? (
-                      <div className="flex items-center">
-                        <div className="animate-spin mr-2 h-4 w-4 border-2 border-b-transparent border-white rounded-full"></div>
-                        Creating...
-                      </div>
-                    ) : (
-                      <div className="flex items-center">
-                        <Save className="mr-2 h-4 w-4" />
-                        Create Question
-                      </div>
-                    )}
-                  </Button>
-                </DialogFooter>
-              </form>
-            </DialogContent>
-          </Dialog>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+              <FileUp className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+            <Button variant="outline" onClick={() => setIsExportDialogOpen(true)}>
+              <Download className="mr-2 h-4 w-4" />
+              Export
+            </Button>
+            <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Question
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Add New Question</DialogTitle>
+                  <DialogDescription>
+                    Create a new CFA Level I practice question.
+                  </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleAddSubmit}>
+                  {questionForm}
+                  <DialogFooter className="mt-4">
+                    <Button 
+                      type="submit" 
+                      disabled={createQuestionMutation.isPending}
+                    >
+                      {createQuestionMutation.isPending ? (
+                        <div className="flex items-center">
+                          <div className="animate-spin mr-2 h-4 w-4 border-2 border-b-transparent border-white rounded-full"></div>
+                          Creating...
+                        </div>
+                      ) : (
+                        <div className="flex items-center">
+                          <Save className="mr-2 h-4 w-4" />
+                          Create Question
+                        </div>
+                      )}
+                    </Button>
+                  </DialogFooter>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
         <Card>
@@ -627,6 +882,10 @@ export default function QuestionsManagement() {
                       <TableHead>Subtopic</TableHead>
                       <TableHead className="w-1/3">Question</TableHead>
                       <TableHead>Difficulty</TableHead>
+                      {sortableHead("pValue", "P-value")}
+                      {sortableHead("discrimination", "Discrimination")}
+                      {sortableHead("medianTimeSpent", "Median time")}
+                      {sortableHead("flags", "Flags")}
                       <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -639,6 +898,22 @@ export default function QuestionsManagement() {
                           {question.questionText}
                         </TableCell>
                         <TableCell>{getDifficultyLabel(question.difficulty)}</TableCell>
+                        <TableCell>{formatStat(statisticsById.get(question.id)?.pValue, 2)}</TableCell>
+                        <TableCell>{formatStat(statisticsById.get(question.id)?.discrimination, 2)}</TableCell>
+                        <TableCell>
+                          {statisticsById.get(question.id)?.medianTimeSpent != null
+                            ? `${statisticsById.get(question.id)?.medianTimeSpent}s`
+                            : "-"}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {statisticsById.get(question.id)?.flags.map((flag) => (
+                              <Badge key={flag} variant="incorrect" className="text-xs">
+                                {flagLabels[flag] || flag}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
                         <TableCell className="text-right">
                           <DropdownMenu>
                             <DropdownMenuTrigger asChild>
@@ -657,6 +932,10 @@ export default function QuestionsManagement() {
                                 <Edit className="mr-2 h-4 w-4" />
                                 Edit
                               </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => handleHistoryClick(question)}>
+                                <History className="mr-2 h-4 w-4" />
+                                History
+                              </DropdownMenuItem>
                               <DropdownMenuItem 
                                 onClick={() => handleDeleteClick(question)}
                                 className="text-destructive focus:text-destructive"
@@ -723,39 +1002,42 @@ export default function QuestionsManagement() {
 
           {selectedQuestion && (
             <Tabs defaultValue="question" className="mt-4">
-              <TabsList className="grid w-full grid-cols-2">
+              <TabsList className="grid w-full grid-cols-3">
                 <TabsTrigger value="question">Question</TabsTrigger>
                 <TabsTrigger value="answer">Answer & Explanation</TabsTrigger>
+                <TabsTrigger value="statistics">Statistics</TabsTrigger>
               </TabsList>
               <TabsContent value="question" className="mt-4 space-y-4">
                 <div>
                   <h3 className="font-medium mb-2">Question:</h3>
                   <div className="p-3 border rounded-md bg-muted/50">
                     {selectedQuestion.context && (
-                      <div className="mb-2 text-sm text-muted-foreground italic">
-                        {selectedQuestion.context}
-                      </div>
+                      <RichContent
+                        content={selectedQuestion.context}
+                        format={selectedQuestion.contentFormat}
+                        className="mb-2 text-sm text-muted-foreground italic"
+                      />
                     )}
-                    <p>{selectedQuestion.questionText}</p>
+                    <RichContent content={selectedQuestion.questionText} format={selectedQuestion.contentFormat} />
                   </div>
                 </div>
 
                 <div className="grid grid-cols-1 gap-3">
-                  <div className="p-3 border rounded-md">
+                  <div className="p-3 border rounded-md flex items-start">
                     <span className="font-semibold mr-2">A:</span>
-                    {selectedQuestion.optionA}
+                    <RichContent content={selectedQuestion.optionA} format={selectedQuestion.contentFormat} inline />
                   </div>
-                  <div className="p-3 border rounded-md">
+                  <div className="p-3 border rounded-md flex items-start">
                     <span className="font-semibold mr-2">B:</span>
-                    {selectedQuestion.optionB}
+                    <RichContent content={selectedQuestion.optionB} format={selectedQuestion.contentFormat} inline />
                   </div>
-                  <div className="p-3 border rounded-md">
+                  <div className="p-3 border rounded-md flex items-start">
                     <span className="font-semibold mr-2">C:</span>
-                    {selectedQuestion.optionC}
+                    <RichContent content={selectedQuestion.optionC} format={selectedQuestion.contentFormat} inline />
                   </div>
-                  <div className="p-3 border rounded-md">
+                  <div className="p-3 border rounded-md flex items-start">
                     <span className="font-semibold mr-2">D:</span>
-                    {selectedQuestion.optionD}
+                    <RichContent content={selectedQuestion.optionD || ""} format={selectedQuestion.contentFormat} inline />
                   </div>
                 </div>
 
@@ -782,10 +1064,69 @@ export default function QuestionsManagement() {
                 <div>
                   <h3 className="font-medium mb-2">Explanation:</h3>
                   <div className="p-3 border rounded-md">
-                    {selectedQuestion.explanation}
+                    <RichContent content={selectedQuestion.explanation} format={selectedQuestion.contentFormat} />
                   </div>
                 </div>
               </TabsContent>
+
+              <TabsContent value="statistics" className="mt-4 space-y-4">
+                {(() => {
+                  const stat = statisticsById.get(selectedQuestion.id);
+                  if (!stat || stat.responses === 0) {
+                    return <p className="text-sm text-muted-foreground">Nobody has answered this question yet.</p>;
+                  }
+                  return (
+                    <>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <div className="p-3 border rounded-md">
+                          <p className="text-xs text-muted-foreground">Responses</p>
+                          <p className="text-lg font-semibold">{stat.responses}</p>
+                        </div>
+                        <div className="p-3 border rounded-md">
+                          <p className="text-xs text-muted-foreground">P-value</p>
+                          <p className="text-lg font-semibold">{formatStat(stat.pValue, 2)}</p>
+                        </div>
+                        <div className="p-3 border rounded-md">
+                          <p className="text-xs text-muted-foreground">Discrimination</p>
+                          <p className="text-lg font-semibold">{formatStat(stat.discrimination, 2)}</p>
+                        </div>
+                        <div className="p-3 border rounded-md">
+                          <p className="text-xs text-muted-foreground">Median time</p>
+                          <p className="text-lg font-semibold">
+                            {stat.medianTimeSpent != null ? `${stat.medianTimeSpent}s` : "-"}
+                          </p>
+                        </div>
+                      </div>
+
+                      <div>
+                        <h3 className="font-medium mb-2">Option selection rates:</h3>
+                        <div className="space-y-2">
+                          {Object.entries(stat.optionRates).map(([option, rate]) => (
+                            <div key={option} className="flex items-center gap-3">
+                              <span className="font-semibold w-4">{option}</span>
+                              <div className="flex-1 h-2 rounded-full bg-muted overflow-hidden">
+                                <div
+                                  className={`h-full ${option === selectedQuestion.correctOption ? "bg-green-500" : "bg-neutral-400"}`}
+                                  style={{ width: `${Math.round(rate * 100)}%` }}
+                                />
+                              </div>
+                              <span className="text-sm w-12 text-right">{Math.round(rate * 100)}%</span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+
+                      {stat.flags.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                          {stat.flags.map((flag) => (
+                            <Badge key={flag} variant="incorrect">{flagLabels[flag] || flag}</Badge>
+                          ))}
+                        </div>
+                      )}
+                    </>
+                  );
+                })()}
+              </TabsContent>
             </Tabs>
           )}
 
@@ -804,6 +1145,19 @@ export default function QuestionsManagement() {
         </DialogContent>
       </Dialog>
 
+      {/* Bulk Import Dialog */}
+      <QuestionImportDialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen} />
+
+      {/* Export Dialog */}
+      <QuestionExportDialog open={isExportDialogOpen} onOpenChange={setIsExportDialogOpen} />
+
+      {/* Revision History Dialog */}
+      <QuestionHistoryDialog
+        question={selectedQuestion}
+        open={isHistoryDialogOpen}
+        onOpenChange={setIsHistoryDialogOpen}
+      />
+
       {/* Delete Confirmation Alert */}
       <AlertDialog open={isDeleteAlertOpen} onOpenChange={setIsDeleteAlertOpen}>
         <AlertDialogContent>
@@ -33,7 +33,8 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { InsertTopic, Topic } from "@shared/schema";
+import { CURRICULUM_LEVELS, CurriculumLevel, InsertTopic, Topic } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { 
@@ -70,7 +71,8 @@ export default function TopicsManagement() {
   const [formData, setFormData] = useState<Partial<InsertTopic>>({
     name: "",
     description: "",
-    icon: "book"
+    icon: "book",
+    level: "Level I"
   });
   const { toast } = useToast();
 
@@ -167,7 +169,8 @@ export default function TopicsManagement() {
     setFormData({
       name: "",
       description: "",
-      icon: "book"
+      icon: "book",
+      level: "Level I"
     });
     setSelectedTopic(null);
   };
@@ -181,6 +184,10 @@ export default function TopicsManagement() {
     setFormData((prev) => ({ ...prev, icon: value }));
   };
 
+  const handleLevelChange = (value: string) => {
+    setFormData((prev) => ({ ...prev, level: value as CurriculumLevel }));
+  };
+
   const handleAddSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     createTopicMutation.mutate(formData as InsertTopic);
@@ -191,7 +198,8 @@ export default function TopicsManagement() {
     setFormData({
       name: topic.name,
       description: topic.description || "",
-      icon: topic.icon || "book"
+      icon: topic.icon || "book",
+      level: topic.level as CurriculumLevel
     });
     setIsEditDialogOpen(true);
   };
@@ -239,7 +247,7 @@ export default function TopicsManagement() {
           <div>
             <h1 className="text-3xl font-bold">Topics Management</h1>
             <p className="text-muted-foreground">
-              Manage CFA Level I topics and subject areas.
+              Manage CFA topics and subject areas for each curriculum level.
             </p>
           </div>
           <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
@@ -253,7 +261,7 @@ export default function TopicsManagement() {
               <DialogHeader>
                 <DialogTitle>Add New Topic</DialogTitle>
                 <DialogDescription>
-                  Create a new CFA Level I topic or subject area.
+                  Create a new CFA topic or subject area.
                 </DialogDescription>
               </DialogHeader>
               <form onSubmit={handleAddSubmit}>
@@ -280,6 +288,24 @@ export default function TopicsManagement() {
                       rows={3}
                     />
                   </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="level">Curriculum Level</Label>
+                    <Select
+                      value={formData.level}
+                      onValueChange={handleLevelChange}
+                    >
+                      <SelectTrigger id="level">
+                        <SelectValue placeholder="Select a level" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CURRICULUM_LEVELS.map((level) => (
+                          <SelectItem key={level} value={level}>
+                            {level}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                   <div className="grid gap-2">
                     <Label htmlFor="icon">Icon</Label>
                     <Select
@@ -329,7 +355,10 @@ export default function TopicsManagement() {
           {topics?.map((topic) => (
             <Card key={topic.id}>
               <CardHeader className="flex flex-row items-center justify-between pb-2">
-                <CardTitle className="text-xl">{topic.name}</CardTitle>
+                <div>
+                  <CardTitle className="text-xl">{topic.name}</CardTitle>
+                  <Badge variant="outline" className="mt-1">{topic.level}</Badge>
+                </div>
                 <div className="p-2 bg-primary/10 rounded-full">
                   {renderIconComponent(topic.icon || "book")}
                 </div>
@@ -409,6 +438,24 @@ export default function TopicsManagement() {
                   rows={3}
                 />
               </div>
+              <div className="grid gap-2">
+                <Label htmlFor="edit-level">Curriculum Level</Label>
+                <Select
+                  value={formData.level}
+                  onValueChange={handleLevelChange}
+                >
+                  <SelectTrigger id="edit-level">
+                    <SelectValue placeholder="Select a level" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRICULUM_LEVELS.map((level) => (
+                      <SelectItem key={level} value={level}>
+                        {level}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="grid gap-2">
                 <Label htmlFor="edit-icon">Icon</Label>
                 <Select
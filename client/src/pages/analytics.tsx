@@ -5,6 +5,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { PerformanceChart } from '@/components/analytics/performance-chart';
+import { LearningOutcomeMastery } from '@/components/analytics/learning-outcome-mastery';
 import { 
   HelpCircle, 
   Clock, 
@@ -15,6 +16,36 @@ import {
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { Link } from 'wouter';
 
+type TopicPerformance = {
+  topicId: number;
+  topicName: string;
+  questionsAttempted: number;
+  questionsSeen: number;
+  questionsAvailable: number;
+  coverage: number;
+  accuracy: number;
+  firstAttemptAccuracy: number;
+  latestAttemptAccuracy: number;
+  mastery: number;
+  avgTimePerQuestion: number;
+};
+
+type AnalyticsData = {
+  summary: {
+    totalQuestions: number;
+    totalAvailableQuestions: number;
+    questionsSeen: number;
+    accuracy: number;
+    coverage: number;
+    firstAttemptAccuracy: number;
+    latestAttemptAccuracy: number;
+    mastery: number;
+    totalTimeSpent: number;
+    avgTimePerQuestion: number;
+  };
+  topicPerformance: TopicPerformance[];
+};
+
 export default function Analytics() {
   // Fetch user data
   const { data: userData, isLoading: userLoading } = useQuery({
@@ -29,7 +60,7 @@ export default function Analytics() {
   });
 
   // Fetch analytics data
-  const { data: analyticsData, isLoading: analyticsLoading } = useQuery({
+  const { data: analyticsData, isLoading: analyticsLoading } = useQuery<AnalyticsData>({
     queryKey: ['/api/analytics', userData?.id],
     retry: false,
     enabled: !!userData?.id, // Only fetch when user is authenticated
@@ -46,7 +77,7 @@ export default function Analytics() {
     );
     return {
       ...topic,
-      progress: topicProgress?.accuracy || 0,
+      progress: topicProgress?.mastery || 0,
     };
   });
 
@@ -118,7 +149,9 @@ export default function Analytics() {
                 <div className="text-3xl font-bold text-neutral-800">
                   {analyticsData?.summary?.totalQuestions || 0}
                 </div>
-                <p className="text-sm text-neutral-400 mt-1">Total answered</p>
+                <p className="text-sm text-neutral-400 mt-1">
+                  Attempts, {analyticsData?.summary?.questionsSeen || 0} of {analyticsData?.summary?.totalAvailableQuestions || 0} questions seen
+                </p>
               </CardContent>
             </Card>
 
@@ -129,9 +162,11 @@ export default function Analytics() {
                   <CheckCircle className="h-5 w-5 text-[#4CAF50]" />
                 </div>
                 <div className="text-3xl font-bold text-[#4CAF50]">
-                  {analyticsData?.summary?.accuracy || 0}%
+                  {analyticsData?.summary?.latestAttemptAccuracy || 0}%
                 </div>
-                <p className="text-sm text-neutral-400 mt-1">Overall accuracy</p>
+                <p className="text-sm text-neutral-400 mt-1">
+                  Latest attempts, {analyticsData?.summary?.firstAttemptAccuracy || 0}% first time
+                </p>
               </CardContent>
             </Card>
 
@@ -179,10 +214,11 @@ export default function Analytics() {
                   <thead>
                     <tr>
                       <th className="px-6 py-3 text-left text-xs font-medium text-neutral-400 uppercase tracking-wider">Topic</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-neutral-400 uppercase tracking-wider">Questions</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-neutral-400 uppercase tracking-wider">Coverage</th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-neutral-400 uppercase tracking-wider">Accuracy</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-neutral-400 uppercase tracking-wider">First Attempt</th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-neutral-400 uppercase tracking-wider">Avg. Time</th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-neutral-400 uppercase tracking-wider">Progress</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-neutral-400 uppercase tracking-wider">Mastery</th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-neutral-400 uppercase tracking-wider">Action</th>
                     </tr>
                   </thead>
@@ -193,21 +229,27 @@ export default function Analytics() {
                           <div className="font-medium text-neutral-800">{topic.topicName}</div>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-600">
-                          {topic.questionsAttempted}/{topic.questionsAttempted + 25} {/* Adding 25 more for total */}
+                          {topic.questionsSeen}/{topic.questionsAvailable} ({topic.coverage}%)
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <Badge
-                            variant={topic.accuracy >= 60 ? "correct" : "incorrect"}
+                            variant={topic.latestAttemptAccuracy >= 60 ? "correct" : "incorrect"}
                             className="px-2.5 py-0.5 rounded-full text-xs font-medium"
                           >
-                            {topic.accuracy}%
+                            {topic.latestAttemptAccuracy}%
                           </Badge>
                         </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-600">
+                          {topic.firstAttemptAccuracy}%
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-600">
                           {topic.avgTimePerQuestion}s
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
-                          <Progress value={topic.accuracy} className="w-full h-2" />
+                          <div className="flex items-center gap-2">
+                            <Progress value={topic.mastery} className="w-full h-2" />
+                            <span className="text-xs text-neutral-500">{topic.mastery}%</span>
+                          </div>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm">
                           <Link href={`/practice/${topic.topicId}`}>
@@ -221,6 +263,8 @@ export default function Analytics() {
               </div>
             </CardContent>
           </Card>
+
+          <LearningOutcomeMastery />
         </div>
       </div>
     </div>
@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { SideNavigation } from '@/components/layout/side-navigation';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RichContent } from '@/components/practice/rich-content';
+import { invalidateBookmarks } from '@/components/practice/bookmark-button';
+import { Bookmark, Eye, EyeOff, Play, Trash } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { Question, Topic, User } from '@shared/schema';
+
+// The answer only comes with questions the user has already answered
+type BookmarkedQuestion = {
+  question: Omit<Question, 'correctOption' | 'explanation'> & Partial<Pick<Question, 'correctOption' | 'explanation'>>;
+  topicName: string | null;
+  chapterName: string | null;
+  note: string | null;
+  bookmarkedAt: string;
+};
+
+export default function Bookmarks() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [topicFilter, setTopicFilter] = useState('all');
+  const [revealed, setRevealed] = useState<Set<number>>(new Set());
+
+  const { data: userData } = useQuery<User>({
+    queryKey: ['/api/user'],
+    retry: false,
+  });
+
+  const { data: topicsData } = useQuery<Topic[]>({
+    queryKey: ['/api/topics'],
+  });
+
+  const { data: bookmarks, isLoading } = useQuery<BookmarkedQuestion[]>({
+    queryKey: [topicFilter === 'all' ? '/api/bookmarks' : `/api/bookmarks?topic=${topicFilter}`],
+  });
+
+  const removeBookmarkMutation = useMutation({
+    mutationFn: async (questionId: number) => {
+      await apiRequest('DELETE', `/api/questions/${questionId}/bookmark`);
+      return questionId;
+    },
+    onSuccess: (questionId) => {
+      invalidateBookmarks();
+      queryClient.invalidateQueries({ queryKey: [`/api/questions/${questionId}/annotations`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Could not remove bookmark',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const toggleRevealed = (questionId: number) => {
+    setRevealed(prev => {
+      const next = new Set(prev);
+      if (next.has(questionId)) {
+        next.delete(questionId);
+      } else {
+        next.add(questionId);
+      }
+      return next;
+    });
+  };
+
+  const handlePractice = () => {
+    setLocation(topicFilter === 'all' ? '/practice/bookmarks' : `/practice/bookmarks?topic=${topicFilter}`);
+  };
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      {/* Sidebar Navigation */}
+      <SideNavigation
+        topics={(topicsData || []).map(topic => ({
+          id: topic.id,
+          name: topic.name,
+          icon: topic.icon || undefined,
+        }))}
+        user={{
+          username: userData?.username || 'User',
+          level: userData?.level || 'CFA Candidate',
+          role: userData?.role || 'student',
+        }}
+      />
+
+      {/* Main Content */}
+      <div className="flex-1 overflow-auto">
+        <div className="p-6">
+          <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+            <div>
+              <h2 className="text-2xl font-bold text-neutral-800">My Bookmarks</h2>
+              <p className="text-neutral-400">Questions you saved to come back to, with your notes.</p>
+            </div>
+            <div className="flex items-center gap-3">
+              <Select value={topicFilter} onValueChange={setTopicFilter}>
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All topics</SelectItem>
+                  {topicsData?.map(topic => (
+                    <SelectItem key={topic.id} value={topic.id.toString()}>{topic.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handlePractice} disabled={!bookmarks?.length}>
+                <Play className="mr-2 h-4 w-4" />
+                Practise these
+              </Button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="p-8">Loading...</div>
+          ) : !bookmarks?.length ? (
+            <Card>
+              <CardContent className="py-12 text-center">
+                <Bookmark className="mx-auto h-12 w-12 text-neutral-300 mb-4" />
+                <h3 className="text-lg font-medium text-neutral-800">No bookmarks yet</h3>
+                <p className="text-neutral-400">
+                  Use the bookmark button on a question during practice to save it here.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-4">
+              {bookmarks.map(({ question, topicName, chapterName, note }) => (
+                <Card key={question.id}>
+                  <CardContent className="pt-6">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex flex-wrap gap-2 mb-3">
+                          {topicName && <Badge variant="outline">{topicName}</Badge>}
+                          {chapterName && <Badge variant="outline">{chapterName}</Badge>}
+                        </div>
+                        <RichContent
+                          content={question.questionText}
+                          format={question.contentFormat}
+                          className="font-medium text-neutral-800"
+                        />
+                      </div>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => toggleRevealed(question.id)}>
+                          {revealed.has(question.id) ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeBookmarkMutation.mutate(question.id)}
+                          disabled={removeBookmarkMutation.isPending}
+                        >
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    {revealed.has(question.id) && (
+                      <div className="mt-4 p-4 bg-neutral-50 rounded-lg space-y-2">
+                        {question.correctOption ? (
+                          <>
+                            <p className="font-medium text-[#4CAF50]">Correct Answer: {question.correctOption}</p>
+                            <RichContent
+                              content={question.explanation || ''}
+                              format={question.contentFormat}
+                              className="text-sm text-neutral-600"
+                            />
+                          </>
+                        ) : (
+                          <p className="text-sm text-neutral-500">
+                            Answer this question in practice to see the correct answer and explanation.
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    {note && (
+                      <div className="mt-4 border-l-4 border-primary/40 pl-3">
+                        <p className="text-xs font-medium text-neutral-400 mb-1">My note</p>
+                        <p className="text-sm text-neutral-600 whitespace-pre-wrap">{note}</p>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
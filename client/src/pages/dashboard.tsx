@@ -2,9 +2,11 @@ import React, { useEffect, useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { useLocation, Link } from 'wouter';
 import { SideNavigation } from '@/components/layout/side-navigation';
-import { ProgressSummary } from '@/components/dashboard/progress-summary';
+import { ProgressSummary, StreakSummary } from '@/components/dashboard/progress-summary';
 import { RecentActivity } from '@/components/dashboard/recent-activity';
 import { RecommendedSets } from '@/components/dashboard/recommended-sets';
+import { BadgesGallery, BadgeStatus } from '@/components/dashboard/badges-gallery';
+import { ResumeSession, ActivePracticeSession } from '@/components/dashboard/resume-session';
 import { TopicBarChart } from '@/components/analytics/topic-bar-chart';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -49,6 +51,24 @@ export default function Dashboard() {
     retry: false,
   });
 
+  // Fetch the study streak and today's progress towards the daily goal
+  const { data: streakData } = useQuery<StreakSummary>({
+    queryKey: ['/api/streak'],
+    retry: false,
+  });
+
+  // Fetch the badge catalogue with the badges earned so far
+  const { data: badgesData } = useQuery<BadgeStatus[]>({
+    queryKey: ['/api/badges'],
+    retry: false,
+  });
+
+  // Fetch the most recent unfinished practice session
+  const { data: activeSession } = useQuery<ActivePracticeSession | null>({
+    queryKey: ['/api/sessions/active'],
+    retry: false,
+  });
+
   if (userLoading || topicsLoading || analyticsLoading || setsLoading || activityLoading) {
     return <div className="p-8">Loading...</div>;
   }
@@ -60,7 +80,7 @@ export default function Dashboard() {
     );
     return {
       ...topic,
-      progress: topicProgress?.accuracy || 0,
+      progress: topicProgress?.mastery || 0,
     };
   });
 
@@ -76,11 +96,24 @@ export default function Dashboard() {
       type = 'completed';
     } else if (activity.activityType === 'badge_earned') {
       title = `Earned badge: ${activity.details.badge}`;
+      details = activity.details.description || '';
       type = 'badge';
     } else if (activity.activityType === 'question_answered') {
       title = `Answered a question in ${activity.topic?.name || ''}`;
       details = activity.details.isCorrect ? 'Correct' : 'Incorrect';
       type = 'completed';
+    } else if (activity.activityType === 'streak_milestone') {
+      title = `Reached a ${activity.details.streakDays}-day study streak`;
+      details = activity.details.isPersonalBest ? 'New personal best' : '';
+      type = 'achievement';
+    } else if (activity.activityType === 'streak_freeze_earned') {
+      title = 'Earned a streak freeze';
+      details = `${activity.details.freezes} banked`;
+      type = 'achievement';
+    } else if (activity.activityType === 'streak_freeze_used') {
+      title = `Streak freeze${activity.details.freezesUsed === 1 ? '' : 's'} kept your streak alive`;
+      details = `${activity.details.freezesLeft} left`;
+      type = 'achievement';
     }
 
     // Format date
@@ -111,21 +144,24 @@ export default function Dashboard() {
   // Format recommended sets
   const formattedSets = recommendedSets?.map((set: any) => ({
     id: set.id,
+    type: set.type,
     name: set.name,
-    topic: set.topic?.name || '',
+    topic: set.topicName || '',
     topicId: set.topicId,
+    chapterId: set.chapterId,
     questions: set.questionCount,
     duration: set.estimatedTime,
     status: set.status,
+    reason: set.reason,
   }));
 
   // Format topic data for chart
   const topicChartData = analyticsData?.topicPerformance
-    .filter((topic: any) => topic.questionsAttempted > 0)
+    .filter((topic: any) => topic.questionsSeen > 0)
     .map((topic: any) => ({
       topic: topic.topicName,
       shortName: topic.topicName.split(' ')[0],
-      percentage: topic.accuracy,
+      percentage: topic.latestAttemptAccuracy,
     }));
 
   return (
@@ -187,16 +223,25 @@ export default function Dashboard() {
             </div>
           </div>
 
+          {/* Resume an unfinished practice session */}
+          {activeSession && <ResumeSession session={activeSession} />}
+
           {/* Progress Summary */}
           <ProgressSummary
             overallProgress={{
-              percentage: analyticsData?.summary?.accuracy || 0,
-              completed: analyticsData?.summary?.totalQuestions || 0,
+              percentage: analyticsData?.summary?.coverage || 0,
+              completed: analyticsData?.summary?.questionsSeen || 0,
               total: analyticsData?.summary?.totalAvailableQuestions || 0,
             }}
-            streakDays={userData?.streakDays || 0}
+            streak={{
+              current: streakData?.currentStreak ?? userData?.streakDays ?? 0,
+              longest: streakData?.longestStreak ?? 0,
+              freezes: streakData?.freezes ?? 0,
+              todayAnswered: streakData?.todayAnswered ?? 0,
+              dailyGoal: streakData?.dailyGoal ?? 0,
+            }}
             averageScore={{
-              percentage: analyticsData?.summary?.accuracy || 0,
+              percentage: analyticsData?.summary?.latestAttemptAccuracy || 0,
               change: analyticsData?.summary?.change || 0
             }}
           />
@@ -218,6 +263,9 @@ export default function Dashboard() {
             />
           </div>
 
+          {/* Badges */}
+          {badgesData && badgesData.length > 0 && <BadgesGallery badges={badgesData} />}
+
           {/* Recommended Practice Sets */}
           <RecommendedSets sets={formattedSets || []} />
         </div>
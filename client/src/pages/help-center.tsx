@@ -115,7 +115,7 @@ export default function HelpCenter() {
     {
       id: 'faq-6',
       question: 'How do streaks work?',
-      answer: 'Streaks track your consecutive days of practice. Each day you complete at least one practice session, your streak count increases. Maintaining a streak helps build consistent study habits.'
+      answer: 'Streaks track your consecutive days of practice. A day counts once you answer at least 5 questions, in the timezone set on your Settings page. Every 7 days of streak earns a streak freeze (up to 2 banked), which covers a missed day so your streak carries on. Maintaining a streak helps build consistent study habits.'
     },
     {
       id: 'faq-7',
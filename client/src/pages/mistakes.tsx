@@ -0,0 +1,261 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { SideNavigation } from '@/components/layout/side-navigation';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RichContent } from '@/components/practice/rich-content';
+import { CheckCircle, ChevronDown, ChevronUp, NotebookTabs, RotateCcw, XCircle } from 'lucide-react';
+import type { Chapter, Question, Topic, User } from '@shared/schema';
+
+type MistakeEntry = {
+  question: Question;
+  topicName: string | null;
+  chapterName: string | null;
+  lastWrongOption: string;
+  lastWrongAt: string;
+  attempts: number;
+  wrongAttempts: number;
+  correctedLater: boolean;
+};
+
+const optionText = (question: Question, option: string) =>
+  (question[`option${option}` as 'optionA' | 'optionB' | 'optionC' | 'optionD'] as string | null) || '';
+
+export default function Mistakes() {
+  const [, setLocation] = useLocation();
+  const [topicFilter, setTopicFilter] = useState('all');
+  const [chapterFilter, setChapterFilter] = useState('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [unresolvedOnly, setUnresolvedOnly] = useState(false);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const { data: userData } = useQuery<User>({
+    queryKey: ['/api/user'],
+    retry: false,
+  });
+
+  const { data: topicsData } = useQuery<Topic[]>({
+    queryKey: ['/api/topics'],
+  });
+
+  const { data: chaptersData } = useQuery<Chapter[]>({
+    queryKey: ['/api/chapters/topic', topicFilter],
+    enabled: topicFilter !== 'all',
+  });
+
+  // The same filters drive the list and the retry session
+  const filterParams = new URLSearchParams();
+  if (topicFilter !== 'all') filterParams.set('topic', topicFilter);
+  if (topicFilter !== 'all' && chapterFilter !== 'all') filterParams.set('chapter', chapterFilter);
+  if (from) filterParams.set('from', new Date(`${from}T00:00:00`).toISOString());
+  if (to) filterParams.set('to', new Date(`${to}T23:59:59.999`).toISOString());
+  if (unresolvedOnly) filterParams.set('unresolved', 'true');
+  const queryString = filterParams.toString();
+
+  const { data: mistakes, isLoading } = useQuery<MistakeEntry[]>({
+    queryKey: [queryString ? `/api/mistakes?${queryString}` : '/api/mistakes'],
+  });
+
+  const handleTopicChange = (value: string) => {
+    setTopicFilter(value);
+    setChapterFilter('all');
+  };
+
+  const toggleExpanded = (questionId: number) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(questionId)) {
+        next.delete(questionId);
+      } else {
+        next.add(questionId);
+      }
+      return next;
+    });
+  };
+
+  const handleRetry = () => {
+    setLocation(queryString ? `/practice/mistakes?${queryString}` : '/practice/mistakes');
+  };
+
+  const correctedCount = mistakes?.filter(m => m.correctedLater).length || 0;
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      {/* Sidebar Navigation */}
+      <SideNavigation
+        topics={(topicsData || []).map(topic => ({
+          id: topic.id,
+          name: topic.name,
+          icon: topic.icon || undefined,
+        }))}
+        user={{
+          username: userData?.username || 'User',
+          level: userData?.level || 'CFA Candidate',
+          role: userData?.role || 'student',
+        }}
+      />
+
+      {/* Main Content */}
+      <div className="flex-1 overflow-auto">
+        <div className="p-6">
+          <div className="mb-6 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+            <div>
+              <h2 className="text-2xl font-bold text-neutral-800">Mistake Notebook</h2>
+              <p className="text-neutral-400">Every question you got wrong, what you picked and whether you've fixed it since.</p>
+            </div>
+            <Button onClick={handleRetry} disabled={!mistakes?.length}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Retry these
+            </Button>
+          </div>
+
+          {/* Filters */}
+          <Card className="mb-6">
+            <CardContent className="pt-6 grid gap-4 md:grid-cols-5 items-end">
+              <div className="space-y-2">
+                <Label>Topic</Label>
+                <Select value={topicFilter} onValueChange={handleTopicChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All topics</SelectItem>
+                    {topicsData?.map(topic => (
+                      <SelectItem key={topic.id} value={topic.id.toString()}>{topic.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Chapter</Label>
+                <Select value={chapterFilter} onValueChange={setChapterFilter} disabled={topicFilter === 'all'}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All chapters</SelectItem>
+                    {chaptersData?.map(chapter => (
+                      <SelectItem key={chapter.id} value={chapter.id.toString()}>{chapter.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="mistakes-from">From</Label>
+                <Input id="mistakes-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="mistakes-to">To</Label>
+                <Input id="mistakes-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch id="unresolved-only" checked={unresolvedOnly} onCheckedChange={setUnresolvedOnly} />
+                <Label htmlFor="unresolved-only" className="font-normal">Not yet corrected</Label>
+              </div>
+            </CardContent>
+          </Card>
+
+          {isLoading ? (
+            <div className="p-8">Loading...</div>
+          ) : !mistakes?.length ? (
+            <Card>
+              <CardContent className="py-12 text-center">
+                <NotebookTabs className="mx-auto h-12 w-12 text-neutral-300 mb-4" />
+                <h3 className="text-lg font-medium text-neutral-800">No mistakes here</h3>
+                <p className="text-neutral-400">
+                  Questions you answer incorrectly will show up here so you can learn from them.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <p className="text-sm text-neutral-500 mb-4">
+                {mistakes.length} question{mistakes.length === 1 ? '' : 's'}, {correctedCount} corrected since
+              </p>
+              <div className="space-y-4">
+                {mistakes.map(mistake => {
+                  const { question } = mistake;
+                  const isExpanded = expanded.has(question.id);
+                  return (
+                    <Card key={question.id}>
+                      <CardContent className="pt-6">
+                        <div className="flex flex-wrap items-center gap-2 mb-3">
+                          {mistake.topicName && <Badge variant="outline">{mistake.topicName}</Badge>}
+                          {mistake.chapterName && <Badge variant="outline">{mistake.chapterName}</Badge>}
+                          {mistake.correctedLater ? (
+                            <Badge variant="outline" className="bg-green-50 text-green-600">Corrected later</Badge>
+                          ) : (
+                            <Badge variant="outline" className="bg-red-50 text-red-600">Still to fix</Badge>
+                          )}
+                          <span className="text-xs text-neutral-400 ml-auto">
+                            {mistake.wrongAttempts} wrong of {mistake.attempts} attempt{mistake.attempts === 1 ? '' : 's'} · last missed {new Date(mistake.lastWrongAt).toLocaleDateString()}
+                          </span>
+                        </div>
+
+                        <RichContent
+                          content={question.questionText}
+                          format={question.contentFormat}
+                          className="font-medium text-neutral-800 mb-4"
+                        />
+
+                        <div className="grid gap-2 md:grid-cols-2">
+                          <div className="flex items-start p-3 rounded-lg bg-red-50">
+                            <XCircle className="h-5 w-5 text-red-500 mr-2 shrink-0" />
+                            <div className="text-sm">
+                              <p className="font-medium text-red-600">Your answer: {mistake.lastWrongOption}</p>
+                              <RichContent
+                                content={optionText(question, mistake.lastWrongOption)}
+                                format={question.contentFormat}
+                                inline
+                              />
+                            </div>
+                          </div>
+                          <div className="flex items-start p-3 rounded-lg bg-green-50">
+                            <CheckCircle className="h-5 w-5 text-[#4CAF50] mr-2 shrink-0" />
+                            <div className="text-sm">
+                              <p className="font-medium text-[#4CAF50]">Correct answer: {question.correctOption}</p>
+                              <RichContent
+                                content={optionText(question, question.correctOption)}
+                                format={question.contentFormat}
+                                inline
+                              />
+                            </div>
+                          </div>
+                        </div>
+
+                        <Button variant="ghost" size="sm" className="mt-3 -ml-2" onClick={() => toggleExpanded(question.id)}>
+                          {isExpanded ? <ChevronUp className="mr-1 h-4 w-4" /> : <ChevronDown className="mr-1 h-4 w-4" />}
+                          {isExpanded ? 'Hide explanation' : 'Show explanation'}
+                        </Button>
+                        {isExpanded && (
+                          <RichContent
+                            content={question.explanation}
+                            format={question.contentFormat}
+                            className="mt-2 text-sm text-neutral-600"
+                          />
+                        )}
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
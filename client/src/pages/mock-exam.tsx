@@ -0,0 +1,490 @@
+import React, { useState, useEffect } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useRoute, useLocation } from 'wouter';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { QuestionOption } from '@/components/practice/question-option';
+import { ExplanationCard } from '@/components/practice/explanation-card';
+import { RichContent } from '@/components/practice/rich-content';
+import { ChevronLeft, ChevronRight, Flag, Timer } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import type { MockExamReport, Question } from '@shared/schema';
+
+type ExamQuestion = Omit<Question, 'correctOption' | 'explanation'> &
+  Partial<Pick<Question, 'correctOption' | 'explanation'>>;
+
+type MockExamAttemptView = {
+  id: number;
+  mockExamId: number;
+  examName: string;
+  status: 'in_progress' | 'completed';
+  sessionCount: number;
+  currentSession: number;
+  answers: Record<string, string>;
+  flagged: number[];
+  remainingSeconds?: number;
+  sessionDuration?: number;
+  score?: number | null;
+  passingScore?: number;
+  report?: MockExamReport | null;
+  questions: ExamQuestion[];
+};
+
+const OPTIONS = ['A', 'B', 'C', 'D'] as const;
+
+const formatCountdown = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const remainingSeconds = seconds % 60;
+  const pad = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+  return `${hours}:${pad(minutes)}:${pad(remainingSeconds)}`;
+};
+
+export default function MockExam() {
+  const [match, params] = useRoute('/mock-exams/attempts/:attemptId');
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const attemptId = match ? parseInt(params.attemptId) : null;
+
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [remaining, setRemaining] = useState<number | null>(null);
+  const [isSubmitDialogOpen, setIsSubmitDialogOpen] = useState(false);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [flagged, setFlagged] = useState<number[]>([]);
+
+  const { data: attempt, isLoading } = useQuery<MockExamAttemptView>({
+    queryKey: ['/api/mock-exam-attempts', attemptId],
+    enabled: !!attemptId,
+  });
+
+  // Sync local state whenever the server sends a new view of the attempt
+  useEffect(() => {
+    if (attempt) {
+      setAnswers(attempt.answers);
+      setFlagged(attempt.flagged);
+      setRemaining(attempt.remainingSeconds ?? null);
+    }
+  }, [attempt]);
+
+  // Reset navigation when moving to a new session
+  useEffect(() => {
+    setCurrentIndex(0);
+  }, [attempt?.currentSession, attempt?.status]);
+
+  const saveAnswerMutation = useMutation({
+    mutationFn: async (data: { questionId: number; userOption?: string | null; flagged?: boolean }) => {
+      const res = await apiRequest('PUT', `/api/mock-exam-attempts/${attemptId}/answers`, data);
+      return res.json();
+    },
+    onSuccess: (data: { answers: Record<string, string>; flagged: number[] }) => {
+      setAnswers(data.answers);
+      setFlagged(data.flagged);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Answer not saved',
+        description: error.message,
+        variant: 'destructive',
+      });
+      // The session may have closed on the server; reload the attempt
+      queryClient.invalidateQueries({ queryKey: ['/api/mock-exam-attempts', attemptId] });
+    },
+  });
+
+  const submitSessionMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/mock-exam-attempts/${attemptId}/submit-session`);
+      return res.json();
+    },
+    onSuccess: (data: MockExamAttemptView) => {
+      queryClient.setQueryData(['/api/mock-exam-attempts', attemptId], data);
+      queryClient.invalidateQueries({ queryKey: ['/api/mock-exam-attempts'] });
+      setIsSubmitDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Could not submit session',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Hard countdown: when it reaches zero the session is submitted automatically
+  useEffect(() => {
+    if (attempt?.status !== 'in_progress' || remaining === null) return;
+
+    if (remaining <= 0) {
+      if (!submitSessionMutation.isPending) {
+        submitSessionMutation.mutate();
+      }
+      return;
+    }
+
+    const id = setTimeout(() => setRemaining(prev => (prev === null ? prev : prev - 1)), 1000);
+    return () => clearTimeout(id);
+  }, [remaining, attempt?.status]);
+
+  if (isLoading || !attempt) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="w-16 h-16 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  const questions = attempt.questions;
+  const currentQuestion = questions[currentIndex];
+
+  if (attempt.status === 'completed') {
+    return (
+      <MockExamReportView
+        attempt={attempt}
+        currentIndex={currentIndex}
+        onSelectQuestion={setCurrentIndex}
+        onBack={() => setLocation('/mock-exams')}
+      />
+    );
+  }
+
+  const answeredCount = questions.filter(q => answers[q.id]).length;
+  const isLastSession = attempt.currentSession === attempt.sessionCount - 1;
+
+  const handleSelectOption = (option: string) => {
+    if (!currentQuestion) return;
+    setAnswers(prev => ({ ...prev, [currentQuestion.id]: option }));
+    saveAnswerMutation.mutate({ questionId: currentQuestion.id, userOption: option });
+  };
+
+  const handleToggleFlag = () => {
+    if (!currentQuestion) return;
+    saveAnswerMutation.mutate({
+      questionId: currentQuestion.id,
+      flagged: !flagged.includes(currentQuestion.id),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      {/* Exam header with countdown */}
+      <div className="bg-white shadow-sm sticky top-0 z-10">
+        <div className="flex items-center justify-between h-16 px-6">
+          <div>
+            <h1 className="text-lg font-bold text-neutral-800">{attempt.examName}</h1>
+            <p className="text-xs text-neutral-500">
+              Session {attempt.currentSession + 1} of {attempt.sessionCount} • {answeredCount} of {questions.length} answered
+            </p>
+          </div>
+          <div className={cn(
+            "rounded-full px-4 py-2 shadow-sm flex items-center",
+            remaining !== null && remaining < 300 ? "bg-red-50 text-red-600" : "bg-primary/10 text-primary"
+          )}>
+            <Timer className="h-5 w-5 mr-2" />
+            <span className="text-sm font-medium">{formatCountdown(Math.max(0, remaining ?? 0))}</span>
+          </div>
+        </div>
+        <Progress value={questions.length > 0 ? (answeredCount / questions.length) * 100 : 0} className="h-1 rounded-none" />
+      </div>
+
+      <div className="p-6 grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Question */}
+        <div className="lg:col-span-3">
+          {currentQuestion && (
+            <Card>
+              <CardContent className="pt-6">
+                <div className="flex items-start justify-between mb-4">
+                  <p className="text-sm text-neutral-500">Question {currentIndex + 1} of {questions.length}</p>
+                  <Button
+                    variant={flagged.includes(currentQuestion.id) ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={handleToggleFlag}
+                  >
+                    <Flag className="mr-2 h-4 w-4" />
+                    {flagged.includes(currentQuestion.id) ? 'Flagged' : 'Flag for review'}
+                  </Button>
+                </div>
+
+                <RichContent
+                  content={currentQuestion.questionText}
+                  format={currentQuestion.contentFormat}
+                  className="text-lg font-medium text-neutral-800 mb-4"
+                />
+                {currentQuestion.context && (
+                  <RichContent
+                    content={currentQuestion.context}
+                    format={currentQuestion.contentFormat}
+                    className="text-neutral-600 mb-4"
+                  />
+                )}
+
+                <div className="space-y-3">
+                  {OPTIONS.map(option => {
+                    const text = currentQuestion[`option${option}` as const];
+                    if (!text) return null;
+                    return (
+                      <QuestionOption
+                        key={option}
+                        option={option}
+                        label={option}
+                        text={text}
+                        contentFormat={currentQuestion.contentFormat}
+                        isSelected={answers[currentQuestion.id] === option}
+                        onClick={() => handleSelectOption(option)}
+                      />
+                    );
+                  })}
+                </div>
+
+                <div className="mt-6 flex justify-between">
+                  <Button
+                    variant="outline"
+                    onClick={() => setCurrentIndex(i => Math.max(0, i - 1))}
+                    disabled={currentIndex === 0}
+                  >
+                    <ChevronLeft className="mr-2 h-4 w-4" />
+                    Previous
+                  </Button>
+                  {currentIndex < questions.length - 1 ? (
+                    <Button onClick={() => setCurrentIndex(i => i + 1)}>
+                      Next
+                      <ChevronRight className="ml-2 h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Button onClick={() => setIsSubmitDialogOpen(true)}>
+                      {isLastSession ? 'Finish Exam' : 'Submit Session'}
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        {/* Navigator */}
+        <Card className="h-fit">
+          <CardContent className="pt-6">
+            <h3 className="text-sm font-medium text-neutral-800 mb-3">Question Navigator</h3>
+            <div className="grid grid-cols-6 gap-2 mb-4">
+              {questions.map((q, index) => (
+                <button
+                  key={q.id}
+                  onClick={() => setCurrentIndex(index)}
+                  className={cn(
+                    "relative h-8 rounded text-xs font-medium border",
+                    index === currentIndex && "ring-2 ring-primary",
+                    answers[q.id] ? "bg-primary text-white border-primary" : "bg-white text-neutral-700"
+                  )}
+                >
+                  {index + 1}
+                  {flagged.includes(q.id) && (
+                    <span className="absolute -top-1 -right-1 w-2.5 h-2.5 rounded-full bg-[#FF9800]" />
+                  )}
+                </button>
+              ))}
+            </div>
+            <div className="space-y-1 text-xs text-neutral-500 mb-4">
+              <p>{answeredCount} answered • {questions.length - answeredCount} unanswered</p>
+              <p>{flagged.filter(id => questions.some(q => q.id === id)).length} flagged for review</p>
+            </div>
+            <Button className="w-full" variant="outline" onClick={() => setIsSubmitDialogOpen(true)}>
+              {isLastSession ? 'Finish Exam' : 'Submit Session'}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Submit confirmation */}
+      <AlertDialog open={isSubmitDialogOpen} onOpenChange={setIsSubmitDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{isLastSession ? 'Finish the exam?' : 'Submit this session?'}</AlertDialogTitle>
+            <AlertDialogDescription>
+              You have {questions.length - answeredCount} unanswered question(s) in this session.
+              Once submitted you cannot return to it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep working</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => submitSessionMutation.mutate()}
+              disabled={submitSessionMutation.isPending}
+            >
+              {isLastSession ? 'Finish Exam' : 'Submit Session'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+type MockExamReportViewProps = {
+  attempt: MockExamAttemptView;
+  currentIndex: number;
+  onSelectQuestion: (index: number) => void;
+  onBack: () => void;
+};
+
+function MockExamReportView({ attempt, currentIndex, onSelectQuestion, onBack }: MockExamReportViewProps) {
+  const report = attempt.report;
+  const question = attempt.questions[currentIndex];
+  const selectedOption = question ? attempt.answers[question.id] : undefined;
+
+  return (
+    <div className="min-h-screen bg-neutral-50 p-6">
+      <div className="flex items-center mb-6">
+        <button onClick={onBack} className="mr-3 text-neutral-400 hover:text-neutral-800 transition-colors">
+          <ChevronLeft className="h-6 w-6" />
+        </button>
+        <div>
+          <h2 className="text-2xl font-bold text-neutral-800">{attempt.examName} — Score Report</h2>
+          <p className="text-neutral-500">Passing score: {attempt.passingScore}%</p>
+        </div>
+      </div>
+
+      {report && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-neutral-400">Overall score</p>
+              <div className="flex items-center mt-2">
+                <span className="text-3xl font-bold text-primary mr-3">{report.score}%</span>
+                <Badge variant={report.passed ? 'correct' : 'incorrect'}>
+                  {report.passed ? 'Pass' : 'Below passing score'}
+                </Badge>
+              </div>
+              <p className="text-sm mt-2">{report.correct} of {report.totalQuestions} correct • {report.answered} answered</p>
+            </CardContent>
+          </Card>
+
+          <Card className="md:col-span-2">
+            <CardContent className="pt-6">
+              <p className="text-sm font-medium text-neutral-800 mb-3">Performance by topic</p>
+              <div className="space-y-2">
+                {report.topicBreakdown.map(topic => (
+                  <div key={topic.topicId}>
+                    <div className="flex justify-between text-sm">
+                      <span>{topic.topicName}</span>
+                      <span className="text-neutral-500">{topic.correct}/{topic.total} • {topic.accuracy}%</span>
+                    </div>
+                    <Progress value={topic.accuracy} className="h-2" />
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="md:col-span-3">
+            <CardContent className="pt-6">
+              <p className="text-sm font-medium text-neutral-800 mb-3">Sessions</p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {report.sessionBreakdown.map(session => (
+                  <div key={session.session} className="p-3 border rounded-md text-sm">
+                    <p className="font-medium">Session {session.session}</p>
+                    <p className="text-neutral-500">
+                      {session.correct} correct • {session.answered} of {session.total} answered
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Answer review */}
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="lg:col-span-3">
+          {question && question.correctOption && (
+            <>
+              <Card className="mb-6">
+                <CardContent className="pt-6">
+                  <p className="text-sm text-neutral-500 mb-2">Question {currentIndex + 1} of {attempt.questions.length}</p>
+                  <RichContent
+                    content={question.questionText}
+                    format={question.contentFormat}
+                    className="text-lg font-medium text-neutral-800 mb-4"
+                  />
+                  {question.context && (
+                    <RichContent content={question.context} format={question.contentFormat} className="text-neutral-600 mb-4" />
+                  )}
+                  <div className="space-y-3">
+                    {OPTIONS.map(option => {
+                      const text = question[`option${option}` as const];
+                      if (!text) return null;
+                      return (
+                        <QuestionOption
+                          key={option}
+                          option={option}
+                          label={option}
+                          text={text}
+                          contentFormat={question.contentFormat}
+                          isSelected={selectedOption === option}
+                          isCorrect={question.correctOption === option}
+                          isSubmitted
+                          onClick={() => {}}
+                        />
+                      );
+                    })}
+                  </div>
+                </CardContent>
+              </Card>
+              <ExplanationCard
+                correctOption={question.correctOption}
+                explanation={question.explanation || ''}
+                contentFormat={question.contentFormat}
+                selectedOption={selectedOption || 'no answer'}
+                questionId={question.id}
+              />
+            </>
+          )}
+        </div>
+
+        <Card className="h-fit">
+          <CardContent className="pt-6">
+            <h3 className="text-sm font-medium text-neutral-800 mb-3">Review answers</h3>
+            <div className="grid grid-cols-6 gap-2">
+              {attempt.questions.map((q, index) => {
+                const userOption = attempt.answers[q.id];
+                return (
+                  <button
+                    key={q.id}
+                    onClick={() => onSelectQuestion(index)}
+                    className={cn(
+                      "relative h-8 rounded text-xs font-medium border",
+                      index === currentIndex && "ring-2 ring-primary",
+                      !userOption
+                        ? "bg-white text-neutral-500"
+                        : userOption === q.correctOption
+                          ? "bg-[#4CAF50] text-white border-[#4CAF50]"
+                          : "bg-[#F44336] text-white border-[#F44336]"
+                    )}
+                  >
+                    {index + 1}
+                    {attempt.flagged.includes(q.id) && (
+                      <span className="absolute -top-1 -right-1 w-2.5 h-2.5 rounded-full bg-[#FF9800]" />
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
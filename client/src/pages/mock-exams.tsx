@@ -0,0 +1,176 @@
+import React from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { SideNavigation } from '@/components/layout/side-navigation';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ClipboardList, Clock, Layers, Play, RotateCcw } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { MockExam, Topic, User } from '@shared/schema';
+
+type AttemptSummary = {
+  id: number;
+  mockExamId: number;
+  examName: string;
+  status: string;
+  score: number | null;
+  passed: boolean | null;
+  startedAt: string;
+  completedAt: string | null;
+};
+
+export default function MockExams() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const { data: userData } = useQuery<User>({
+    queryKey: ['/api/user'],
+    retry: false,
+  });
+
+  const { data: topicsData } = useQuery<Topic[]>({
+    queryKey: ['/api/topics'],
+  });
+
+  const { data: exams, isLoading: examsLoading } = useQuery<MockExam[]>({
+    queryKey: ['/api/mock-exams'],
+  });
+
+  const { data: attempts, isLoading: attemptsLoading } = useQuery<AttemptSummary[]>({
+    queryKey: ['/api/mock-exam-attempts'],
+  });
+
+  const startExamMutation = useMutation({
+    mutationFn: async (mockExamId: number) => {
+      const res = await apiRequest('POST', `/api/mock-exams/${mockExamId}/attempts`);
+      return res.json();
+    },
+    onSuccess: (attempt: { id: number }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/mock-exam-attempts'] });
+      setLocation(`/mock-exams/attempts/${attempt.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Could not start mock exam',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (examsLoading || attemptsLoading) {
+    return <div className="p-8">Loading...</div>;
+  }
+
+  const runningAttempt = (mockExamId: number) =>
+    attempts?.find(a => a.mockExamId === mockExamId && a.status === 'in_progress');
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      {/* Sidebar Navigation */}
+      <SideNavigation
+        topics={(topicsData || []).map(topic => ({
+          id: topic.id,
+          name: topic.name,
+          icon: topic.icon || undefined,
+        }))}
+        user={{
+          username: userData?.username || 'User',
+          level: userData?.level || 'CFA Candidate',
+          role: userData?.role || 'student',
+        }}
+      />
+
+      {/* Main Content */}
+      <div className="flex-1 overflow-auto">
+        <div className="p-6">
+          <div className="mb-8">
+            <h2 className="text-2xl font-bold text-neutral-800">Mock Exams</h2>
+            <p className="text-neutral-400">
+              Full-length timed rehearsals. Explanations are only shown after you submit the final session.
+            </p>
+          </div>
+
+          {exams && exams.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-10">
+              {exams.map((exam) => {
+                const running = runningAttempt(exam.id);
+                return (
+                  <Card key={exam.id}>
+                    <CardHeader>
+                      <CardTitle>{exam.name}</CardTitle>
+                      {exam.description && <CardDescription>{exam.description}</CardDescription>}
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                      <div className="flex items-center text-sm">
+                        <Layers className="h-4 w-4 mr-2 text-muted-foreground" />
+                        <span>{exam.sessionCount} session{exam.sessionCount > 1 ? 's' : ''} × {exam.questionsPerSession} questions</span>
+                      </div>
+                      <div className="flex items-center text-sm">
+                        <Clock className="h-4 w-4 mr-2 text-muted-foreground" />
+                        <span>{exam.sessionDuration} minutes per session</span>
+                      </div>
+                    </CardContent>
+                    <CardFooter>
+                      {running ? (
+                        <Button onClick={() => setLocation(`/mock-exams/attempts/${running.id}`)}>
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                          Resume
+                        </Button>
+                      ) : (
+                        <Button
+                          onClick={() => startExamMutation.mutate(exam.id)}
+                          disabled={startExamMutation.isPending}
+                        >
+                          <Play className="mr-2 h-4 w-4" />
+                          Start Exam
+                        </Button>
+                      )}
+                    </CardFooter>
+                  </Card>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="text-center p-8 border rounded-lg bg-white mb-10">
+              <ClipboardList className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium">No mock exams available yet</h3>
+              <p className="text-muted-foreground">Check back soon for full-length practice papers.</p>
+            </div>
+          )}
+
+          <h3 className="text-lg font-medium text-neutral-800 mb-4">Past Attempts</h3>
+          {attempts && attempts.length > 0 ? (
+            <div className="bg-white rounded-lg shadow-sm divide-y">
+              {attempts.map((attempt) => (
+                <div
+                  key={attempt.id}
+                  className="flex items-center justify-between p-4 hover:bg-neutral-50 cursor-pointer"
+                  onClick={() => setLocation(`/mock-exams/attempts/${attempt.id}`)}
+                >
+                  <div>
+                    <p className="font-medium">{attempt.examName}</p>
+                    <p className="text-xs text-neutral-400">
+                      Started {new Date(attempt.startedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  {attempt.status === 'completed' ? (
+                    <Badge variant={attempt.passed ? 'correct' : 'incorrect'}>
+                      {attempt.score}% • {attempt.passed ? 'Pass' : 'Below passing score'}
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline">In progress</Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-neutral-500">You have not attempted a mock exam yet.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,22 +1,50 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { useRoute, useLocation } from 'wouter';
 import { SideNavigation } from '@/components/layout/side-navigation';
-import { QuestionCard, Question } from '@/components/practice/question-card';
+import { QuestionCard, Question, AnswerFeedback } from '@/components/practice/question-card';
+import { QuestionGroupCard, QuestionGroup, GroupAnswer, GroupResult } from '@/components/practice/question-group-card';
+import { SessionBuilder } from '@/components/practice/session-builder';
+import type { PracticeSession, PracticeSessionOptions } from '@shared/schema';
 import { Progress } from '@/components/ui/progress';
-import { ChevronLeft, Timer, BookOpen } from 'lucide-react';
+import { ChevronLeft, Timer, BookOpen, RotateCcw, Gauge, Bookmark, NotebookTabs } from 'lucide-react';
 import { queryClient, apiRequest } from '@/lib/queryClient';
 import { cn } from '@/lib/utils';
 
+type PracticeSessionView = PracticeSession & {
+  totalQuestions: number;
+  questions: Question[];
+  groups: QuestionGroup[];
+  answers: { questionId: number; userOption: string; isCorrect: boolean }[];
+};
+
+const difficultyLabels: Record<number, string> = { 1: 'Easy', 2: 'Medium', 3: 'Hard' };
+
 export default function Practice() {
   // Get topicId and chapterId from URL parameters
   const [match, params] = useRoute('/practice/:topicId');
+  const [isReviewMode] = useRoute('/practice/review');
+  const [isBookmarksMode] = useRoute('/practice/bookmarks');
+  const [isMistakesMode] = useRoute('/practice/mistakes');
+  const [isSetMode, setParams] = useRoute('/practice/set/:setId');
   const [, setLocation] = useLocation();
-  const topicId = match ? parseInt(params.topicId) : null;
+  const topicId = match && !isReviewMode && !isBookmarksMode && !isMistakesMode ? parseInt(params.topicId) : null;
+  const practiceSetId = isSetMode ? parseInt(setParams.setId) : null;
   
   // Extract chapter from URL query parameters
   const searchParams = typeof window !== 'undefined' ? new URLSearchParams(window.location.search) : new URLSearchParams();
   const chapterId = searchParams.get('chapter') ? parseInt(searchParams.get('chapter')!) : null;
+  // Bookmarked questions can be practised for one topic or all of them
+  const bookmarkTopicId = isBookmarksMode && searchParams.get('topic') ? parseInt(searchParams.get('topic')!) : null;
+  // Mistake retries carry the notebook's filters across in the query string
+  const mistakesTopicId = isMistakesMode && searchParams.get('topic') ? parseInt(searchParams.get('topic')!) : null;
+  const mistakeFilters = isMistakesMode ? {
+    from: searchParams.get('from') || undefined,
+    to: searchParams.get('to') || undefined,
+    unresolvedOnly: searchParams.get('unresolved') === 'true',
+  } : undefined;
+  // Adaptive sittings pick each question from how the user is doing in the topic
+  const isAdaptiveMode = !!topicId && !chapterId && searchParams.get('mode') === 'adaptive';
 
   // State for practice session
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
@@ -25,6 +53,10 @@ export default function Practice() {
   const [startTime, setStartTime] = useState<number>(Date.now());
   const [intervalId, setIntervalId] = useState<NodeJS.Timeout | null>(null);
   const [answeredQuestions, setAnsweredQuestions] = useState<Set<number>>(new Set());
+  const [isPickingQuestion, setIsPickingQuestion] = useState(false);
+  const [builderOptions, setBuilderOptions] = useState<PracticeSessionOptions | null>(null);
+  // The latest answer request, so an adaptive pick waits until the server has it
+  const lastAnswerRef = useRef<Promise<unknown>>(Promise.resolve());
 
   // Fetch user data first
   const { data: userData, isLoading: userLoading } = useQuery({
@@ -38,28 +70,39 @@ export default function Practice() {
     enabled: !!topicId,
   });
 
-  // Fetch questions for the topic or chapter
-  const { data: questionsData, isLoading: questionsLoading } = useQuery({
-    queryKey: topicId ? 
-      (chapterId ? 
-        ['/api/chapters', chapterId, 'questions'] : 
-        ['/api/topic-questions/'+topicId]
-      ) : [''],
+  // Fetch the practice set being run, if any
+  const { data: practiceSetData, isLoading: practiceSetLoading } = useQuery<{ id: number; name: string }>({
+    queryKey: ['/api/practice-sets', practiceSetId],
+    enabled: !!practiceSetId,
+  });
+
+  // Start (or resume) a server-side practice session for the topic, chapter, practice set or review queue.
+  // A `session` query parameter resumes that specific session, e.g. from the dashboard.
+  const resumeSessionId = searchParams.get('session') ? parseInt(searchParams.get('session')!) : null;
+  // A new topic sitting is set up in the session builder before it starts
+  const needsBuilder = !!topicId && !chapterId && !isAdaptiveMode && !resumeSessionId && !builderOptions;
+  const { data: sessionData, isLoading: questionsLoading } = useQuery<PracticeSessionView>({
+    queryKey: ['/api/sessions', isReviewMode ? 'review' : isBookmarksMode ? `bookmarks-${bookmarkTopicId}` : isMistakesMode ? `mistakes-${mistakesTopicId}` : isSetMode ? `set-${practiceSetId}` : topicId, chapterId, isAdaptiveMode, builderOptions],
     queryFn: async () => {
-      // If we have a chapterId, fetch questions for that specific chapter
-      if (chapterId) {
-        const res = await apiRequest('GET', `/api/questions/chapter/${chapterId}`);
-        return await res.json();
-      }
-      // Otherwise, fetch all questions for the topic
-      const res = await apiRequest('GET', `/api/topic-questions/${topicId}`);
+      const res = await apiRequest('POST', '/api/sessions', {
+        mode: isReviewMode ? 'review' : isBookmarksMode ? 'bookmarks' : isMistakesMode ? 'mistakes' : isSetMode ? 'set' : chapterId ? 'chapter' : isAdaptiveMode ? 'adaptive' : 'topic',
+        topicId: isBookmarksMode ? bookmarkTopicId : isMistakesMode ? mistakesTopicId : topicId,
+        chapterId,
+        mistakeFilters,
+        practiceSetId,
+        sessionId: resumeSessionId ?? undefined,
+        options: resumeSessionId ? undefined : builderOptions ?? undefined,
+      });
       return await res.json();
     },
-    enabled: !!topicId,
+    enabled: (!!topicId || !!practiceSetId || isReviewMode || isBookmarksMode || isMistakesMode) && !needsBuilder,
+    // Always ask the server on mount so a stale copy never hides answers given elsewhere
+    gcTime: 0,
   });
+  const questionsData = sessionData?.questions;
   
   // Fetch chapters for the topic
-  const { data: chaptersData, isLoading: chaptersLoading } = useQuery({
+  const { data: chaptersData, isLoading: chaptersLoading } = useQuery<{ id: number; name: string }[]>({
     queryKey: topicId ? ['/api/chapters/topic', topicId] : [''],
     enabled: !!topicId,
   });
@@ -93,40 +136,71 @@ export default function Practice() {
     };
   });
 
-  // Submit answer mutation
+  // Refetch everything an answer changes
+  const invalidateAnswerQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/sessions/active'] });
+    if (userData?.id) {
+      queryClient.invalidateQueries({ queryKey: ['/api/progress', userData.id] });
+      queryClient.invalidateQueries({ queryKey: ['/api/analytics', userData.id] });
+      queryClient.invalidateQueries({ queryKey: ['/api/activity', userData.id] });
+    }
+  };
+
+  // Submit answer mutation (recorded against the current practice session)
   const answerMutation = useMutation({
     mutationFn: (data: any) => 
-      apiRequest('POST', '/api/answers', data),
-    onSuccess: () => {
-      // Invalidate relevant queries to refetch data
-      if (userData?.id) {
-        queryClient.invalidateQueries({ queryKey: ['/api/progress', userData.id] });
-        queryClient.invalidateQueries({ queryKey: ['/api/analytics', userData.id] });
-        queryClient.invalidateQueries({ queryKey: ['/api/activity', userData.id] });
-      }
-    },
+      apiRequest('POST', `/api/sessions/${sessionData?.id}/answers`, data),
+    onSuccess: invalidateAnswerQueries,
   });
 
-  // Initialize practice session when questions are loaded
+  // Answer a whole item set at once; the server grades and scores the set together
+  const submitGroupAnswers = async (groupId: number, answers: GroupAnswer[]): Promise<GroupResult> => {
+    const res = await apiRequest('POST', `/api/sessions/${sessionData?.id}/groups/${groupId}/answers`, { answers });
+    const result = await res.json();
+
+    setAnsweredQuestions(prev => {
+      const newSet = new Set(prev);
+      answers.forEach(answer => newSet.add(answer.questionId));
+      return newSet;
+    });
+    invalidateAnswerQueries();
+    return { score: result.score, feedback: result.feedback };
+  };
+
+  // Initialize practice session when it is loaded, picking up where a resumed session stopped
   useEffect(() => {
-    console.log("Questions data:", questionsData, "Topic ID:", topicId, "Chapter ID:", chapterId);
+    if (!sessionData) return;
+    // Point the URL at the built session so a refresh resumes it rather than rebuilding
+    if (builderOptions && !resumeSessionId) {
+      window.history.replaceState(null, '', `/practice/${topicId}?session=${sessionData.id}`);
+    }
+    if (isMistakesMode && !resumeSessionId) {
+      window.history.replaceState(null, '', `/practice/mistakes?session=${sessionData.id}`);
+    }
     // Always reset the questions array when data is loaded to avoid showing questions from other chapters
-    if (questionsData && questionsData.length > 0) {
-      // Take a subset of questions for the practice session
-      setQuestions(questionsData.slice(0, 10));
-      setCurrentQuestionIndex(0);
-      startTimer();
-    } else if (questionsData && questionsData.length === 0) {
+    if (sessionData.questions.length > 0) {
+      const answeredIds = new Set(sessionData.answers.map(answer => answer.questionId));
+      const firstUnanswered = sessionData.questions.findIndex(q => !answeredIds.has(q.id));
+      
+      setQuestions(sessionData.questions);
+      setAnsweredQuestions(answeredIds);
+      setCurrentQuestionIndex(firstUnanswered === -1 ? sessionData.questions.length - 1 : firstUnanswered);
+      startTimer(sessionData.timeSpent);
+      // A resumed adaptive sitting whose picked questions are all answered carries on with a new pick
+      if (isAdaptiveMode && firstUnanswered === -1) {
+        handleNextQuestion(sessionData.questions.length);
+      }
+    } else {
       // Ensure we clear any previously loaded questions when there are none for this chapter
       setQuestions([]);
       console.log("No questions found for topic ID:", topicId, "and chapter ID:", chapterId);
     }
-  }, [questionsData, topicId, chapterId]);
+  }, [sessionData]);
 
   // Timer functions
-  const startTimer = () => {
+  const startTimer = (initialSeconds: number = 0) => {
     setStartTime(Date.now());
-    setTimer(0);
+    setTimer(initialSeconds);
     
     // Clear any existing interval
     if (intervalId) {
@@ -147,44 +221,72 @@ export default function Practice() {
     return `${minutes}:${remainingSeconds < 10 ? '0' : ''}${remainingSeconds}`;
   };
 
-  // Handle submitting an answer
-  const handleSubmitAnswer = (answer: string, isCorrect: boolean, timeSpent: number) => {
-    if (!topicId || !userData?.id) return;
-    
+  // Handle submitting an answer; the server grades it and sends back the feedback to show
+  const handleSubmitAnswer = async (answer: string, timeSpent: number): Promise<AnswerFeedback> => {
     const currentQuestionId = questions[currentQuestionIndex].id;
     
     // Check if this question has already been answered in this session
-    if (answeredQuestions.has(currentQuestionId)) {
-      console.log("Question already answered in this session, skipping submission");
-      return;
+    if (!sessionData || answeredQuestions.has(currentQuestionId)) {
+      throw new Error('This question has already been answered');
     }
     
+    const request = answerMutation.mutateAsync({
+      questionId: currentQuestionId,
+      userOption: answer,
+      timeSpent
+    });
+    lastAnswerRef.current = request.catch(() => undefined);
+    
+    const result = await (await request).json();
+    
     // Add this question to the set of answered questions
     setAnsweredQuestions(prev => {
       const newSet = new Set(prev);
       newSet.add(currentQuestionId);
       return newSet;
     });
-    
-    answerMutation.mutate({
-      userId: userData.id,
-      questionId: currentQuestionId,
-      userOption: answer,
-      isCorrect,
-      timeSpent
-    });
+    return result.feedback;
+  };
+
+  // Ask the server for the next adaptive question; null once the sitting is over
+  const pickAdaptiveQuestion = async (): Promise<Question | null> => {
+    await lastAnswerRef.current;
+    const res = await apiRequest('POST', `/api/sessions/${sessionData?.id}/next`);
+    const result: { question: Question | null } = await res.json();
+    return result.question;
   };
 
-  // Handle moving to next question
-  const handleNextQuestion = () => {
-    if (currentQuestionIndex < questions.length - 1) {
-      setCurrentQuestionIndex(currentQuestionIndex + 1);
+  // Handle moving to next question, or past the end of the current item set
+  const handleNextQuestion = async (nextIndex: number = currentQuestionIndex + 1) => {
+    if (isAdaptiveMode && nextIndex >= questions.length && sessionData) {
+      setIsPickingQuestion(true);
+      try {
+        const nextQuestion = await pickAdaptiveQuestion();
+        if (nextQuestion) {
+          setQuestions(prev => [...prev.filter(q => q.id !== nextQuestion.id), nextQuestion]);
+          setCurrentQuestionIndex(nextIndex);
+          setStartTime(Date.now());
+          return;
+        }
+      } finally {
+        setIsPickingQuestion(false);
+      }
+    }
+
+    if (nextIndex < questions.length) {
+      setCurrentQuestionIndex(nextIndex);
       setStartTime(Date.now()); // Reset the start time for the next question
     } else {
       // End of practice session
       if (intervalId) {
         clearInterval(intervalId);
       }
+      // Close the session on the server so it is no longer offered for resuming
+      if (sessionData) {
+        apiRequest('POST', `/api/sessions/${sessionData.id}/finish`).then(() => {
+          queryClient.invalidateQueries({ queryKey: ['/api/sessions/active'] });
+        });
+      }
       setLocation('/dashboard'); // Explicitly navigate to dashboard instead of root
     }
   };
@@ -204,7 +306,8 @@ export default function Practice() {
     }
   }, [userData, setLocation]);
 
-  if (topicLoading || questionsLoading || topicsLoading || chaptersLoading || !topicData) {
+  if (topicLoading || questionsLoading || topicsLoading || chaptersLoading || practiceSetLoading ||
+      (!isReviewMode && !isSetMode && !isBookmarksMode && !isMistakesMode && !topicData)) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="flex flex-col items-center">
@@ -238,10 +341,38 @@ export default function Practice() {
   }
 
   const currentQuestion = questions[currentQuestionIndex];
-  const progress = questions.length > 0 
-    ? ((currentQuestionIndex + 1) / questions.length) * 100 
+  // Adaptive sittings only hold the questions picked so far
+  const totalQuestions = Math.max(sessionData?.totalQuestions ?? 0, questions.length);
+  const progress = totalQuestions > 0 
+    ? ((currentQuestionIndex + 1) / totalQuestions) * 100 
     : 0;
 
+  // Item set questions sit next to each other in the session; show them all with their vignette
+  const currentGroup = currentQuestion?.groupId
+    ? sessionData?.groups.find(group => group.id === currentQuestion.groupId)
+    : undefined;
+  let groupStart = currentQuestionIndex;
+  let groupEnd = currentQuestionIndex;
+  if (currentGroup) {
+    while (groupStart > 0 && questions[groupStart - 1].groupId === currentGroup.id) groupStart--;
+    while (groupEnd < questions.length - 1 && questions[groupEnd + 1].groupId === currentGroup.id) groupEnd++;
+  }
+  const groupQuestions = questions.slice(groupStart, groupEnd + 1);
+  // A question answered before a refresh comes back with its answer key
+  const previousAnswer = sessionData?.answers.find(answer => answer.questionId === currentQuestion?.id);
+  const currentFeedback: AnswerFeedback | undefined = previousAnswer && currentQuestion?.correctOption
+    ? {
+        ...previousAnswer,
+        correctOption: currentQuestion.correctOption,
+        explanation: currentQuestion.explanation || '',
+      }
+    : undefined;
+  const previousGroupAnswers = Object.fromEntries(
+    (sessionData?.answers || [])
+      .filter(answer => groupQuestions.some(q => q.id === answer.questionId))
+      .map(answer => [answer.questionId, answer.userOption])
+  );
+
   return (
     <div className="flex h-screen overflow-hidden">
       {/* Sidebar Navigation */}
@@ -282,15 +413,25 @@ export default function Practice() {
                   </button>
                   <div>
                     <h2 className="text-2xl font-bold text-neutral-800 flex items-center">
-                      {topicData?.name || 'Topic'}
+                      {isReviewMode ? 'Review Due' : isBookmarksMode ? 'My Bookmarks' : isMistakesMode ? 'Mistake Notebook' : isSetMode ? practiceSetData?.name || 'Practice Set' : topicData?.name || 'Topic'}
                       <span className="ml-2 text-primary">
-                        <BookOpen className="h-5 w-5" />
+                        {isReviewMode ? <RotateCcw className="h-5 w-5" /> : isBookmarksMode ? <Bookmark className="h-5 w-5" /> : isMistakesMode ? <NotebookTabs className="h-5 w-5" /> : <BookOpen className="h-5 w-5" />}
                       </span>
                     </h2>
                     <div className="flex items-center mt-1">
                       <p className="text-neutral-500">
-                        Question {currentQuestionIndex + 1} of {questions.length}
+                        {needsBuilder
+                          ? 'Choose your practice settings'
+                          : currentGroup && groupEnd > groupStart
+                          ? `Questions ${groupStart + 1}-${groupEnd + 1} of ${totalQuestions}`
+                          : `Question ${currentQuestionIndex + 1} of ${totalQuestions}`}
                       </p>
+                      {isAdaptiveMode && currentQuestion?.difficulty && (
+                        <div className="ml-4 flex items-center text-neutral-500">
+                          <Gauge className="h-4 w-4 text-primary mr-1" />
+                          <span>Adaptive · {difficultyLabels[currentQuestion.difficulty] || 'Mixed'}</span>
+                        </div>
+                      )}
                       {currentQuestion && chaptersData && chaptersData.length > 0 && (
                         <div className="ml-4 flex items-center">
                           <span className="inline-block w-2 h-2 rounded-full bg-primary mr-2"></span>
@@ -320,15 +461,40 @@ export default function Practice() {
 
           {/* Question Card or No Questions Message */}
           <div className="mx-auto">
-            {currentQuestion ? (
+            {needsBuilder ? (
+              <SessionBuilder
+                topicId={topicId!}
+                topicName={topicData?.name || 'this topic'}
+                chapters={chaptersData || []}
+                onStart={setBuilderOptions}
+              />
+            ) : isPickingQuestion ? (
+              <div className="bg-white rounded-lg shadow-md p-8 flex justify-center">
+                <div className="w-10 h-10 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            ) : currentQuestion && currentGroup ? (
+              <div className="bg-white rounded-lg shadow-md overflow-hidden">
+                <QuestionGroupCard
+                  key={`group-${currentGroup.id}-${groupStart}`}
+                  group={currentGroup}
+                  questions={groupQuestions}
+                  firstQuestionNumber={groupStart + 1}
+                  previousAnswers={previousGroupAnswers}
+                  onSubmit={(answers) => submitGroupAnswers(currentGroup.id, answers)}
+                  onNext={() => handleNextQuestion(groupEnd + 1)}
+                  startTime={startTime}
+                />
+              </div>
+            ) : currentQuestion ? (
               <div className="bg-white rounded-lg shadow-md overflow-hidden">
                 <QuestionCard
                   key={`question-${currentQuestion.id}`}
                   question={currentQuestion}
                   questionNumber={currentQuestionIndex + 1}
-                  totalQuestions={questions.length}
+                  totalQuestions={totalQuestions}
+                  previousAnswer={currentFeedback}
                   onSubmit={handleSubmitAnswer}
-                  onNext={handleNextQuestion}
+                  onNext={() => handleNextQuestion()}
                   startTime={startTime}
                 />
               </div>
@@ -336,9 +502,19 @@ export default function Practice() {
               <div className="bg-white shadow-lg rounded-lg p-8 text-center">
                 <div className="flex flex-col items-center">
                   <BookOpen className="h-16 w-16 text-primary/40 mb-4" />
-                  <h3 className="text-xl font-bold text-neutral-800 mb-4">No Questions Available</h3>
+                  <h3 className="text-xl font-bold text-neutral-800 mb-4">
+                    {isReviewMode ? 'Nothing Due for Review' : isBookmarksMode ? 'No Bookmarked Questions' : isMistakesMode ? 'No Mistakes to Retry' : 'No Questions Available'}
+                  </h3>
                   <p className="text-neutral-600 mb-6 max-w-md">
-                    {chapterId 
+                    {isReviewMode
+                      ? `You're all caught up. Questions you answer are scheduled to come back here just before you're likely to forget them.`
+                      : isBookmarksMode
+                      ? `Bookmark questions during practice and they will be collected here for another go.`
+                      : isMistakesMode
+                      ? `None of your past mistakes match these filters. Adjust them in the Mistake Notebook and try again.`
+                      : isSetMode
+                      ? `This practice set doesn't have any questions yet. Please choose another set or topic.`
+                      : chapterId 
                       ? `No quizzes available for this chapter yet. Please select another chapter or topic.`
                       : `There are currently no practice questions available for this topic. Please check back later or select another topic.`
                     }
@@ -2,7 +2,6 @@ import React, { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { SideNavigation } from '@/components/layout/side-navigation';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -14,19 +13,30 @@ import { apiRequest } from '@/lib/queryClient';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { USER_LEVELS, type User as UserData, type UserLevel } from '@shared/schema';
 
 // Validation schemas
 const profileFormSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters"),
   email: z.string().email("Please enter a valid email address"),
+  level: z.enum(USER_LEVELS),
+  timezone: z.string().min(1, "Please choose a timezone"),
 });
 
+// Study streak days are counted in this timezone
+const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+const timezones = typeof Intl.supportedValuesOf === 'function'
+  ? Intl.supportedValuesOf('timeZone')
+  : [browserTimezone];
+
 const notificationsFormSchema = z.object({
   practiceReminders: z.boolean(),
   newContentAlerts: z.boolean(),
   progressUpdates: z.boolean(),
+  accountAlerts: z.boolean(),
 });
 
 const passwordFormSchema = z.object({
@@ -49,13 +59,15 @@ export default function Settings() {
   const [passwordFormStatus, setPasswordFormStatus] = useState<'idle' | 'success' | 'error'>('idle');
 
   // Fetch user data
-  const { data: userData, isLoading: userLoading } = useQuery({
+  const { data: userData, isLoading: userLoading } = useQuery<UserData>({
     queryKey: ['/api/user'],
     retry: false,
   });
 
   // Fetch notification preferences 
-  const { data: notificationsData, isLoading: notificationsLoading } = useQuery({
+  const { data: notificationsData, isLoading: notificationsLoading } = useQuery<{
+    preferences: z.infer<typeof notificationsFormSchema>;
+  }>({
     queryKey: ['/api/notifications'],
     retry: false,
   });
@@ -72,6 +84,8 @@ export default function Settings() {
     defaultValues: {
       username: userData?.username || '',
       email: userData?.email || '',
+      level: (userData?.level as UserLevel) || 'Level I Candidate',
+      timezone: userData?.timezone || browserTimezone,
     },
   });
 
@@ -81,6 +95,7 @@ export default function Settings() {
       practiceReminders: notificationsData?.preferences?.practiceReminders ?? true,
       newContentAlerts: notificationsData?.preferences?.newContentAlerts ?? true,
       progressUpdates: notificationsData?.preferences?.progressUpdates ?? false,
+      accountAlerts: notificationsData?.preferences?.accountAlerts ?? true,
     },
   });
 
@@ -99,7 +114,9 @@ export default function Settings() {
       return apiRequest('PUT', '/api/updateProfile', data);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+      // The level decides which topics, practice sets and analytics are shown,
+      // so refetch everything rather than just the user
+      queryClient.invalidateQueries();
       setAccountFormStatus('success');
       toast({
         title: "Profile updated",
@@ -202,6 +219,9 @@ export default function Settings() {
       profileForm.reset({
         username: userData.username || '',
         email: userData.email || '',
+        level: (userData.level as UserLevel) || 'Level I Candidate',
+        // Suggest the browser's zone until the user has chosen one
+        timezone: userData.timezone || browserTimezone,
       });
     }
   }, [userData, profileForm]);
@@ -213,6 +233,7 @@ export default function Settings() {
         practiceReminders: notificationsData.preferences.practiceReminders ?? true,
         newContentAlerts: notificationsData.preferences.newContentAlerts ?? true,
         progressUpdates: notificationsData.preferences.progressUpdates ?? false,
+        accountAlerts: notificationsData.preferences.accountAlerts ?? true,
       });
     }
   }, [notificationsData, notificationsForm]);
@@ -320,10 +341,58 @@ export default function Settings() {
                         )}
                       />
                       
-                      <div className="space-y-2">
-                        <Label htmlFor="level">CFA Level</Label>
-                        <Input id="level" value={userData?.level || ''} disabled />
-                      </div>
+                      <FormField
+                        control={profileForm.control}
+                        name="level"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>CFA Level</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {USER_LEVELS.map(level => (
+                                  <SelectItem key={level} value={level}>{level}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormDescription>
+                              Topics, practice sets and analytics are shown for this level.
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <FormField
+                        control={profileForm.control}
+                        name="timezone"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Timezone</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {Array.from(new Set([field.value, ...timezones])).map(timezone => (
+                                  <SelectItem key={timezone} value={timezone}>{timezone.replace(/_/g, ' ')}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormDescription>
+                              Your study streak counts days in this timezone.
+                              {!userData?.timezone && ' Suggested from your browser; save to use it.'}
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
                       
                       <Button 
                         type="submit" 
@@ -400,7 +469,7 @@ export default function Settings() {
                             <div className="flex items-center justify-between my-4">
                               <div>
                                 <h4 className="font-medium">New Content Alerts</h4>
-                                <p className="text-sm text-neutral-500">Get notified when new questions are added</p>
+                                <p className="text-sm text-neutral-500">Get notified when new practice sets are added or a question you reported is fixed</p>
                               </div>
                               <FormControl>
                                 <Switch 
@@ -422,7 +491,29 @@ export default function Settings() {
                             <div className="flex items-center justify-between my-4">
                               <div>
                                 <h4 className="font-medium">Progress Updates</h4>
-                                <p className="text-sm text-neutral-500">Weekly summaries of your progress</p>
+                                <p className="text-sm text-neutral-500">Weekly summaries of your progress, badges and streak milestones</p>
+                              </div>
+                              <FormControl>
+                                <Switch 
+                                  checked={field.value} 
+                                  onCheckedChange={field.onChange}
+                                />
+                              </FormControl>
+                            </div>
+                            <Separator />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <FormField
+                        control={notificationsForm.control}
+                        name="accountAlerts"
+                        render={({ field }) => (
+                          <FormItem>
+                            <div className="flex items-center justify-between my-4">
+                              <div>
+                                <h4 className="font-medium">Account Alerts</h4>
+                                <p className="text-sm text-neutral-500">Know before your subscription ends or expires</p>
                               </div>
                               <FormControl>
                                 <Switch 
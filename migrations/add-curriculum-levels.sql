@@ -0,0 +1,23 @@
+-- Content is targeted at one curriculum level; existing content is Level I
+DO $$
+DECLARE
+    table_name_var TEXT;
+BEGIN
+    FOREACH table_name_var IN ARRAY ARRAY['topics', 'chapters', 'questions', 'practice_sets']
+    LOOP
+        IF NOT EXISTS (
+            SELECT FROM information_schema.columns
+            WHERE table_name = table_name_var AND column_name = 'level'
+        ) THEN
+            EXECUTE format('ALTER TABLE %I ADD COLUMN level TEXT NOT NULL DEFAULT ''Level I''', table_name_var);
+        END IF;
+    END LOOP;
+END $$;
+
+-- Topic names repeat across levels, so they are only unique within a level
+ALTER TABLE topics DROP CONSTRAINT IF EXISTS topics_name_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS topics_name_level_idx ON topics (name, level);
+
+-- Users who never picked a level keep the default
+UPDATE users SET level = 'Level I Candidate'
+WHERE level NOT IN ('Level I Candidate', 'Level II Candidate', 'Level III Candidate');
@@ -0,0 +1,32 @@
+-- Outbound email queue and delivery status
+CREATE TABLE IF NOT EXISTS email_deliveries (
+    id SERIAL PRIMARY KEY,
+    recipient TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    template TEXT,
+    text TEXT,
+    html TEXT,
+    discard_body BOOLEAN NOT NULL DEFAULT FALSE,
+    status TEXT NOT NULL DEFAULT 'queued',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    transport TEXT,
+    message_id TEXT,
+    next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    sent_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM information_schema.columns 
+        WHERE table_name = 'email_deliveries' AND column_name = 'discard_body'
+    ) THEN
+        ALTER TABLE email_deliveries ADD COLUMN discard_body BOOLEAN NOT NULL DEFAULT FALSE;
+    END IF;
+END $$;
+
+-- The queue looks up deliveries that are due by status and time
+CREATE INDEX IF NOT EXISTS email_deliveries_status_next_attempt_idx
+    ON email_deliveries (status, next_attempt_at);
@@ -0,0 +1,15 @@
+-- Run history for the in-process job scheduler (reminder and digest emails)
+CREATE TABLE IF NOT EXISTS job_runs (
+    id SERIAL PRIMARY KEY,
+    job_name TEXT NOT NULL,
+    trigger TEXT NOT NULL DEFAULT 'schedule',
+    triggered_by INTEGER REFERENCES users(id),
+    status TEXT NOT NULL DEFAULT 'running',
+    summary JSON,
+    error TEXT,
+    started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    finished_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS job_runs_job_started_idx
+    ON job_runs (job_name, started_at DESC);
@@ -0,0 +1,22 @@
+-- Learning outcome statements (LOS) under each chapter
+CREATE TABLE IF NOT EXISTS learning_outcomes (
+    id SERIAL PRIMARY KEY,
+    chapter_id INTEGER NOT NULL REFERENCES chapters(id),
+    code TEXT NOT NULL,
+    statement TEXT NOT NULL,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    is_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE INDEX IF NOT EXISTS learning_outcomes_chapter_id_idx ON learning_outcomes (chapter_id);
+
+-- Questions tagged with the learning outcomes they test
+CREATE TABLE IF NOT EXISTS question_learning_outcomes (
+    id SERIAL PRIMARY KEY,
+    question_id INTEGER NOT NULL REFERENCES questions(id),
+    learning_outcome_id INTEGER NOT NULL REFERENCES learning_outcomes(id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS question_learning_outcomes_question_outcome_idx
+    ON question_learning_outcomes (question_id, learning_outcome_id);
@@ -0,0 +1,30 @@
+-- Timed mock exams and candidates' attempts at them
+CREATE TABLE IF NOT EXISTS mock_exams (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT,
+    session_count INTEGER NOT NULL DEFAULT 2,
+    questions_per_session INTEGER NOT NULL DEFAULT 90,
+    session_duration INTEGER NOT NULL DEFAULT 135,
+    topic_weights JSON NOT NULL,
+    passing_score INTEGER NOT NULL DEFAULT 70,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    is_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE TABLE IF NOT EXISTS mock_exam_attempts (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id),
+    mock_exam_id INTEGER NOT NULL REFERENCES mock_exams(id),
+    status TEXT NOT NULL DEFAULT 'in_progress',
+    current_session INTEGER NOT NULL DEFAULT 0,
+    sessions JSON NOT NULL,
+    answers JSON NOT NULL DEFAULT '{}',
+    flagged JSON NOT NULL DEFAULT '[]',
+    score INTEGER,
+    report JSON,
+    started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMP,
+    is_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
@@ -0,0 +1,17 @@
+-- In-app notification centre
+CREATE TABLE IF NOT EXISTS notifications (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id),
+    type TEXT NOT NULL,
+    title TEXT NOT NULL,
+    message TEXT NOT NULL,
+    link TEXT,
+    dedupe_key TEXT,
+    read_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    is_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+-- Notifications sent once per event share a dedupe key; NULL keys never clash
+CREATE UNIQUE INDEX IF NOT EXISTS notifications_user_dedupe_idx
+    ON notifications (user_id, dedupe_key);
@@ -0,0 +1,3 @@
+-- Session builder settings and the shuffled option order of each question
+ALTER TABLE practice_sessions ADD COLUMN IF NOT EXISTS options JSON;
+ALTER TABLE practice_sessions ADD COLUMN IF NOT EXISTS option_orders JSON;
@@ -0,0 +1,28 @@
+-- Server-side practice sessions, and the link from each answer to its session
+CREATE TABLE IF NOT EXISTS practice_sessions (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id),
+    mode TEXT NOT NULL DEFAULT 'topic',
+    topic_id INTEGER REFERENCES topics(id),
+    chapter_id INTEGER REFERENCES chapters(id),
+    question_ids JSON NOT NULL,
+    current_index INTEGER NOT NULL DEFAULT 0,
+    answered_count INTEGER NOT NULL DEFAULT 0,
+    correct_count INTEGER NOT NULL DEFAULT 0,
+    time_spent INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'active',
+    started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    last_activity_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMP,
+    is_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM information_schema.columns 
+        WHERE table_name = 'user_answers' AND column_name = 'session_id'
+    ) THEN
+        ALTER TABLE user_answers ADD COLUMN session_id INTEGER REFERENCES practice_sessions(id);
+    END IF;
+END $$;
@@ -0,0 +1,12 @@
+-- Students hear about a practice set once it has questions, from a scheduled job
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM information_schema.columns 
+        WHERE table_name = 'practice_sets' AND column_name = 'announced_at'
+    ) THEN
+        ALTER TABLE practice_sets ADD COLUMN announced_at TIMESTAMP;
+        -- Sets that already exist were announced when they were created
+        UPDATE practice_sets SET announced_at = NOW();
+    END IF;
+END $$;
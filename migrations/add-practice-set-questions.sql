@@ -0,0 +1,20 @@
+-- Ordered question lists for practice sets, and sessions that run a set
+CREATE TABLE IF NOT EXISTS practice_set_questions (
+    id SERIAL PRIMARY KEY,
+    practice_set_id INTEGER NOT NULL REFERENCES practice_sets(id),
+    question_id INTEGER NOT NULL REFERENCES questions(id),
+    position INTEGER NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS practice_set_questions_set_question_idx
+    ON practice_set_questions (practice_set_id, question_id);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM information_schema.columns 
+        WHERE table_name = 'practice_sessions' AND column_name = 'practice_set_id'
+    ) THEN
+        ALTER TABLE practice_sessions ADD COLUMN practice_set_id INTEGER REFERENCES practice_sets(id);
+    END IF;
+END $$;
@@ -0,0 +1,7 @@
+-- Separate progress metrics per topic: coverage, first-attempt and latest-attempt accuracy, mastery
+ALTER TABLE user_progress ADD COLUMN IF NOT EXISTS questions_seen INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE user_progress ADD COLUMN IF NOT EXISTS first_attempt_correct INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE user_progress ADD COLUMN IF NOT EXISTS latest_correct INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE user_progress ADD COLUMN IF NOT EXISTS questions_mastered INTEGER NOT NULL DEFAULT 0;
+
+-- Existing rows only counted first attempts; run scripts/backfill-user-progress.ts to rebuild them
@@ -0,0 +1,22 @@
+-- Student bookmarks and personal notes on questions
+CREATE TABLE IF NOT EXISTS question_bookmarks (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id),
+    question_id INTEGER NOT NULL REFERENCES questions(id),
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS question_bookmarks_user_question_idx
+    ON question_bookmarks (user_id, question_id);
+
+CREATE TABLE IF NOT EXISTS question_notes (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id),
+    question_id INTEGER NOT NULL REFERENCES questions(id),
+    content TEXT NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS question_notes_user_question_idx
+    ON question_notes (user_id, question_id);
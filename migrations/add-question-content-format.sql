@@ -0,0 +1,10 @@
+-- Questions can be written in Markdown with LaTeX math and images
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM information_schema.columns
+        WHERE table_name = 'questions' AND column_name = 'content_format'
+    ) THEN
+        ALTER TABLE questions ADD COLUMN content_format TEXT NOT NULL DEFAULT 'plain';
+    END IF;
+END $$;
@@ -0,0 +1,25 @@
+-- Item sets: a shared vignette with several questions
+CREATE TABLE IF NOT EXISTS question_groups (
+    id SERIAL PRIMARY KEY,
+    topic_id INTEGER NOT NULL REFERENCES topics(id),
+    chapter_id INTEGER REFERENCES chapters(id),
+    title TEXT NOT NULL,
+    context TEXT NOT NULL,
+    exhibits TEXT,
+    content_format TEXT NOT NULL DEFAULT 'plain',
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    is_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM information_schema.columns
+        WHERE table_name = 'questions' AND column_name = 'group_id'
+    ) THEN
+        ALTER TABLE questions ADD COLUMN group_id INTEGER REFERENCES question_groups(id);
+        ALTER TABLE questions ADD COLUMN group_position INTEGER;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS questions_group_id_idx ON questions (group_id);
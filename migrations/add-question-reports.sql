@@ -0,0 +1,17 @@
+-- Student reports of problems with questions (wrong key, typos, ...) for admin triage
+CREATE TABLE IF NOT EXISTS question_reports (
+    id SERIAL PRIMARY KEY,
+    question_id INTEGER NOT NULL REFERENCES questions(id),
+    user_id INTEGER NOT NULL REFERENCES users(id),
+    category TEXT NOT NULL,
+    message TEXT,
+    question_revision INTEGER,
+    status TEXT NOT NULL DEFAULT 'open',
+    resolution_note TEXT,
+    resolved_by INTEGER REFERENCES users(id),
+    resolved_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    is_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE INDEX IF NOT EXISTS question_reports_status_idx ON question_reports (status);
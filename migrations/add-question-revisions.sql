@@ -0,0 +1,32 @@
+-- Edit history for questions, and the revision each answer was given against
+CREATE TABLE IF NOT EXISTS question_revisions (
+    id SERIAL PRIMARY KEY,
+    question_id INTEGER NOT NULL REFERENCES questions(id),
+    revision INTEGER NOT NULL,
+    snapshot JSON NOT NULL,
+    changed_fields JSON NOT NULL DEFAULT '[]',
+    change_type TEXT NOT NULL,
+    restored_from_revision INTEGER,
+    changed_by INTEGER REFERENCES users(id),
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS question_revisions_question_revision_idx
+    ON question_revisions (question_id, revision);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM information_schema.columns
+        WHERE table_name = 'questions' AND column_name = 'current_revision'
+    ) THEN
+        ALTER TABLE questions ADD COLUMN current_revision INTEGER NOT NULL DEFAULT 1;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT FROM information_schema.columns
+        WHERE table_name = 'user_answers' AND column_name = 'question_revision'
+    ) THEN
+        ALTER TABLE user_answers ADD COLUMN question_revision INTEGER;
+    END IF;
+END $$;
@@ -0,0 +1,15 @@
+-- Spaced-repetition (SM-2) review schedule per user and question
+CREATE TABLE IF NOT EXISTS review_cards (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id),
+    question_id INTEGER NOT NULL REFERENCES questions(id),
+    ease_factor REAL NOT NULL DEFAULT 2.5,
+    interval INTEGER NOT NULL DEFAULT 0,
+    repetitions INTEGER NOT NULL DEFAULT 0,
+    due_date TIMESTAMP NOT NULL DEFAULT NOW(),
+    last_reviewed_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    is_deleted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS review_cards_user_question_idx
+    ON review_cards (user_id, question_id);
@@ -0,0 +1,13 @@
+-- Each question is answered at most once per practice session. Answers that
+-- were saved twice by racing requests keep their history but are detached
+-- from the session, leaving the first one counted.
+UPDATE user_answers SET session_id = NULL
+WHERE session_id IS NOT NULL
+  AND id NOT IN (
+    SELECT MIN(id) FROM user_answers
+    WHERE session_id IS NOT NULL
+    GROUP BY session_id, question_id
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS user_answers_session_question_idx
+    ON user_answers (session_id, question_id);
@@ -0,0 +1,20 @@
+-- Daily study streaks: longest streak, banked freezes and the timezone days are counted in
+ALTER TABLE users ADD COLUMN IF NOT EXISTS longest_streak_days INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS streak_freezes INTEGER NOT NULL DEFAULT 0;
+-- Null until the user chooses a timezone, so the settings page can suggest one
+ALTER TABLE users ADD COLUMN IF NOT EXISTS timezone TEXT;
+ALTER TABLE users ALTER COLUMN timezone DROP NOT NULL;
+ALTER TABLE users ALTER COLUMN timezone DROP DEFAULT;
+
+-- Days a student studied, or had covered by a freeze, in their own timezone
+CREATE TABLE IF NOT EXISTS study_days (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id),
+    study_date TEXT NOT NULL,
+    questions_answered INTEGER NOT NULL DEFAULT 0,
+    is_frozen BOOLEAN NOT NULL DEFAULT FALSE,
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS study_days_user_date_idx
+    ON study_days (user_id, study_date);
@@ -0,0 +1,10 @@
+-- Badges earned by students; the catalogue itself is defined in code
+CREATE TABLE IF NOT EXISTS user_badges (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id),
+    badge_key TEXT NOT NULL,
+    earned_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS user_badges_user_badge_idx
+    ON user_badges (user_id, badge_key);
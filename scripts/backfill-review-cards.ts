@@ -0,0 +1,62 @@
+import { db } from "../server/db.ts";
+import { asc, eq } from "drizzle-orm";
+import { reviewCards, userAnswers, type ReviewCard } from "../shared/schema.ts";
+import { gradeAnswer, scheduleReview, type ReviewSchedule } from "../server/spaced-repetition.ts";
+
+// Replay every recorded answer through the SM-2 scheduler so existing users
+// start with a review queue that reflects their history
+async function backfillReviewCards() {
+  try {
+    console.log("Building review cards from answer history...");
+
+    const answers = await db.select()
+      .from(userAnswers)
+      .where(eq(userAnswers.isDeleted, false))
+      .orderBy(asc(userAnswers.answeredAt));
+
+    const schedules = new Map<string, ReviewSchedule & Pick<ReviewCard, "userId" | "questionId" | "lastReviewedAt">>();
+
+    for (const answer of answers) {
+      const key = `${answer.userId}:${answer.questionId}`;
+      const previous = schedules.get(key);
+      const schedule = scheduleReview(previous, gradeAnswer(answer.isCorrect, answer.timeSpent), answer.answeredAt);
+
+      schedules.set(key, {
+        userId: answer.userId,
+        questionId: answer.questionId,
+        ...schedule,
+        lastReviewedAt: answer.answeredAt
+      });
+    }
+
+    for (const card of Array.from(schedules.values())) {
+      await db.insert(reviewCards)
+        .values(card)
+        .onConflictDoUpdate({
+          target: [reviewCards.userId, reviewCards.questionId],
+          set: {
+            easeFactor: card.easeFactor,
+            interval: card.interval,
+            repetitions: card.repetitions,
+            dueDate: card.dueDate,
+            lastReviewedAt: card.lastReviewedAt
+          }
+        });
+    }
+
+    console.log(`Wrote ${schedules.size} review cards from ${answers.length} answers.`);
+  } catch (error) {
+    console.error("Error backfilling review cards:", error);
+    throw error;
+  }
+}
+
+backfillReviewCards()
+  .then(() => {
+    console.log("All done!");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("Backfill failed:", error);
+    process.exit(1);
+  });
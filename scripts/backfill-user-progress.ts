@@ -0,0 +1,34 @@
+import { storage } from "../server/storage.ts";
+import { recomputeUserProgress } from "../server/progress-metrics.ts";
+
+// Rebuild every user's topic progress from their answer history. Progress
+// used to count first attempts only, so existing rows undercount repeats and
+// have no coverage or mastery figures until this has run.
+async function backfillUserProgress() {
+  try {
+    console.log("Rebuilding user progress from answer history...");
+
+    const users = await storage.getAllUsers();
+    let rows = 0;
+
+    for (const user of users) {
+      const progress = await recomputeUserProgress(user.id);
+      rows += progress.length;
+    }
+
+    console.log(`Rebuilt ${rows} progress rows for ${users.length} users.`);
+  } catch (error) {
+    console.error("Error backfilling user progress:", error);
+    throw error;
+  }
+}
+
+backfillUserProgress()
+  .then(() => {
+    console.log("All done!");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("Backfill failed:", error);
+    process.exit(1);
+  });
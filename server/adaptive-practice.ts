@@ -0,0 +1,117 @@
+import { storage } from './storage';
+import { getLatestAnswers } from './helpers/user-progress';
+import type { CurriculumLevel, Question, UserAnswer } from '@shared/schema';
+
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 3;
+// Where a user with no history in the topic starts
+const STARTING_DIFFICULTY = 2;
+// Consecutive correct answers needed to move up a difficulty step
+const STEP_UP_STREAK = 3;
+// Consecutive wrong answers that move the user down a step
+const STEP_DOWN_STREAK = 2;
+
+export type AbilityEstimate = {
+  difficulty: number;
+  correctStreak: number;
+  incorrectStreak: number;
+  answered: number;
+};
+
+export type AdaptivePick = {
+  question: Question | null;
+  ability: AbilityEstimate;
+};
+
+/**
+ * Replay a user's answers in a topic, oldest first, to find the difficulty
+ * they are working at. A run of correct answers steps the difficulty up and a
+ * run of wrong ones steps it down; each step starts the streak count afresh.
+ */
+export function estimateAbility(answers: UserAnswer[]): AbilityEstimate {
+  const ability: AbilityEstimate = {
+    difficulty: STARTING_DIFFICULTY,
+    correctStreak: 0,
+    incorrectStreak: 0,
+    answered: 0,
+  };
+
+  const ordered = answers
+    .filter(answer => !answer.isDeleted)
+    .sort((a, b) => new Date(a.answeredAt).getTime() - new Date(b.answeredAt).getTime());
+
+  for (const answer of ordered) {
+    ability.answered++;
+    if (answer.isCorrect) {
+      ability.correctStreak++;
+      ability.incorrectStreak = 0;
+    } else {
+      ability.incorrectStreak++;
+      ability.correctStreak = 0;
+    }
+
+    if (ability.correctStreak >= STEP_UP_STREAK && ability.difficulty < MAX_DIFFICULTY) {
+      ability.difficulty++;
+      ability.correctStreak = 0;
+    } else if (ability.incorrectStreak >= STEP_DOWN_STREAK && ability.difficulty > MIN_DIFFICULTY) {
+      ability.difficulty--;
+      ability.incorrectStreak = 0;
+    }
+  }
+
+  return ability;
+}
+
+// Lower is better: closest difficulty, then unseen questions, then ones last answered wrongly
+function rankCandidate(question: Question, difficulty: number, latest: Map<number, UserAnswer>): number[] {
+  const previous = latest.get(question.id);
+  return [
+    Math.abs(question.difficulty - difficulty),
+    previous ? 1 : 0,
+    previous && !previous.isCorrect ? 0 : 1,
+  ];
+}
+
+function compareRanks(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+}
+
+/**
+ * Pick the next question in a topic for the user's current ability. Questions
+ * already in the sitting are skipped, as are item set questions, which only
+ * make sense alongside their vignette. Ties are broken at random so repeat
+ * sittings don't replay the same order.
+ */
+export async function pickAdaptiveQuestion(
+  userId: number,
+  topicId: number,
+  level: CurriculumLevel,
+  excludeQuestionIds: number[] = []
+): Promise<AdaptivePick> {
+  const [topicQuestions, topicAnswers] = await Promise.all([
+    storage.getQuestionsByTopic(topicId),
+    storage.getUserAnswersByTopic(userId, topicId),
+  ]);
+  const ability = estimateAbility(topicAnswers);
+
+  const latest = getLatestAnswers(topicAnswers);
+  const excluded = new Set(excludeQuestionIds);
+  const candidates = topicQuestions.filter(q =>
+    !q.isDeleted && q.level === level && q.groupId === null && !excluded.has(q.id)
+  );
+  if (candidates.length === 0) {
+    return { question: null, ability };
+  }
+
+  const ranked = candidates.map(question => ({ question, rank: rankCandidate(question, ability.difficulty, latest) }));
+  const best = ranked.reduce((min, entry) => compareRanks(entry.rank, min) < 0 ? entry.rank : min, ranked[0].rank);
+  const shortlist = ranked.filter(entry => compareRanks(entry.rank, best) === 0);
+
+  return {
+    question: shortlist[Math.floor(Math.random() * shortlist.length)].question,
+    ability,
+  };
+}
@@ -0,0 +1,71 @@
+import type { Question } from '@shared/schema';
+
+// Longest time a single answer can be credited with, whatever the client says
+export const MAX_ANSWER_SECONDS = 30 * 60;
+
+// A question as a student sees it before answering: no answer key or explanation
+export type UnansweredQuestion = Omit<Question, 'correctOption' | 'explanation'> &
+  Partial<Pick<Question, 'correctOption' | 'explanation'>>;
+
+export type AnswerFeedback = {
+  questionId: number;
+  userOption: string;
+  isCorrect: boolean;
+  correctOption: string;
+  explanation: string;
+};
+
+/**
+ * Strip the answer key and explanation from a question so it can be sent to
+ * the browser before the student has answered it
+ */
+export function hideAnswer(question: Question): UnansweredQuestion {
+  const { correctOption, explanation, ...unanswered } = question;
+  return unanswered;
+}
+
+/**
+ * Hide the answer of every question the student hasn't answered yet
+ */
+export function hideUnansweredAnswers(questions: Question[], answeredIds: Set<number>): UnansweredQuestion[] {
+  return questions.map(q => answeredIds.has(q.id) ? q : hideAnswer(q));
+}
+
+/**
+ * Mark an option against the question's answer key
+ */
+export function gradeOption(question: Pick<Question, 'correctOption'>, userOption: string): boolean {
+  return userOption === question.correctOption;
+}
+
+/**
+ * What the student is shown once their answer is in. Options are given as the
+ * student saw them, which can differ from the stored letters when a session
+ * shuffled them.
+ */
+export function getAnswerFeedback(
+  question: Pick<Question, 'id' | 'correctOption' | 'explanation'>,
+  userOption: string,
+  isCorrect: boolean
+): AnswerFeedback {
+  return {
+    questionId: question.id,
+    userOption,
+    isCorrect,
+    correctOption: question.correctOption,
+    explanation: question.explanation,
+  };
+}
+
+/**
+ * Keep a client-reported answer time within what the server can vouch for:
+ * never negative, never more than the time since `since` (when given) and
+ * never more than MAX_ANSWER_SECONDS
+ */
+export function clampTimeSpent(timeSpent: number, since?: Date | null, now: Date = new Date()): number {
+  let limit = MAX_ANSWER_SECONDS;
+  if (since) {
+    limit = Math.min(limit, Math.max(0, Math.floor((now.getTime() - new Date(since).getTime()) / 1000)));
+  }
+  return Math.min(Math.max(0, Math.round(timeSpent)), limit);
+}
@@ -0,0 +1,198 @@
+import { storage } from './storage';
+import { notifyBadgeEarned } from './notifications';
+import {
+  getCurriculumLevel,
+  type User,
+  type UserBadge,
+  type UserProgress
+} from '@shared/schema';
+
+// Answers a topic needs before its accuracy can earn a badge
+const ACCURACY_BADGE_MIN_ANSWERS = 20;
+
+// What can move a badge rule. Mock exams record answers too, so they can
+// move the answer-based rules as well as their own.
+export type BadgeEvent = 'answer' | 'session_finished' | 'mock_exam_completed';
+
+const ANSWER_EVENTS: BadgeEvent[] = ['answer', 'mock_exam_completed'];
+
+// What a rule gets to look at. Shared data is loaded on first use, at most
+// once per evaluation; rules that need more than this load it themselves.
+type BadgeContext = {
+  user: User;
+  answerCount: () => Promise<number>;
+  progress: () => Promise<UserProgress[]>;
+};
+
+type BadgeDefinition = {
+  key: string;
+  name: string;
+  description: string;
+  icon: string; // lucide icon name, resolved on the client
+  events: BadgeEvent[]; // only these events re-check the rule
+  isEarned: (context: BadgeContext) => boolean | Promise<boolean>;
+};
+
+export type Badge = Omit<BadgeDefinition, 'events' | 'isEarned'>;
+
+function once<T>(load: () => Promise<T>): () => Promise<T> {
+  let loaded: Promise<T> | null = null;
+  return () => (loaded ??= load());
+}
+
+export type BadgeStatus = Badge & {
+  earnedAt: Date | null;
+};
+
+/**
+ * A topic whose name marks it as the Ethics topic has all of its chapters
+ * completed, i.e. every question in them answered at least once
+ */
+async function hasCompletedEthics({ user }: BadgeContext): Promise<boolean> {
+  const topics = await storage.getAllTopics(getCurriculumLevel(user.level));
+  const ethicsTopicIds = topics.filter(t => /ethic/i.test(t.name)).map(t => t.id);
+  if (ethicsTopicIds.length === 0) return false;
+
+  const coverage = await storage.getTopicQuestionCoverage(user.id, ethicsTopicIds);
+  return coverage.some(c => c.questionCount > 0 && c.answeredCount === c.questionCount);
+}
+
+// The badge catalogue, in the order the gallery shows it
+const BADGES: BadgeDefinition[] = [
+  {
+    key: 'first_answer',
+    name: 'First Steps',
+    description: 'Answer your first question',
+    icon: 'Footprints',
+    events: ANSWER_EVENTS,
+    isEarned: async ({ answerCount }) => (await answerCount()) >= 1,
+  },
+  {
+    key: 'questions_100',
+    name: 'Century',
+    description: 'Answer 100 questions',
+    icon: 'Target',
+    events: ANSWER_EVENTS,
+    isEarned: async ({ answerCount }) => (await answerCount()) >= 100,
+  },
+  {
+    key: 'questions_1000',
+    name: 'Question Machine',
+    description: 'Answer 1,000 questions',
+    icon: 'Zap',
+    events: ANSWER_EVENTS,
+    isEarned: async ({ answerCount }) => (await answerCount()) >= 1000,
+  },
+  {
+    key: 'first_session',
+    name: 'Session Finisher',
+    description: 'Complete a practice session',
+    icon: 'CheckCircle',
+    events: ['session_finished'],
+    isEarned: async ({ user }) => (await storage.getCompletedPracticeSessions(user.id)).length >= 1,
+  },
+  {
+    key: 'topic_accuracy_90',
+    name: 'Sharpshooter',
+    description: `Reach 90% accuracy on a topic over at least ${ACCURACY_BADGE_MIN_ANSWERS} answers`,
+    icon: 'Crosshair',
+    events: ANSWER_EVENTS,
+    isEarned: async ({ progress }) => (await progress()).some(p =>
+      p.questionsAttempted >= ACCURACY_BADGE_MIN_ANSWERS &&
+      p.questionsCorrect / p.questionsAttempted >= 0.9
+    ),
+  },
+  {
+    key: 'streak_7',
+    name: 'Week Warrior',
+    description: 'Keep up a 7-day study streak',
+    icon: 'Flame',
+    events: ANSWER_EVENTS,
+    isEarned: ({ user }) => user.longestStreakDays >= 7,
+  },
+  {
+    key: 'streak_30',
+    name: 'Unstoppable',
+    description: 'Keep up a 30-day study streak',
+    icon: 'Flame',
+    events: ANSWER_EVENTS,
+    isEarned: ({ user }) => user.longestStreakDays >= 30,
+  },
+  {
+    key: 'ethics_complete',
+    name: 'Ethics Expert',
+    description: 'Answer every question in every chapter of Ethics',
+    icon: 'Scale',
+    events: ANSWER_EVENTS,
+    isEarned: hasCompletedEthics,
+  },
+  {
+    key: 'mock_exam',
+    name: 'Exam Ready',
+    description: 'Complete a mock exam',
+    icon: 'GraduationCap',
+    events: ['mock_exam_completed'],
+    isEarned: async ({ user }) =>
+      (await storage.getUserMockExamAttempts(user.id)).some(a => a.status === 'completed'),
+  },
+];
+
+const toBadge = ({ events, isEarned, ...badge }: BadgeDefinition): Badge => badge;
+
+/**
+ * Check the badges the user hasn't earned yet that the event can move and
+ * award the ones whose rule now passes, logging each in the activity feed
+ * and the user's notifications. Returns the new badges. Call it after
+ * anything that can move a rule: answers, finished practice sessions and
+ * mock exams.
+ */
+export async function evaluateBadges(userId: number, event: BadgeEvent): Promise<Badge[]> {
+  const user = await storage.getUser(userId);
+  if (!user) return [];
+
+  const earnedKeys = new Set((await storage.getUserBadges(userId)).map(b => b.badgeKey));
+  const pending = BADGES.filter(b => b.events.includes(event) && !earnedKeys.has(b.key));
+  if (pending.length === 0) return [];
+
+  const context: BadgeContext = {
+    user,
+    answerCount: once(() => storage.countUserAnswers(userId)),
+    progress: once(() => storage.getUserProgress(userId)),
+  };
+
+  const awarded: Badge[] = [];
+  for (const definition of pending) {
+    if (!(await definition.isEarned(context))) continue;
+
+    // Nothing comes back if a concurrent evaluation got there first
+    const userBadge = await storage.awardUserBadge({ userId, badgeKey: definition.key });
+    if (!userBadge) continue;
+
+    const badge = toBadge(definition);
+    awarded.push(badge);
+    await storage.createUserActivity({
+      userId,
+      activityType: 'badge_earned',
+      details: {
+        badgeKey: badge.key,
+        badge: badge.name,
+        description: badge.description,
+      },
+    });
+    await notifyBadgeEarned(user, badge);
+  }
+  return awarded;
+}
+
+/**
+ * The full catalogue with when (if ever) the user earned each badge
+ */
+export async function getBadgeGallery(userId: number): Promise<BadgeStatus[]> {
+  const earned = new Map(
+    (await storage.getUserBadges(userId)).map(b => [b.badgeKey, b] as [string, UserBadge])
+  );
+  return BADGES.map(definition => ({
+    ...toBadge(definition),
+    earnedAt: earned.get(definition.key)?.earnedAt ?? null,
+  }));
+}
@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from "async_hooks";
 import { drizzle } from "drizzle-orm/node-postgres";
 import pkg from "pg";
 import * as schema from "../shared/schema.ts";
@@ -11,7 +12,32 @@ const pool = new Pool({
 });
 
 // Create a drizzle client with our schema
-export const db = drizzle(pool, { schema });
+const rootDb = drizzle(pool, { schema });
+type Database = typeof rootDb;
+
+// The transaction the current call chain is running in, if any
+const activeTransaction = new AsyncLocalStorage<Database>();
+
+// Queries made through `db` inside runInTransaction use its transaction, so
+// storage methods take part without being handed the transaction
+export const db: Database = new Proxy(rootDb, {
+  get(target, property) {
+    const current = activeTransaction.getStore() ?? target;
+    const value = Reflect.get(current, property, current);
+    return typeof value === "function" ? value.bind(current) : value;
+  },
+});
+
+/**
+ * Run `work` in a single transaction: every query it makes through `db`
+ * commits together or not at all. Nested calls join the outer transaction.
+ */
+export function runInTransaction<T>(work: () => Promise<T>): Promise<T> {
+  if (activeTransaction.getStore()) {
+    return work();
+  }
+  return rootDb.transaction(tx => activeTransaction.run(tx as unknown as Database, work));
+}
 
 // For use in direct SQL queries when needed
-export { pool };
\ No newline at end of file
+export { pool };
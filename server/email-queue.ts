@@ -0,0 +1,119 @@
+import { storage } from './storage';
+import { log } from './vite';
+import { logErrorToDatabase } from './error-logger';
+import { getEmailTransport } from './email-transport';
+import type { EmailDelivery, InsertEmailDelivery } from '@shared/schema';
+
+// How often the queue looks for deliveries that are due a retry
+const TICK_MS = 60 * 1000;
+// Deliveries picked up per batch
+const BATCH_SIZE = 20;
+// Wait before each retry; a delivery is failed once these run out
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120];
+export const MAX_DELIVERY_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+
+let isProcessing = false;
+let queueTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Record an email as queued and start sending it straight away. Delivery
+ * happens in the background; its outcome is recorded on the delivery.
+ */
+export async function queueEmail(email: InsertEmailDelivery): Promise<EmailDelivery> {
+  const delivery = await storage.createEmailDelivery(email);
+  void processEmailQueue();
+  return delivery;
+}
+
+async function deliver(delivery: EmailDelivery): Promise<void> {
+  const transport = getEmailTransport();
+  const attempts = delivery.attempts + 1;
+  // Emails carrying secrets such as reset codes aren't kept once they're done with
+  const finished = delivery.discardBody ? { text: null, html: null } : {};
+  await storage.updateEmailDelivery(delivery.id, { status: 'sending', attempts });
+
+  try {
+    const { messageId } = await transport.send({
+      from: process.env.EMAIL_FROM || 'noreply@example.com',
+      to: delivery.recipient,
+      subject: delivery.subject,
+      text: delivery.text ?? undefined,
+      html: delivery.html ?? undefined,
+    });
+    await storage.updateEmailDelivery(delivery.id, {
+      ...finished,
+      status: 'sent',
+      transport: transport.name,
+      messageId,
+      lastError: null,
+      sentAt: new Date(),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+      await storage.updateEmailDelivery(delivery.id, {
+        ...finished,
+        status: 'failed',
+        transport: transport.name,
+        lastError: message,
+      });
+      await logErrorToDatabase(`Email ${delivery.id} to ${delivery.recipient} failed after ${attempts} attempts: ${message}`);
+      return;
+    }
+
+    const retryAt = new Date(Date.now() + RETRY_DELAYS_MINUTES[attempts - 1] * 60 * 1000);
+    await storage.updateEmailDelivery(delivery.id, {
+      status: 'queued',
+      transport: transport.name,
+      lastError: message,
+      nextAttemptAt: retryAt,
+    });
+    log(`Email ${delivery.id} to ${delivery.recipient} failed (attempt ${attempts}), retrying at ${retryAt.toISOString()}`);
+  }
+}
+
+/**
+ * Send every queued delivery that is due, in batches until none are left.
+ * Only one pass runs at a time; a pass picks up emails queued while it runs.
+ */
+export async function processEmailQueue(): Promise<void> {
+  if (isProcessing) return;
+
+  isProcessing = true;
+  try {
+    let batch = await storage.getDueEmailDeliveries(new Date(), BATCH_SIZE);
+    while (batch.length > 0) {
+      for (const delivery of batch) {
+        await deliver(delivery);
+      }
+      batch = await storage.getDueEmailDeliveries(new Date(), BATCH_SIZE);
+    }
+  } catch (error) {
+    await logErrorToDatabase(error instanceof Error ? error : String(error));
+  } finally {
+    isProcessing = false;
+  }
+}
+
+/**
+ * Send due emails now and every minute from here on, inside the server
+ * process. Deliveries left mid-send by a restart are queued again.
+ */
+export async function startEmailQueue(): Promise<void> {
+  if (queueTimer) return;
+
+  queueTimer = setInterval(() => {
+    void processEmailQueue();
+  }, TICK_MS);
+  // Don't keep the process alive just for the queue
+  queueTimer.unref();
+
+  try {
+    for (const delivery of await storage.getEmailDeliveries('sending')) {
+      await storage.updateEmailDelivery(delivery.id, { status: 'queued' });
+    }
+  } catch (error) {
+    await logErrorToDatabase(error instanceof Error ? error : String(error));
+  }
+  await processEmailQueue();
+}
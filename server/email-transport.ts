@@ -0,0 +1,124 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import nodemailer, { type Transporter } from 'nodemailer';
+
+export type OutgoingEmail = {
+  from: string;
+  to: string;
+  subject: string;
+  text?: string;
+  html?: string;
+};
+
+/**
+ * Somewhere emails can be handed off to. A transport throws if the email
+ * could not be delivered; the queue decides whether to retry.
+ */
+export interface EmailTransport {
+  name: string;
+  send(email: OutgoingEmail): Promise<{ messageId: string | null }>;
+}
+
+// Development emails written by the maildir transport end up here
+export const MAILDIR = path.resolve(process.cwd(), process.env.EMAIL_MAILDIR || 'mail');
+
+/**
+ * Sends through an SMTP server configured with SMTP_HOST, SMTP_PORT,
+ * SMTP_SECURE, SMTP_USER and SMTP_PASS
+ */
+export class SmtpTransport implements EmailTransport {
+  name = 'smtp';
+  private transporter: Transporter;
+
+  constructor() {
+    const port = parseInt(process.env.SMTP_PORT || '587', 10);
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      // Implicit TLS on 465; other ports upgrade with STARTTLS
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    });
+  }
+
+  async send(email: OutgoingEmail): Promise<{ messageId: string | null }> {
+    const info = await this.transporter.sendMail(email);
+    return { messageId: info.messageId || null };
+  }
+}
+
+/**
+ * Writes each email as a complete MIME message into a local maildir, so
+ * development and tests can open exactly what would have been sent
+ */
+export class MaildirTransport implements EmailTransport {
+  name = 'maildir';
+  private transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  constructor(private directory: string = MAILDIR) {}
+
+  async send(email: OutgoingEmail): Promise<{ messageId: string | null }> {
+    const info = await this.transporter.sendMail(email);
+    if (!Buffer.isBuffer(info.message)) {
+      throw new Error('Email could not be rendered to a file');
+    }
+
+    // Maildir delivery: write under tmp/ then move into new/ so readers
+    // never see a half-written message
+    const filename = `${Date.now()}.${process.pid}_${randomBytes(4).toString('hex')}.${os.hostname()}`;
+    await fs.mkdir(path.join(this.directory, 'tmp'), { recursive: true });
+    await fs.mkdir(path.join(this.directory, 'new'), { recursive: true });
+    await fs.mkdir(path.join(this.directory, 'cur'), { recursive: true });
+    await fs.writeFile(path.join(this.directory, 'tmp', filename), info.message);
+    await fs.rename(path.join(this.directory, 'tmp', filename), path.join(this.directory, 'new', filename));
+
+    return { messageId: info.messageId || null };
+  }
+}
+
+/**
+ * Logs emails to the console instead of sending them
+ */
+export class ConsoleTransport implements EmailTransport {
+  name = 'console';
+
+  async send(email: OutgoingEmail): Promise<{ messageId: string | null }> {
+    console.log('----- Email would have been sent -----');
+    console.log(`From: ${email.from}`);
+    console.log(`To: ${email.to}`);
+    console.log(`Subject: ${email.subject}`);
+    console.log(`Content: ${email.text || email.html}`);
+    console.log('-------------------------------------');
+    return { messageId: null };
+  }
+}
+
+let transport: EmailTransport | null = null;
+
+/**
+ * The transport chosen by EMAIL_TRANSPORT (smtp, maildir or console). Without
+ * it, SMTP is used when SMTP_HOST is set and the console otherwise.
+ */
+export function getEmailTransport(): EmailTransport {
+  if (transport) return transport;
+
+  const name = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+  switch (name) {
+    case 'smtp':
+      transport = new SmtpTransport();
+      break;
+    case 'maildir':
+      transport = new MaildirTransport();
+      break;
+    case 'console':
+      transport = new ConsoleTransport();
+      break;
+    default:
+      throw new Error(`Unknown email transport: ${name}`);
+  }
+  return transport;
+}
@@ -1,6 +1,11 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { queueEmail } from './email-queue';
+
 /**
- * Development-focused email service that logs emails to the console
- * instead of actually sending them.
+ * Email service. Emails are rendered from the templates in
+ * server/templates/email and queued; the queue in email-queue.ts sends them
+ * through the configured transport (SMTP, a local maildir or the console).
  */
 
 export type EmailOptions = {
@@ -8,23 +13,91 @@ export type EmailOptions = {
   subject: string;
   text?: string;
   html?: string;
+  template?: string; // recorded on the delivery for reference
+  discardBody?: boolean; // don't keep the body once it has been sent, for emails with secrets in
 };
 
+// Each template is <name>.html, wrapped in layout.html, and <name>.txt for
+// the plain text part
+export const EMAIL_TEMPLATE_DIR = path.resolve(
+  process.cwd(),
+  process.env.EMAIL_TEMPLATE_DIR || 'server/templates/email'
+);
+
+type TemplateVariables = Record<string, string | number>;
+
+const templateCache = new Map<string, string>();
+
+async function loadTemplate(filename: string): Promise<string> {
+  const cached = templateCache.get(filename);
+  if (cached !== undefined) return cached;
+
+  const template = await fs.readFile(path.join(EMAIL_TEMPLATE_DIR, filename), 'utf8');
+  // Outside production templates are re-read on every send so edits show up
+  if (process.env.NODE_ENV === 'production') {
+    templateCache.set(filename, template);
+  }
+  return template;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Replace {{name}} with a variable, HTML-escaped if `escape` is set, and
+ * {{{name}}} with a variable as it is. A variable the template uses but
+ * wasn't given is an error rather than a blank in someone's inbox.
+ */
+function fillTemplate(
+  template: string,
+  filename: string,
+  variables: TemplateVariables,
+  escape: boolean
+): string {
+  return template.replace(/\{\{\{\s*(\w+)\s*\}\}\}|\{\{\s*(\w+)\s*\}\}/g, (_match, rawName, name) => {
+    const value = variables[rawName || name];
+    if (value === undefined) {
+      throw new Error(`Email template ${filename} uses {{${rawName || name}}}, which wasn't provided`);
+    }
+    return rawName || !escape ? String(value) : escapeHtml(String(value));
+  });
+}
+
 /**
- * Send an email (logs to console for development)
+ * Render a template's text and HTML parts, the HTML inside the shared layout
+ */
+async function renderEmail(
+  template: string,
+  layout: { title: string; footer: string },
+  variables: TemplateVariables
+): Promise<{ text: string; html: string }> {
+  const primaryColor = process.env.EMAIL_PRIMARY_COLOR || '#4f46e5'; // Default to indigo
+  const content = fillTemplate(await loadTemplate(`${template}.html`), `${template}.html`, variables, true);
+  const html = fillTemplate(await loadTemplate('layout.html'), 'layout.html', { ...layout, primaryColor, content }, true);
+  const text = fillTemplate(await loadTemplate(`${template}.txt`), `${template}.txt`, variables, false);
+  return { text, html };
+}
+
+/**
+ * Queue an email for delivery. Returns false only if it couldn't be queued;
+ * delivery failures are retried and recorded on the delivery.
  */
 export async function sendEmail(options: EmailOptions): Promise<boolean> {
-  // Set default sender email from environment variable or use a placeholder for development
-  const from = process.env.EMAIL_FROM || 'noreply@example.com';
-  
   try {
-    // Log the email content instead of sending
-    console.log('----- Email would have been sent -----');
-    console.log(`From: ${from}`);
-    console.log(`To: ${options.to}`);
-    console.log(`Subject: ${options.subject}`);
-    console.log(`Content: ${options.text || options.html}`);
-    console.log('-------------------------------------');
+    await queueEmail({
+      recipient: options.to,
+      subject: options.subject,
+      template: options.template ?? null,
+      text: options.text ?? null,
+      html: options.html ?? null,
+      discardBody: options.discardBody ?? false,
+    });
     return true;
   } catch (error) {
     console.error('Error sending email:', error);
@@ -32,6 +105,26 @@ export async function sendEmail(options: EmailOptions): Promise<boolean> {
   }
 }
 
+/**
+ * Render a template and queue the result
+ */
+async function sendTemplatedEmail(
+  to: string,
+  subject: string,
+  template: string,
+  layout: { title: string; footer: string },
+  variables: TemplateVariables,
+  options: Pick<EmailOptions, 'discardBody'> = {}
+): Promise<boolean> {
+  try {
+    const { text, html } = await renderEmail(template, layout, variables);
+    return sendEmail({ to, subject, text, html, template, ...options });
+  } catch (error) {
+    console.error(`Error rendering email template ${template}:`, error);
+    return false;
+  }
+}
+
 /**
  * Send a password reset email
  */
@@ -42,59 +135,17 @@ export async function sendPasswordResetEmail(
   // App name from environment variable with fallback
   const appName = process.env.APP_NAME || 'CFA Practice Hub';
   
-  const subject = `${appName} - Password Reset`;
-  const text = `
-Hello,
-
-You recently requested to reset your password for your ${appName} account.
-
-Your reset code is: ${resetCode}
-
-This code will expire in 1 hour. If you did not request a password reset, please ignore this email.
-
-Thank you,
-${appName} Team
-  `;
-  
-  const primaryColor = process.env.EMAIL_PRIMARY_COLOR || '#4f46e5'; // Default to indigo
-  
-  const html = `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="utf-8">
-  <title>Reset Your Password</title>
-  <style>
-    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-    .header { background-color: ${primaryColor}; color: white; padding: 20px; text-align: center; }
-    .content { padding: 20px; border: 1px solid #ddd; border-top: none; }
-    .code { background-color: #f5f5f5; padding: 10px; font-size: 20px; font-weight: bold; text-align: center; letter-spacing: 5px; margin: 20px 0; }
-    .footer { font-size: 12px; color: #777; margin-top: 30px; text-align: center; }
-  </style>
-</head>
-<body>
-  <div class="container">
-    <div class="header">
-      <h1>Reset Your Password</h1>
-    </div>
-    <div class="content">
-      <p>Hello,</p>
-      <p>You recently requested to reset your password for your ${appName} account.</p>
-      <p>Your reset code is:</p>
-      <div class="code">${resetCode}</div>
-      <p>This code will expire in 1 hour. If you did not request a password reset, please ignore this email.</p>
-      <p>Thank you,<br>${appName} Team</p>
-    </div>
-    <div class="footer">
-      <p>This is an automated message, please do not reply to this email.</p>
-    </div>
-  </div>
-</body>
-</html>
-  `;
-  
-  return sendEmail({ to: email, subject, text, html });
+  return sendTemplatedEmail(
+    email,
+    `${appName} - Password Reset`,
+    'password-reset',
+    {
+      title: 'Reset Your Password',
+      footer: 'This is an automated message, please do not reply to this email.',
+    },
+    { appName, resetCode },
+    { discardBody: true }
+  );
 }
 
 /**
@@ -115,55 +166,92 @@ export async function sendContactFormEmail(
     ? `From: ${fromUser.name} (${fromUser.email})`
     : 'From: Anonymous User';
   
-  const emailSubject = `${appName} - Support Request: ${subject}`;
-  const text = `
-${userInfo}
+  return sendTemplatedEmail(
+    adminEmail,
+    `${appName} - Support Request: ${subject}`,
+    'support-request',
+    {
+      title: 'New Support Request',
+      footer: `This message was sent from the ${appName} Help Center.`,
+    },
+    { userInfo, subject, message }
+  );
+}
 
-Subject: ${subject}
+export type PracticeReminder = {
+  username: string;
+  daysInactive: number | null; // null if the student has never practised
+  longestStreakDays: number;
+};
 
-Message:
-${message}
-  `;
+/**
+ * Send a reminder to a student who hasn't practised for a while
+ */
+export async function sendPracticeReminderEmail(
+  email: string,
+  reminder: PracticeReminder
+): Promise<boolean> {
+  // App name and address from environment variables with fallbacks
+  const appName = process.env.APP_NAME || 'CFA Practice Hub';
+  const appUrl = process.env.APP_URL || 'http://localhost:5000';
   
-  const primaryColor = process.env.EMAIL_PRIMARY_COLOR || '#4f46e5'; // Default to indigo
+  const lead = reminder.daysInactive === null
+    ? `You haven't answered your first question on ${appName} yet.`
+    : `It's been ${reminder.daysInactive} days since you last practised on ${appName}.`;
+  const streakLine = reminder.longestStreakDays > 1
+    ? `Your best study streak so far is ${reminder.longestStreakDays} days. A few questions a day is all it takes to start a new one.`
+    : 'A few questions a day is all it takes to build a study streak.';
   
-  const html = `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="utf-8">
-  <title>Support Request</title>
-  <style>
-    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-    .header { background-color: ${primaryColor}; color: white; padding: 20px; text-align: center; }
-    .content { padding: 20px; border: 1px solid #ddd; border-top: none; }
-    .user-info { background-color: #f5f5f5; padding: 10px; margin-bottom: 20px; }
-    .message { white-space: pre-line; }
-    .footer { font-size: 12px; color: #777; margin-top: 30px; text-align: center; }
-  </style>
-</head>
-<body>
-  <div class="container">
-    <div class="header">
-      <h1>New Support Request</h1>
-    </div>
-    <div class="content">
-      <div class="user-info">
-        <strong>${userInfo}</strong>
-      </div>
-      <h2>Subject: ${subject}</h2>
-      <div class="message">
-        ${message.replace(/\n/g, '<br>')}
-      </div>
-    </div>
-    <div class="footer">
-      <p>This message was sent from the ${appName} Help Center.</p>
-    </div>
-  </div>
-</body>
-</html>
-  `;
+  return sendTemplatedEmail(
+    email,
+    `${appName} - Time for some practice`,
+    'practice-reminder',
+    {
+      title: 'Time for some practice',
+      footer: 'You can turn off practice reminders in your settings.',
+    },
+    { appName, appUrl, username: reminder.username, lead, streakLine }
+  );
+}
+
+export type ProgressDigest = {
+  username: string;
+  questionsAnswered: number;
+  previousQuestionsAnswered: number;
+  accuracy: number | null; // % correct this week, null if nothing answered
+  accuracyChange: number | null; // percentage points against the week before
+  weakestTopic: { name: string; accuracy: number } | null;
+};
+
+/**
+ * Send a student their weekly progress digest
+ */
+export async function sendProgressDigestEmail(
+  email: string,
+  digest: ProgressDigest
+): Promise<boolean> {
+  // App name and address from environment variables with fallbacks
+  const appName = process.env.APP_NAME || 'CFA Practice Hub';
+  const appUrl = process.env.APP_URL || 'http://localhost:5000';
+  
+  const answeredLine = `Questions answered: ${digest.questionsAnswered} (${digest.previousQuestionsAnswered} the week before)`;
+  const accuracyLine = digest.accuracy === null
+    ? 'Accuracy: no questions answered this week'
+    : `Accuracy: ${digest.accuracy}%` + (digest.accuracyChange === null
+      ? ''
+      : ` (${digest.accuracyChange >= 0 ? '+' : ''}${digest.accuracyChange} points on the week before)`);
+  const weakestLine = digest.weakestTopic
+    ? `Topic to focus on: ${digest.weakestTopic.name} (${digest.weakestTopic.accuracy}% correct)`
+    : 'Topic to focus on: answer a few more questions and we will point out your weakest topic';
   
-  return sendEmail({ to: adminEmail, subject: emailSubject, text, html });
-}
\ No newline at end of file
+  return sendTemplatedEmail(
+    email,
+    `${appName} - Your week in review`,
+    'progress-digest',
+    {
+      title: 'Your week in review',
+      footer: 'You can turn off progress updates in your settings.',
+    },
+    { appName, appUrl, username: digest.username, answeredLine, accuracyLine, weakestLine }
+  );
+}
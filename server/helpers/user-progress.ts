@@ -4,7 +4,6 @@ import { eq, and } from "drizzle-orm";
 
 /**
  * Checks if a user has previously answered the given question
- * Used to avoid counting repeat answers in progress tracking
  */
 export async function hasUserPreviouslyAnswered(userId: number, questionId: number): Promise<boolean> {
   try {
@@ -21,4 +20,19 @@ export async function hasUserPreviouslyAnswered(userId: number, questionId: numb
     console.error("Error checking previous answers:", error);
     return false;
   }
-}
\ No newline at end of file
+}
+/**
+ * The most recent answer a user gave to each question, keyed by question id.
+ * Deleted answers are ignored.
+ */
+export function getLatestAnswers(answers: UserAnswer[]): Map<number, UserAnswer> {
+  const latest = new Map<number, UserAnswer>();
+  for (const answer of answers) {
+    if (answer.isDeleted) continue;
+    const current = latest.get(answer.questionId);
+    if (!current || new Date(answer.answeredAt).getTime() >= new Date(current.answeredAt).getTime()) {
+      latest.set(answer.questionId, answer);
+    }
+  }
+  return latest;
+}
@@ -4,10 +4,15 @@ import { setupVite, serveStatic, log } from "./vite";
 import { seedDatabase } from '../scripts/seed-db';
 import { storage } from "./storage";
 import { logErrorToDatabase } from "./error-logger";
+import { startJobScheduler } from "./job-scheduler";
+import { startEmailQueue } from "./email-queue";
 // Set a default session secret if not provided in environment variables
 process.env.SESSION_SECRET = process.env.SESSION_SECRET || 'cfaprep-secret-key-development';
 //await (async ()=>seedDatabase())();
 const app = express();
+// Question imports post whole spreadsheets, so only that route takes larger
+// bodies; the default parser below skips requests already parsed here
+app.post("/api/questions/import", express.json({ limit: "10mb" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -78,4 +83,9 @@ app.use((req, res, next) => {
   //   log(`serving on port ${port}`);
   // });
   server.listen(port,'0.0.0.0',()=>log(`serving on port ${port}`));
+
+  // Reminder and digest emails run on a schedule inside this process, and
+  // queued emails are sent (and retried) from here too
+  startJobScheduler();
+  void startEmailQueue();
 })();
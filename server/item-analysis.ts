@@ -0,0 +1,165 @@
+import { storage } from './storage';
+import type { Question, UserAnswer } from '@shared/schema';
+
+// Below this many respondents the statistics are too noisy to flag anything
+const MIN_RESPONSES_FOR_FLAGS = 20;
+const TOO_EASY_P_VALUE = 0.9;
+const TOO_HARD_P_VALUE = 0.25;
+const LOW_DISCRIMINATION = 0.1;
+// A distractor almost nobody picks isn't doing its job
+const UNUSED_DISTRACTOR_RATE = 0.03;
+
+const OPTION_KEYS = ['A', 'B', 'C', 'D'] as const;
+
+export type ItemFlag =
+  | 'too_easy'
+  | 'too_hard'
+  | 'low_discrimination'
+  | 'negative_discrimination'
+  | 'distractor_beats_key'
+  | 'unused_distractor';
+
+export type ItemStatistics = {
+  questionId: number;
+  responses: number;
+  pValue: number | null;
+  discrimination: number | null;
+  medianTimeSpent: number | null;
+  optionRates: Record<string, number>;
+  flags: ItemFlag[];
+};
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function round(value: number, places = 3): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Point-biserial correlation between getting this item right and the user's
+ * accuracy on everything else. Leaving the item out of the total keeps it from
+ * correlating with itself, which would inflate the figure on small banks.
+ */
+function pointBiserial(responses: { isCorrect: boolean; restAccuracy: number }[]): number | null {
+  const n = responses.length;
+  const correct = responses.filter(r => r.isCorrect);
+  const incorrect = responses.filter(r => !r.isCorrect);
+  if (n < 2 || correct.length === 0 || incorrect.length === 0) return null;
+
+  const mean = responses.reduce((sum, r) => sum + r.restAccuracy, 0) / n;
+  const variance = responses.reduce((sum, r) => sum + (r.restAccuracy - mean) ** 2, 0) / n;
+  if (variance === 0) return null;
+
+  const meanCorrect = correct.reduce((sum, r) => sum + r.restAccuracy, 0) / correct.length;
+  const meanIncorrect = incorrect.reduce((sum, r) => sum + r.restAccuracy, 0) / incorrect.length;
+  const p = correct.length / n;
+
+  return ((meanCorrect - meanIncorrect) / Math.sqrt(variance)) * Math.sqrt(p * (1 - p));
+}
+
+function getFlags(question: Question, stats: Omit<ItemStatistics, 'flags'>): ItemFlag[] {
+  if (stats.responses < MIN_RESPONSES_FOR_FLAGS || stats.pValue === null) return [];
+
+  const flags: ItemFlag[] = [];
+  if (stats.pValue > TOO_EASY_P_VALUE) flags.push('too_easy');
+  if (stats.pValue < TOO_HARD_P_VALUE) flags.push('too_hard');
+
+  if (stats.discrimination !== null) {
+    if (stats.discrimination < 0) {
+      flags.push('negative_discrimination');
+    } else if (stats.discrimination < LOW_DISCRIMINATION) {
+      flags.push('low_discrimination');
+    }
+  }
+
+  const keyRate = stats.optionRates[question.correctOption] ?? 0;
+  const distractors = OPTION_KEYS.filter(key =>
+    key !== question.correctOption && (key !== 'D' || !!question.optionD)
+  );
+  // Strong students drifting to one wrong option usually means a wrong key
+  if (distractors.some(key => (stats.optionRates[key] ?? 0) > keyRate)) {
+    flags.push('distractor_beats_key');
+  }
+  if (distractors.some(key => (stats.optionRates[key] ?? 0) < UNUSED_DISTRACTOR_RATE)) {
+    flags.push('unused_distractor');
+  }
+
+  return flags;
+}
+
+/**
+ * Classical item analysis over every question in the bank. Only each user's
+ * first answer to a question counts, so repeat practice doesn't make an item
+ * look easier than it is.
+ */
+export async function getItemStatistics(): Promise<ItemStatistics[]> {
+  const [questions, answers] = await Promise.all([
+    storage.getAllQuestions(),
+    storage.getAllUserAnswers(),
+  ]);
+
+  const firstAttempts = new Map<string, UserAnswer>();
+  for (const answer of answers) {
+    const key = `${answer.userId}:${answer.questionId}`;
+    const existing = firstAttempts.get(key);
+    if (!existing || answer.answeredAt < existing.answeredAt) {
+      firstAttempts.set(key, answer);
+    }
+  }
+
+  const userTotals = new Map<number, { answered: number; correct: number }>();
+  const answersByQuestion = new Map<number, UserAnswer[]>();
+  for (const answer of Array.from(firstAttempts.values())) {
+    const totals = userTotals.get(answer.userId) ?? { answered: 0, correct: 0 };
+    totals.answered += 1;
+    totals.correct += answer.isCorrect ? 1 : 0;
+    userTotals.set(answer.userId, totals);
+
+    const questionAnswers = answersByQuestion.get(answer.questionId) ?? [];
+    questionAnswers.push(answer);
+    answersByQuestion.set(answer.questionId, questionAnswers);
+  }
+
+  return questions.map(question => {
+    const questionAnswers = answersByQuestion.get(question.id) ?? [];
+    const responses = questionAnswers.length;
+
+    const optionRates: Record<string, number> = {};
+    for (const key of OPTION_KEYS) {
+      if (key === 'D' && !question.optionD) continue;
+      const picks = questionAnswers.filter(a => a.userOption.toUpperCase() === key).length;
+      optionRates[key] = responses > 0 ? round(picks / responses) : 0;
+    }
+
+    // Users who answered nothing else carry no information about ability
+    const discriminationInput = questionAnswers
+      .map(answer => {
+        const totals = userTotals.get(answer.userId)!;
+        const restAnswered = totals.answered - 1;
+        if (restAnswered === 0) return null;
+        return {
+          isCorrect: answer.isCorrect,
+          restAccuracy: (totals.correct - (answer.isCorrect ? 1 : 0)) / restAnswered,
+        };
+      })
+      .filter((r): r is { isCorrect: boolean; restAccuracy: number } => r !== null);
+
+    const discrimination = pointBiserial(discriminationInput);
+    const stats = {
+      questionId: question.id,
+      responses,
+      pValue: responses > 0 ? round(questionAnswers.filter(a => a.isCorrect).length / responses) : null,
+      discrimination: discrimination === null ? null : round(discrimination),
+      medianTimeSpent: median(questionAnswers.map(a => a.timeSpent)),
+      optionRates,
+    };
+
+    return { ...stats, flags: getFlags(question, stats) };
+  });
+}
@@ -0,0 +1,210 @@
+import { storage } from './storage';
+import { log } from './vite';
+import { logErrorToDatabase } from './error-logger';
+import { sendPracticeReminders, sendProgressDigests } from './scheduled-emails';
+import { announceNewPracticeSets, checkSubscriptions } from './notifications';
+import type { JobRun, JobRunSummary } from '@shared/schema';
+
+// How often the scheduler checks for jobs that are due
+const TICK_MS = 5 * 60 * 1000;
+
+type JobSchedule =
+  | { every: 'hour' } // on the hour
+  | {
+      every: 'day' | 'week'; // weekly jobs run on Mondays
+      atHour: number; // UTC
+    };
+
+type JobDefinition = {
+  name: string;
+  description: string;
+  schedule: JobSchedule;
+  run: (now: Date) => Promise<JobRunSummary>;
+};
+
+export type JobStatus = {
+  name: string;
+  description: string;
+  schedule: string;
+  isRunning: boolean;
+  lastRun: JobRun | null;
+  nextRunAt: Date;
+};
+
+const JOBS: JobDefinition[] = [
+  {
+    name: 'practice-reminders',
+    description: "Emails students who haven't practised for a couple of days",
+    schedule: { every: 'day', atHour: 9 },
+    run: sendPracticeReminders,
+  },
+  {
+    name: 'progress-digest',
+    description: 'Emails students a summary of their week: questions answered, accuracy change and weakest topic',
+    schedule: { every: 'week', atHour: 8 },
+    run: sendProgressDigests,
+  },
+  {
+    name: 'new-practice-sets',
+    description: 'Notifies students about practice sets that have been given questions',
+    schedule: { every: 'hour' },
+    run: announceNewPracticeSets,
+  },
+  {
+    name: 'subscription-expiry',
+    description: 'Warns students whose subscription ends within a week and tells them once it has ended',
+    schedule: { every: 'hour' },
+    run: checkSubscriptions,
+  },
+];
+
+// Jobs running in this process right now, so a job never overlaps itself
+const runningJobs = new Set<string>();
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function periodMs(schedule: JobSchedule): number {
+  switch (schedule.every) {
+    case 'hour':
+      return HOUR_MS;
+    case 'day':
+      return 24 * HOUR_MS;
+    case 'week':
+      return 7 * 24 * HOUR_MS;
+  }
+}
+
+/**
+ * The most recent time a job was due on its schedule, at or before `now`
+ */
+export function getLastDueAt(schedule: JobSchedule, now: Date = new Date()): Date {
+  if (schedule.every === 'hour') {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), now.getUTCHours()));
+  }
+
+  const due = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), schedule.atHour));
+  if (schedule.every === 'week') {
+    // Back to this week's Monday
+    due.setUTCDate(due.getUTCDate() - ((due.getUTCDay() + 6) % 7));
+  }
+  if (due > now) {
+    return new Date(due.getTime() - periodMs(schedule));
+  }
+  return due;
+}
+
+function describeSchedule(schedule: JobSchedule): string {
+  if (schedule.every === 'hour') return 'Hourly';
+  const time = `${schedule.atHour.toString().padStart(2, '0')}:00 UTC`;
+  return schedule.every === 'week' ? `Mondays at ${time}` : `Daily at ${time}`;
+}
+
+function getJob(name: string): JobDefinition | undefined {
+  return JOBS.find(job => job.name === name);
+}
+
+/**
+ * Run a job now and record the run in its history. Failures are recorded
+ * on the run rather than thrown; an unknown job or one that is already
+ * running is an error.
+ */
+export async function runJob(
+  name: string,
+  trigger: 'schedule' | 'manual',
+  triggeredBy?: number
+): Promise<JobRun> {
+  const job = getJob(name);
+  if (!job) {
+    throw new Error(`Unknown job: ${name}`);
+  }
+  if (runningJobs.has(name)) {
+    throw new Error(`The ${name} job is already running`);
+  }
+
+  runningJobs.add(name);
+  try {
+    const jobRun = await storage.createJobRun({ jobName: name, trigger, triggeredBy: triggeredBy ?? null });
+    try {
+      const summary = await job.run(new Date());
+      log(`Job ${name} finished: ${summary.sent} sent, ${summary.failed} failed of ${summary.processed}`);
+      return await storage.updateJobRun(jobRun.id, {
+        status: 'succeeded',
+        summary,
+        finishedAt: new Date(),
+      });
+    } catch (error) {
+      await logErrorToDatabase(error instanceof Error ? error : String(error));
+      return await storage.updateJobRun(jobRun.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        finishedAt: new Date(),
+      });
+    }
+  } finally {
+    runningJobs.delete(name);
+  }
+}
+
+/**
+ * Run every job that hasn't run since it was last due. A run of any kind,
+ * including a manual or failed one, counts, so a job runs at most once per
+ * period on its own; failed runs can be retried with run now.
+ */
+export async function runDueJobs(now: Date = new Date()): Promise<void> {
+  for (const job of JOBS) {
+    if (runningJobs.has(job.name)) continue;
+
+    try {
+      const lastRun = await storage.getLatestJobRun(job.name);
+      if (!lastRun || new Date(lastRun.startedAt) < getLastDueAt(job.schedule, now)) {
+        await runJob(job.name, 'schedule');
+      }
+    } catch (error) {
+      await logErrorToDatabase(error instanceof Error ? error : String(error));
+    }
+  }
+}
+
+/**
+ * Check for due jobs now and every few minutes from here on, inside the
+ * server process
+ */
+export function startJobScheduler(): void {
+  if (schedulerTimer) return;
+
+  schedulerTimer = setInterval(() => {
+    void runDueJobs();
+  }, TICK_MS);
+  // Don't keep the process alive just for the scheduler
+  schedulerTimer.unref();
+
+  void runDueJobs();
+}
+
+/**
+ * Every job with its schedule, latest run and when it will next run
+ */
+export async function getJobStatuses(now: Date = new Date()): Promise<JobStatus[]> {
+  const statuses: JobStatus[] = [];
+
+  for (const job of JOBS) {
+    const lastRun = await storage.getLatestJobRun(job.name);
+    const lastDueAt = getLastDueAt(job.schedule, now);
+    const ranThisPeriod = !!lastRun && new Date(lastRun.startedAt) >= lastDueAt;
+    const nextRunAt = ranThisPeriod
+      ? new Date(lastDueAt.getTime() + periodMs(job.schedule))
+      : lastDueAt;
+
+    statuses.push({
+      name: job.name,
+      description: job.description,
+      schedule: describeSchedule(job.schedule),
+      isRunning: runningJobs.has(job.name),
+      lastRun: lastRun ?? null,
+      nextRunAt,
+    });
+  }
+
+  return statuses;
+}
@@ -0,0 +1,195 @@
+import { storage } from './storage';
+import { getLatestAnswers } from './helpers/user-progress';
+import type { CurriculumLevel, LearningOutcome, Question } from '@shared/schema';
+
+// An outcome with fewer questions than this is flagged as thinly covered
+export const DEFAULT_COVERAGE_THRESHOLD = 3;
+// Accuracy needed (on the latest answer to each question) to count as mastered
+const MASTERED_ACCURACY = 0.8;
+const PROFICIENT_ACCURACY = 0.6;
+// Fewer answered questions than this can't show mastery, however accurate
+const MIN_ANSWERED_FOR_MASTERY = 3;
+
+type OutcomeContext = {
+  topicId: number;
+  topicName: string;
+  chapterId: number;
+  chapterName: string;
+  level: string;
+};
+
+export type CoverageStatus = 'uncovered' | 'thin' | 'covered';
+
+export type LearningOutcomeCoverage = LearningOutcome & OutcomeContext & {
+  questionCount: number;
+  status: CoverageStatus;
+};
+
+export type CoverageReport = {
+  threshold: number;
+  totalOutcomes: number;
+  uncovered: number;
+  thin: number;
+  untaggedQuestions: number;
+  outcomes: LearningOutcomeCoverage[];
+};
+
+export type MasteryStatus = 'not_started' | 'learning' | 'proficient' | 'mastered';
+
+export type LearningOutcomeMastery = LearningOutcome & OutcomeContext & {
+  questionCount: number;
+  answered: number;
+  correct: number;
+  accuracy: number | null;
+  status: MasteryStatus;
+};
+
+/**
+ * Every learning outcome with the topic and chapter it sits under, optionally
+ * limited to one curriculum level. Outcomes under deleted chapters are left out.
+ */
+async function getOutcomesWithContext(level?: CurriculumLevel): Promise<(LearningOutcome & OutcomeContext)[]> {
+  const [topics, outcomes] = await Promise.all([
+    storage.getAllTopics(level),
+    storage.getAllLearningOutcomes(),
+  ]);
+
+  const chapterContext = new Map<number, OutcomeContext>();
+  for (const topic of topics) {
+    const chapters = await storage.getChaptersByTopic(topic.id);
+    for (const chapter of chapters) {
+      if (chapter.isDeleted || (level && chapter.level !== level)) continue;
+      chapterContext.set(chapter.id, {
+        topicId: topic.id,
+        topicName: topic.name,
+        chapterId: chapter.id,
+        chapterName: chapter.name,
+        level: chapter.level,
+      });
+    }
+  }
+
+  return outcomes
+    .filter(outcome => chapterContext.has(outcome.chapterId))
+    .map(outcome => ({ ...outcome, ...chapterContext.get(outcome.chapterId)! }));
+}
+
+// Live questions tagged with each outcome
+async function getQuestionsByOutcome(): Promise<{ byOutcome: Map<number, Question[]>; questions: Question[] }> {
+  const [questions, links] = await Promise.all([
+    storage.getAllQuestions(),
+    storage.getQuestionLearningOutcomeLinks(),
+  ]);
+  const liveQuestions = questions.filter(q => !q.isDeleted);
+  const questionsById = new Map(liveQuestions.map(q => [q.id, q]));
+
+  const byOutcome = new Map<number, Question[]>();
+  for (const link of links) {
+    const question = questionsById.get(link.questionId);
+    if (!question) continue;
+    byOutcome.set(link.learningOutcomeId, [...(byOutcome.get(link.learningOutcomeId) || []), question]);
+  }
+  return { byOutcome, questions: liveQuestions };
+}
+
+/**
+ * How many questions test each learning outcome, thinnest first, so the
+ * content team can see where to write next
+ */
+export async function getCoverageReport(
+  threshold: number = DEFAULT_COVERAGE_THRESHOLD,
+  level?: CurriculumLevel
+): Promise<CoverageReport> {
+  const [outcomes, { byOutcome, questions }, links] = await Promise.all([
+    getOutcomesWithContext(level),
+    getQuestionsByOutcome(),
+    storage.getQuestionLearningOutcomeLinks(),
+  ]);
+
+  const coverage = outcomes.map(outcome => {
+    const questionCount = (byOutcome.get(outcome.id) || []).length;
+    const status: CoverageStatus = questionCount === 0 ? 'uncovered' : questionCount < threshold ? 'thin' : 'covered';
+    return { ...outcome, questionCount, status };
+  });
+  coverage.sort((a, b) =>
+    a.questionCount - b.questionCount ||
+    a.topicName.localeCompare(b.topicName) ||
+    a.chapterId - b.chapterId ||
+    a.order - b.order
+  );
+
+  const taggedQuestionIds = new Set(links.map(link => link.questionId));
+  const levelQuestions = level ? questions.filter(q => q.level === level) : questions;
+
+  return {
+    threshold,
+    totalOutcomes: coverage.length,
+    uncovered: coverage.filter(o => o.status === 'uncovered').length,
+    thin: coverage.filter(o => o.status === 'thin').length,
+    untaggedQuestions: levelQuestions.filter(q => !taggedQuestionIds.has(q.id)).length,
+    outcomes: coverage,
+  };
+}
+
+function getMasteryStatus(answered: number, accuracy: number | null): MasteryStatus {
+  if (answered === 0 || accuracy === null) return 'not_started';
+  if (accuracy >= MASTERED_ACCURACY && answered >= MIN_ANSWERED_FOR_MASTERY) return 'mastered';
+  if (accuracy >= PROFICIENT_ACCURACY) return 'proficient';
+  return 'learning';
+}
+
+/**
+ * A user's mastery of each learning outcome at their level, judged on their
+ * latest answer to every question tagged with it. Outcomes without questions
+ * are left out since there is nothing to practise.
+ */
+export async function getLearningOutcomeMastery(
+  userId: number,
+  level: CurriculumLevel
+): Promise<LearningOutcomeMastery[]> {
+  const [outcomes, { byOutcome }, answers] = await Promise.all([
+    getOutcomesWithContext(level),
+    getQuestionsByOutcome(),
+    storage.getUserAnswers(userId),
+  ]);
+  const latest = getLatestAnswers(answers);
+
+  return outcomes
+    .map(outcome => {
+      const tagged = byOutcome.get(outcome.id) || [];
+      const answeredQuestions = tagged.filter(q => latest.has(q.id));
+      const correct = answeredQuestions.filter(q => latest.get(q.id)!.isCorrect).length;
+      const accuracy = answeredQuestions.length > 0 ? correct / answeredQuestions.length : null;
+      return {
+        ...outcome,
+        questionCount: tagged.length,
+        answered: answeredQuestions.length,
+        correct,
+        accuracy: accuracy === null ? null : Math.round(accuracy * 100),
+        status: getMasteryStatus(answeredQuestions.length, accuracy),
+      };
+    })
+    .filter(outcome => outcome.questionCount > 0);
+}
+
+/**
+ * Replace the learning outcomes a question is tagged with. Outcomes must
+ * belong to a chapter of the question's topic.
+ */
+export async function tagQuestionLearningOutcomes(question: Question, learningOutcomeIds: number[]): Promise<number[]> {
+  const uniqueIds = Array.from(new Set(learningOutcomeIds));
+  const topicChapterIds = new Set((await storage.getChaptersByTopic(question.topicId)).map(c => c.id));
+
+  for (const id of uniqueIds) {
+    const outcome = await storage.getLearningOutcome(id);
+    if (!outcome) {
+      throw new Error(`Learning outcome ${id} not found`);
+    }
+    if (!topicChapterIds.has(outcome.chapterId)) {
+      throw new Error(`Learning outcome ${outcome.code} is not part of this question's topic`);
+    }
+  }
+
+  await storage.setQuestionLearningOutcomes(question.id, uniqueIds);
+  return uniqueIds;
+}
@@ -0,0 +1,86 @@
+import { storage } from './storage';
+import type { Question, UserAnswer } from '@shared/schema';
+
+export type MistakeFilters = {
+  topicId?: number | null;
+  chapterId?: number | null;
+  from?: Date;
+  to?: Date;
+  unresolvedOnly?: boolean; // leave out questions answered correctly since
+};
+
+export type MistakeEntry = {
+  question: Question;
+  topicName: string | null;
+  chapterName: string | null;
+  lastWrongOption: string;
+  lastWrongAt: Date;
+  attempts: number;
+  wrongAttempts: number;
+  correctedLater: boolean;
+};
+
+/**
+ * Every question the user has got wrong, most recent mistake first. The date
+ * range applies to when the mistake was made; attempt counts and whether it
+ * was corrected later look at the user's whole history with the question.
+ */
+export async function getMistakes(userId: number, filters: MistakeFilters = {}): Promise<MistakeEntry[]> {
+  const answers = (await storage.getUserAnswers(userId)).filter(a => !a.isDeleted);
+
+  const answersByQuestion = new Map<number, UserAnswer[]>();
+  for (const answer of answers) {
+    answersByQuestion.set(answer.questionId, [...(answersByQuestion.get(answer.questionId) || []), answer]);
+  }
+
+  const inRange = (answer: UserAnswer) => {
+    const answeredAt = new Date(answer.answeredAt).getTime();
+    return (!filters.from || answeredAt >= filters.from.getTime()) &&
+      (!filters.to || answeredAt <= filters.to.getTime());
+  };
+
+  const mistakenIds = Array.from(answersByQuestion.keys())
+    .filter(id => answersByQuestion.get(id)!.some(a => !a.isCorrect && inRange(a)));
+  const questions = (await storage.getQuestionsByIds(mistakenIds)).filter(q =>
+    !q.isDeleted &&
+    (!filters.topicId || q.topicId === filters.topicId) &&
+    (!filters.chapterId || q.chapterId === filters.chapterId)
+  );
+
+  const topicNames = new Map<number, string>();
+  const chapterNames = new Map<number, string>();
+  const entries: MistakeEntry[] = [];
+
+  for (const question of questions) {
+    const history = answersByQuestion.get(question.id)!
+      .slice()
+      .sort((a, b) => new Date(a.answeredAt).getTime() - new Date(b.answeredAt).getTime());
+    const lastWrong = history.filter(a => !a.isCorrect && inRange(a)).pop()!;
+    const correctedLater = history.some(a =>
+      a.isCorrect && new Date(a.answeredAt).getTime() > new Date(lastWrong.answeredAt).getTime()
+    );
+    if (filters.unresolvedOnly && correctedLater) continue;
+
+    if (!topicNames.has(question.topicId)) {
+      const topic = await storage.getTopic(question.topicId);
+      topicNames.set(question.topicId, topic?.name ?? '');
+    }
+    if (question.chapterId && !chapterNames.has(question.chapterId)) {
+      const chapter = await storage.getChapter(question.chapterId);
+      chapterNames.set(question.chapterId, chapter?.name ?? '');
+    }
+
+    entries.push({
+      question,
+      topicName: topicNames.get(question.topicId) || null,
+      chapterName: question.chapterId ? chapterNames.get(question.chapterId) || null : null,
+      lastWrongOption: lastWrong.userOption,
+      lastWrongAt: lastWrong.answeredAt,
+      attempts: history.length,
+      wrongAttempts: history.filter(a => !a.isCorrect).length,
+      correctedLater,
+    });
+  }
+
+  return entries.sort((a, b) => new Date(b.lastWrongAt).getTime() - new Date(a.lastWrongAt).getTime());
+}
@@ -0,0 +1,369 @@
+import { storage } from './storage';
+import { recomputeTopicProgress } from './progress-metrics';
+import { recordStudyActivity } from './study-streaks';
+import { recordReview } from './spaced-repetition';
+import { hideAnswer } from './answer-grading';
+import { shuffle } from './helpers/shuffle';
+import { evaluateBadges } from './badges';
+import type {
+  InsertUserAnswer,
+  MockExam,
+  MockExamAttempt,
+  MockExamReport,
+  MockExamSession,
+  MockExamTopicWeight,
+  Question
+} from '@shared/schema';
+
+/**
+ * Split a total number of questions across topics in proportion to their
+ * weights, using the largest remainder method so the counts add up exactly
+ */
+export function allocateQuestionCounts(
+  weights: MockExamTopicWeight[],
+  total: number
+): Map<number, number> {
+  const counts = new Map<number, number>();
+  const positive = weights.filter(w => w.weight > 0);
+  const weightSum = positive.reduce((sum, w) => sum + w.weight, 0);
+
+  if (weightSum === 0 || total <= 0) {
+    return counts;
+  }
+
+  const remainders: { topicId: number; remainder: number }[] = [];
+  let allocated = 0;
+
+  for (const { topicId, weight } of positive) {
+    const exact = (weight / weightSum) * total;
+    const whole = Math.floor(exact);
+    counts.set(topicId, whole);
+    allocated += whole;
+    remainders.push({ topicId, remainder: exact - whole });
+  }
+
+  // Hand out the leftover questions to the topics with the largest fractions
+  remainders.sort((a, b) => b.remainder - a.remainder);
+  for (let i = 0; allocated < total; i++, allocated++) {
+    const { topicId } = remainders[i % remainders.length];
+    counts.set(topicId, (counts.get(topicId) || 0) + 1);
+  }
+
+  return counts;
+}
+
+/**
+ * Assemble a fresh paper for a mock exam: draw questions from every weighted
+ * topic, shuffle them and split them into the exam's sessions. If a topic does
+ * not have enough questions, the shortfall is drawn from the other weighted
+ * topics so the paper stays as close to full length as the bank allows.
+ */
+export async function assembleMockExamPaper(exam: MockExam): Promise<MockExamSession[]> {
+  const total = exam.sessionCount * exam.questionsPerSession;
+  const targetCounts = allocateQuestionCounts(exam.topicWeights, total);
+
+  const pools = new Map<number, Question[]>();
+  for (const topicId of Array.from(targetCounts.keys())) {
+    // Item-set questions can't be answered without their vignette, which the
+    // exam doesn't show, so only standalone questions are drawn
+    const topicQuestions = (await storage.getQuestionsByTopic(topicId)).filter(q => q.groupId === null);
+    pools.set(topicId, shuffle(topicQuestions));
+  }
+
+  const selected: Question[] = [];
+  let shortfall = 0;
+
+  for (const [topicId, count] of Array.from(targetCounts.entries())) {
+    const pool = pools.get(topicId) || [];
+    const taken = pool.splice(0, count);
+    selected.push(...taken);
+    shortfall += count - taken.length;
+  }
+
+  // Top up from whatever is left in the weighted pools, largest pool first
+  while (shortfall > 0) {
+    const remainingPools = Array.from(pools.values())
+      .filter(pool => pool.length > 0)
+      .sort((a, b) => b.length - a.length);
+
+    if (remainingPools.length === 0) break;
+
+    selected.push(remainingPools[0].shift()!);
+    shortfall--;
+  }
+
+  if (selected.length === 0) {
+    throw new Error('No questions are available for the topics in this mock exam');
+  }
+
+  // Spread the paper evenly over the sessions
+  const paper = shuffle(selected).map(q => q.id);
+  const perSession = Math.ceil(paper.length / exam.sessionCount);
+  const sessions: MockExamSession[] = [];
+
+  for (let i = 0; i < exam.sessionCount; i++) {
+    const questionIds = paper.slice(i * perSession, (i + 1) * perSession);
+    if (questionIds.length === 0) break;
+    sessions.push({
+      questionIds,
+      startedAt: null,
+      deadline: null,
+      submittedAt: null
+    });
+  }
+
+  return sessions;
+}
+
+/**
+ * Open a session and start its countdown
+ */
+export function startSession(session: MockExamSession, exam: MockExam): MockExamSession {
+  const now = new Date();
+  return {
+    ...session,
+    startedAt: now.toISOString(),
+    deadline: new Date(now.getTime() + exam.sessionDuration * 60 * 1000).toISOString()
+  };
+}
+
+/**
+ * Seconds left on a session's countdown (never negative)
+ */
+export function getRemainingSeconds(session: MockExamSession): number {
+  if (!session.deadline) return 0;
+  const remaining = Math.floor((new Date(session.deadline).getTime() - Date.now()) / 1000);
+  return Math.max(0, remaining);
+}
+
+/**
+ * Whether the current session's countdown has run out
+ */
+export function isSessionExpired(session: MockExamSession): boolean {
+  return !!session.deadline && new Date(session.deadline).getTime() <= Date.now();
+}
+
+/**
+ * Close the current session of an attempt. Moves the candidate on to the next
+ * session, or scores the whole attempt when the last session is submitted.
+ */
+export async function submitMockExamSession(
+  attempt: MockExamAttempt,
+  exam: MockExam
+): Promise<MockExamAttempt> {
+  const sessions = [...attempt.sessions];
+  const current = sessions[attempt.currentSession];
+
+  // Work submitted after the countdown counts as submitted at the deadline
+  const submittedAt = current.deadline && isSessionExpired(current)
+    ? current.deadline
+    : new Date().toISOString();
+  sessions[attempt.currentSession] = { ...current, submittedAt };
+
+  const nextSession = attempt.currentSession + 1;
+  if (nextSession < sessions.length) {
+    sessions[nextSession] = startSession(sessions[nextSession], exam);
+    return storage.updateMockExamAttempt(attempt.id, {
+      sessions,
+      currentSession: nextSession
+    });
+  }
+
+  return completeMockExamAttempt({ ...attempt, sessions }, exam);
+}
+
+/**
+ * Score a finished attempt, record every answer in the user's history and
+ * store the report on the attempt. Only the request that moves the attempt
+ * out of in_progress records anything, so a deadline auto-submit racing a
+ * read of the same attempt can't record the answers twice.
+ */
+async function completeMockExamAttempt(
+  attempt: MockExamAttempt,
+  exam: MockExam
+): Promise<MockExamAttempt> {
+  const allQuestionIds = attempt.sessions.flatMap(s => s.questionIds);
+  const paperQuestions = await storage.getQuestionsByIds(allQuestionIds);
+  const questionsById = new Map(paperQuestions.map(q => [q.id, q]));
+  const topics = await storage.getAllTopics();
+  const topicNames = new Map(topics.map(t => [t.id, t.name]));
+
+  const topicStats = new Map<number, { total: number; correct: number }>();
+  const answersToRecord: InsertUserAnswer[] = [];
+  const sessionBreakdown: MockExamReport['sessionBreakdown'] = [];
+  let answered = 0;
+  let correct = 0;
+
+  for (let i = 0; i < attempt.sessions.length; i++) {
+    const session = attempt.sessions[i];
+    const sessionStats = { session: i + 1, total: session.questionIds.length, answered: 0, correct: 0 };
+
+    // Split the session's elapsed time evenly over the answered questions
+    const answeredIds = session.questionIds.filter(id => attempt.answers[id]);
+    const elapsed = session.startedAt && session.submittedAt
+      ? Math.floor((new Date(session.submittedAt).getTime() - new Date(session.startedAt).getTime()) / 1000)
+      : 0;
+    const timePerQuestion = answeredIds.length > 0 ? Math.round(elapsed / answeredIds.length) : 0;
+
+    for (const questionId of session.questionIds) {
+      const question = questionsById.get(questionId);
+      if (!question) continue;
+
+      const stats = topicStats.get(question.topicId) || { total: 0, correct: 0 };
+      stats.total++;
+
+      const userOption = attempt.answers[questionId];
+      if (userOption) {
+        const isCorrect = userOption === question.correctOption;
+        sessionStats.answered++;
+        answered++;
+        if (isCorrect) {
+          stats.correct++;
+          sessionStats.correct++;
+          correct++;
+        }
+
+        answersToRecord.push({
+          userId: attempt.userId,
+          questionId,
+          userOption,
+          isCorrect,
+          timeSpent: timePerQuestion
+        });
+      }
+
+      topicStats.set(question.topicId, stats);
+    }
+
+    sessionBreakdown.push(sessionStats);
+  }
+
+  const totalQuestions = allQuestionIds.length;
+  const score = totalQuestions > 0 ? Math.round((correct / totalQuestions) * 100) : 0;
+
+  const report: MockExamReport = {
+    totalQuestions,
+    answered,
+    correct,
+    score,
+    passed: score >= exam.passingScore,
+    topicBreakdown: Array.from(topicStats.entries()).map(([topicId, stats]) => ({
+      topicId,
+      topicName: topicNames.get(topicId) || 'Unknown Topic',
+      total: stats.total,
+      correct: stats.correct,
+      accuracy: stats.total > 0 ? Math.round((stats.correct / stats.total) * 100) : 0
+    })),
+    sessionBreakdown
+  };
+
+  const completed = await storage.completeMockExamAttempt(attempt.id, {
+    sessions: attempt.sessions,
+    score,
+    report,
+    completedAt: new Date()
+  });
+  if (!completed) {
+    // Another request completed it first and recorded everything
+    const current = await storage.getMockExamAttempt(attempt.id);
+    if (!current) {
+      throw new Error(`Mock exam attempt with id ${attempt.id} not found`);
+    }
+    return current;
+  }
+
+  for (const answerData of answersToRecord) {
+    const answer = await storage.createUserAnswer(answerData);
+    // Exam answers feed the review schedule the same way practice answers do
+    if (answer) {
+      await recordReview(answer);
+    }
+  }
+  // Exam answers count towards topic progress like practice answers do
+  for (const topicId of Array.from(topicStats.keys())) {
+    await recomputeTopicProgress(attempt.userId, topicId);
+  }
+  if (answered > 0) {
+    await recordStudyActivity(attempt.userId, new Date(), answered);
+  }
+
+  await storage.createUserActivity({
+    userId: attempt.userId,
+    activityType: 'mock_exam_completed',
+    details: {
+      attemptId: attempt.id,
+      mockExamId: exam.id,
+      name: exam.name,
+      score,
+      passed: report.passed
+    }
+  });
+  await evaluateBadges(attempt.userId, 'mock_exam_completed');
+
+  return completed;
+}
+
+/**
+ * Auto-submit the current session if its countdown has run out. Called
+ * whenever an attempt is read or written so the server enforces the clock.
+ */
+export async function enforceSessionDeadline(
+  attempt: MockExamAttempt,
+  exam: MockExam
+): Promise<MockExamAttempt> {
+  let current = attempt;
+  while (current.status === 'in_progress' && isSessionExpired(current.sessions[current.currentSession])) {
+    current = await submitMockExamSession(current, exam);
+  }
+  return current;
+}
+
+/**
+ * Shape an attempt for the client. While the attempt is running only the
+ * current session's questions are sent, without answer keys; once it is
+ * completed the whole paper is returned with keys, explanations and the report.
+ */
+export async function getMockExamAttemptView(attempt: MockExamAttempt, exam: MockExam) {
+  const base = {
+    id: attempt.id,
+    mockExamId: exam.id,
+    examName: exam.name,
+    status: attempt.status,
+    sessionCount: attempt.sessions.length,
+    currentSession: attempt.currentSession,
+    answers: attempt.answers,
+    flagged: attempt.flagged,
+    startedAt: attempt.startedAt,
+    completedAt: attempt.completedAt
+  };
+
+  if (attempt.status === 'completed') {
+    const questionIds = attempt.sessions.flatMap(s => s.questionIds);
+    const paperQuestions = await storage.getQuestionsByIds(questionIds);
+    const questionsById = new Map(paperQuestions.map(q => [q.id, q]));
+
+    return {
+      ...base,
+      score: attempt.score,
+      passingScore: exam.passingScore,
+      report: attempt.report,
+      questions: questionIds
+        .map(id => questionsById.get(id))
+        .filter((q): q is Question => !!q)
+    };
+  }
+
+  const session = attempt.sessions[attempt.currentSession];
+  const sessionQuestions = await storage.getQuestionsByIds(session.questionIds);
+  const questionsById = new Map(sessionQuestions.map(q => [q.id, q]));
+
+  return {
+    ...base,
+    remainingSeconds: getRemainingSeconds(session),
+    sessionDuration: exam.sessionDuration,
+    questions: session.questionIds
+      .map(id => questionsById.get(id))
+      .filter((q): q is Question => !!q)
+      .map(hideAnswer)
+  };
+}
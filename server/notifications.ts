@@ -0,0 +1,197 @@
+import { storage } from './storage';
+import {
+  getCurriculumLevel,
+  type InsertNotification,
+  type JobRunSummary,
+  type Notification,
+  type NotificationType,
+  type PracticeSet,
+  type QuestionReport,
+  type User
+} from '@shared/schema';
+
+export type NotificationPreferences = Required<NonNullable<User['notificationPreferences']>>;
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  practiceReminders: true,
+  newContentAlerts: true,
+  progressUpdates: false,
+  accountAlerts: true,
+};
+
+// The preference that has to be on for each kind of notification to be sent
+const NOTIFICATION_PREFERENCES: Record<NotificationType, keyof NotificationPreferences> = {
+  new_practice_set: 'newContentAlerts',
+  report_resolved: 'newContentAlerts',
+  badge_earned: 'progressUpdates',
+  streak_milestone: 'progressUpdates',
+  subscription_expiring: 'accountAlerts',
+  subscription_expired: 'accountAlerts',
+};
+
+// How many days before a subscription ends the student is warned
+const SUBSCRIPTION_WARNING_DAYS = 7;
+
+/**
+ * A user's saved notification preferences, with defaults for any not saved yet
+ */
+export function getNotificationPreferences(
+  user: { notificationPreferences: Partial<NotificationPreferences> | null }
+): NotificationPreferences {
+  return {
+    ...DEFAULT_NOTIFICATION_PREFERENCES,
+    ...(user.notificationPreferences || {}),
+  };
+}
+
+/**
+ * Add a notification to a user's inbox, unless their preferences turn this
+ * kind off or one with the same dedupe key was already sent
+ */
+export async function notify(
+  user: User,
+  notification: Omit<InsertNotification, 'userId'>
+): Promise<Notification | undefined> {
+  const preference = NOTIFICATION_PREFERENCES[notification.type];
+  if (user.isDeleted || !getNotificationPreferences(user)[preference]) {
+    return undefined;
+  }
+  return storage.createNotification({ ...notification, userId: user.id });
+}
+
+/**
+ * Tell the students studying a practice set's level that it is available.
+ * Returns how many were notified.
+ */
+export async function notifyNewPracticeSet(practiceSet: PracticeSet, questionCount: number): Promise<number> {
+  const students = (await storage.getAllUsers()).filter(user =>
+    user.role === 'student' && getCurriculumLevel(user.level) === practiceSet.level
+  );
+
+  let notified = 0;
+  for (const student of students) {
+    const notification = await notify(student, {
+      type: 'new_practice_set',
+      title: 'New practice set available',
+      message: `"${practiceSet.name}" has been added with ${questionCount} questions.`,
+      link: `/practice/set/${practiceSet.id}`,
+      dedupeKey: `practice_set:${practiceSet.id}`,
+    });
+    if (notification) notified++;
+  }
+  return notified;
+}
+
+/**
+ * Announce every practice set that has been given questions since the last
+ * run. Sets that are still empty wait for a later run.
+ */
+export async function announceNewPracticeSets(now: Date = new Date()): Promise<JobRunSummary> {
+  const summary: JobRunSummary = { processed: 0, sent: 0, failed: 0 };
+
+  for (const practiceSet of await storage.getUnannouncedPracticeSets()) {
+    summary.processed++;
+
+    const questions = await storage.getPracticeSetQuestions(practiceSet.id);
+    if (questions.length === 0) continue;
+
+    summary.sent += await notifyNewPracticeSet(practiceSet, questions.length);
+    await storage.updatePracticeSet(practiceSet.id, { announcedAt: now });
+  }
+
+  return summary;
+}
+
+export async function notifyBadgeEarned(
+  user: User,
+  badge: { key: string; name: string; description: string }
+): Promise<Notification | undefined> {
+  return notify(user, {
+    type: 'badge_earned',
+    title: `Badge earned: ${badge.name}`,
+    message: `${badge.description}. See all your badges on the dashboard.`,
+    link: '/dashboard',
+    dedupeKey: `badge:${badge.key}`,
+  });
+}
+
+export async function notifyStreakMilestone(
+  user: User,
+  streakDays: number,
+  isPersonalBest: boolean
+): Promise<Notification | undefined> {
+  return notify(user, {
+    type: 'streak_milestone',
+    title: 'Streak milestone',
+    message: isPersonalBest
+      ? `You've studied ${streakDays} days in a row, your best streak yet!`
+      : `You've studied ${streakDays} days in a row. Keep it up!`,
+    link: '/dashboard',
+  });
+}
+
+/**
+ * Let the student who reported a question know that it has been dealt with
+ */
+export async function notifyReportResolved(report: QuestionReport): Promise<Notification | undefined> {
+  const reporter = await storage.getUser(report.userId);
+  if (!reporter) return undefined;
+
+  return notify(reporter, {
+    type: 'report_resolved',
+    title: 'Your question report was resolved',
+    message: report.resolutionNote?.trim() ||
+      'Thanks for flagging the problem. The question has been reviewed and fixed.',
+  });
+}
+
+/**
+ * Warn a user whose subscription is about to run out, and tell them once it
+ * has. Subscriptions that renew automatically are only reported when they
+ * actually lapse.
+ */
+export async function checkSubscriptionExpiry(user: User, now: Date = new Date()): Promise<Notification | undefined> {
+  const subscription = await storage.getActiveSubscription(user.id);
+  if (!subscription) return undefined;
+
+  const endDate = new Date(subscription.endDate);
+  if (endDate < now) {
+    const checked = await storage.checkAndUpdateSubscriptionStatus(subscription.id);
+    if (checked.status !== 'expired') return undefined;
+    return notify(user, {
+      type: 'subscription_expired',
+      title: 'Your subscription has expired',
+      message: 'Premium content is locked until you renew your plan.',
+      link: '/subscription',
+      dedupeKey: `subscription_expired:${subscription.id}`,
+    });
+  }
+
+  const daysLeft = Math.ceil((endDate.getTime() - now.getTime()) / 86400000);
+  if (subscription.autoRenew || daysLeft > SUBSCRIPTION_WARNING_DAYS) return undefined;
+  return notify(user, {
+    type: 'subscription_expiring',
+    title: 'Your subscription ends soon',
+    message: `Your ${subscription.planType} plan ends on ${endDate.toDateString()}. Renew to keep premium access.`,
+    link: '/subscription',
+    // One warning per billing period
+    dedupeKey: `subscription_expiring:${subscription.id}:${endDate.toISOString().slice(0, 10)}`,
+  });
+}
+
+/**
+ * Check every user's subscription for an upcoming or passed end date
+ */
+export async function checkSubscriptions(now: Date = new Date()): Promise<JobRunSummary> {
+  const summary: JobRunSummary = { processed: 0, sent: 0, failed: 0 };
+
+  for (const user of await storage.getAllUsers()) {
+    if (user.isDeleted) continue;
+    summary.processed++;
+    if (await checkSubscriptionExpiry(user, now)) {
+      summary.sent++;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,484 @@
+import { storage } from './storage';
+import { db } from './db';
+import { eq, and } from 'drizzle-orm';
+import { recordReview, getDueReviewQuestions } from './spaced-repetition';
+import { clusterQuestionGroups } from './question-groups';
+import { getBookmarkedQuestions } from './question-bookmarks';
+import { getMistakes, type MistakeFilters } from './mistake-notebook';
+import { recomputeTopicProgress } from './progress-metrics';
+import { recordStudyActivity } from './study-streaks';
+import { evaluateBadges } from './badges';
+import { pickAdaptiveQuestion, estimateAbility, type AbilityEstimate } from './adaptive-practice';
+import {
+  clampTimeSpent,
+  getAnswerFeedback,
+  gradeOption,
+  hideUnansweredAnswers,
+  type AnswerFeedback
+} from './answer-grading';
+import {
+  buildSessionQuestions,
+  shuffleOptionOrders,
+  applyOptionOrder,
+  toOriginalOption,
+  toShownOption
+} from './session-builder';
+import {
+  userAnswers,
+  getCurriculumLevel,
+  type InsertUserAnswer,
+  type PracticeSession,
+  type PracticeSessionOptions,
+  type Question,
+  type UserAnswer
+} from '@shared/schema';
+
+// Number of questions drawn for a topic, chapter or adaptive sitting
+const SESSION_SIZE = 10;
+// Upper bound on due cards pulled into a single review sitting
+const REVIEW_SESSION_SIZE = 20;
+// Upper bound on past mistakes pulled into a single retry sitting
+const MISTAKES_SESSION_SIZE = 30;
+
+export type PracticeSessionMode = 'topic' | 'chapter' | 'review' | 'set' | 'adaptive' | 'bookmarks' | 'mistakes';
+
+export type PracticeSessionScope = {
+  mode: PracticeSessionMode;
+  topicId?: number | null;
+  chapterId?: number | null;
+  practiceSetId?: number | null;
+  options?: PracticeSessionOptions | null;
+  mistakeFilters?: Pick<MistakeFilters, 'from' | 'to' | 'unresolvedOnly'> | null;
+};
+
+// What the client sends for an answer; correctness is always worked out here
+export type SessionAnswerInput = Pick<InsertUserAnswer, 'userId' | 'questionId' | 'userOption' | 'timeSpent'>;
+
+/**
+ * Record an answer: store it, rebuild the user's progress for the question's
+ * topic, reschedule it in the spaced-repetition queue, count it towards
+ * the user's study streak and award any badges it unlocks
+ */
+export async function recordAnswer(answerData: InsertUserAnswer): Promise<UserAnswer> {
+  // Check if this is a previous question the user has already answered
+  const previousAnswers = await db
+    .select()
+    .from(userAnswers)
+    .where(and(
+      eq(userAnswers.userId, answerData.userId),
+      eq(userAnswers.questionId, answerData.questionId)
+    ));
+
+  // Record the user's answer
+  const answer = await storage.createUserAnswer(answerData);
+  if (!answer) {
+    throw new Error('Question has already been answered in this practice session');
+  }
+
+  // Reschedule the question in the user's spaced-repetition queue
+  await recordReview(answer);
+
+  // Count the answer towards today's study goal
+  await recordStudyActivity(answerData.userId, answer.answeredAt);
+
+  // Get the question to determine its topic
+  const question = await storage.getQuestion(answerData.questionId);
+  if (question) {
+    await recomputeTopicProgress(answerData.userId, question.topicId);
+
+    // Record activity
+    await storage.createUserActivity({
+      userId: answerData.userId,
+      activityType: 'question_answered',
+      topicId: question.topicId,
+      details: {
+        questionId: answerData.questionId,
+        isCorrect: answerData.isCorrect,
+        timeSpent: answerData.timeSpent,
+        isFirstAttempt: previousAnswers.length === 0
+      }
+    });
+  }
+
+  await evaluateBadges(answerData.userId, 'answer');
+
+  return answer;
+}
+
+/**
+ * Pick the questions for a new sitting in the given scope. Item set questions
+ * are kept next to each other so they can be shown with their vignette, and
+ * only questions from the user's curriculum level are drawn.
+ */
+async function selectSessionQuestions(userId: number, scope: PracticeSessionScope): Promise<Question[]> {
+  const user = await storage.getUser(userId);
+  const level = getCurriculumLevel(user?.level);
+  const atLevel = (questions: Question[]) => questions.filter(q => q.level === level);
+
+  if (scope.mode === 'review') {
+    const dueQuestions = await getDueReviewQuestions(userId, REVIEW_SESSION_SIZE, level);
+    return clusterQuestionGroups(dueQuestions, false);
+  }
+
+  // Bookmarked questions were picked by the user, so they run whatever their level
+  if (scope.mode === 'bookmarks') {
+    const bookmarked = await getBookmarkedQuestions(userId, scope.topicId ?? undefined);
+    const questionsById = new Map(
+      (await storage.getQuestionsByIds(bookmarked.map(b => b.question.id))).map(q => [q.id, q])
+    );
+    return clusterQuestionGroups(
+      bookmarked.map(b => questionsById.get(b.question.id)).filter((q): q is Question => !!q),
+      false
+    );
+  }
+
+  // A retry sitting runs the mistakes shown in the notebook, most recent first
+  if (scope.mode === 'mistakes') {
+    const mistakes = await getMistakes(userId, {
+      ...scope.mistakeFilters,
+      topicId: scope.topicId,
+      chapterId: scope.chapterId
+    });
+    return clusterQuestionGroups(mistakes.slice(0, MISTAKES_SESSION_SIZE).map(m => m.question), false);
+  }
+
+  // A practice set runs exactly its own questions, in order
+  if (scope.mode === 'set' && scope.practiceSetId) {
+    const setQuestions = await storage.getPracticeSetQuestions(scope.practiceSetId);
+    return clusterQuestionGroups(setQuestions, false);
+  }
+
+  // An adaptive sitting starts with one question and picks the rest as it goes
+  if (scope.mode === 'adaptive' && scope.topicId) {
+    const { question } = await pickAdaptiveQuestion(userId, scope.topicId, level);
+    return question ? [question] : [];
+  }
+
+  // A sitting set up in the session builder keeps to its filters, so item sets
+  // are only shown with the questions that matched
+  if (scope.mode === 'topic' && scope.topicId && scope.options) {
+    const builtQuestions = await buildSessionQuestions(userId, scope.topicId, level, scope.options);
+    return clusterQuestionGroups(builtQuestions, false);
+  }
+
+  // Topic and chapter sittings take whole item sets, even past the usual size
+  if (scope.mode === 'chapter' && scope.chapterId) {
+    const chapterQuestions = await storage.getQuestionsByChapter(scope.chapterId);
+    return clusterQuestionGroups(atLevel(chapterQuestions).slice(0, SESSION_SIZE), true);
+  }
+
+  if (scope.topicId) {
+    const topicQuestions = await storage.getQuestionsByTopic(scope.topicId);
+    return clusterQuestionGroups(atLevel(topicQuestions).slice(0, SESSION_SIZE), true);
+  }
+
+  return [];
+}
+
+function matchesScope(practiceSession: PracticeSession, scope: PracticeSessionScope): boolean {
+  return practiceSession.mode === scope.mode &&
+    (practiceSession.topicId ?? null) === (scope.topicId ?? null) &&
+    (practiceSession.chapterId ?? null) === (scope.chapterId ?? null) &&
+    (practiceSession.practiceSetId ?? null) === (scope.practiceSetId ?? null);
+}
+
+/**
+ * Whether a session still has questions to answer. Adaptive sessions only
+ * hold the questions picked so far, so they run until they reach full size.
+ */
+export function hasQuestionsLeft(practiceSession: PracticeSession): boolean {
+  if (practiceSession.mode === 'adaptive') {
+    return practiceSession.answeredCount < SESSION_SIZE;
+  }
+  return practiceSession.currentIndex < practiceSession.questionIds.length;
+}
+
+// Number of questions the session will have once it is finished
+export function getSessionLength(practiceSession: PracticeSession): number {
+  return practiceSession.mode === 'adaptive' ? SESSION_SIZE : practiceSession.questionIds.length;
+}
+
+/**
+ * Resume the user's open session for a scope, or start a new one. An explicit
+ * session id (from a "resume" link) takes precedence over the scope match.
+ * Builder settings and mistake retries always start a fresh sitting, closing
+ * any open one for the same scope.
+ */
+export async function startOrResumePracticeSession(
+  userId: number,
+  scope: PracticeSessionScope,
+  sessionId?: number
+): Promise<PracticeSession> {
+  const activeSessions = await storage.getActivePracticeSessions(userId);
+
+  const startsFresh = !!scope.options || scope.mode === 'mistakes';
+  if (startsFresh && !sessionId) {
+    for (const openSession of activeSessions.filter(ps => matchesScope(ps, scope))) {
+      await finishPracticeSession(openSession);
+    }
+  }
+
+  const resumable = (sessionId
+    ? activeSessions.find(ps => ps.id === sessionId)
+    : undefined) || (startsFresh ? undefined : activeSessions.find(ps => matchesScope(ps, scope)));
+
+  if (resumable) {
+    if (hasQuestionsLeft(resumable)) {
+      return storage.updatePracticeSession(resumable.id, { lastActivityAt: new Date() });
+    }
+    // Every question was answered but the sitting was never closed
+    await finishPracticeSession(resumable);
+  }
+
+  const sessionQuestions = await selectSessionQuestions(userId, scope);
+  return storage.createPracticeSession({
+    userId,
+    mode: scope.mode,
+    topicId: scope.topicId ?? null,
+    chapterId: scope.chapterId ?? null,
+    practiceSetId: scope.practiceSetId ?? null,
+    questionIds: sessionQuestions.map(q => q.id),
+    options: scope.options ?? null,
+    optionOrders: scope.options?.shuffleOptions ? shuffleOptionOrders(sessionQuestions) : null
+  });
+}
+
+/**
+ * Record an answer given within a session, grade it against the answer key
+ * and move the session on. The reported time can't exceed the time since the
+ * session was last active.
+ */
+export async function recordSessionAnswer(
+  practiceSession: PracticeSession,
+  answerData: SessionAnswerInput
+): Promise<{ answer: UserAnswer; session: PracticeSession; feedback: AnswerFeedback }> {
+  return saveSessionAnswer(practiceSession, {
+    ...answerData,
+    timeSpent: clampTimeSpent(answerData.timeSpent, practiceSession.lastActivityAt)
+  });
+}
+
+async function saveSessionAnswer(
+  practiceSession: PracticeSession,
+  answerData: SessionAnswerInput
+): Promise<{ answer: UserAnswer; session: PracticeSession; feedback: AnswerFeedback }> {
+  const position = practiceSession.questionIds.indexOf(answerData.questionId);
+  if (position === -1) {
+    throw new Error('Question is not part of this practice session');
+  }
+
+  const sessionAnswers = await storage.getPracticeSessionAnswers(practiceSession.id);
+  if (sessionAnswers.some(a => a.questionId === answerData.questionId)) {
+    throw new Error('Question has already been answered in this practice session');
+  }
+
+  const question = await storage.getQuestion(answerData.questionId);
+  if (!question) {
+    throw new Error('Question not found');
+  }
+
+  // Answers are stored and graded against the original option, whatever order it was shown in
+  const optionOrder = practiceSession.optionOrders?.[answerData.questionId];
+  const userOption = toOriginalOption(optionOrder, answerData.userOption);
+  const isCorrect = gradeOption(question, userOption);
+  const answer = await recordAnswer({
+    ...answerData,
+    userOption,
+    isCorrect,
+    sessionId: practiceSession.id
+  });
+
+  const updatedSession = await storage.countPracticeSessionAnswer(practiceSession.id, {
+    position,
+    isCorrect,
+    timeSpent: answerData.timeSpent
+  });
+
+  return {
+    answer,
+    session: updatedSession,
+    feedback: getAnswerFeedback(applyOptionOrder(question, optionOrder), answerData.userOption, isCorrect)
+  };
+}
+
+/**
+ * Record the answers to an item set's questions in one go and score the set
+ * as a whole. Every answer is checked before any is stored, so a rejected
+ * submission leaves the session untouched. The feedback covers every question
+ * of the set, including ones answered before a page refresh.
+ */
+export async function recordSessionGroupAnswers(
+  practiceSession: PracticeSession,
+  groupId: number,
+  answers: SessionAnswerInput[]
+): Promise<{
+  answers: UserAnswer[];
+  session: PracticeSession;
+  score: { correct: number; total: number };
+  feedback: AnswerFeedback[];
+}> {
+  const groupQuestions = (await storage.getQuestionsByGroup(groupId))
+    .filter(q => practiceSession.questionIds.includes(q.id));
+  const groupQuestionIds = groupQuestions.map(q => q.id);
+  if (groupQuestionIds.length === 0) {
+    throw new Error('This item set is not part of this practice session');
+  }
+
+  const alreadyAnswered = new Set(
+    (await storage.getPracticeSessionAnswers(practiceSession.id)).map(a => a.questionId)
+  );
+  const submittedIds = new Set<number>();
+  for (const answer of answers) {
+    if (!groupQuestionIds.includes(answer.questionId)) {
+      throw new Error('Every answer must be for a question in this item set');
+    }
+    if (alreadyAnswered.has(answer.questionId) || submittedIds.has(answer.questionId)) {
+      throw new Error('Question has already been answered in this practice session');
+    }
+    submittedIds.add(answer.questionId);
+  }
+
+  // The set is timed as a whole, so scale its reported times down together if needed
+  const reportedTime = answers.reduce((sum, a) => sum + a.timeSpent, 0);
+  const allowedTime = clampTimeSpent(reportedTime, practiceSession.lastActivityAt);
+  const timeScale = reportedTime > 0 ? allowedTime / reportedTime : 0;
+
+  const recorded: UserAnswer[] = [];
+  let updatedSession = practiceSession;
+  for (const answerData of answers) {
+    const result = await saveSessionAnswer(updatedSession, {
+      ...answerData,
+      timeSpent: Math.floor(answerData.timeSpent * timeScale)
+    });
+    recorded.push(result.answer);
+    updatedSession = result.session;
+  }
+
+  // Score across the whole set, including answers given before a page refresh
+  const groupAnswers = (await storage.getPracticeSessionAnswers(practiceSession.id))
+    .filter(a => groupQuestionIds.includes(a.questionId));
+  const questionsById = new Map(groupQuestions.map(q => [q.id, q]));
+
+  return {
+    answers: recorded,
+    session: updatedSession,
+    score: {
+      correct: groupAnswers.filter(a => a.isCorrect).length,
+      total: groupQuestionIds.length
+    },
+    feedback: groupAnswers.map(a => {
+      const optionOrder = practiceSession.optionOrders?.[a.questionId];
+      return getAnswerFeedback(
+        applyOptionOrder(questionsById.get(a.questionId)!, optionOrder),
+        toShownOption(optionOrder, a.userOption),
+        a.isCorrect
+      );
+    })
+  };
+}
+
+/**
+ * Pick the next question of an adaptive session from the user's current
+ * ability in the topic and add it to the session. A question that was picked
+ * but not yet answered is handed back again, so a refresh can't skip it.
+ * Returns a null question once the session is full or the topic runs out.
+ */
+export async function nextAdaptiveQuestion(
+  practiceSession: PracticeSession
+): Promise<{ question: Question | null; ability: AbilityEstimate; session: PracticeSession }> {
+  if (practiceSession.mode !== 'adaptive' || !practiceSession.topicId) {
+    throw new Error('Only adaptive practice sessions pick their questions as they go');
+  }
+
+  if (practiceSession.currentIndex < practiceSession.questionIds.length) {
+    const pendingId = practiceSession.questionIds[practiceSession.currentIndex];
+    const [question, topicAnswers] = await Promise.all([
+      storage.getQuestion(pendingId),
+      storage.getUserAnswersByTopic(practiceSession.userId, practiceSession.topicId),
+    ]);
+    return { question: question ?? null, ability: estimateAbility(topicAnswers), session: practiceSession };
+  }
+
+  const user = await storage.getUser(practiceSession.userId);
+  const { question, ability } = await pickAdaptiveQuestion(
+    practiceSession.userId,
+    practiceSession.topicId,
+    getCurriculumLevel(user?.level),
+    practiceSession.questionIds
+  );
+
+  if (!question || !hasQuestionsLeft(practiceSession)) {
+    return { question: null, ability, session: practiceSession };
+  }
+
+  const updatedSession = await storage.updatePracticeSession(practiceSession.id, {
+    questionIds: [...practiceSession.questionIds, question.id],
+    lastActivityAt: new Date()
+  });
+  return { question, ability, session: updatedSession };
+}
+
+/**
+ * Close a session and log it in the user's activity feed
+ */
+export async function finishPracticeSession(practiceSession: PracticeSession): Promise<PracticeSession> {
+  const completedSession = await storage.updatePracticeSession(practiceSession.id, {
+    status: 'completed',
+    completedAt: new Date(),
+    lastActivityAt: new Date()
+  });
+
+  if (completedSession.answeredCount > 0) {
+    await storage.createUserActivity({
+      userId: completedSession.userId,
+      activityType: 'practice_session_completed',
+      topicId: completedSession.topicId,
+      details: {
+        sessionId: completedSession.id,
+        mode: completedSession.mode,
+        answered: completedSession.answeredCount,
+        correct: completedSession.correctCount,
+        timeSpent: completedSession.timeSpent
+      }
+    });
+    await evaluateBadges(completedSession.userId, 'session_finished');
+  }
+
+  return completedSession;
+}
+
+/**
+ * Shape a session for the practice page: its questions in order (with their
+ * options shuffled if the session asked for it), the item set vignettes they
+ * belong to, and the answers already given, so a refreshed page can carry on
+ * where it stopped. Questions not yet answered come without their answer key
+ * or explanation.
+ */
+export async function getPracticeSessionView(practiceSession: PracticeSession) {
+  const sessionQuestions = await storage.getQuestionsByIds(practiceSession.questionIds);
+  const questionsById = new Map(sessionQuestions.map(q => [q.id, q]));
+  const sessionAnswers = await storage.getPracticeSessionAnswers(practiceSession.id);
+  const groupIds = Array.from(new Set(
+    sessionQuestions.map(q => q.groupId).filter((id): id is number => id !== null)
+  ));
+
+  const answeredIds = new Set(sessionAnswers.map(a => a.questionId));
+
+  return {
+    ...practiceSession,
+    totalQuestions: getSessionLength(practiceSession),
+    questions: hideUnansweredAnswers(
+      practiceSession.questionIds
+        .map(id => questionsById.get(id))
+        .filter((q): q is Question => !!q)
+        .map(q => applyOptionOrder(q, practiceSession.optionOrders?.[q.id])),
+      answeredIds
+    ),
+    groups: await storage.getQuestionGroupsByIds(groupIds),
+    answers: sessionAnswers.map(answer => ({
+      questionId: answer.questionId,
+      userOption: toShownOption(practiceSession.optionOrders?.[answer.questionId], answer.userOption),
+      isCorrect: answer.isCorrect
+    }))
+  };
+}
@@ -0,0 +1,40 @@
+import { storage } from './storage';
+import { shuffle } from './helpers/shuffle';
+import type { PracticeSet, Question } from '@shared/schema';
+
+export type AutoFillOptions = {
+  topicId?: number;
+  chapterId?: number | null;
+  difficulty?: number | null;
+  count?: number;
+};
+
+/**
+ * Replace a practice set's questions with a random draw from the question
+ * bank, filtered by topic, chapter and difficulty. Defaults to the set's own
+ * topic and question count. Returns the questions in their new order.
+ */
+export async function autoFillPracticeSet(
+  practiceSet: PracticeSet,
+  options: AutoFillOptions
+): Promise<Question[]> {
+  const topicId = options.topicId ?? practiceSet.topicId;
+  const count = options.count ?? practiceSet.questionCount;
+
+  const pool = options.chapterId
+    ? await storage.getQuestionsByChapter(options.chapterId)
+    : await storage.getQuestionsByTopic(topicId);
+
+  const candidates = pool.filter(q =>
+    q.topicId === topicId &&
+    (!options.difficulty || q.difficulty === options.difficulty)
+  );
+
+  if (candidates.length === 0) {
+    throw new Error('No questions match the selected topic, chapter and difficulty');
+  }
+
+  const selected = shuffle(candidates).slice(0, count);
+  await storage.setPracticeSetQuestions(practiceSet.id, selected.map(q => q.id));
+  return selected;
+}
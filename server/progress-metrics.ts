@@ -0,0 +1,131 @@
+import { storage } from './storage';
+import type { Question, UserAnswer, UserProgress } from '@shared/schema';
+
+// A question counts as mastered once this many answers in a row are correct
+const MASTERY_STREAK = 2;
+
+export type ProgressCounts = Pick<
+  UserProgress,
+  'questionsAttempted' | 'questionsCorrect' | 'questionsSeen' | 'firstAttemptCorrect' |
+  'latestCorrect' | 'questionsMastered' | 'totalTimeSpent'
+>;
+
+export type ProgressMetrics = {
+  questionsAvailable: number;
+  coverage: number; // % of available questions answered at least once
+  accuracy: number; // % of all attempts that were correct
+  firstAttemptAccuracy: number; // % of seen questions right the first time
+  latestAttemptAccuracy: number; // % of seen questions whose latest answer is right
+  mastery: number; // % of available questions mastered
+};
+
+const percentage = (part: number, whole: number) =>
+  whole > 0 ? Math.round((part / whole) * 100) : 0;
+
+/**
+ * Tally a user's answers to one topic's questions into progress counts.
+ * Every attempt is counted, and each question's history is read in order
+ * for its first attempt, latest attempt and current run of correct answers.
+ */
+export function countTopicProgress(answers: UserAnswer[]): ProgressCounts {
+  const historyByQuestion = new Map<number, UserAnswer[]>();
+  for (const answer of answers) {
+    if (answer.isDeleted) continue;
+    historyByQuestion.set(answer.questionId, [...(historyByQuestion.get(answer.questionId) || []), answer]);
+  }
+
+  const counts: ProgressCounts = {
+    questionsAttempted: 0,
+    questionsCorrect: 0,
+    questionsSeen: historyByQuestion.size,
+    firstAttemptCorrect: 0,
+    latestCorrect: 0,
+    questionsMastered: 0,
+    totalTimeSpent: 0,
+  };
+
+  for (const history of Array.from(historyByQuestion.values())) {
+    history.sort((a, b) => new Date(a.answeredAt).getTime() - new Date(b.answeredAt).getTime());
+
+    counts.questionsAttempted += history.length;
+    counts.questionsCorrect += history.filter(a => a.isCorrect).length;
+    counts.totalTimeSpent += history.reduce((sum, a) => sum + a.timeSpent, 0);
+    if (history[0].isCorrect) counts.firstAttemptCorrect++;
+    if (history[history.length - 1].isCorrect) counts.latestCorrect++;
+
+    const recent = history.slice(-MASTERY_STREAK);
+    if (recent.length === MASTERY_STREAK && recent.every(a => a.isCorrect)) {
+      counts.questionsMastered++;
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Turn stored progress counts into percentages against the questions the
+ * topic has now, so coverage and mastery stay honest as content is added
+ */
+export function getProgressMetrics(
+  progress: ProgressCounts | undefined,
+  questionsAvailable: number
+): ProgressMetrics {
+  return {
+    questionsAvailable,
+    coverage: percentage(Math.min(progress?.questionsSeen ?? 0, questionsAvailable), questionsAvailable),
+    accuracy: percentage(progress?.questionsCorrect ?? 0, progress?.questionsAttempted ?? 0),
+    firstAttemptAccuracy: percentage(progress?.firstAttemptCorrect ?? 0, progress?.questionsSeen ?? 0),
+    latestAttemptAccuracy: percentage(progress?.latestCorrect ?? 0, progress?.questionsSeen ?? 0),
+    mastery: percentage(Math.min(progress?.questionsMastered ?? 0, questionsAvailable), questionsAvailable),
+  };
+}
+
+async function saveTopicProgress(
+  userId: number,
+  topicId: number,
+  answers: UserAnswer[],
+  topicQuestions: Question[]
+): Promise<UserProgress> {
+  const questionIds = new Set(topicQuestions.filter(q => !q.isDeleted).map(q => q.id));
+  return storage.createOrUpdateUserProgress({
+    userId,
+    topicId,
+    ...countTopicProgress(answers.filter(a => questionIds.has(a.questionId))),
+  });
+}
+
+/**
+ * Rebuild a user's progress for one topic from their answers in that topic.
+ * Answers to deleted questions are left out.
+ */
+export async function recomputeTopicProgress(userId: number, topicId: number): Promise<UserProgress> {
+  const [answers, topicQuestions] = await Promise.all([
+    storage.getUserAnswersByTopic(userId, topicId),
+    storage.getQuestionsByTopic(topicId),
+  ]);
+  return saveTopicProgress(userId, topicId, answers, topicQuestions);
+}
+
+/**
+ * Rebuild a user's progress for every topic they have answered questions in,
+ * or already have progress for
+ */
+export async function recomputeUserProgress(userId: number): Promise<UserProgress[]> {
+  const [answers, existing] = await Promise.all([
+    storage.getUserAnswers(userId),
+    storage.getUserProgress(userId),
+  ]);
+  const answeredQuestions = await storage.getQuestionsByIds(
+    Array.from(new Set(answers.map(a => a.questionId)))
+  );
+
+  const topicIds = new Set(existing.map(p => p.topicId));
+  answeredQuestions.forEach(q => topicIds.add(q.topicId));
+
+  const results: UserProgress[] = [];
+  for (const topicId of Array.from(topicIds)) {
+    const topicQuestions = await storage.getQuestionsByTopic(topicId);
+    results.push(await saveTopicProgress(userId, topicId, answers, topicQuestions));
+  }
+  return results;
+}
@@ -0,0 +1,69 @@
+import { storage } from './storage';
+import { hideAnswer, type UnansweredQuestion } from './answer-grading';
+
+export type BookmarkedQuestion = {
+  question: UnansweredQuestion;
+  topicName: string | null;
+  chapterName: string | null;
+  note: string | null;
+  bookmarkedAt: Date;
+};
+
+/**
+ * A user's bookmarked questions, newest first, with their note on each.
+ * Bookmarks on questions that have since been deleted are left out, and the
+ * answer is only included for questions the user has already answered.
+ */
+export async function getBookmarkedQuestions(userId: number, topicId?: number): Promise<BookmarkedQuestion[]> {
+  const [bookmarks, notes, answers] = await Promise.all([
+    storage.getQuestionBookmarks(userId),
+    storage.getQuestionNotes(userId),
+    storage.getUserAnswers(userId),
+  ]);
+  const answeredIds = new Set(answers.filter(a => !a.isDeleted).map(a => a.questionId));
+  const questions = await storage.getQuestionsByIds(bookmarks.map(b => b.questionId));
+  const questionsById = new Map(questions.filter(q => !q.isDeleted).map(q => [q.id, q]));
+  const notesByQuestion = new Map(notes.map(n => [n.questionId, n.content]));
+
+  const topicNames = new Map<number, string>();
+  const chapterNames = new Map<number, string>();
+  const result: BookmarkedQuestion[] = [];
+
+  for (const bookmark of bookmarks) {
+    const question = questionsById.get(bookmark.questionId);
+    if (!question || (topicId && question.topicId !== topicId)) continue;
+
+    if (!topicNames.has(question.topicId)) {
+      const topic = await storage.getTopic(question.topicId);
+      topicNames.set(question.topicId, topic?.name ?? '');
+    }
+    if (question.chapterId && !chapterNames.has(question.chapterId)) {
+      const chapter = await storage.getChapter(question.chapterId);
+      chapterNames.set(question.chapterId, chapter?.name ?? '');
+    }
+
+    result.push({
+      question: answeredIds.has(question.id) ? question : hideAnswer(question),
+      topicName: topicNames.get(question.topicId) || null,
+      chapterName: question.chapterId ? chapterNames.get(question.chapterId) || null : null,
+      note: notesByQuestion.get(question.id) ?? null,
+      bookmarkedAt: bookmark.createdAt,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Whether a user has bookmarked a question, and their note on it
+ */
+export async function getQuestionAnnotations(userId: number, questionId: number) {
+  const [bookmark, note] = await Promise.all([
+    storage.getQuestionBookmark(userId, questionId),
+    storage.getQuestionNote(userId, questionId),
+  ]);
+  return {
+    bookmarked: !!bookmark,
+    note: note?.content ?? null,
+  };
+}
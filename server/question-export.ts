@@ -0,0 +1,327 @@
+import { ZipArchive } from 'archiver';
+import { storage } from './storage';
+import type { Chapter, Question, QuestionGroup, Topic } from '@shared/schema';
+
+export type ExportFormat = 'csv' | 'json' | 'qti';
+
+export type ExportFilters = {
+  topicId?: number;
+  chapterId?: number;
+  difficulty?: number;
+};
+
+export type ExportFile = {
+  filename: string;
+  contentType: string;
+  body: string | Buffer;
+};
+
+// Bumped whenever the JSON bundle layout changes
+const BUNDLE_VERSION = 2;
+
+// Same column names the importer looks for, so an export can be re-imported as-is
+const CSV_COLUMNS = [
+  'topic', 'chapter', 'subtopic', 'questionText', 'context',
+  'optionA', 'optionB', 'optionC', 'optionD', 'correctOption', 'explanation', 'difficulty', 'contentFormat',
+  'level', 'itemSet', 'itemSetTitle', 'exhibits',
+] as const;
+
+const OPTION_KEYS = ['A', 'B', 'C', 'D'] as const;
+
+type ExportData = {
+  topics: Topic[];
+  chapters: Chapter[];
+  groups: QuestionGroup[];
+  questions: Question[];
+};
+
+async function loadExportData(filters: ExportFilters): Promise<ExportData> {
+  const allTopics = (await storage.getAllTopics()).filter(t => !t.isDeleted);
+  const topics = filters.topicId ? allTopics.filter(t => t.id === filters.topicId) : allTopics;
+
+  const chapters = (await Promise.all(topics.map(t => storage.getChaptersByTopic(t.id))))
+    .flat()
+    .filter(c => !c.isDeleted && (!filters.chapterId || c.id === filters.chapterId));
+
+  const topicIds = new Set(topics.map(t => t.id));
+  const questions = (await storage.getAllQuestions()).filter(q =>
+    !q.isDeleted &&
+    topicIds.has(q.topicId) &&
+    (!filters.chapterId || q.chapterId === filters.chapterId) &&
+    (!filters.difficulty || q.difficulty === filters.difficulty)
+  );
+
+  const groupIds = Array.from(new Set(questions.map(q => q.groupId).filter((id): id is number => id !== null)));
+  const groups = await storage.getQuestionGroupsByIds(groupIds);
+
+  // Keep the questions of an item set together, in set order
+  const ordered: Question[] = [];
+  const placedGroups = new Set<number>();
+  for (const question of questions) {
+    if (question.groupId === null) {
+      ordered.push(question);
+    } else if (!placedGroups.has(question.groupId)) {
+      placedGroups.add(question.groupId);
+      ordered.push(...questions
+        .filter(q => q.groupId === question.groupId)
+        .sort((a, b) => (a.groupPosition ?? 0) - (b.groupPosition ?? 0)));
+    }
+  }
+
+  return { topics, chapters, groups, questions: ordered };
+}
+
+// Rows of the same item set share this key, which the importer groups them by
+function getItemSetKey(group: QuestionGroup): string {
+  return `IS${group.id}`;
+}
+
+function csvEscape(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per question with topic and chapter written out by name. Questions
+// in an item set carry the set's key, title and vignette.
+function toQuestionRecord(
+  question: Question,
+  topicsById: Map<number, Topic>,
+  chaptersById: Map<number, Chapter>,
+  groupsById: Map<number, QuestionGroup>
+) {
+  const group = question.groupId !== null ? groupsById.get(question.groupId) : undefined;
+  return {
+    topic: topicsById.get(question.topicId)?.name ?? '',
+    chapter: question.chapterId ? chaptersById.get(question.chapterId)?.name ?? '' : '',
+    subtopic: question.subtopic ?? '',
+    questionText: question.questionText,
+    context: group ? group.context : question.context ?? '',
+    optionA: question.optionA,
+    optionB: question.optionB,
+    optionC: question.optionC,
+    optionD: question.optionD ?? '',
+    correctOption: question.correctOption,
+    explanation: question.explanation,
+    difficulty: question.difficulty,
+    contentFormat: question.contentFormat,
+    level: question.level,
+    itemSet: group ? getItemSetKey(group) : '',
+    itemSetTitle: group?.title ?? '',
+    exhibits: group?.exhibits ?? '',
+  };
+}
+
+function buildCsv(data: ExportData): string {
+  const topicsById = new Map(data.topics.map(t => [t.id, t]));
+  const chaptersById = new Map(data.chapters.map(c => [c.id, c]));
+  const groupsById = new Map(data.groups.map(g => [g.id, g]));
+
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const question of data.questions) {
+    const record = toQuestionRecord(question, topicsById, chaptersById, groupsById);
+    lines.push(CSV_COLUMNS.map(column => csvEscape(record[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Topics, chapters, item sets and questions in one document. Questions carry
+ * their topic, chapter and item set so the bundle loads back through the
+ * question importer.
+ */
+function buildJsonBundle(data: ExportData): string {
+  const topicsById = new Map(data.topics.map(t => [t.id, t]));
+  const chaptersById = new Map(data.chapters.map(c => [c.id, c]));
+  const groupsById = new Map(data.groups.map(g => [g.id, g]));
+
+  return JSON.stringify({
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    topics: data.topics.map(({ id, name, description, icon }) => ({ id, name, description, icon })),
+    chapters: data.chapters.map(({ id, topicId, name, description, order }) => ({
+      id,
+      topicId,
+      topic: topicsById.get(topicId)?.name ?? '',
+      name,
+      description,
+      order,
+    })),
+    groups: data.groups.map(group => ({
+      key: getItemSetKey(group),
+      topic: topicsById.get(group.topicId)?.name ?? '',
+      chapter: group.chapterId ? chaptersById.get(group.chapterId)?.name ?? '' : '',
+      title: group.title,
+      context: group.context,
+      exhibits: group.exhibits,
+      contentFormat: group.contentFormat,
+    })),
+    questions: data.questions.map(q => ({ id: q.id, ...toQuestionRecord(q, topicsById, chaptersById, groupsById) })),
+  }, null, 2);
+}
+
+function xmlEscape(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function getItemIdentifier(question: Question): string {
+  return `Q${question.id}`;
+}
+
+// A single-response choice item scored 1/0, with the explanation shown as
+// feedback. Item set questions show the set's vignette and exhibits.
+function buildQtiItem(question: Question, topic: Topic | undefined, group: QuestionGroup | undefined): string {
+  const options = OPTION_KEYS
+    .map(key => ({ key, text: question[`option${key}` as const] }))
+    .filter((option): option is { key: typeof OPTION_KEYS[number]; text: string } => !!option.text);
+
+  const contextText = group ? group.context : question.context;
+  const context = (contextText
+    ? `\n    <div class="context">${xmlEscape(contextText)}</div>`
+    : '') + (group?.exhibits
+    ? `\n    <div class="exhibits">${xmlEscape(group.exhibits)}</div>`
+    : '');
+  const choices = options
+    .map(option => `      <simpleChoice identifier="${option.key}">${xmlEscape(option.text)}</simpleChoice>`)
+    .join('\n');
+  const title = topic ? `${topic.name} #${question.id}` : `Question ${question.id}`;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imsqti_v2p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"
+  identifier="${getItemIdentifier(question)}" title="${xmlEscape(title)}" adaptive="false" timeDependent="false">
+  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">
+    <correctResponse>
+      <value>${xmlEscape(question.correctOption)}</value>
+    </correctResponse>
+  </responseDeclaration>
+  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">
+    <defaultValue>
+      <value>0</value>
+    </defaultValue>
+  </outcomeDeclaration>
+  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>
+  <itemBody>${context}
+    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">
+      <prompt>${xmlEscape(question.questionText)}</prompt>
+${choices}
+    </choiceInteraction>
+  </itemBody>
+  <responseProcessing>
+    <responseCondition>
+      <responseIf>
+        <match>
+          <variable identifier="RESPONSE"/>
+          <correct identifier="RESPONSE"/>
+        </match>
+        <setOutcomeValue identifier="SCORE">
+          <baseValue baseType="float">1</baseValue>
+        </setOutcomeValue>
+      </responseIf>
+    </responseCondition>
+    <setOutcomeValue identifier="FEEDBACK">
+      <baseValue baseType="identifier">EXPLANATION</baseValue>
+    </setOutcomeValue>
+  </responseProcessing>
+  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">${xmlEscape(question.explanation)}</modalFeedback>
+</assessmentItem>
+`;
+}
+
+function buildQtiManifest(questions: Question[]): string {
+  const resources = questions.map(question => {
+    const identifier = getItemIdentifier(question);
+    const href = `items/${identifier}.xml`;
+    return `    <resource identifier="${identifier}" type="imsqti_item_xmlv2p1" href="${href}">
+      <file href="${href}"/>
+    </resource>`;
+  }).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/qtiv2p1_imscpv1p2_v1p0.xsd"
+  identifier="question-bank-${Date.now()}">
+  <metadata>
+    <schema>QTIv2.1 Package</schema>
+    <schemaversion>1.0.0</schemaversion>
+  </metadata>
+  <organizations/>
+  <resources>
+${resources}
+  </resources>
+</manifest>
+`;
+}
+
+/**
+ * Zip a QTI content package; LMSs expect a single .zip with imsmanifest.xml
+ * at the root. Archiver switches to zip64 on its own for large exports.
+ */
+async function buildZip(files: { name: string; content: string }[]): Promise<Buffer> {
+  const archive = new ZipArchive({ zlib: { level: 9 } });
+  const chunks: Buffer[] = [];
+  archive.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<void>((resolve, reject) => {
+    archive.on('end', resolve);
+    archive.on('error', reject);
+  });
+
+  for (const file of files) {
+    archive.append(file.content, { name: file.name });
+  }
+  await Promise.all([archive.finalize(), finished]);
+
+  return Buffer.concat(chunks);
+}
+
+async function buildQtiPackage(data: ExportData): Promise<Buffer> {
+  const topicsById = new Map(data.topics.map(t => [t.id, t]));
+  const groupsById = new Map(data.groups.map(g => [g.id, g]));
+  return buildZip([
+    { name: 'imsmanifest.xml', content: buildQtiManifest(data.questions) },
+    ...data.questions.map(question => ({
+      name: `items/${getItemIdentifier(question)}.xml`,
+      content: buildQtiItem(
+        question,
+        topicsById.get(question.topicId),
+        question.groupId !== null ? groupsById.get(question.groupId) : undefined
+      ),
+    })),
+  ]);
+}
+
+/**
+ * Export the question bank, optionally narrowed to a topic, chapter or
+ * difficulty, as CSV, a JSON bundle or a QTI 2.1 content package
+ */
+export async function exportQuestions(format: ExportFormat, filters: ExportFilters): Promise<ExportFile> {
+  const data = await loadExportData(filters);
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  switch (format) {
+    case 'csv':
+      return {
+        filename: `questions-${stamp}.csv`,
+        contentType: 'text/csv; charset=utf-8',
+        body: buildCsv(data),
+      };
+    case 'json':
+      return {
+        filename: `questions-${stamp}.json`,
+        contentType: 'application/json; charset=utf-8',
+        body: buildJsonBundle(data),
+      };
+    case 'qti':
+      return {
+        filename: `questions-qti-${stamp}.zip`,
+        contentType: 'application/zip',
+        body: await buildQtiPackage(data),
+      };
+  }
+}
@@ -0,0 +1,148 @@
+import { storage } from './storage';
+import { createQuestionWithRevision, updateQuestionWithRevision } from './question-revisions';
+import { sanitizeRichContent } from './rich-content';
+import {
+  getCurriculumLevel,
+  type InsertQuestion,
+  type InsertQuestionGroup,
+  type Question,
+  type QuestionGroup
+} from '@shared/schema';
+
+// A question as edited within its item set. Topic, chapter, content format and
+// level come from the group, and the vignette replaces the per-question context.
+export type QuestionGroupChild = Omit<InsertQuestion, 'topicId' | 'chapterId' | 'context' | 'contentFormat' | 'level'> & {
+  id?: number;
+};
+
+export type QuestionGroupWithQuestions = QuestionGroup & {
+  questions: Question[];
+};
+
+export function sanitizeGroup(group: InsertQuestionGroup): InsertQuestionGroup {
+  if (group.contentFormat !== 'markdown') {
+    return group;
+  }
+  return {
+    ...group,
+    context: sanitizeRichContent(group.context),
+    exhibits: group.exhibits ? sanitizeRichContent(group.exhibits) : group.exhibits,
+  };
+}
+
+/**
+ * An item set with its questions in order
+ */
+export async function getQuestionGroupWithQuestions(id: number): Promise<QuestionGroupWithQuestions | undefined> {
+  const group = await storage.getQuestionGroup(id);
+  if (!group) return undefined;
+  return { ...group, questions: await storage.getQuestionsByGroup(id) };
+}
+
+/**
+ * Create or update an item set together with its questions, all in one
+ * transaction. Children are kept in the order given: ones with an id are
+ * edited (as a new revision), ones without are created, and any existing
+ * child left out is deleted.
+ */
+export async function saveQuestionGroup(
+  existing: QuestionGroup | null,
+  groupData: InsertQuestionGroup,
+  children: QuestionGroupChild[],
+  userId: number
+): Promise<QuestionGroupWithQuestions> {
+  if (children.length === 0) {
+    throw new Error('An item set needs at least one question');
+  }
+
+  const currentChildren = existing ? await storage.getQuestionsByGroup(existing.id) : [];
+  const currentById = new Map(currentChildren.map(q => [q.id, q]));
+  for (const child of children) {
+    if (child.id !== undefined && !currentById.has(child.id)) {
+      throw new Error(`Question ${child.id} is not part of this item set`);
+    }
+  }
+
+  return storage.transaction(async () => {
+    const cleanGroup = sanitizeGroup(groupData);
+    const group = existing
+      ? await storage.updateQuestionGroup(existing.id, cleanGroup)
+      : await storage.createQuestionGroup(cleanGroup);
+
+    const topic = await storage.getTopic(group.topicId);
+    const savedQuestions: Question[] = [];
+    for (let position = 0; position < children.length; position++) {
+      const { id, ...child } = children[position];
+      const content: InsertQuestion = {
+        ...child,
+        topicId: group.topicId,
+        chapterId: group.chapterId,
+        context: null,
+        contentFormat: group.contentFormat === 'markdown' ? 'markdown' : 'plain',
+        level: getCurriculumLevel(topic?.level),
+      };
+
+      const current = id !== undefined ? currentById.get(id) : undefined;
+      let question = current
+        ? await updateQuestionWithRevision(current, content, userId)
+        : await createQuestionWithRevision(content, userId);
+
+      if (question.groupId !== group.id || question.groupPosition !== position) {
+        question = await storage.updateQuestion(question.id, { groupId: group.id, groupPosition: position });
+      }
+      savedQuestions.push(question);
+    }
+
+    const keptIds = new Set(savedQuestions.map(q => q.id));
+    for (const removed of currentChildren.filter(q => !keptIds.has(q.id))) {
+      await storage.deleteQuestion(removed.id);
+    }
+
+    return { ...group, questions: savedQuestions };
+  });
+}
+
+/**
+ * Soft delete an item set and its questions
+ */
+export async function deleteQuestionGroup(group: QuestionGroup): Promise<void> {
+  await storage.transaction(async () => {
+    const children = await storage.getQuestionsByGroup(group.id);
+    for (const child of children) {
+      await storage.deleteQuestion(child.id);
+    }
+    await storage.updateQuestionGroup(group.id, { isDeleted: true });
+  });
+}
+
+/**
+ * Keep item sets together in a list of questions: the questions of a group
+ * are moved up to where the first of them appears, in group order. With
+ * `includeSiblings` the rest of each group is pulled in as well, so a
+ * vignette is never shown with only some of its questions.
+ */
+export async function clusterQuestionGroups(questions: Question[], includeSiblings: boolean): Promise<Question[]> {
+  const groupIds = Array.from(new Set(
+    questions.map(q => q.groupId).filter((id): id is number => id !== null)
+  ));
+  if (groupIds.length === 0) return questions;
+
+  const selectedIds = new Set(questions.map(q => q.id));
+  const groupMembers = new Map<number, Question[]>();
+  for (const groupId of groupIds) {
+    const members = await storage.getQuestionsByGroup(groupId);
+    groupMembers.set(groupId, includeSiblings ? members : members.filter(q => selectedIds.has(q.id)));
+  }
+
+  const clustered: Question[] = [];
+  const placedGroups = new Set<number>();
+  for (const question of questions) {
+    if (question.groupId === null) {
+      clustered.push(question);
+    } else if (!placedGroups.has(question.groupId)) {
+      placedGroups.add(question.groupId);
+      clustered.push(...(groupMembers.get(question.groupId) || [question]));
+    }
+  }
+  return clustered;
+}
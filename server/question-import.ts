@@ -0,0 +1,418 @@
+import { storage } from './storage';
+import { sanitizeQuestionContent } from './rich-content';
+import { sanitizeGroup } from './question-groups';
+import {
+  insertQuestionSchema,
+  CURRICULUM_LEVELS,
+  type Chapter,
+  type InsertQuestion,
+  type InsertQuestionGroup,
+  type Topic
+} from '@shared/schema';
+
+export type ImportFormat = 'csv' | 'json';
+
+export type ImportRowError = {
+  field: string;
+  message: string;
+};
+
+export type ImportRowResult = {
+  row: number;
+  status: 'valid' | 'invalid' | 'duplicate';
+  questionText: string;
+  topic: string;
+  chapter: string | null;
+  errors: ImportRowError[];
+};
+
+export type ImportReport = {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  duplicates: number;
+  imported: number;
+  rows: ImportRowResult[];
+};
+
+// Spreadsheet headers we accept for each question field, compared after
+// lower-casing and stripping anything that isn't a letter or digit
+const COLUMN_ALIASES: Record<string, string[]> = {
+  topic: ['topic', 'topicname', 'topicid'],
+  chapter: ['chapter', 'chaptername', 'chapterid'],
+  subtopic: ['subtopic'],
+  questionText: ['questiontext', 'question'],
+  context: ['context', 'vignette'],
+  optionA: ['optiona', 'a'],
+  optionB: ['optionb', 'b'],
+  optionC: ['optionc', 'c'],
+  optionD: ['optiond', 'd'],
+  correctOption: ['correctoption', 'correct', 'answer'],
+  explanation: ['explanation'],
+  difficulty: ['difficulty'],
+  contentFormat: ['contentformat', 'format'],
+  level: ['level', 'curriculumlevel'],
+  itemSet: ['itemset', 'set', 'group'],
+  itemSetTitle: ['itemsettitle', 'settitle', 'grouptitle'],
+  exhibits: ['exhibits', 'exhibit'],
+};
+
+const DIFFICULTY_NAMES: Record<string, number> = { easy: 1, medium: 2, hard: 3 };
+
+// Rows sharing an itemSet value, which are imported together or not at all
+type ItemSetRows = {
+  title?: string;
+  exhibits?: string;
+  rows: ImportRowResult[];
+  questions: InsertQuestion[];
+};
+
+/**
+ * Parse RFC 4180 CSV into records keyed by the header row. Handles quoted
+ * fields with embedded commas, newlines and doubled quotes.
+ */
+export function parseCsv(content: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmptyRows = rows.filter(r => r.some(value => value.trim() !== ''));
+  if (nonEmptyRows.length === 0) return [];
+
+  const [header, ...dataRows] = nonEmptyRows;
+  return dataRows.map(values =>
+    Object.fromEntries(header.map((column, index) => [column, values[index] ?? '']))
+  );
+}
+
+/**
+ * Turn an uploaded file into one record per question. Throws if the file
+ * can't be read at all; row-level problems are left to importQuestions.
+ */
+export function parseImportFile(format: ImportFormat, content: string): Record<string, unknown>[] {
+  if (format === 'csv') {
+    return parseCsv(content);
+  }
+
+  const parsed = JSON.parse(content);
+  const records = Array.isArray(parsed) ? parsed : parsed?.questions;
+  if (!Array.isArray(records)) {
+    throw new Error('JSON imports must be an array of questions or an object with a "questions" array');
+  }
+
+  // An exported bundle lists item sets separately; fill in each question's
+  // set title, vignette and exhibits from its set where the row leaves them out
+  const groups = new Map<string, Record<string, unknown>>();
+  if (!Array.isArray(parsed) && Array.isArray(parsed?.groups)) {
+    for (const group of parsed.groups) {
+      if (group && typeof group === 'object' && group.key) groups.set(String(group.key), group);
+    }
+  }
+
+  return records.map(record => {
+    if (!record || typeof record !== 'object') return {};
+    const group = record.itemSet ? groups.get(String(record.itemSet)) : undefined;
+    if (!group) return record;
+    return {
+      ...record,
+      itemSetTitle: record.itemSetTitle || group.title,
+      context: record.context || group.context,
+      exhibits: record.exhibits || group.exhibits,
+    };
+  });
+}
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Pick the question fields out of a record, whatever its headers are called
+function mapColumns(record: Record<string, unknown>): Record<string, string> {
+  const normalized = new Map(
+    Object.entries(record).map(([key, value]) => [normalizeKey(key), value])
+  );
+  const mapped: Record<string, string> = {};
+  for (const [field, aliases] of Object.entries(COLUMN_ALIASES)) {
+    const alias = aliases.find(a => normalized.has(a));
+    const value = alias ? normalized.get(alias) : undefined;
+    if (value !== undefined && value !== null && String(value).trim() !== '') {
+      mapped[field] = String(value).trim();
+    }
+  }
+  return mapped;
+}
+
+export function normalizeQuestionText(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// Topic names repeat across levels, so a name is matched within the row's level
+function resolveTopic(value: string | undefined, topics: Topic[], level: string | undefined): Topic | undefined {
+  if (!value) return undefined;
+  const byId = /^\d+$/.test(value) ? topics.find(t => t.id === parseInt(value)) : undefined;
+  return byId || topics.find(t => t.name.toLowerCase() === value.toLowerCase() && (!level || t.level === level));
+}
+
+function resolveChapter(value: string, topicId: number, chapters: Chapter[]): Chapter | undefined {
+  const topicChapters = chapters.filter(c => c.topicId === topicId);
+  const byId = /^\d+$/.test(value) ? topicChapters.find(c => c.id === parseInt(value)) : undefined;
+  return byId || topicChapters.find(c => c.name.toLowerCase() === value.toLowerCase());
+}
+
+// Accepts "Level II", "II" or "2"; anything else is left for validation to reject
+function parseLevel(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const numeral = value.trim().toUpperCase().replace(/^LEVEL\s*/, '').replace(/\s*CANDIDATE$/, '');
+  const index = Math.max(['I', 'II', 'III'].indexOf(numeral), ['1', '2', '3'].indexOf(numeral));
+  return index >= 0 ? CURRICULUM_LEVELS[index] : value;
+}
+
+function parseDifficulty(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const named = DIFFICULTY_NAMES[value.toLowerCase()];
+  return named ?? Number(value);
+}
+
+// Why an item set can't be imported, if it can't
+function getItemSetProblem(key: string, set: ItemSetRows): string | undefined {
+  if (set.rows.some(r => r.status !== 'valid')) {
+    return `Item set "${key}" has rows that can't be imported`;
+  }
+  const [first] = set.questions;
+  const mismatched = set.questions.some(q =>
+    q.topicId !== first.topicId ||
+    (q.chapterId ?? null) !== (first.chapterId ?? null) ||
+    (q.contentFormat ?? 'plain') !== (first.contentFormat ?? 'plain')
+  );
+  if (mismatched) {
+    return `Questions in item set "${key}" must share a topic, chapter and content format`;
+  }
+  if (!set.questions.some(q => q.context)) {
+    return `Item set "${key}" needs a vignette in the context column`;
+  }
+  return undefined;
+}
+
+// The item set itself, with the first row's context as the vignette
+function toItemSet(key: string, set: ItemSetRows): InsertQuestionGroup {
+  const [first] = set.questions;
+  return sanitizeGroup({
+    topicId: first.topicId,
+    chapterId: first.chapterId ?? null,
+    title: set.title ?? key,
+    context: set.questions.find(q => q.context)!.context!,
+    exhibits: set.exhibits ?? null,
+    contentFormat: first.contentFormat,
+  });
+}
+
+/**
+ * Validate an import file and, unless it's a dry run, insert every valid row
+ * in a single transaction. Invalid rows and duplicates of existing questions
+ * (or of earlier rows in the same file) are reported and skipped. Rows with
+ * the same itemSet become one item set, skipped whole if any row is.
+ */
+export async function importQuestions(
+  format: ImportFormat,
+  records: Record<string, unknown>[],
+  dryRun: boolean
+): Promise<ImportReport> {
+  const [topics, existingQuestions] = await Promise.all([
+    storage.getAllTopics(),
+    storage.getAllQuestions(),
+  ]);
+  const activeTopics = topics.filter(t => !t.isDeleted);
+  const chapters = (await Promise.all(activeTopics.map(t => storage.getChaptersByTopic(t.id))))
+    .flat()
+    .filter(c => !c.isDeleted);
+
+  const seenTexts = new Set(existingQuestions.map(q => normalizeQuestionText(q.questionText)));
+  const rows: ImportRowResult[] = [];
+  const validQuestions: InsertQuestion[] = [];
+  const itemSets = new Map<string, ItemSetRows>();
+
+  records.forEach((record, index) => {
+    const fields = mapColumns(record);
+    // Row numbers match the spreadsheet, where row 1 is the header
+    const row = format === 'csv' ? index + 2 : index + 1;
+    const errors: ImportRowError[] = [];
+
+    const level = parseLevel(fields.level);
+    const topic = resolveTopic(fields.topic, activeTopics, level);
+    if (!topic) {
+      errors.push({
+        field: 'topic',
+        message: fields.topic ? `Unknown topic "${fields.topic}"` : 'Topic is required',
+      });
+    }
+
+    let chapterId: number | null = null;
+    if (fields.chapter && topic) {
+      const chapter = resolveChapter(fields.chapter, topic.id, chapters);
+      if (chapter) {
+        chapterId = chapter.id;
+      } else {
+        errors.push({ field: 'chapter', message: `Unknown chapter "${fields.chapter}" in ${topic.name}` });
+      }
+    }
+
+    const result = insertQuestionSchema.safeParse({
+      topicId: topic?.id ?? 0,
+      chapterId,
+      subtopic: fields.subtopic ?? null,
+      questionText: fields.questionText,
+      context: fields.context ?? null,
+      optionA: fields.optionA,
+      optionB: fields.optionB,
+      optionC: fields.optionC,
+      optionD: fields.optionD,
+      correctOption: fields.correctOption?.toUpperCase(),
+      explanation: fields.explanation,
+      difficulty: parseDifficulty(fields.difficulty),
+      contentFormat: fields.contentFormat?.toLowerCase(),
+      level: level ?? topic?.level,
+    });
+
+    if (!result.success) {
+      for (const issue of result.error.errors) {
+        errors.push({ field: issue.path.join('.') || 'row', message: issue.message });
+      }
+    } else {
+      const question = result.data;
+      const allowedOptions = question.optionD ? ['A', 'B', 'C', 'D'] : ['A', 'B', 'C'];
+      if (!allowedOptions.includes(question.correctOption)) {
+        errors.push({
+          field: 'correctOption',
+          message: `Correct option must be one of ${allowedOptions.join(', ')}`,
+        });
+      }
+      if (question.difficulty !== undefined && ![1, 2, 3].includes(question.difficulty)) {
+        errors.push({ field: 'difficulty', message: 'Difficulty must be 1-3 or easy, medium, hard' });
+      }
+    }
+
+    const summary = {
+      row,
+      questionText: fields.questionText ?? '',
+      topic: topic?.name ?? fields.topic ?? '',
+      chapter: fields.chapter ?? null,
+    };
+
+    let itemSet: ItemSetRows | undefined;
+    if (fields.itemSet) {
+      itemSet = itemSets.get(fields.itemSet);
+      if (!itemSet) {
+        itemSet = { rows: [], questions: [] };
+        itemSets.set(fields.itemSet, itemSet);
+      }
+      itemSet.title = itemSet.title ?? fields.itemSetTitle;
+      itemSet.exhibits = itemSet.exhibits ?? fields.exhibits;
+    }
+
+    let rowResult: ImportRowResult;
+    const textKey = result.success ? normalizeQuestionText(result.data.questionText) : '';
+    if (errors.length > 0 || !result.success) {
+      rowResult = { ...summary, status: 'invalid', errors };
+    } else if (seenTexts.has(textKey)) {
+      rowResult = {
+        ...summary,
+        status: 'duplicate',
+        errors: [{ field: 'questionText', message: 'A question with this text already exists' }],
+      };
+    } else {
+      seenTexts.add(textKey);
+      rowResult = { ...summary, status: 'valid', errors: [] };
+      const question = sanitizeQuestionContent(result.data);
+      if (itemSet) {
+        itemSet.questions.push(question);
+      } else {
+        validQuestions.push(question);
+      }
+    }
+
+    rows.push(rowResult);
+    itemSet?.rows.push(rowResult);
+  });
+
+  const validItemSets: { group: InsertQuestionGroup; questions: InsertQuestion[] }[] = [];
+  for (const [key, set] of Array.from(itemSets.entries())) {
+    const problem = getItemSetProblem(key, set);
+    if (problem) {
+      for (const rowResult of set.rows.filter(r => r.status === 'valid')) {
+        rowResult.status = 'invalid';
+        rowResult.errors.push({ field: 'itemSet', message: problem });
+      }
+      continue;
+    }
+    // The vignette lives on the item set, not on each question
+    validItemSets.push({
+      group: toItemSet(key, set),
+      questions: set.questions.map(q => ({ ...q, context: null })),
+    });
+  }
+
+  const validCount = validQuestions.length +
+    validItemSets.reduce((sum, set) => sum + set.questions.length, 0);
+
+  let imported = 0;
+  if (!dryRun && validCount > 0) {
+    imported = await storage.transaction(async () => {
+      const created = await storage.createQuestions(validQuestions);
+      let count = created.length;
+      for (const { group, questions } of validItemSets) {
+        const createdGroup = await storage.createQuestionGroup(group);
+        const children = await storage.createQuestions(questions);
+        for (let position = 0; position < children.length; position++) {
+          await storage.updateQuestion(children[position].id, { groupId: createdGroup.id, groupPosition: position });
+        }
+        count += children.length;
+      }
+      return count;
+    });
+  }
+
+  return {
+    dryRun,
+    total: rows.length,
+    valid: validCount,
+    invalid: rows.filter(r => r.status === 'invalid').length,
+    duplicates: rows.filter(r => r.status === 'duplicate').length,
+    imported,
+    rows,
+  };
+}
@@ -0,0 +1,169 @@
+import { storage } from './storage';
+import { sanitizeQuestionContent } from './rich-content';
+import type { ContentFormat, CurriculumLevel, InsertQuestion, Question, QuestionRevision } from '@shared/schema';
+
+// Question fields that make up its content; anything else isn't versioned
+const REVISION_FIELDS = [
+  'topicId', 'chapterId', 'subtopic', 'questionText', 'context',
+  'optionA', 'optionB', 'optionC', 'optionD', 'correctOption', 'explanation', 'difficulty',
+  'contentFormat', 'level',
+] as const;
+
+type RevisionField = typeof REVISION_FIELDS[number];
+
+function snapshotQuestion(question: Question): InsertQuestion {
+  return {
+    topicId: question.topicId,
+    chapterId: question.chapterId,
+    subtopic: question.subtopic,
+    questionText: question.questionText,
+    context: question.context,
+    optionA: question.optionA,
+    optionB: question.optionB,
+    optionC: question.optionC,
+    optionD: question.optionD ?? undefined,
+    correctOption: question.correctOption,
+    explanation: question.explanation,
+    difficulty: question.difficulty,
+    contentFormat: question.contentFormat as ContentFormat,
+    level: question.level as CurriculumLevel,
+  };
+}
+
+// Treat null, undefined and "" alike so clearing an empty field isn't a change
+function normalizeValue(value: unknown) {
+  return value === undefined || value === null || value === '' ? null : value;
+}
+
+function getChangedFields(before: InsertQuestion, after: InsertQuestion): RevisionField[] {
+  return REVISION_FIELDS.filter(field => normalizeValue(before[field]) !== normalizeValue(after[field]));
+}
+
+/**
+ * Questions created before versioning (or by bulk import) have no history.
+ * Record their current content as the first revision before it is changed.
+ */
+async function ensureBaselineRevision(question: Question): Promise<void> {
+  const existing = await storage.getQuestionRevision(question.id, question.currentRevision);
+  if (existing) return;
+
+  await storage.createQuestionRevision({
+    questionId: question.id,
+    revision: question.currentRevision,
+    snapshot: snapshotQuestion(question),
+    changedFields: [],
+    changeType: 'create',
+    changedBy: null,
+  });
+}
+
+/**
+ * Create a question and record it as revision 1
+ */
+export async function createQuestionWithRevision(data: InsertQuestion, userId: number): Promise<Question> {
+  const question = await storage.createQuestion(sanitizeQuestionContent(data));
+  await storage.createQuestionRevision({
+    questionId: question.id,
+    revision: question.currentRevision,
+    snapshot: snapshotQuestion(question),
+    changedFields: [],
+    changeType: 'create',
+    changedBy: userId,
+  });
+  return question;
+}
+
+async function applyRevision(
+  question: Question,
+  content: InsertQuestion,
+  userId: number,
+  restoredFromRevision: number | null
+): Promise<Question> {
+  content = sanitizeQuestionContent(content);
+
+  const changedFields = getChangedFields(snapshotQuestion(question), content);
+  if (changedFields.length === 0) {
+    return question;
+  }
+
+  // The question and its revision row are saved together, numbered by the update
+  return storage.transaction(async () => {
+    await ensureBaselineRevision(question);
+    const updated = await storage.reviseQuestion(question.id, {
+      ...content,
+      optionD: content.optionD ?? null,
+    });
+
+    await storage.createQuestionRevision({
+      questionId: question.id,
+      revision: updated.currentRevision,
+      snapshot: snapshotQuestion(updated),
+      changedFields,
+      changeType: restoredFromRevision ? 'restore' : 'update',
+      restoredFromRevision,
+      changedBy: userId,
+    });
+
+    return updated;
+  });
+}
+
+/**
+ * Apply an edit as a new revision. Fields not in the edit keep their value;
+ * an edit that changes nothing leaves the revision number alone.
+ */
+export async function updateQuestionWithRevision(
+  question: Question,
+  changes: Partial<InsertQuestion>,
+  userId: number
+): Promise<Question> {
+  return applyRevision(question, { ...snapshotQuestion(question), ...changes }, userId, null);
+}
+
+/**
+ * Roll a question back to an earlier revision's content. The restore is
+ * itself a new revision, so history is never rewritten.
+ */
+export async function restoreQuestionRevision(
+  question: Question,
+  revision: number,
+  userId: number
+): Promise<Question> {
+  const target = await storage.getQuestionRevision(question.id, revision);
+  if (!target) {
+    throw new Error(`Revision ${revision} not found for this question`);
+  }
+  if (revision === question.currentRevision) {
+    throw new Error('This revision is already the current version');
+  }
+
+  // Revisions recorded before rich content existed were all plain text, and
+  // ones from before curriculum levels keep the question's current level
+  const content = { contentFormat: 'plain' as const, level: question.level as CurriculumLevel, ...target.snapshot };
+  return applyRevision(question, content, userId, revision);
+}
+
+export type QuestionHistoryEntry = QuestionRevision & {
+  changedByName: string | null;
+  isCurrent: boolean;
+};
+
+/**
+ * A question's revisions, newest first, with the author's name for display
+ */
+export async function getQuestionHistory(question: Question): Promise<QuestionHistoryEntry[]> {
+  await ensureBaselineRevision(question);
+  const revisions = await storage.getQuestionRevisions(question.id);
+
+  const authorIds = Array.from(new Set(revisions.map(r => r.changedBy).filter((id): id is number => id !== null)));
+  const authors = await Promise.all(authorIds.map(id => storage.getUser(id)));
+  const namesById = new Map(
+    authors.filter((user): user is NonNullable<typeof user> => !!user).map(user => [user.id, user.username])
+  );
+
+  return revisions.map(revision => ({
+    ...revision,
+    changedByName: revision.changedBy ? namesById.get(revision.changedBy) ?? null : null,
+    isCurrent: revision.revision === question.currentRevision,
+  }));
+}
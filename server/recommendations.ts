@@ -0,0 +1,261 @@
+import { storage } from './storage';
+import { getCurriculumLevel, type Question, type UserAnswer, type UserProgress } from '@shared/schema';
+
+// How many recommendations the dashboard shows
+const DEFAULT_LIMIT = 3;
+// Below this many questions answered a topic's accuracy is too noisy to call it weak
+const MIN_ATTEMPTS_FOR_ACCURACY = 5;
+// Days without practice after which a topic counts as fully stale
+const STALE_AFTER_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Relative weight of each signal in the final score
+const WEIGHTS = {
+  weakness: 0.4,
+  unseen: 0.25,
+  recency: 0.2,
+  difficultyFit: 0.15,
+};
+// Small nudge for sets an admin has flagged as recommended
+const CURATED_BONUS = 0.05;
+
+export type RecommendationType = 'practice_set' | 'chapter';
+
+export type Recommendation = {
+  type: RecommendationType;
+  id: number;
+  name: string;
+  topicId: number;
+  topicName: string;
+  chapterId: number | null;
+  questionCount: number;
+  estimatedTime: number;
+  difficulty: number | null;
+  status: string | null;
+  score: number;
+  reason: string;
+};
+
+type TopicSignals = {
+  topicName: string;
+  accuracy: number | null;
+  attempted: number;
+  daysSincePractice: number | null;
+};
+
+type Candidate = Omit<Recommendation, 'score' | 'reason'> & {
+  questions: Question[];
+  isCurated: boolean;
+};
+
+// Map a topic accuracy to the difficulty (1-3) the user should be working at
+function targetDifficulty(accuracy: number | null): number {
+  if (accuracy === null || accuracy < 0.5) return 1;
+  if (accuracy < 0.75) return 2;
+  return 3;
+}
+
+function getTopicSignals(
+  topicId: number,
+  topicName: string,
+  progressByTopic: Map<number, UserProgress>,
+  lastPracticedByTopic: Map<number, Date>,
+  now: Date
+): TopicSignals {
+  const progress = progressByTopic.get(topicId);
+  // Judge the topic on where each question stands now, not on every retry
+  const attempted = progress?.questionsSeen ?? 0;
+  const lastPracticed = lastPracticedByTopic.get(topicId);
+
+  return {
+    topicName,
+    attempted,
+    accuracy: attempted >= MIN_ATTEMPTS_FOR_ACCURACY && progress
+      ? progress.latestCorrect / attempted
+      : null,
+    daysSincePractice: lastPracticed
+      ? Math.floor((now.getTime() - lastPracticed.getTime()) / DAY_MS)
+      : null,
+  };
+}
+
+/**
+ * Score a candidate between 0 and 1 and explain the strongest reason behind
+ * it in a sentence the dashboard can show as-is
+ */
+function scoreCandidate(
+  candidate: Candidate,
+  signals: TopicSignals,
+  answeredQuestionIds: Set<number>
+): { score: number; reason: string } {
+  const unseenCount = candidate.questions.filter(q => !answeredQuestionIds.has(q.id)).length;
+  const unseenShare = candidate.questions.length > 0 ? unseenCount / candidate.questions.length : 0;
+
+  // Untried topics sit in the middle so they compete with genuinely weak ones
+  const weakness = signals.accuracy === null ? 0.5 : 1 - signals.accuracy;
+  const recency = signals.daysSincePractice === null
+    ? 1
+    : Math.min(signals.daysSincePractice / STALE_AFTER_DAYS, 1);
+
+  const target = targetDifficulty(signals.accuracy);
+  const difficulty = candidate.difficulty ?? averageDifficulty(candidate.questions);
+  const difficultyFit = 1 - Math.abs(difficulty - target) / 2;
+
+  const contributions = {
+    weakness: weakness * WEIGHTS.weakness,
+    unseen: unseenShare * WEIGHTS.unseen,
+    recency: recency * WEIGHTS.recency,
+    difficultyFit: difficultyFit * WEIGHTS.difficultyFit,
+  };
+  const score = contributions.weakness + contributions.unseen + contributions.recency +
+    contributions.difficultyFit + (candidate.isCurated ? CURATED_BONUS : 0);
+
+  const strongest = (Object.keys(contributions) as (keyof typeof contributions)[])
+    .reduce((best, key) => contributions[key] > contributions[best] ? key : best);
+
+  let reason: string;
+  if (signals.attempted === 0) {
+    reason = `You haven't started ${signals.topicName} yet`;
+  } else if (strongest === 'weakness' && signals.accuracy !== null) {
+    reason = `Your accuracy in ${signals.topicName} is ${Math.round(signals.accuracy * 100)}%`;
+  } else if (strongest === 'recency' && signals.daysSincePractice !== null && signals.daysSincePractice > 0) {
+    reason = `You haven't practised ${signals.topicName} in ${signals.daysSincePractice} days`;
+  } else if (strongest === 'unseen' && unseenCount > 0) {
+    reason = `${unseenCount} question${unseenCount === 1 ? '' : 's'} you haven't seen yet`;
+  } else {
+    reason = `Matches your current level in ${signals.topicName}`;
+  }
+
+  return { score: Math.round(score * 1000) / 1000, reason };
+}
+
+function averageDifficulty(questions: Question[]): number {
+  if (questions.length === 0) return 1;
+  return questions.reduce((sum, q) => sum + q.difficulty, 0) / questions.length;
+}
+
+// Latest answer date per topic, used for the recency signal
+function getLastPracticedByTopic(answers: UserAnswer[], questionsById: Map<number, Question>): Map<number, Date> {
+  const lastPracticed = new Map<number, Date>();
+  for (const answer of answers) {
+    const question = questionsById.get(answer.questionId);
+    if (!question) continue;
+    const previous = lastPracticed.get(question.topicId);
+    if (!previous || answer.answeredAt > previous) {
+      lastPracticed.set(question.topicId, answer.answeredAt);
+    }
+  }
+  return lastPracticed;
+}
+
+/**
+ * Rank practice sets and chapters for a user by how weak they are in the
+ * topic, how long since they last practised it, how well the difficulty fits
+ * their level and how many questions they haven't seen. Only content from the
+ * user's curriculum level is considered.
+ */
+export async function getRecommendedPracticeSets(
+  userId: number,
+  limit: number = DEFAULT_LIMIT
+): Promise<Recommendation[]> {
+  const now = new Date();
+  const user = await storage.getUser(userId);
+  const level = getCurriculumLevel(user?.level);
+  const [topics, progress, answers, allQuestions, practiceSets] = await Promise.all([
+    storage.getAllTopics(level),
+    storage.getUserProgress(userId),
+    storage.getUserAnswers(userId),
+    storage.getAllQuestions(),
+    storage.getPracticeSets(undefined, level),
+  ]);
+
+  const activeTopics = topics.filter(t => !t.isDeleted);
+  const topicsById = new Map(activeTopics.map(t => [t.id, t]));
+  const questionsById = new Map(allQuestions.map(q => [q.id, q]));
+  const progressByTopic = new Map(progress.filter(p => !p.isDeleted).map(p => [p.topicId, p]));
+  const lastPracticedByTopic = getLastPracticedByTopic(answers, questionsById);
+  const answeredQuestionIds = new Set(answers.map(a => a.questionId));
+
+  const candidates: Candidate[] = [];
+
+  for (const practiceSet of practiceSets) {
+    const topic = topicsById.get(practiceSet.topicId);
+    if (practiceSet.isDeleted || !topic) continue;
+
+    // An empty set would start an empty session, so leave it out
+    const setQuestions = await storage.getPracticeSetQuestions(practiceSet.id);
+    if (setQuestions.length === 0) continue;
+
+    candidates.push({
+      type: 'practice_set',
+      id: practiceSet.id,
+      name: practiceSet.name,
+      topicId: topic.id,
+      topicName: topic.name,
+      chapterId: null,
+      questionCount: setQuestions.length,
+      estimatedTime: practiceSet.estimatedTime,
+      difficulty: practiceSet.difficulty,
+      status: practiceSet.status,
+      questions: setQuestions,
+      isCurated: !!practiceSet.isRecommended,
+    });
+  }
+
+  for (const topic of activeTopics) {
+    const chapters = await storage.getChaptersByTopic(topic.id);
+    for (const chapter of chapters) {
+      if (chapter.isDeleted || chapter.level !== level) continue;
+      const chapterQuestions = allQuestions.filter(q => q.chapterId === chapter.id && q.level === level);
+      if (chapterQuestions.length === 0) continue;
+
+      candidates.push({
+        type: 'chapter',
+        id: chapter.id,
+        name: chapter.name,
+        topicId: topic.id,
+        topicName: topic.name,
+        chapterId: chapter.id,
+        questionCount: chapterQuestions.length,
+        // Roughly 1.5 minutes per question, the exam's pace
+        estimatedTime: Math.ceil(chapterQuestions.length * 1.5),
+        difficulty: null,
+        status: null,
+        questions: chapterQuestions,
+        isCurated: false,
+      });
+    }
+  }
+
+  const ranked = candidates.map(({ questions, isCurated, ...candidate }) => {
+    const signals = getTopicSignals(
+      candidate.topicId,
+      candidate.topicName,
+      progressByTopic,
+      lastPracticedByTopic,
+      now
+    );
+    return {
+      ...candidate,
+      ...scoreCandidate({ ...candidate, questions, isCurated }, signals, answeredQuestionIds),
+    };
+  });
+
+  ranked.sort((a, b) => b.score - a.score);
+
+  // Spread picks across topics before doubling up on any one of them
+  const picks: Recommendation[] = [];
+  const pickedTopics = new Set<number>();
+  for (const recommendation of ranked) {
+    if (picks.length >= limit) break;
+    if (pickedTopics.has(recommendation.topicId)) continue;
+    picks.push(recommendation);
+    pickedTopics.add(recommendation.topicId);
+  }
+  for (const recommendation of ranked) {
+    if (picks.length >= limit) break;
+    if (!picks.includes(recommendation)) picks.push(recommendation);
+  }
+
+  return picks;
+}
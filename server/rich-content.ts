@@ -0,0 +1,108 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { InsertQuestion } from '@shared/schema';
+
+// Uploaded question images live on local disk and are served from /uploads
+export const UPLOAD_DIR = path.resolve(process.cwd(), 'uploads');
+export const QUESTION_IMAGE_URL_PREFIX = '/uploads/questions/';
+
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Identify images by their leading bytes rather than trusting the Content-Type.
+// SVG is deliberately absent: it can carry script.
+const IMAGE_SIGNATURES: { extension: string; matches: (data: Buffer) => boolean }[] = [
+  { extension: 'png', matches: data => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { extension: 'jpg', matches: data => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff },
+  { extension: 'gif', matches: data => data.subarray(0, 6).toString('ascii') === 'GIF87a' || data.subarray(0, 6).toString('ascii') === 'GIF89a' },
+  { extension: 'webp', matches: data => data.subarray(0, 4).toString('ascii') === 'RIFF' && data.subarray(8, 12).toString('ascii') === 'WEBP' },
+];
+
+// Fields of a question that hold rich content
+const CONTENT_FIELDS = ['questionText', 'context', 'optionA', 'optionB', 'optionC', 'optionD', 'explanation'] as const;
+
+// Well-formed HTML tags and comments. Loose comparisons such as $x<y$ don't
+// match because what follows the name isn't attribute syntax.
+const HTML_TAG = /<\/?[a-z][a-z0-9-]*(\s+[a-z_:][\w:.-]*(\s*=\s*("[^"]*"|'[^']*'|[^\s"'<>`=]+))?)*\s*\/?>/gi;
+const HTML_COMMENT = /<!--[\s\S]*?(-->|$)/g;
+
+// Markdown links and images: [text](url "title") / ![alt](url)
+const MARKDOWN_LINK = /(!?)\[([^\]]*)\]\(\s*<?((?:[^\s()<>]|\([^\s()]*\))*)>?(\s+("[^"]*"|'[^']*'))?\s*\)/g;
+// Reference definitions: [id]: url
+const MARKDOWN_REFERENCE = /^( {0,3}\[[^\]]+\]:\s*)(\S+)(.*)$/gm;
+
+function isSafeLinkUrl(url: string): boolean {
+  if (!/^[a-z][a-z0-9+.-]*:/i.test(url)) {
+    // Relative links and anchors
+    return !url.startsWith('//');
+  }
+  return /^(https?|mailto):/i.test(url);
+}
+
+function isSafeImageUrl(url: string): boolean {
+  return url.startsWith(QUESTION_IMAGE_URL_PREFIX) || /^https:\/\//i.test(url);
+}
+
+/**
+ * Clean a Markdown + LaTeX source before it is stored. Raw HTML is removed
+ * and links or images pointing anywhere unsafe are reduced to their text, so
+ * every consumer (the app, exports) gets content that is safe to render.
+ */
+export function sanitizeRichContent(source: string): string {
+  return source
+    .replace(/\u0000/g, '')
+    .replace(HTML_COMMENT, '')
+    .replace(HTML_TAG, '')
+    .replace(MARKDOWN_LINK, (match, bang: string, text: string, url: string) => {
+      const safe = bang ? isSafeImageUrl(url) : isSafeLinkUrl(url);
+      return safe ? match : text;
+    })
+    .replace(MARKDOWN_REFERENCE, (match, _label: string, url: string) => {
+      const cleanUrl = url.replace(/^<|>$/g, '');
+      return isSafeLinkUrl(cleanUrl) ? match : '';
+    });
+}
+
+/**
+ * Sanitise the content fields of a question written in Markdown. Plain text
+ * questions are always rendered as text, so they are left untouched.
+ */
+export function sanitizeQuestionContent<T extends Partial<InsertQuestion>>(question: T): T {
+  if (question.contentFormat !== 'markdown') {
+    return question;
+  }
+
+  const sanitized = { ...question };
+  for (const field of CONTENT_FIELDS) {
+    const value = sanitized[field];
+    if (typeof value === 'string') {
+      (sanitized as Partial<InsertQuestion>)[field] = sanitizeRichContent(value);
+    }
+  }
+  return sanitized;
+}
+
+/**
+ * Store an uploaded question image and return the URL to embed in content
+ */
+export async function saveQuestionImage(data: Buffer): Promise<string> {
+  if (data.length === 0) {
+    throw new Error('The uploaded file is empty');
+  }
+  if (data.length > MAX_IMAGE_BYTES) {
+    throw new Error('Images must be 5 MB or smaller');
+  }
+
+  const signature = IMAGE_SIGNATURES.find(candidate => candidate.matches(data));
+  if (!signature) {
+    throw new Error('Only PNG, JPEG, GIF and WebP images are supported');
+  }
+
+  const directory = path.join(UPLOAD_DIR, 'questions');
+  await fs.mkdir(directory, { recursive: true });
+
+  const filename = `${Date.now()}-${randomBytes(8).toString('hex')}.${signature.extension}`;
+  await fs.writeFile(path.join(directory, filename), data);
+
+  return `${QUESTION_IMAGE_URL_PREFIX}${filename}`;
+}
@@ -1,45 +1,117 @@
-import type { Express, Request, Response, NextFunction } from "express";
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { db } from "./db";
 import { 
   insertUserSchema,
-  insertUserAnswerSchema,
   insertUserProgressSchema,
   insertUserActivitySchema,
   insertPracticeSetSchema,
   insertQuestionSchema,
   insertTopicSchema,
   insertChapterSchema,
-  userAnswers,
+  insertMockExamSchema,
+  insertQuestionGroupSchema,
+  insertLearningOutcomeSchema,
+  practiceSessionOptionsSchema,
+  QUESTION_REPORT_CATEGORIES,
+  EMAIL_DELIVERY_STATUSES,
+  type EmailDeliveryStatus,
+  type EmailDeliverySummary,
+  USER_LEVELS,
+  getCurriculumLevel,
+  type CurriculumLevel,
   users,
   userActivity
 } from "@shared/schema";
 import { z } from "zod";
 import { setupAuth, hashPassword, comparePasswords } from "./auth";
 import { sendPasswordResetEmail, sendContactFormEmail } from "./email";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, desc } from "drizzle-orm";
 import { 
   createSubscriptionOrder, 
   verifyPaymentSignature, 
   SUBSCRIPTION_PLANS,
   requirePremium 
 } from "./razorpay";
+import {
+  assembleMockExamPaper,
+  startSession,
+  submitMockExamSession,
+  enforceSessionDeadline,
+  getMockExamAttemptView
+} from "./mock-exams";
+import { getDueReviewQuestions } from "./spaced-repetition";
+import { autoFillPracticeSet } from "./practice-sets";
+import { getRecommendedPracticeSets } from "./recommendations";
+import { importQuestions, parseImportFile } from "./question-import";
+import { exportQuestions } from "./question-export";
+import { saveQuestionImage, MAX_IMAGE_BYTES, UPLOAD_DIR } from "./rich-content";
+import { getItemStatistics } from "./item-analysis";
+import {
+  createQuestionWithRevision,
+  updateQuestionWithRevision,
+  restoreQuestionRevision,
+  getQuestionHistory
+} from "./question-revisions";
+import {
+  recordAnswer,
+  startOrResumePracticeSession,
+  recordSessionAnswer,
+  finishPracticeSession,
+  getPracticeSessionView,
+  nextAdaptiveQuestion,
+  hasQuestionsLeft,
+  getSessionLength,
+  recordSessionGroupAnswers
+} from "./practice-sessions";
+import { findMatchingQuestions } from "./session-builder";
+import { getBookmarkedQuestions, getQuestionAnnotations } from "./question-bookmarks";
+import { getMistakes } from "./mistake-notebook";
+import { getProgressMetrics } from "./progress-metrics";
+import { getCurrentStreak, getStreakSummary, isValidTimezone } from "./study-streaks";
+import { getBadgeGallery } from "./badges";
+import {
+  getNotificationPreferences,
+  notifyReportResolved
+} from "./notifications";
+import { getJobStatuses, runJob } from "./job-scheduler";
+import { clampTimeSpent, getAnswerFeedback, gradeOption, hideAnswer } from "./answer-grading";
+import {
+  getQuestionGroupWithQuestions,
+  saveQuestionGroup,
+  deleteQuestionGroup
+} from "./question-groups";
+import {
+  getCoverageReport,
+  getLearningOutcomeMastery,
+  tagQuestionLearningOutcomes,
+  DEFAULT_COVERAGE_THRESHOLD
+} from "./learning-outcomes";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes
   setupAuth(app);
+
+  // Images embedded in question content
+  app.use("/uploads", express.static(UPLOAD_DIR, {
+    index: false,
+    setHeaders: (res) => res.setHeader("X-Content-Type-Options", "nosniff"),
+  }));
   
   // Define validation schemas
   const updateProfileSchema = z.object({
     username: z.string().min(3).max(50).optional(),
     email: z.string().email().optional(),
+    level: z.enum(USER_LEVELS).optional(),
+    timezone: z.string().refine(isValidTimezone, "Unknown timezone").optional(),
   });
   
   const updateNotificationsSchema = z.object({
     practiceReminders: z.boolean().optional(),
     newContentAlerts: z.boolean().optional(),
     progressUpdates: z.boolean().optional(),
+    accountAlerts: z.boolean().optional(),
   });
   
   const changePasswordSchema = z.object({
@@ -51,6 +123,117 @@ export async function registerRoutes(app: Express): Promise<Server> {
     subject: z.string().min(5).max(100),
     message: z.string().min(10),
   });
+  
+  const mockExamAnswerSchema = z.object({
+    questionId: z.number().int(),
+    userOption: z.enum(["A", "B", "C", "D"]).nullable().optional(),
+    flagged: z.boolean().optional(),
+  });
+
+  const startPracticeSessionSchema = z.object({
+    mode: z.enum(["topic", "chapter", "review", "set", "adaptive", "bookmarks", "mistakes"]),
+    topicId: z.number().int().nullable().optional(),
+    chapterId: z.number().int().nullable().optional(),
+    practiceSetId: z.number().int().nullable().optional(),
+    sessionId: z.number().int().optional(),
+    options: practiceSessionOptionsSchema
+      .refine(options => !(options.unseenOnly && options.incorrectOnly), {
+        message: "Choose either unseen or previously incorrect questions, not both",
+      })
+      .optional(),
+    mistakeFilters: z.object({
+      from: z.coerce.date().optional(),
+      to: z.coerce.date().optional(),
+      unresolvedOnly: z.boolean().optional(),
+    }).optional(),
+  });
+  
+  const sessionPreviewSchema = z.object({
+    topicId: z.number().int(),
+    options: practiceSessionOptionsSchema.omit({ count: true }),
+  });
+  
+  // Answers carry only the option picked; the server grades them
+  const answerSubmissionSchema = z.object({
+    questionId: z.number().int(),
+    userOption: z.enum(["A", "B", "C", "D"]),
+    timeSpent: z.number().int().min(0),
+  });
+
+  const practiceSessionGroupAnswersSchema = z.object({
+    answers: z.array(answerSubmissionSchema).min(1),
+  });
+
+  const practiceSetQuestionsSchema = z.object({
+    questionIds: z.array(z.number().int()).max(200),
+  });
+  
+  const autoFillPracticeSetSchema = z.object({
+    topicId: z.number().int().optional(),
+    chapterId: z.number().int().nullable().optional(),
+    difficulty: z.number().int().min(1).max(3).nullable().optional(),
+    count: z.number().int().min(1).max(200).optional(),
+  });
+
+  // The edit form sends optionD as null for three-option questions
+  const updateQuestionSchema = insertQuestionSchema.partial().extend({
+    optionD: z.string().nullish().transform(value => value ?? undefined),
+  });
+
+  // An item set and its questions, saved together
+  const saveQuestionGroupSchema = insertQuestionGroupSchema.extend({
+    questions: z.array(
+      insertQuestionSchema
+        .omit({ topicId: true, chapterId: true, context: true, contentFormat: true, level: true })
+        .extend({
+          id: z.number().int().optional(),
+          optionD: z.string().nullish().transform(value => value ?? undefined),
+        })
+    ).min(1).max(20),
+  });
+
+  const mistakeFiltersSchema = z.object({
+    topic: z.coerce.number().int().optional(),
+    chapter: z.coerce.number().int().optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    unresolved: z.enum(["true", "false"]).optional(),
+  });
+
+  const questionNoteSchema = z.object({
+    content: z.string().trim().min(1).max(5000),
+  });
+
+  const questionLearningOutcomesSchema = z.object({
+    learningOutcomeIds: z.array(z.number().int()).max(20),
+  });
+
+  const coverageReportSchema = z.object({
+    threshold: z.coerce.number().int().min(1).max(50).default(DEFAULT_COVERAGE_THRESHOLD),
+  });
+
+  const createQuestionReportSchema = z.object({
+    category: z.enum(QUESTION_REPORT_CATEGORIES),
+    message: z.string().max(2000).optional(),
+  });
+  
+  const updateQuestionReportSchema = z.object({
+    status: z.enum(["open", "resolved", "rejected"]),
+    resolutionNote: z.string().max(2000).nullable().optional(),
+  });
+
+  const exportQuestionsSchema = z.object({
+    format: z.enum(["csv", "json", "qti"]).default("csv"),
+    topic: z.coerce.number().int().optional(),
+    chapter: z.coerce.number().int().optional(),
+    difficulty: z.coerce.number().int().min(1).max(3).optional(),
+  });
+
+  const importQuestionsSchema = z.object({
+    format: z.enum(["csv", "json"]),
+    content: z.string().min(1),
+    dryRun: z.boolean().default(true),
+  });
 
   // Middleware to check if user is admin
   const isAdmin = (req: Request, res: Response, next: NextFunction) => {
@@ -64,6 +247,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     next();
   };
+
+  // Curriculum level study content is filtered by: the signed-in student's
+  // level. Admins manage content for every level, so nothing is filtered.
+  const getActiveLevel = (req: Request): CurriculumLevel | undefined => {
+    if (!req.isAuthenticated() || req.user.role === 'admin') {
+      return undefined;
+    }
+    return getCurriculumLevel(req.user.level);
+  };
+
+  // Content created without a level takes the level of its topic
+  const withTopicLevel = async <T extends { topicId: number; level?: CurriculumLevel }>(data: T): Promise<T> => {
+    if (data.level) return data;
+    const topic = await storage.getTopic(data.topicId);
+    return { ...data, level: getCurriculumLevel(topic?.level) };
+  };
   
   // GET /api/user - Get current authenticated user info
   app.get("/api/user", async (req, res) => {
@@ -83,9 +282,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(userWithoutPassword);
   });
 
-  // GET /api/topics - Get all topics
+  // GET /api/topics - Get all topics for the user's curriculum level
   app.get("/api/topics", async (req, res) => {
-    const topics = await storage.getAllTopics();
+    const topics = await storage.getAllTopics(getActiveLevel(req));
     res.json(topics);
   });
 
@@ -169,20 +368,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .from(users)
         .where(eq(users.id, userId));
       
-      // Default preferences
-      let preferences = {
-        practiceReminders: true,
-        newContentAlerts: true,
-        progressUpdates: false
-      };
-      
-      // If we found notification preferences, use those
-      if (user && user.notificationPreferences) {
-        preferences = {
-          ...preferences,
-          ...user.notificationPreferences
-        };
-      }
+      // Saved preferences, with defaults for any not saved yet
+      const preferences = getNotificationPreferences(user ?? { notificationPreferences: null });
       
       res.json({ preferences });
     } catch (error) {
@@ -201,11 +388,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const data = updateNotificationsSchema.parse(req.body);
       
       // Store notification preferences in users table
-      const preferences = {
-        practiceReminders: data.practiceReminders ?? true,
-        newContentAlerts: data.newContentAlerts ?? true,
-        progressUpdates: data.progressUpdates ?? false
-      };
+      const preferences = getNotificationPreferences({ notificationPreferences: data });
       
       // Update user's notification preferences
       await db.update(users)
@@ -233,6 +416,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // GET /api/notifications/inbox - List the current user's notifications
+  app.get("/api/notifications/inbox", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const inbox = await storage.getNotifications(req.user.id);
+      res.json({
+        notifications: inbox,
+        unreadCount: inbox.filter(n => !n.readAt).length
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching notifications" });
+    }
+  });
+  
+  // POST /api/notifications/inbox/read-all - Mark all of the current user's notifications as read
+  app.post("/api/notifications/inbox/read-all", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      await storage.markAllNotificationsRead(req.user.id);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Error updating notifications" });
+    }
+  });
+  
+  // POST /api/notifications/inbox/:id/read - Mark a notification as read
+  app.post("/api/notifications/inbox/:id/read", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const notification = await storage.getNotification(parseInt(req.params.id));
+      if (!notification || notification.userId !== req.user.id || notification.isDeleted) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      
+      const updatedNotification = await storage.markNotificationRead(notification.id);
+      res.json(updatedNotification);
+    } catch (error) {
+      res.status(500).json({ message: "Error updating notification" });
+    }
+  });
+  
+  // DELETE /api/notifications/inbox/:id - Dismiss a notification
+  app.delete("/api/notifications/inbox/:id", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const notification = await storage.getNotification(parseInt(req.params.id));
+      if (!notification || notification.userId !== req.user.id || notification.isDeleted) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      
+      await storage.deleteNotification(notification.id);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Error deleting notification" });
+    }
+  });
+  
   // PUT /api/changePassword - Change user password
   app.put("/api/changePassword", async (req, res) => {
     if (!req.isAuthenticated()) {
@@ -321,8 +573,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // GET /api/topic-questions/:topicId - Get questions by topic
   app.get("/api/topic-questions/:topicId", async (req, res) => {
     const topicId = parseInt(req.params.topicId);
-    const questions = await storage.getQuestionsByTopic(topicId);
-    res.json(questions);
+    const level = getActiveLevel(req);
+    const questions = (await storage.getQuestionsByTopic(topicId)).filter(q => !level || q.level === level);
+    res.json(req.user?.role === "admin" ? questions : questions.map(hideAnswer));
+  });
+
+  // GET /api/questions/export - Download the question bank as CSV, JSON or QTI (admin only)
+  app.get("/api/questions/export", isAdmin, async (req, res) => {
+    try {
+      const { format, topic, chapter, difficulty } = exportQuestionsSchema.parse(req.query);
+      const file = await exportQuestions(format, {
+        topicId: topic,
+        chapterId: chapter,
+        difficulty,
+      });
+      
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      res.send(file.body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Error exporting questions" });
+    }
+  });
+
+  // GET /api/questions/statistics - Item analysis for every question (admin only)
+  app.get("/api/questions/statistics", isAdmin, async (req, res) => {
+    try {
+      res.json(await getItemStatistics());
+    } catch (error) {
+      res.status(500).json({ message: "Error computing question statistics" });
+    }
   });
 
   // GET /api/questions/:id - Get a specific question
@@ -334,69 +617,163 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(404).json({ message: "Question not found" });
     }
     
-    res.json(question);
+    // Students only get the answer key by answering
+    res.json(req.user?.role === "admin" ? question : hideAnswer(question));
   });
 
-  // POST /api/answers - Submit an answer
+  // POST /api/answers - Submit an answer, graded on the server
   app.post("/api/answers", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
     try {
-      const answerData = insertUserAnswerSchema.parse(req.body);
+      const { questionId, userOption, timeSpent } = answerSubmissionSchema.parse(req.body);
       
-      // Check if this is a previous question the user has already answered
-      const previousAnswers = await db
-        .select()
-        .from(userAnswers)
-        .where(and(
-          eq(userAnswers.userId, answerData.userId),
-          eq(userAnswers.questionId, answerData.questionId)
-        ));
-      
-      // Record the user's answer
-      const answer = await storage.createUserAnswer(answerData);
-      
-      // If this is the first time answering this question, update progress metrics
-      if (previousAnswers.length === 0) {
-        // Get the question to determine its topic
-        const question = await storage.getQuestion(answerData.questionId);
-        if (question) {
-          const topicId = question.topicId;
-          const progress = await storage.getUserProgressByTopic(answerData.userId, topicId);
-          
-          if (progress) {
-            await storage.createOrUpdateUserProgress({
-              userId: answerData.userId,
-              topicId,
-              // Increment since this is a new question
-              questionsAttempted: progress.questionsAttempted + 1,
-              questionsCorrect: progress.questionsCorrect + (answerData.isCorrect ? 1 : 0),
-              totalTimeSpent: progress.totalTimeSpent + answerData.timeSpent,
-            });
-          } else {
-            await storage.createOrUpdateUserProgress({
-              userId: answerData.userId,
-              topicId,
-              questionsAttempted: 1,
-              questionsCorrect: answerData.isCorrect ? 1 : 0,
-              totalTimeSpent: answerData.timeSpent,
-            });
-          }
-          
-          // Record activity
-          await storage.createUserActivity({
-            userId: answerData.userId,
-            activityType: 'question_answered',
-            topicId,
-            details: { 
-              questionId: answerData.questionId,
-              isCorrect: answerData.isCorrect,
-              timeSpent: answerData.timeSpent,
-              isFirstAttempt: true
-            }
-          });
-        }
+      const question = await storage.getQuestion(questionId);
+      if (!question || question.isDeleted) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+      
+      const isCorrect = gradeOption(question, userOption);
+      const answer = await recordAnswer({
+        userId: req.user.id,
+        questionId,
+        userOption,
+        isCorrect,
+        timeSpent: clampTimeSpent(timeSpent)
+      });
+      
+      res.status(201).json({ answer, feedback: getAnswerFeedback(question, userOption, isCorrect) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Error submitting answer" });
+    }
+  });
+
+  // GET /api/sessions/active - Get the user's most recent unfinished practice session
+  app.get("/api/sessions/active", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const activeSessions = await storage.getActivePracticeSessions(req.user.id);
+      const latest = activeSessions.find(hasQuestionsLeft);
+      
+      if (!latest) {
+        return res.json(null);
+      }
+      
+      const topic = latest.topicId ? await storage.getTopic(latest.topicId) : undefined;
+      const chapter = latest.chapterId ? await storage.getChapter(latest.chapterId) : undefined;
+      const practiceSet = latest.practiceSetId ? await storage.getPracticeSet(latest.practiceSetId) : undefined;
+      
+      res.json({
+        id: latest.id,
+        mode: latest.mode,
+        topicId: latest.topicId,
+        chapterId: latest.chapterId,
+        topicName: topic?.name || null,
+        chapterName: chapter?.name || null,
+        practiceSetId: latest.practiceSetId,
+        practiceSetName: practiceSet?.name || null,
+        answeredCount: latest.answeredCount,
+        totalQuestions: getSessionLength(latest),
+        lastActivityAt: latest.lastActivityAt
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching active practice session" });
+    }
+  });
+  
+  // POST /api/sessions - Start a practice session, or resume the open one for the same scope
+  app.post("/api/sessions", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const { sessionId, ...scope } = startPracticeSessionSchema.parse(req.body);
+      const practiceSession = await startOrResumePracticeSession(req.user.id, scope, sessionId);
+      res.status(201).json(await getPracticeSessionView(practiceSession));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Error starting practice session" });
+    }
+  });
+  
+  // POST /api/sessions/preview - Count the questions that match session builder settings
+  app.post("/api/sessions/preview", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const { topicId, options } = sessionPreviewSchema.parse(req.body);
+      const matching = await findMatchingQuestions(
+        req.user.id,
+        topicId,
+        getCurriculumLevel(req.user.level),
+        options
+      );
+      res.json({ available: matching.length });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Error previewing practice session" });
+    }
+  });
+  
+  // GET /api/sessions/:id - Get a practice session with its questions and answers so far
+  app.get("/api/sessions/:id", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const practiceSession = await storage.getPracticeSession(parseInt(req.params.id));
+      
+      if (!practiceSession || practiceSession.userId !== req.user.id) {
+        return res.status(404).json({ message: "Practice session not found" });
+      }
+      
+      res.json(await getPracticeSessionView(practiceSession));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching practice session" });
+    }
+  });
+  
+  // POST /api/sessions/:id/answers - Answer a question within a practice session
+  app.post("/api/sessions/:id/answers", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const answerData = answerSubmissionSchema.parse(req.body);
+      const practiceSession = await storage.getPracticeSession(parseInt(req.params.id));
+      
+      if (!practiceSession || practiceSession.userId !== req.user.id) {
+        return res.status(404).json({ message: "Practice session not found" });
+      }
+      
+      if (practiceSession.status !== 'active') {
+        return res.status(409).json({ message: "This practice session has already finished" });
       }
       
-      res.status(201).json(answer);
+      try {
+        const result = await recordSessionAnswer(practiceSession, { ...answerData, userId: req.user.id });
+        res.status(201).json(result);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unable to record answer";
+        return res.status(400).json({ message });
+      }
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ errors: error.errors });
@@ -404,20 +781,125 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(500).json({ message: "Error submitting answer" });
     }
   });
+  
+  // POST /api/sessions/:id/groups/:groupId/answers - Answer every question of an item set together
+  app.post("/api/sessions/:id/groups/:groupId/answers", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const { answers } = practiceSessionGroupAnswersSchema.parse(req.body);
+      const practiceSession = await storage.getPracticeSession(parseInt(req.params.id));
+      
+      if (!practiceSession || practiceSession.userId !== req.user.id) {
+        return res.status(404).json({ message: "Practice session not found" });
+      }
+      
+      if (practiceSession.status !== 'active') {
+        return res.status(409).json({ message: "This practice session has already finished" });
+      }
+      
+      try {
+        const result = await recordSessionGroupAnswers(
+          practiceSession,
+          parseInt(req.params.groupId),
+          answers.map(answer => ({ ...answer, userId: req.user!.id }))
+        );
+        res.status(201).json(result);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unable to record answers";
+        return res.status(400).json({ message });
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Error submitting item set answers" });
+    }
+  });
+  
+  // POST /api/sessions/:id/next - Pick the next question of an adaptive practice session
+  app.post("/api/sessions/:id/next", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const practiceSession = await storage.getPracticeSession(parseInt(req.params.id));
+      
+      if (!practiceSession || practiceSession.userId !== req.user.id) {
+        return res.status(404).json({ message: "Practice session not found" });
+      }
+      
+      if (practiceSession.status !== 'active') {
+        return res.status(409).json({ message: "This practice session has already finished" });
+      }
+      
+      try {
+        const { question, ability } = await nextAdaptiveQuestion(practiceSession);
+        res.json({ question: question ? hideAnswer(question) : null, ability });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unable to pick the next question";
+        return res.status(400).json({ message });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Error picking the next question" });
+    }
+  });
+  
+  // POST /api/sessions/:id/finish - Finish a practice session
+  app.post("/api/sessions/:id/finish", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const practiceSession = await storage.getPracticeSession(parseInt(req.params.id));
+      
+      if (!practiceSession || practiceSession.userId !== req.user.id) {
+        return res.status(404).json({ message: "Practice session not found" });
+      }
+      
+      if (practiceSession.status !== 'active') {
+        return res.json(practiceSession);
+      }
+      
+      res.json(await finishPracticeSession(practiceSession));
+    } catch (error) {
+      res.status(500).json({ message: "Error finishing practice session" });
+    }
+  });
+
+  // GET /api/review/due - Get questions due for spaced-repetition review across all topics
+  app.get("/api/review/due", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const limit = req.query.limit ? Math.min(parseInt(req.query.limit as string) || 20, 100) : 20;
+      const dueQuestions = await getDueReviewQuestions(req.user.id, limit, getActiveLevel(req));
+      res.json(dueQuestions.map(hideAnswer));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching review queue" });
+    }
+  });
 
   // GET /api/progress/:userId - Get user progress across all topics
   app.get("/api/progress/:userId", async (req, res) => {
     const userId = parseInt(req.params.userId);
     const progress = await storage.getUserProgress(userId);
     
-    // Combine with topic data for the full response
+    // Combine with topic data and the derived metrics for the full response
     const topics = await storage.getAllTopics();
     const topicsMap = new Map(topics.map(t => [t.id, t]));
     
-    const progressWithTopics = progress.map(p => ({
+    const progressWithTopics = await Promise.all(progress.map(async p => ({
       ...p,
+      ...getProgressMetrics(p, (await storage.getQuestionsByTopic(p.topicId)).length),
       topic: topicsMap.get(p.topicId)
-    }));
+    })));
     
     res.json(progressWithTopics);
   });
@@ -428,6 +910,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const topicId = parseInt(req.params.topicId);
     
     const progress = await storage.getUserProgressByTopic(userId, topicId);
+    const metrics = getProgressMetrics(progress, (await storage.getQuestionsByTopic(topicId)).length);
     
     if (!progress) {
       return res.json({ 
@@ -435,11 +918,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         topicId,
         questionsAttempted: 0,
         questionsCorrect: 0,
-        totalTimeSpent: 0
+        questionsSeen: 0,
+        firstAttemptCorrect: 0,
+        latestCorrect: 0,
+        questionsMastered: 0,
+        totalTimeSpent: 0,
+        ...metrics
       });
     }
     
-    res.json(progress);
+    res.json({ ...progress, ...metrics });
   });
 
   // GET /api/activity/:userId - Get user activity
@@ -464,7 +952,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // GET /api/practice-sets - Get all practice sets
   app.get("/api/practice-sets", async (req, res) => {
     const topicId = req.query.topic ? parseInt(req.query.topic as string) : undefined;
-    const sets = await storage.getPracticeSets(topicId);
+    const sets = await storage.getPracticeSets(topicId, getActiveLevel(req));
     
     // Enrich with topic data
     const topics = await storage.getAllTopics();
@@ -478,21 +966,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(enrichedSets);
   });
 
-  // GET /api/practice-sets/recommended/:userId - Get recommended practice sets
+  // GET /api/practice-sets/recommended/:userId - Get personalised practice set and chapter recommendations
   app.get("/api/practice-sets/recommended/:userId", async (req, res) => {
-    const userId = parseInt(req.params.userId);
-    const recommendedSets = await storage.getRecommendedPracticeSets(userId);
+    try {
+      const userId = parseInt(req.params.userId);
+      const recommendations = await getRecommendedPracticeSets(userId);
+      res.json(recommendations);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching recommendations" });
+    }
+  });
+
+  // GET /api/practice-sets/:id - Get a single practice set
+  app.get("/api/practice-sets/:id", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
     
-    // Enrich with topic data
-    const topics = await storage.getAllTopics();
-    const topicsMap = new Map(topics.map(t => [t.id, t]));
-    
-    const enrichedSets = recommendedSets.map(set => ({
-      ...set,
-      topic: topicsMap.get(set.topicId)
-    }));
-    
-    res.json(enrichedSets);
+    try {
+      const practiceSet = await storage.getPracticeSet(parseInt(req.params.id));
+      if (!practiceSet || practiceSet.isDeleted) {
+        return res.status(404).json({ message: "Practice set not found" });
+      }
+      
+      const topic = await storage.getTopic(practiceSet.topicId);
+      res.json({ ...practiceSet, topic });
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching practice set" });
+    }
   });
 
   // GET /api/questions/all - Get all questions (admin only)
@@ -612,8 +1113,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // POST /api/questions - Create a new question (admin only)
   app.post("/api/questions", isAdmin, async (req, res) => {
     try {
-      const questionData = insertQuestionSchema.parse(req.body);
-      const question = await storage.createQuestion(questionData);
+      const questionData = await withTopicLevel(insertQuestionSchema.parse(req.body));
+      const question = await createQuestionWithRevision(questionData, req.user!.id);
       res.status(201).json(question);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -623,6 +1124,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // POST /api/questions/import - Validate or import questions from a CSV/JSON file (admin only)
+  app.post("/api/questions/import", isAdmin, async (req, res) => {
+    try {
+      const { format, content, dryRun } = importQuestionsSchema.parse(req.body);
+      
+      let records;
+      try {
+        records = parseImportFile(format, content);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unable to read import file";
+        return res.status(400).json({ message });
+      }
+      
+      const report = await importQuestions(format, records, dryRun);
+      res.status(dryRun ? 200 : 201).json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Error importing questions" });
+    }
+  });
+
+  // POST /api/uploads/images - Upload an image for question content (admin only)
+  app.post(
+    "/api/uploads/images",
+    isAdmin,
+    express.raw({ type: "image/*", limit: MAX_IMAGE_BYTES }),
+    async (req, res) => {
+      try {
+        if (!Buffer.isBuffer(req.body)) {
+          return res.status(400).json({ message: "Send the image as the request body with an image content type" });
+        }
+
+        let url;
+        try {
+          url = await saveQuestionImage(req.body);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Invalid image";
+          return res.status(400).json({ message });
+        }
+
+        res.status(201).json({ url });
+      } catch (error) {
+        res.status(500).json({ message: "Error uploading image" });
+      }
+    }
+  );
+  
   // PATCH /api/questions/:id - Update a question (admin only)
   app.patch("/api/questions/:id", isAdmin, async (req, res) => {
     try {
@@ -634,36 +1184,521 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Question not found" });
       }
       
-      const questionData = req.body; // Already validated by isAdmin middleware
-      const question = await storage.updateQuestion(questionId, questionData);
-      res.json(question);
+      const questionData = updateQuestionSchema.parse(req.body);
+      const question = await updateQuestionWithRevision(existingQuestion, questionData, req.user!.id);
+      res.json(question);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Error updating question" });
+    }
+  });
+  
+  // GET /api/questions/:id/revisions - Edit history for a question (admin only)
+  app.get("/api/questions/:id/revisions", isAdmin, async (req, res) => {
+    try {
+      const question = await storage.getQuestion(parseInt(req.params.id));
+      if (!question) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+      
+      res.json(await getQuestionHistory(question));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching question history" });
+    }
+  });
+  
+  // GET /api/questions/:id/annotations - The current user's bookmark and note on a question
+  app.get("/api/questions/:id/annotations", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      res.json(await getQuestionAnnotations(req.user.id, parseInt(req.params.id)));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching question annotations" });
+    }
+  });
+  
+  // PUT /api/questions/:id/bookmark - Bookmark a question
+  app.put("/api/questions/:id/bookmark", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const question = await storage.getQuestion(parseInt(req.params.id));
+      if (!question || question.isDeleted) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+      
+      const bookmark = await storage.createQuestionBookmark({ userId: req.user.id, questionId: question.id });
+      res.json(bookmark);
+    } catch (error) {
+      res.status(500).json({ message: "Error bookmarking question" });
+    }
+  });
+  
+  // DELETE /api/questions/:id/bookmark - Remove a bookmark
+  app.delete("/api/questions/:id/bookmark", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      await storage.deleteQuestionBookmark(req.user.id, parseInt(req.params.id));
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Error removing bookmark" });
+    }
+  });
+  
+  // PUT /api/questions/:id/note - Save the current user's note on a question
+  app.put("/api/questions/:id/note", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const question = await storage.getQuestion(parseInt(req.params.id));
+      if (!question || question.isDeleted) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+      
+      const { content } = questionNoteSchema.parse(req.body);
+      res.json(await storage.saveQuestionNote(req.user.id, question.id, content));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Error saving note" });
+    }
+  });
+  
+  // DELETE /api/questions/:id/note - Delete the current user's note on a question
+  app.delete("/api/questions/:id/note", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      await storage.deleteQuestionNote(req.user.id, parseInt(req.params.id));
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Error deleting note" });
+    }
+  });
+  
+  // GET /api/bookmarks - The current user's bookmarked questions and notes, optionally for one topic
+  app.get("/api/bookmarks", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const topicId = req.query.topic ? parseInt(req.query.topic as string) : undefined;
+      res.json(await getBookmarkedQuestions(req.user.id, topicId));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching bookmarks" });
+    }
+  });
+  
+  // GET /api/mistakes - The current user's incorrect answers, filtered by topic, chapter and date
+  app.get("/api/mistakes", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const filters = mistakeFiltersSchema.parse(req.query);
+      res.json(await getMistakes(req.user.id, {
+        topicId: filters.topic,
+        chapterId: filters.chapter,
+        from: filters.from,
+        to: filters.to,
+        unresolvedOnly: filters.unresolved === "true",
+      }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Error fetching mistakes" });
+    }
+  });
+  
+  // GET /api/questions/:id/learning-outcomes - Learning outcomes a question is tagged with (admin only)
+  app.get("/api/questions/:id/learning-outcomes", isAdmin, async (req, res) => {
+    try {
+      const questionId = parseInt(req.params.id);
+      const question = await storage.getQuestion(questionId);
+      if (!question) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+      
+      res.json({ learningOutcomeIds: await storage.getLearningOutcomeIdsForQuestion(questionId) });
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching learning outcomes" });
+    }
+  });
+  
+  // PUT /api/questions/:id/learning-outcomes - Replace a question's learning outcome tags (admin only)
+  app.put("/api/questions/:id/learning-outcomes", isAdmin, async (req, res) => {
+    try {
+      const question = await storage.getQuestion(parseInt(req.params.id));
+      if (!question) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+      
+      const { learningOutcomeIds } = questionLearningOutcomesSchema.parse(req.body);
+      
+      try {
+        res.json({ learningOutcomeIds: await tagQuestionLearningOutcomes(question, learningOutcomeIds) });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unable to tag question";
+        return res.status(400).json({ message });
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Error tagging question" });
+    }
+  });
+  
+  // POST /api/questions/:id/revisions/:revision/restore - Restore an earlier revision (admin only)
+  app.post("/api/questions/:id/revisions/:revision/restore", isAdmin, async (req, res) => {
+    try {
+      const question = await storage.getQuestion(parseInt(req.params.id));
+      if (!question) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+      
+      try {
+        const restored = await restoreQuestionRevision(question, parseInt(req.params.revision), req.user!.id);
+        res.json(restored);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unable to restore revision";
+        return res.status(400).json({ message });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Error restoring question revision" });
+    }
+  });
+  
+  // POST /api/questions/:id/reports - Report a problem with a question
+  app.post("/api/questions/:id/reports", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const { category, message } = createQuestionReportSchema.parse(req.body);
+      const question = await storage.getQuestion(parseInt(req.params.id));
+      if (!question || question.isDeleted) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+      
+      // One open report per student and category is enough to put it in the queue
+      const existingReports = await storage.getUserQuestionReports(req.user.id, question.id);
+      if (existingReports.some(r => r.status === "open" && r.category === category)) {
+        return res.status(400).json({ message: "You have already reported this issue. We'll look into it soon." });
+      }
+      
+      const report = await storage.createQuestionReport({
+        questionId: question.id,
+        userId: req.user.id,
+        category,
+        message: message?.trim() || null,
+        questionRevision: question.currentRevision,
+      });
+      res.status(201).json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Error reporting question" });
+    }
+  });
+  
+  // GET /api/question-reports - Triage queue of question reports (admin only)
+  app.get("/api/question-reports", isAdmin, async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      const reports = await storage.getQuestionReports(status);
+      
+      // Enrich with the question and reporter for the queue
+      const questionIds = Array.from(new Set(reports.map(r => r.questionId)));
+      const reportQuestions = await storage.getQuestionsByIds(questionIds);
+      const questionsMap = new Map(reportQuestions.map(q => [q.id, q]));
+      const topics = await storage.getAllTopics();
+      const topicsMap = new Map(topics.map(t => [t.id, t]));
+      const userIds = Array.from(new Set(reports.map(r => r.userId)));
+      const reporters = await Promise.all(userIds.map(id => storage.getUser(id)));
+      const usersMap = new Map(reporters.filter(u => !!u).map(u => [u!.id, u!]));
+      
+      const enrichedReports = reports.map(report => {
+        const question = questionsMap.get(report.questionId);
+        return {
+          ...report,
+          questionText: question?.questionText,
+          topicName: question ? topicsMap.get(question.topicId)?.name : undefined,
+          isOutdated: !!question && report.questionRevision !== null && question.currentRevision !== report.questionRevision,
+          reporterName: usersMap.get(report.userId)?.username,
+        };
+      });
+      
+      res.json(enrichedReports);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching question reports" });
+    }
+  });
+  
+  // PATCH /api/question-reports/:id - Resolve, reject or reopen a report (admin only)
+  app.patch("/api/question-reports/:id", isAdmin, async (req, res) => {
+    try {
+      const { status, resolutionNote } = updateQuestionReportSchema.parse(req.body);
+      const report = await storage.getQuestionReport(parseInt(req.params.id));
+      if (!report) {
+        return res.status(404).json({ message: "Question report not found" });
+      }
+      
+      const isClosed = status !== "open";
+      const updatedReport = await storage.updateQuestionReport(report.id, {
+        status,
+        resolutionNote: resolutionNote ?? report.resolutionNote,
+        resolvedBy: isClosed ? req.user!.id : null,
+        resolvedAt: isClosed ? new Date() : null,
+      });
+      
+      // Let the student know once their report has been fixed
+      if (status === "resolved" && report.status !== "resolved") {
+        await notifyReportResolved(updatedReport);
+      }
+      res.json(updatedReport);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Error updating question report" });
+    }
+  });
+  
+  // DELETE /api/questions/:id - Delete a question (admin only)
+  app.delete("/api/questions/:id", isAdmin, async (req, res) => {
+    try {
+      const questionId = parseInt(req.params.id);
+      
+      // Get the question first to ensure it exists
+      const existingQuestion = await storage.getQuestion(questionId);
+      if (!existingQuestion) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+      
+      await storage.deleteQuestion(questionId);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Error deleting question" });
+    }
+  });
+  
+  // GET /api/question-groups - List item sets with their topic and question count (admin only)
+  app.get("/api/question-groups", isAdmin, async (req, res) => {
+    try {
+      const [groups, topics] = await Promise.all([
+        storage.getAllQuestionGroups(),
+        storage.getAllTopics(),
+      ]);
+      const topicNames = new Map(topics.map(topic => [topic.id, topic.name]));
+      
+      const enriched = await Promise.all(groups.map(async group => ({
+        ...group,
+        topicName: topicNames.get(group.topicId) || null,
+        questionCount: (await storage.getQuestionsByGroup(group.id)).length,
+      })));
+      
+      res.json(enriched);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching item sets" });
+    }
+  });
+  
+  // GET /api/question-groups/:id - Get an item set with its questions in order (admin only)
+  app.get("/api/question-groups/:id", isAdmin, async (req, res) => {
+    try {
+      const group = await getQuestionGroupWithQuestions(parseInt(req.params.id));
+      if (!group) {
+        return res.status(404).json({ message: "Item set not found" });
+      }
+      res.json(group);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching item set" });
+    }
+  });
+  
+  // POST /api/question-groups - Create an item set with its questions (admin only)
+  app.post("/api/question-groups", isAdmin, async (req, res) => {
+    try {
+      const { questions, ...groupData } = saveQuestionGroupSchema.parse(req.body);
+      
+      try {
+        const group = await saveQuestionGroup(null, groupData, questions, req.user!.id);
+        res.status(201).json(group);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unable to save item set";
+        return res.status(400).json({ message });
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Error creating item set" });
+    }
+  });
+  
+  // PUT /api/question-groups/:id - Replace an item set and its questions (admin only)
+  app.put("/api/question-groups/:id", isAdmin, async (req, res) => {
+    try {
+      const existingGroup = await storage.getQuestionGroup(parseInt(req.params.id));
+      if (!existingGroup) {
+        return res.status(404).json({ message: "Item set not found" });
+      }
+      
+      const { questions, ...groupData } = saveQuestionGroupSchema.parse(req.body);
+      
+      try {
+        const group = await saveQuestionGroup(existingGroup, groupData, questions, req.user!.id);
+        res.json(group);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unable to save item set";
+        return res.status(400).json({ message });
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Error updating item set" });
+    }
+  });
+  
+  // DELETE /api/question-groups/:id - Delete an item set and its questions (admin only)
+  app.delete("/api/question-groups/:id", isAdmin, async (req, res) => {
+    try {
+      const existingGroup = await storage.getQuestionGroup(parseInt(req.params.id));
+      if (!existingGroup) {
+        return res.status(404).json({ message: "Item set not found" });
+      }
+      
+      await deleteQuestionGroup(existingGroup);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Error deleting item set" });
+    }
+  });
+  
+  // GET /api/learning-outcomes - Learning outcome catalogue, optionally for one chapter
+  app.get("/api/learning-outcomes", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const chapterId = req.query.chapter ? parseInt(req.query.chapter as string) : undefined;
+      const outcomes = chapterId
+        ? await storage.getLearningOutcomesByChapter(chapterId)
+        : await storage.getAllLearningOutcomes();
+      res.json(outcomes);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching learning outcomes" });
+    }
+  });
+  
+  // GET /api/learning-outcomes/coverage - Questions per learning outcome, thinnest first (admin only)
+  app.get("/api/learning-outcomes/coverage", isAdmin, async (req, res) => {
+    try {
+      const { threshold } = coverageReportSchema.parse(req.query);
+      res.json(await getCoverageReport(threshold));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Error building coverage report" });
+    }
+  });
+  
+  // GET /api/learning-outcomes/mastery - The current user's mastery of each learning outcome
+  app.get("/api/learning-outcomes/mastery", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      res.json(await getLearningOutcomeMastery(req.user.id, getCurriculumLevel(req.user.level)));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching learning outcome mastery" });
+    }
+  });
+  
+  // POST /api/learning-outcomes - Add a learning outcome to a chapter (admin only)
+  app.post("/api/learning-outcomes", isAdmin, async (req, res) => {
+    try {
+      const outcomeData = insertLearningOutcomeSchema.parse(req.body);
+      const chapter = await storage.getChapter(outcomeData.chapterId);
+      if (!chapter || chapter.isDeleted) {
+        return res.status(400).json({ message: "Chapter not found" });
+      }
+      
+      const outcome = await storage.createLearningOutcome(outcomeData);
+      res.status(201).json(outcome);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Error creating learning outcome" });
+    }
+  });
+  
+  // PATCH /api/learning-outcomes/:id - Update a learning outcome (admin only)
+  app.patch("/api/learning-outcomes/:id", isAdmin, async (req, res) => {
+    try {
+      const outcomeId = parseInt(req.params.id);
+      const existingOutcome = await storage.getLearningOutcome(outcomeId);
+      if (!existingOutcome) {
+        return res.status(404).json({ message: "Learning outcome not found" });
+      }
+      
+      const outcomeData = insertLearningOutcomeSchema.partial().parse(req.body);
+      const outcome = await storage.updateLearningOutcome(outcomeId, outcomeData);
+      res.json(outcome);
     } catch (error) {
-      res.status(500).json({ message: "Error updating question" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Error updating learning outcome" });
     }
   });
   
-  // DELETE /api/questions/:id - Delete a question (admin only)
-  app.delete("/api/questions/:id", isAdmin, async (req, res) => {
+  // DELETE /api/learning-outcomes/:id - Delete a learning outcome (admin only)
+  app.delete("/api/learning-outcomes/:id", isAdmin, async (req, res) => {
     try {
-      const questionId = parseInt(req.params.id);
-      
-      // Get the question first to ensure it exists
-      const existingQuestion = await storage.getQuestion(questionId);
-      if (!existingQuestion) {
-        return res.status(404).json({ message: "Question not found" });
+      const outcomeId = parseInt(req.params.id);
+      const existingOutcome = await storage.getLearningOutcome(outcomeId);
+      if (!existingOutcome) {
+        return res.status(404).json({ message: "Learning outcome not found" });
       }
       
-      await storage.deleteQuestion(questionId);
+      await storage.updateLearningOutcome(outcomeId, { isDeleted: true });
       res.status(204).end();
     } catch (error) {
-      res.status(500).json({ message: "Error deleting question" });
+      res.status(500).json({ message: "Error deleting learning outcome" });
     }
   });
   
   // POST /api/practice-sets - Create a practice set (admin only)
   app.post("/api/practice-sets", isAdmin, async (req, res) => {
     try {
-      const practiceSetData = insertPracticeSetSchema.parse(req.body);
+      const practiceSetData = await withTopicLevel(insertPracticeSetSchema.parse(req.body));
       const practiceSet = await storage.createPracticeSet(practiceSetData);
       res.status(201).json(practiceSet);
     } catch (error) {
@@ -711,16 +1746,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // GET /api/practice-sets/:id/questions - Get a practice set's questions in order (admin only)
+  app.get("/api/practice-sets/:id/questions", isAdmin, async (req, res) => {
+    try {
+      const practiceSetId = parseInt(req.params.id);
+      const practiceSet = await storage.getPracticeSet(practiceSetId);
+      if (!practiceSet) {
+        return res.status(404).json({ message: "Practice set not found" });
+      }
+      
+      res.json(await storage.getPracticeSetQuestions(practiceSetId));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching practice set questions" });
+    }
+  });
+  
+  // PUT /api/practice-sets/:id/questions - Replace a practice set's questions (admin only)
+  app.put("/api/practice-sets/:id/questions", isAdmin, async (req, res) => {
+    try {
+      const practiceSetId = parseInt(req.params.id);
+      const { questionIds } = practiceSetQuestionsSchema.parse(req.body);
+      
+      const practiceSet = await storage.getPracticeSet(practiceSetId);
+      if (!practiceSet) {
+        return res.status(404).json({ message: "Practice set not found" });
+      }
+      
+      // Drop duplicates but keep the chosen order
+      const uniqueIds = Array.from(new Set(questionIds));
+      const existing = await storage.getQuestionsByIds(uniqueIds);
+      if (existing.length !== uniqueIds.length) {
+        return res.status(400).json({ message: "One or more questions do not exist" });
+      }
+      
+      await storage.setPracticeSetQuestions(practiceSetId, uniqueIds);
+      res.json(await storage.getPracticeSetQuestions(practiceSetId));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Error updating practice set questions" });
+    }
+  });
+  
+  // POST /api/practice-sets/:id/questions/auto-fill - Fill a practice set from the question bank (admin only)
+  app.post("/api/practice-sets/:id/questions/auto-fill", isAdmin, async (req, res) => {
+    try {
+      const practiceSetId = parseInt(req.params.id);
+      const options = autoFillPracticeSetSchema.parse(req.body);
+      
+      const practiceSet = await storage.getPracticeSet(practiceSetId);
+      if (!practiceSet) {
+        return res.status(404).json({ message: "Practice set not found" });
+      }
+      
+      try {
+        res.json(await autoFillPracticeSet(practiceSet, options));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unable to fill practice set";
+        return res.status(400).json({ message });
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Error filling practice set" });
+    }
+  });
+  
   // GET /api/chapters - Get all chapters
   app.get("/api/chapters", async (req, res) => {
     try {
-      // First fetch all topics
-      const topics = await storage.getAllTopics();
+      // First fetch all topics for the user's level
+      const level = getActiveLevel(req);
+      const topics = await storage.getAllTopics(level);
       const allChapters = [];
       
       // Then get chapters for each topic
       for (const topic of topics) {
-        const topicChapters = await storage.getChaptersByTopic(topic.id);
+        const topicChapters = (await storage.getChaptersByTopic(topic.id))
+          .filter(chapter => !level || chapter.level === level);
         
         // Add topic data to each chapter for client-side convenience
         const chaptersWithTopic = topicChapters.map(chapter => ({
@@ -746,8 +1851,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/chapters/topic/:topicId", async (req, res) => {
     try {
       const topicId = parseInt(req.params.topicId);
+      const level = getActiveLevel(req);
       const chapters = await storage.getChaptersByTopic(topicId);
-      res.json(chapters);
+      res.json(level ? chapters.filter(chapter => chapter.level === level) : chapters);
     } catch (error) {
       res.status(500).json({ message: "Error fetching chapters" });
     }
@@ -774,7 +1880,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const chapterId = parseInt(req.params.chapterId);
       const questions = await storage.getQuestionsByChapter(chapterId);
-      res.json(questions);
+      res.json(req.user?.role === "admin" ? questions : questions.map(hideAnswer));
     } catch (error) {
       res.status(500).json({ message: "Error fetching questions" });
     }
@@ -783,7 +1889,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // POST /api/chapters - Create a new chapter (admin only)
   app.post("/api/chapters", isAdmin, async (req, res) => {
     try {
-      const chapterData = insertChapterSchema.parse(req.body);
+      const chapterData = await withTopicLevel(insertChapterSchema.parse(req.body));
       const chapter = await storage.createChapter(chapterData);
       res.status(201).json(chapter);
     } catch (error) {
@@ -878,100 +1984,184 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // GET /api/streak - Get the current user's study streak and recent study days
+  app.get("/api/streak", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const summary = await getStreakSummary(req.user.id);
+      if (!summary) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(summary);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching study streak" });
+    }
+  });
+
+  // GET /api/admin/jobs - List scheduled jobs with their latest run (admin only)
+  app.get("/api/admin/jobs", isAdmin, async (req, res) => {
+    try {
+      const jobs = await getJobStatuses();
+      res.json(jobs);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching scheduled jobs" });
+    }
+  });
+  
+  // GET /api/admin/jobs/runs - Run history, optionally for one job (admin only)
+  app.get("/api/admin/jobs/runs", isAdmin, async (req, res) => {
+    try {
+      const jobName = req.query.job as string | undefined;
+      const runs = await storage.getJobRuns(jobName, 50);
+      res.json(runs);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching job runs" });
+    }
+  });
+  
+  // POST /api/admin/jobs/:name/run - Run a scheduled job now (admin only)
+  app.post("/api/admin/jobs/:name/run", isAdmin, async (req, res) => {
+    try {
+      const jobRun = await runJob(req.params.name, "manual", req.user!.id);
+      res.json(jobRun);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unable to run job";
+      res.status(400).json({ message });
+    }
+  });
+  
+  // GET /api/admin/emails - Outbound email deliveries, optionally by status (admin only)
+  app.get("/api/admin/emails", isAdmin, async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status && !(EMAIL_DELIVERY_STATUSES as readonly string[]).includes(status)) {
+        return res.status(400).json({ message: "Invalid delivery status" });
+      }
+      
+      const deliveries = await storage.getEmailDeliveries(status as EmailDeliveryStatus | undefined);
+      // Bodies can hold reset codes and other private details, so only metadata is listed
+      const summaries: EmailDeliverySummary[] = deliveries.map(({ text, html, ...delivery }) => delivery);
+      res.json(summaries);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching email deliveries" });
+    }
+  });
+
+  // GET /api/badges - Get the badge catalogue with the current user's earned badges
+  app.get("/api/badges", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const badges = await getBadgeGallery(req.user.id);
+      res.json(badges);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching badges" });
+    }
+  });
+
   // GET /api/analytics/:userId - Get comprehensive user analytics
   app.get("/api/analytics/:userId", async (req, res) => {
     const userId = parseInt(req.params.userId);
     
-    // Get user data
-    const user = await storage.getUser(userId);
-    if (!user) {
+    // Get user data, with a lapsed streak reported as reset. Nothing is saved
+    // here: anyone can read these analytics.
+    const storedUser = await storage.getUser(userId);
+    if (!storedUser) {
       return res.status(404).json({ message: "User not found" });
     }
+    const user = await getCurrentStreak(storedUser);
     
-    // Get overall progress across topics
-    const progress = await storage.getUserProgress(userId);
+    // Only the topics of the user's curriculum level count
+    const topics = await storage.getAllTopics(getCurriculumLevel(user.level));
+    const topicIds = new Set(topics.map(t => t.id));
     
-    // Get all topics for reference
-    const topics = await storage.getAllTopics();
+    // Get overall progress across those topics
+    const progress = (await storage.getUserProgress(userId)).filter(p => topicIds.has(p.topicId));
     
     // Calculate overall stats
-    let totalAttempted = 0;
-    let totalCorrect = 0;
-    let totalTimeSpent = 0;
+    const totals = {
+      questionsAttempted: 0,
+      questionsCorrect: 0,
+      questionsSeen: 0,
+      firstAttemptCorrect: 0,
+      latestCorrect: 0,
+      questionsMastered: 0,
+      totalTimeSpent: 0
+    };
     
     progress.forEach(p => {
-      totalAttempted += p.questionsAttempted;
-      totalCorrect += p.questionsCorrect;
-      totalTimeSpent += p.totalTimeSpent;
+      totals.questionsAttempted += p.questionsAttempted;
+      totals.questionsCorrect += p.questionsCorrect;
+      totals.questionsSeen += p.questionsSeen;
+      totals.firstAttemptCorrect += p.firstAttemptCorrect;
+      totals.latestCorrect += p.latestCorrect;
+      totals.questionsMastered += p.questionsMastered;
+      totals.totalTimeSpent += p.totalTimeSpent;
     });
+    const totalAttempted = totals.questionsAttempted;
+    const totalTimeSpent = totals.totalTimeSpent;
     
     // Calculate average time per question (in seconds)
     const avgTimePerQuestion = totalAttempted > 0 
       ? Math.round(totalTimeSpent / totalAttempted) 
       : 0;
     
-    // Calculate overall accuracy
-    const overallAccuracy = totalAttempted > 0
-      ? Math.round((totalCorrect / totalAttempted) * 100)
-      : 0;
+    // Count the questions each topic has now, for coverage and mastery
+    const availableByTopic = new Map<number, number>();
+    for (const topic of topics) {
+      const questions = await storage.getQuestionsByTopic(topic.id);
+      availableByTopic.set(topic.id, questions.length);
+    }
+    const totalAvailableQuestions = Array.from(availableByTopic.values()).reduce((sum, n) => sum + n, 0);
+    const overallMetrics = getProgressMetrics(totals, totalAvailableQuestions);
     
     // Prepare topic performance data
     const topicPerformance = topics.map(topic => {
       const topicProgress = progress.find(p => p.topicId === topic.id);
+      const metrics = getProgressMetrics(topicProgress, availableByTopic.get(topic.id) || 0);
       
-      if (!topicProgress) {
-        return {
-          topicId: topic.id,
-          topicName: topic.name,
-          questionsAttempted: 0,
-          questionsCorrect: 0,
-          accuracy: 0,
-          avgTimePerQuestion: 0,
-          progress: 0
-        };
-      }
-      
-      const accuracy = topicProgress.questionsAttempted > 0
-        ? Math.round((topicProgress.questionsCorrect / topicProgress.questionsAttempted) * 100)
-        : 0;
-        
-      const avgTime = topicProgress.questionsAttempted > 0
+      const avgTime = topicProgress && topicProgress.questionsAttempted > 0
         ? Math.round(topicProgress.totalTimeSpent / topicProgress.questionsAttempted)
         : 0;
       
       return {
         topicId: topic.id,
         topicName: topic.name,
-        questionsAttempted: topicProgress.questionsAttempted,
-        questionsCorrect: topicProgress.questionsCorrect,
-        accuracy,
-        avgTimePerQuestion: avgTime,
-        progress: accuracy // For now, use accuracy as progress indicator
+        questionsAttempted: topicProgress?.questionsAttempted ?? 0,
+        questionsCorrect: topicProgress?.questionsCorrect ?? 0,
+        questionsSeen: topicProgress?.questionsSeen ?? 0,
+        ...metrics,
+        avgTimePerQuestion: avgTime
       };
     });
     
     // Get recent activity
     const recentActivity = await storage.getUserActivity(userId, 5);
     
-    // Get total available questions count
-    let totalAvailableQuestions = 0;
-    for (const topic of topics) {
-      const questions = await storage.getQuestionsByTopic(topic.id);
-      totalAvailableQuestions += questions.length;
-    }
-
     // Create analytics response
     const analytics = {
       user: {
         id: user.id,
         username: user.username,
         level: user.level,
-        streakDays: user.streakDays
+        streakDays: user.streakDays,
+        longestStreakDays: user.longestStreakDays,
+        streakFreezes: user.streakFreezes
       },
       summary: {
         totalQuestions: totalAttempted,
         totalAvailableQuestions: totalAvailableQuestions,
-        accuracy: overallAccuracy,
+        questionsSeen: totals.questionsSeen,
+        accuracy: overallMetrics.accuracy,
+        coverage: overallMetrics.coverage,
+        firstAttemptAccuracy: overallMetrics.firstAttemptAccuracy,
+        latestAttemptAccuracy: overallMetrics.latestAttemptAccuracy,
+        mastery: overallMetrics.mastery,
         totalTimeSpent: Math.round(totalTimeSpent / 3600), // Convert to hours
         avgTimePerQuestion,
         change: 0 // Default value, should be calculated from historical data
@@ -983,6 +2173,275 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(analytics);
   });
   
+  // Mock exam routes
+  
+  // GET /api/mock-exams - Get available mock exams
+  app.get("/api/mock-exams", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      // Admins also see inactive exams so they can configure them
+      const includeInactive = req.user.role === 'admin';
+      const exams = await storage.getMockExams(includeInactive);
+      res.json(exams);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching mock exams" });
+    }
+  });
+  
+  // POST /api/mock-exams - Create a mock exam (admin only)
+  app.post("/api/mock-exams", isAdmin, async (req, res) => {
+    try {
+      const mockExamData = insertMockExamSchema.parse(req.body);
+      const mockExam = await storage.createMockExam(mockExamData);
+      res.status(201).json(mockExam);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Error creating mock exam" });
+    }
+  });
+  
+  // PATCH /api/mock-exams/:id - Update a mock exam (admin only)
+  app.patch("/api/mock-exams/:id", isAdmin, async (req, res) => {
+    try {
+      const mockExamId = parseInt(req.params.id);
+      
+      const existingMockExam = await storage.getMockExam(mockExamId);
+      if (!existingMockExam) {
+        return res.status(404).json({ message: "Mock exam not found" });
+      }
+      
+      const mockExamData = insertMockExamSchema.partial().parse(req.body);
+      const mockExam = await storage.updateMockExam(mockExamId, mockExamData);
+      res.json(mockExam);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Error updating mock exam" });
+    }
+  });
+  
+  // DELETE /api/mock-exams/:id - Delete a mock exam (admin only)
+  app.delete("/api/mock-exams/:id", isAdmin, async (req, res) => {
+    try {
+      const mockExamId = parseInt(req.params.id);
+      
+      const existingMockExam = await storage.getMockExam(mockExamId);
+      if (!existingMockExam) {
+        return res.status(404).json({ message: "Mock exam not found" });
+      }
+      
+      await storage.deleteMockExam(mockExamId);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Error deleting mock exam" });
+    }
+  });
+  
+  // GET /api/mock-exam-attempts - Get the current user's mock exam attempts
+  app.get("/api/mock-exam-attempts", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const attempts = await storage.getUserMockExamAttempts(req.user.id);
+      const exams = await storage.getMockExams(true);
+      const examsMap = new Map(exams.map(e => [e.id, e]));
+      
+      // Summaries only; the paper itself is fetched per attempt
+      res.json(attempts.map(attempt => ({
+        id: attempt.id,
+        mockExamId: attempt.mockExamId,
+        examName: examsMap.get(attempt.mockExamId)?.name || 'Mock Exam',
+        status: attempt.status,
+        score: attempt.score,
+        passed: attempt.report?.passed ?? null,
+        startedAt: attempt.startedAt,
+        completedAt: attempt.completedAt
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching mock exam attempts" });
+    }
+  });
+  
+  // POST /api/mock-exams/:id/attempts - Start a new attempt at a mock exam
+  app.post("/api/mock-exams/:id/attempts", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const mockExamId = parseInt(req.params.id);
+      const mockExam = await storage.getMockExam(mockExamId);
+      
+      if (!mockExam || !mockExam.isActive) {
+        return res.status(404).json({ message: "Mock exam not found" });
+      }
+      
+      // Only one running attempt per exam; resume it instead of starting over
+      const attempts = await storage.getUserMockExamAttempts(req.user.id);
+      const running = attempts.find(a => a.mockExamId === mockExamId && a.status === 'in_progress');
+      if (running) {
+        const current = await enforceSessionDeadline(running, mockExam);
+        if (current.status === 'in_progress') {
+          return res.json(await getMockExamAttemptView(current, mockExam));
+        }
+      }
+      
+      let sessions;
+      try {
+        sessions = await assembleMockExamPaper(mockExam);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unable to assemble mock exam";
+        return res.status(400).json({ message });
+      }
+      
+      sessions[0] = startSession(sessions[0], mockExam);
+      const attempt = await storage.createMockExamAttempt({
+        userId: req.user.id,
+        mockExamId,
+        sessions
+      });
+      
+      await storage.createUserActivity({
+        userId: req.user.id,
+        activityType: 'mock_exam_started',
+        details: { attemptId: attempt.id, mockExamId, name: mockExam.name }
+      });
+      
+      res.status(201).json(await getMockExamAttemptView(attempt, mockExam));
+    } catch (error) {
+      res.status(500).json({ message: "Error starting mock exam" });
+    }
+  });
+  
+  // GET /api/mock-exam-attempts/:id - Get an attempt (current session or final report)
+  app.get("/api/mock-exam-attempts/:id", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const attemptId = parseInt(req.params.id);
+      const attempt = await storage.getMockExamAttempt(attemptId);
+      
+      if (!attempt || attempt.userId !== req.user.id) {
+        return res.status(404).json({ message: "Mock exam attempt not found" });
+      }
+      
+      const mockExam = await storage.getMockExam(attempt.mockExamId);
+      if (!mockExam) {
+        return res.status(404).json({ message: "Mock exam not found" });
+      }
+      
+      const current = await enforceSessionDeadline(attempt, mockExam);
+      res.json(await getMockExamAttemptView(current, mockExam));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching mock exam attempt" });
+    }
+  });
+  
+  // PUT /api/mock-exam-attempts/:id/answers - Save an answer or review flag
+  app.put("/api/mock-exam-attempts/:id/answers", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const attemptId = parseInt(req.params.id);
+      const { questionId, userOption, flagged } = mockExamAnswerSchema.parse(req.body);
+      
+      const attempt = await storage.getMockExamAttempt(attemptId);
+      if (!attempt || attempt.userId !== req.user.id) {
+        return res.status(404).json({ message: "Mock exam attempt not found" });
+      }
+      
+      const mockExam = await storage.getMockExam(attempt.mockExamId);
+      if (!mockExam) {
+        return res.status(404).json({ message: "Mock exam not found" });
+      }
+      
+      const current = await enforceSessionDeadline(attempt, mockExam);
+      if (current.status !== 'in_progress' || current.currentSession !== attempt.currentSession) {
+        return res.status(409).json({ message: "This session has ended" });
+      }
+      
+      // Answers can only be changed for questions in the open session
+      if (!current.sessions[current.currentSession].questionIds.includes(questionId)) {
+        return res.status(400).json({ message: "Question is not part of the current session" });
+      }
+      
+      const answers = { ...current.answers };
+      if (userOption !== undefined) {
+        if (userOption === null) {
+          delete answers[questionId];
+        } else {
+          answers[questionId] = userOption;
+        }
+      }
+      
+      let flaggedIds = current.flagged;
+      if (flagged !== undefined) {
+        flaggedIds = flagged
+          ? Array.from(new Set([...flaggedIds, questionId]))
+          : flaggedIds.filter(id => id !== questionId);
+      }
+      
+      const updated = await storage.saveMockExamAnswers(attemptId, current.currentSession, {
+        answers,
+        flagged: flaggedIds
+      });
+      if (!updated) {
+        return res.status(409).json({ message: "This session has ended" });
+      }
+      
+      res.json({ answers: updated.answers, flagged: updated.flagged });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      res.status(500).json({ message: "Error saving answer" });
+    }
+  });
+  
+  // POST /api/mock-exam-attempts/:id/submit-session - Submit the current session
+  app.post("/api/mock-exam-attempts/:id/submit-session", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    try {
+      const attemptId = parseInt(req.params.id);
+      const attempt = await storage.getMockExamAttempt(attemptId);
+      
+      if (!attempt || attempt.userId !== req.user.id) {
+        return res.status(404).json({ message: "Mock exam attempt not found" });
+      }
+      
+      const mockExam = await storage.getMockExam(attempt.mockExamId);
+      if (!mockExam) {
+        return res.status(404).json({ message: "Mock exam not found" });
+      }
+      
+      let current = await enforceSessionDeadline(attempt, mockExam);
+      
+      // If the deadline already closed the session there is nothing left to submit
+      if (current.status === 'in_progress' && current.currentSession === attempt.currentSession) {
+        current = await submitMockExamSession(current, mockExam);
+      }
+      
+      res.json(await getMockExamAttemptView(current, mockExam));
+    } catch (error) {
+      res.status(500).json({ message: "Error submitting session" });
+    }
+  });
+  
   // Study Plan routes and Generator are removed per user's request
 
   // Password Reset Functionality
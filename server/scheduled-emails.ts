@@ -0,0 +1,143 @@
+import { storage } from './storage';
+import { sendPracticeReminderEmail, sendProgressDigestEmail, type ProgressDigest } from './email';
+import { getNotificationPreferences, type NotificationPreferences } from './notifications';
+import type { JobRunSummary, User, UserAnswer } from '@shared/schema';
+
+// Students are reminded once they've gone this many days without practising...
+const REMINDER_AFTER_DAYS = 2;
+// ...and left alone after this many, so abandoned accounts aren't emailed forever
+const REMINDER_STOP_AFTER_DAYS = 30;
+// Answers a topic needs in the week before it can be named the weakest
+const WEAKEST_TOPIC_MIN_ANSWERS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const percentage = (part: number, whole: number) =>
+  whole > 0 ? Math.round((part / whole) * 100) : 0;
+
+/**
+ * Students with an email address who have the given preference turned on
+ */
+async function getStudentsToEmail(preference: keyof NotificationPreferences): Promise<Array<User & { email: string }>> {
+  return (await storage.getAllUsers()).filter((user): user is User & { email: string } =>
+    user.role === 'student' &&
+    !user.isDeleted &&
+    !!user.email &&
+    getNotificationPreferences(user)[preference]
+  );
+}
+
+async function getLiveAnswers(userId: number): Promise<UserAnswer[]> {
+  return (await storage.getUserAnswers(userId)).filter(a => !a.isDeleted);
+}
+
+/**
+ * Email every student who wants practice reminders and hasn't answered a
+ * question for a couple of days. Students who never practised are counted
+ * from their last login.
+ */
+export async function sendPracticeReminders(now: Date = new Date()): Promise<JobRunSummary> {
+  const summary: JobRunSummary = { processed: 0, sent: 0, failed: 0 };
+
+  for (const student of await getStudentsToEmail('practiceReminders')) {
+    summary.processed++;
+
+    const answers = await getLiveAnswers(student.id);
+    const lastPractisedAt = answers.length > 0
+      ? Math.max(...answers.map(a => new Date(a.answeredAt).getTime()))
+      : null;
+    const since = lastPractisedAt ?? new Date(student.lastLoginDate).getTime();
+    const daysInactive = Math.floor((now.getTime() - since) / DAY_MS);
+    if (daysInactive < REMINDER_AFTER_DAYS || daysInactive > REMINDER_STOP_AFTER_DAYS) continue;
+
+    const sent = await sendPracticeReminderEmail(student.email, {
+      username: student.username,
+      daysInactive: lastPractisedAt === null ? null : daysInactive,
+      longestStreakDays: student.longestStreakDays,
+    });
+    if (sent) {
+      summary.sent++;
+    } else {
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * A student's last 7 days against the 7 before: questions answered, accuracy
+ * and the topic they did worst in. Nothing is returned for a student who
+ * hasn't answered anything in either week.
+ */
+export async function buildProgressDigest(user: User, now: Date = new Date()): Promise<ProgressDigest | null> {
+  const weekStart = now.getTime() - 7 * DAY_MS;
+  const previousWeekStart = now.getTime() - 14 * DAY_MS;
+
+  const answers = await getLiveAnswers(user.id);
+  const answeredAt = (answer: UserAnswer) => new Date(answer.answeredAt).getTime();
+  const thisWeek = answers.filter(a => answeredAt(a) >= weekStart && answeredAt(a) < now.getTime());
+  const previousWeek = answers.filter(a => answeredAt(a) >= previousWeekStart && answeredAt(a) < weekStart);
+  if (thisWeek.length === 0 && previousWeek.length === 0) return null;
+
+  const accuracyOf = (weekAnswers: UserAnswer[]) => weekAnswers.length > 0
+    ? percentage(weekAnswers.filter(a => a.isCorrect).length, weekAnswers.length)
+    : null;
+  const accuracy = accuracyOf(thisWeek);
+  const previousAccuracy = accuracyOf(previousWeek);
+
+  // Tally this week's answers by topic to find the weakest one
+  const questions = await storage.getQuestionsByIds(Array.from(new Set(thisWeek.map(a => a.questionId))));
+  const topicByQuestion = new Map(questions.map(q => [q.id, q.topicId] as [number, number]));
+  const topicStats = new Map<number, { total: number; correct: number }>();
+  for (const answer of thisWeek) {
+    const topicId = topicByQuestion.get(answer.questionId);
+    if (topicId === undefined) continue;
+    const stats = topicStats.get(topicId) || { total: 0, correct: 0 };
+    stats.total++;
+    if (answer.isCorrect) stats.correct++;
+    topicStats.set(topicId, stats);
+  }
+
+  let weakestTopic: ProgressDigest['weakestTopic'] = null;
+  for (const [topicId, stats] of Array.from(topicStats.entries())) {
+    if (stats.total < WEAKEST_TOPIC_MIN_ANSWERS) continue;
+    const topicAccuracy = percentage(stats.correct, stats.total);
+    if (!weakestTopic || topicAccuracy < weakestTopic.accuracy) {
+      const topic = await storage.getTopic(topicId);
+      weakestTopic = { name: topic?.name || 'Unknown Topic', accuracy: topicAccuracy };
+    }
+  }
+
+  return {
+    username: user.username,
+    questionsAnswered: thisWeek.length,
+    previousQuestionsAnswered: previousWeek.length,
+    accuracy,
+    accuracyChange: accuracy !== null && previousAccuracy !== null ? accuracy - previousAccuracy : null,
+    weakestTopic,
+  };
+}
+
+/**
+ * Email every student who wants progress updates and practised in the last
+ * two weeks a digest of their week
+ */
+export async function sendProgressDigests(now: Date = new Date()): Promise<JobRunSummary> {
+  const summary: JobRunSummary = { processed: 0, sent: 0, failed: 0 };
+
+  for (const student of await getStudentsToEmail('progressUpdates')) {
+    summary.processed++;
+
+    const digest = await buildProgressDigest(student, now);
+    if (!digest) continue;
+
+    if (await sendProgressDigestEmail(student.email, digest)) {
+      summary.sent++;
+    } else {
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,94 @@
+import { storage } from './storage';
+import { getLatestAnswers } from './helpers/user-progress';
+import { shuffle } from './helpers/shuffle';
+import type { CurriculumLevel, PracticeSessionOptions, Question } from '@shared/schema';
+
+const OPTION_LETTERS = ['A', 'B', 'C', 'D'] as const;
+type OptionLetter = typeof OPTION_LETTERS[number];
+
+const optionField = (letter: string) => `option${letter}` as `option${OptionLetter}`;
+
+/**
+ * The questions in a topic, at the user's level, that match the builder
+ * settings: chapters, difficulties and whether the user has seen them or got
+ * them wrong last time. Every match is returned, before the count is applied.
+ */
+export async function findMatchingQuestions(
+  userId: number,
+  topicId: number,
+  level: CurriculumLevel,
+  options: Omit<PracticeSessionOptions, 'count'>
+): Promise<Question[]> {
+  const [topicQuestions, topicAnswers] = await Promise.all([
+    storage.getQuestionsByTopic(topicId),
+    storage.getUserAnswersByTopic(userId, topicId),
+  ]);
+  const latest = getLatestAnswers(topicAnswers);
+  const chapterIds = options.chapterIds?.length ? new Set(options.chapterIds) : null;
+  const difficulties = options.difficulties?.length ? new Set(options.difficulties) : null;
+
+  return topicQuestions.filter(question => {
+    if (question.isDeleted || question.level !== level) return false;
+    if (chapterIds && (question.chapterId === null || !chapterIds.has(question.chapterId))) return false;
+    if (difficulties && !difficulties.has(question.difficulty)) return false;
+    if (options.unseenOnly && latest.has(question.id)) return false;
+    if (options.incorrectOnly && (!latest.has(question.id) || latest.get(question.id)!.isCorrect)) return false;
+    return true;
+  });
+}
+
+/**
+ * Pick the questions for a sitting from the builder settings, shuffled if
+ * asked for. Item set questions are left in place for the caller to cluster.
+ */
+export async function buildSessionQuestions(
+  userId: number,
+  topicId: number,
+  level: CurriculumLevel,
+  options: PracticeSessionOptions
+): Promise<Question[]> {
+  const matching = await findMatchingQuestions(userId, topicId, level, options);
+  return (options.shuffleQuestions ? shuffle(matching) : matching).slice(0, options.count);
+}
+
+/**
+ * A random order of each question's options. The order lists the original
+ * option shown at each position, so ['C', 'A', 'B'] shows option C as A.
+ */
+export function shuffleOptionOrders(questions: Question[]): Record<string, string[]> {
+  const orders: Record<string, string[]> = {};
+  for (const question of questions) {
+    const present = OPTION_LETTERS.filter(letter => !!question[optionField(letter)]);
+    orders[question.id] = shuffle(present);
+  }
+  return orders;
+}
+
+/**
+ * Show a question with its options in the session's order. The correct
+ * option is relabelled to match, and any unused slot is left empty.
+ */
+export function applyOptionOrder(question: Question, order: string[] | undefined): Question {
+  if (!order) return question;
+
+  const reordered: Question = { ...question, optionD: null };
+  order.forEach((original, position) => {
+    reordered[optionField(OPTION_LETTERS[position])] = question[optionField(original)] as string;
+  });
+  reordered.correctOption = OPTION_LETTERS[order.indexOf(question.correctOption)] ?? question.correctOption;
+  return reordered;
+}
+
+// The original option behind the letter the user saw
+export function toOriginalOption(order: string[] | undefined, shownOption: string): string {
+  if (!order) return shownOption;
+  const position = OPTION_LETTERS.indexOf(shownOption as OptionLetter);
+  return position === -1 ? shownOption : order[position] ?? shownOption;
+}
+
+// The letter the user saw for an original option
+export function toShownOption(order: string[] | undefined, originalOption: string): string {
+  if (!order) return originalOption;
+  const position = order.indexOf(originalOption);
+  return position === -1 ? originalOption : OPTION_LETTERS[position];
+}
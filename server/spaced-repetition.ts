@@ -0,0 +1,106 @@
+import { storage } from './storage';
+import type { CurriculumLevel, Question, ReviewCard, UserAnswer } from '@shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+
+// Answer times (in seconds) used to grade how confidently a question was recalled
+const FAST_ANSWER_SECONDS = 60;
+const SLOW_ANSWER_SECONDS = 120;
+
+export type ReviewSchedule = Pick<ReviewCard, 'easeFactor' | 'interval' | 'repetitions' | 'dueDate'>;
+
+/**
+ * Map an answer onto SM-2's 0-5 recall quality scale. Multiple-choice answers
+ * only tell us right or wrong, so the time taken separates an easy recall
+ * from a hesitant one.
+ */
+export function gradeAnswer(isCorrect: boolean, timeSpent: number): number {
+  if (!isCorrect) {
+    return timeSpent <= FAST_ANSWER_SECONDS ? 1 : 2;
+  }
+  if (timeSpent <= FAST_ANSWER_SECONDS) return 5;
+  if (timeSpent <= SLOW_ANSWER_SECONDS) return 4;
+  return 3;
+}
+
+/**
+ * Compute the next review schedule for a card using the SM-2 algorithm.
+ * A failed recall resets the repetition count and brings the card back the
+ * next day; successful recalls space it out by the card's ease factor.
+ */
+export function scheduleReview(
+  card: ReviewSchedule | undefined,
+  quality: number,
+  now: Date = new Date()
+): ReviewSchedule {
+  const easeFactor = card?.easeFactor ?? DEFAULT_EASE_FACTOR;
+  const previousInterval = card?.interval ?? 0;
+  const previousRepetitions = card?.repetitions ?? 0;
+
+  let interval: number;
+  let repetitions: number;
+
+  if (quality >= 3) {
+    if (previousRepetitions === 0) {
+      interval = 1;
+    } else if (previousRepetitions === 1) {
+      interval = 6;
+    } else {
+      interval = Math.round(previousInterval * easeFactor);
+    }
+    repetitions = previousRepetitions + 1;
+  } else {
+    interval = 1;
+    repetitions = 0;
+  }
+
+  const nextEaseFactor = Math.max(
+    MIN_EASE_FACTOR,
+    easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  return {
+    easeFactor: Math.round(nextEaseFactor * 100) / 100,
+    interval,
+    repetitions,
+    dueDate: new Date(now.getTime() + interval * DAY_MS)
+  };
+}
+
+/**
+ * Update the user's review card for a question after they answer it
+ */
+export async function recordReview(answer: UserAnswer): Promise<ReviewCard> {
+  const card = await storage.getReviewCard(answer.userId, answer.questionId);
+  const now = new Date();
+  const schedule = scheduleReview(card, gradeAnswer(answer.isCorrect, answer.timeSpent), now);
+
+  return storage.saveReviewCard({
+    userId: answer.userId,
+    questionId: answer.questionId,
+    ...schedule,
+    lastReviewedAt: now
+  });
+}
+
+/**
+ * Questions whose review date has passed, most overdue first, across all
+ * topics. With a level, only that curriculum level's questions are included.
+ */
+export async function getDueReviewQuestions(
+  userId: number,
+  limit: number,
+  level?: CurriculumLevel
+): Promise<Question[]> {
+  // Cards of other levels would take up the limit, so filter before applying it
+  const dueCards = await storage.getDueReviewCards(userId, new Date(), level ? undefined : limit);
+  const dueQuestions = await storage.getQuestionsByIds(dueCards.map(card => card.questionId));
+  const questionsById = new Map(dueQuestions.map(q => [q.id, q]));
+
+  return dueCards
+    .map(card => questionsById.get(card.questionId))
+    .filter((q): q is Question => !!q && !q.isDeleted && (!level || q.level === level))
+    .slice(0, limit);
+}
@@ -12,6 +12,7 @@ import {
   subscriptions,
   type User,
   type InsertUser,
+  type UserStreak,
   type Topic,
   type InsertTopic,
   type Chapter,
@@ -31,30 +32,91 @@ import {
   type Payment,
   type InsertPayment,
   type Subscription,
-  type InsertSubscription
+  type InsertSubscription,
+  mockExams,
+  mockExamAttempts,
+  type MockExam,
+  type InsertMockExam,
+  type MockExamAttempt,
+  type InsertMockExamAttempt,
+  reviewCards,
+  type ReviewCard,
+  type InsertReviewCard,
+  practiceSessions,
+  type PracticeSession,
+  type InsertPracticeSession,
+  practiceSetQuestions,
+  type PracticeSetQuestion,
+  questionRevisions,
+  type QuestionRevision,
+  type InsertQuestionRevision,
+  questionReports,
+  type QuestionReport,
+  type InsertQuestionReport,
+  questionGroups,
+  type QuestionGroup,
+  type InsertQuestionGroup,
+  type CurriculumLevel,
+  learningOutcomes,
+  type LearningOutcome,
+  type InsertLearningOutcome,
+  questionLearningOutcomes,
+  type QuestionLearningOutcome,
+  questionBookmarks,
+  type QuestionBookmark,
+  type InsertQuestionBookmark,
+  questionNotes,
+  type QuestionNote,
+  studyDays,
+  type StudyDay,
+  type InsertStudyDay,
+  userBadges,
+  type UserBadge,
+  type InsertUserBadge,
+  notifications,
+  type Notification,
+  type InsertNotification,
+  jobRuns,
+  type JobRun,
+  type InsertJobRun,
+  emailDeliveries,
+  type EmailDelivery,
+  type InsertEmailDelivery,
+  type EmailDeliveryStatus
 } from "@shared/schema";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import ConnectPgSimple from "connect-pg-simple";
-import { db, pool } from "./db";
-import { eq, and, desc, sql } from "drizzle-orm";
+import { db, pool, runInTransaction } from "./db";
+import { eq, and, desc, sql, inArray, lte, isNull, getTableColumns } from "drizzle-orm";
+
+// How many of a topic's questions a user has answered. Only questions in
+// chapters count, and deleted questions and chapters are left out.
+export type TopicQuestionCoverage = {
+  topicId: number;
+  questionCount: number;
+  answeredCount: number;
+};
 
 // Interface for storage operations
 export interface IStorage {
   // Session store for authentication
   sessionStore: session.Store;
   
+  // Run storage operations all-or-nothing
+  transaction<T>(work: () => Promise<T>): Promise<T>;
+  
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  updateUserStreak(userId: number, streakDays: number): Promise<User | undefined>;
+  updateUserStreak(userId: number, streak: UserStreak): Promise<User | undefined>;
   getAllUsers(): Promise<User[]>;
   updateUser(id: number, userData: Partial<User>): Promise<User>;
   deleteUser(id: number): Promise<void>;
   
   // Topic operations
-  getAllTopics(): Promise<Topic[]>;
+  getAllTopics(level?: CurriculumLevel): Promise<Topic[]>;
   getTopic(id: number): Promise<Topic | undefined>;
   createTopic(topic: InsertTopic): Promise<Topic>;
   updateTopic(id: number, topicData: Partial<Topic>): Promise<Topic>;
@@ -68,17 +130,24 @@ export interface IStorage {
   deleteChapter(id: number): Promise<void>;
   
   // Question operations
+  getAllQuestions(): Promise<Question[]>;
+  getQuestionsByIds(ids: number[]): Promise<Question[]>;
   getQuestionsByTopic(topicId: number): Promise<Question[]>;
   getQuestionsByChapter(chapterId: number): Promise<Question[]>;
   getQuestion(id: number): Promise<Question | undefined>;
   createQuestion(question: InsertQuestion): Promise<Question>;
+  createQuestions(questions: InsertQuestion[]): Promise<Question[]>;
   updateQuestion(id: number, questionData: Partial<Question>): Promise<Question>;
+  reviseQuestion(id: number, questionData: Partial<Question>): Promise<Question>; // also bumps currentRevision
   deleteQuestion(id: number): Promise<void>;
   
   // User answer operations
-  createUserAnswer(answer: InsertUserAnswer): Promise<UserAnswer>;
+  createUserAnswer(answer: InsertUserAnswer): Promise<UserAnswer | undefined>; // undefined if the session already answered it
   getUserAnswers(userId: number): Promise<UserAnswer[]>;
+  getAllUserAnswers(): Promise<UserAnswer[]>;
   getUserAnswersByTopic(userId: number, topicId: number): Promise<UserAnswer[]>;
+  countUserAnswers(userId: number): Promise<number>;
+  getTopicQuestionCoverage(userId: number, topicIds: number[]): Promise<TopicQuestionCoverage[]>;
   
   // User progress operations
   getUserProgress(userId: number): Promise<UserProgress[]>;
@@ -90,12 +159,14 @@ export interface IStorage {
   createUserActivity(activity: InsertUserActivity): Promise<UserActivity>;
   
   // Practice sets operations
-  getPracticeSets(topicId?: number): Promise<PracticeSet[]>;
+  getPracticeSets(topicId?: number, level?: CurriculumLevel): Promise<PracticeSet[]>;
   getPracticeSet(id: number): Promise<PracticeSet | undefined>;
-  getRecommendedPracticeSets(userId: number): Promise<PracticeSet[]>;
   createPracticeSet(practiceSet: InsertPracticeSet): Promise<PracticeSet>;
   updatePracticeSet(id: number, practiceSetData: Partial<PracticeSet>): Promise<PracticeSet>;
   deletePracticeSet(id: number): Promise<void>;
+  getPracticeSetQuestions(practiceSetId: number): Promise<Question[]>;
+  setPracticeSetQuestions(practiceSetId: number, questionIds: number[]): Promise<void>;
+  getUnannouncedPracticeSets(): Promise<PracticeSet[]>;
   
   // Error logging operations
   logError(errorLog: InsertErrorLog): Promise<ErrorLog>;
@@ -120,6 +191,109 @@ export interface IStorage {
   updateSubscription(id: number, subscriptionData: Partial<Subscription>): Promise<Subscription>;
   checkAndUpdateSubscriptionStatus(id: number): Promise<Subscription>;
   updateUserPremiumStatus(userId: number, isPremium: boolean): Promise<User>;
+  
+  // Mock exam operations
+  getMockExams(includeInactive?: boolean): Promise<MockExam[]>;
+  getMockExam(id: number): Promise<MockExam | undefined>;
+  createMockExam(mockExam: InsertMockExam): Promise<MockExam>;
+  updateMockExam(id: number, mockExamData: Partial<MockExam>): Promise<MockExam>;
+  deleteMockExam(id: number): Promise<void>;
+  
+  // Mock exam attempt operations
+  createMockExamAttempt(attempt: InsertMockExamAttempt): Promise<MockExamAttempt>;
+  getMockExamAttempt(id: number): Promise<MockExamAttempt | undefined>;
+  getUserMockExamAttempts(userId: number): Promise<MockExamAttempt[]>;
+  updateMockExamAttempt(id: number, attemptData: Partial<MockExamAttempt>): Promise<MockExamAttempt>;
+  completeMockExamAttempt(id: number, attemptData: Partial<MockExamAttempt>): Promise<MockExamAttempt | undefined>;
+  saveMockExamAnswers(
+    id: number,
+    session: number,
+    attemptData: Pick<MockExamAttempt, 'answers' | 'flagged'>
+  ): Promise<MockExamAttempt | undefined>; // undefined once that session is no longer open
+  
+  // Spaced-repetition review operations
+  getReviewCard(userId: number, questionId: number): Promise<ReviewCard | undefined>;
+  saveReviewCard(card: InsertReviewCard): Promise<ReviewCard>;
+  getDueReviewCards(userId: number, asOf: Date, limit?: number): Promise<ReviewCard[]>;
+  
+  // Practice session operations
+  createPracticeSession(practiceSession: InsertPracticeSession): Promise<PracticeSession>;
+  getPracticeSession(id: number): Promise<PracticeSession | undefined>;
+  getActivePracticeSessions(userId: number): Promise<PracticeSession[]>;
+  getCompletedPracticeSessions(userId: number): Promise<PracticeSession[]>;
+  updatePracticeSession(id: number, sessionData: Partial<PracticeSession>): Promise<PracticeSession>;
+  countPracticeSessionAnswer(id: number, answer: { position: number; isCorrect: boolean; timeSpent: number }): Promise<PracticeSession>;
+  getPracticeSessionAnswers(sessionId: number): Promise<UserAnswer[]>;
+  
+  // Question revision operations
+  getQuestionRevisions(questionId: number): Promise<QuestionRevision[]>;
+  getQuestionRevision(questionId: number, revision: number): Promise<QuestionRevision | undefined>;
+  createQuestionRevision(revision: InsertQuestionRevision): Promise<QuestionRevision>;
+  
+  // Question report operations
+  createQuestionReport(report: InsertQuestionReport): Promise<QuestionReport>;
+  getQuestionReport(id: number): Promise<QuestionReport | undefined>;
+  getQuestionReports(status?: string): Promise<QuestionReport[]>;
+  getUserQuestionReports(userId: number, questionId: number): Promise<QuestionReport[]>;
+  updateQuestionReport(id: number, reportData: Partial<QuestionReport>): Promise<QuestionReport>;
+  
+  // Question group operations
+  getAllQuestionGroups(): Promise<QuestionGroup[]>;
+  getQuestionGroup(id: number): Promise<QuestionGroup | undefined>;
+  getQuestionGroupsByIds(ids: number[]): Promise<QuestionGroup[]>;
+  createQuestionGroup(group: InsertQuestionGroup): Promise<QuestionGroup>;
+  updateQuestionGroup(id: number, groupData: Partial<QuestionGroup>): Promise<QuestionGroup>;
+  getQuestionsByGroup(groupId: number): Promise<Question[]>;
+  
+  // Learning outcome operations
+  getAllLearningOutcomes(): Promise<LearningOutcome[]>;
+  getLearningOutcomesByChapter(chapterId: number): Promise<LearningOutcome[]>;
+  getLearningOutcome(id: number): Promise<LearningOutcome | undefined>;
+  createLearningOutcome(learningOutcome: InsertLearningOutcome): Promise<LearningOutcome>;
+  updateLearningOutcome(id: number, learningOutcomeData: Partial<LearningOutcome>): Promise<LearningOutcome>;
+  getQuestionLearningOutcomeLinks(): Promise<QuestionLearningOutcome[]>;
+  getLearningOutcomeIdsForQuestion(questionId: number): Promise<number[]>;
+  setQuestionLearningOutcomes(questionId: number, learningOutcomeIds: number[]): Promise<void>;
+  
+  // Bookmark and note operations
+  getQuestionBookmarks(userId: number): Promise<QuestionBookmark[]>;
+  getQuestionBookmark(userId: number, questionId: number): Promise<QuestionBookmark | undefined>;
+  createQuestionBookmark(bookmark: InsertQuestionBookmark): Promise<QuestionBookmark>;
+  deleteQuestionBookmark(userId: number, questionId: number): Promise<void>;
+  getQuestionNotes(userId: number): Promise<QuestionNote[]>;
+  getQuestionNote(userId: number, questionId: number): Promise<QuestionNote | undefined>;
+  saveQuestionNote(userId: number, questionId: number, content: string): Promise<QuestionNote>;
+  deleteQuestionNote(userId: number, questionId: number): Promise<void>;
+  
+  // Study day operations
+  getStudyDays(userId: number): Promise<StudyDay[]>;
+  getStudyDay(userId: number, studyDate: string): Promise<StudyDay | undefined>;
+  saveStudyDay(studyDay: InsertStudyDay): Promise<StudyDay>;
+  addStudyDayQuestions(userId: number, studyDate: string, questions: number): Promise<StudyDay>;
+  
+  // Badge operations
+  getUserBadges(userId: number): Promise<UserBadge[]>;
+  awardUserBadge(badge: InsertUserBadge): Promise<UserBadge | undefined>;
+  
+  // Notification operations
+  getNotifications(userId: number, limit?: number): Promise<Notification[]>;
+  getNotification(id: number): Promise<Notification | undefined>;
+  createNotification(notification: InsertNotification): Promise<Notification | undefined>;
+  markNotificationRead(id: number): Promise<Notification>;
+  markAllNotificationsRead(userId: number): Promise<void>;
+  deleteNotification(id: number): Promise<void>;
+  
+  // Job run operations
+  getJobRuns(jobName?: string, limit?: number): Promise<JobRun[]>;
+  getLatestJobRun(jobName: string): Promise<JobRun | undefined>;
+  createJobRun(jobRun: InsertJobRun): Promise<JobRun>;
+  updateJobRun(id: number, jobRunData: Partial<JobRun>): Promise<JobRun>;
+  
+  // Email delivery operations
+  getEmailDeliveries(status?: EmailDeliveryStatus, limit?: number): Promise<EmailDelivery[]>;
+  getDueEmailDeliveries(now: Date, limit: number): Promise<EmailDelivery[]>;
+  createEmailDelivery(delivery: InsertEmailDelivery): Promise<EmailDelivery>;
+  updateEmailDelivery(id: number, deliveryData: Partial<EmailDelivery>): Promise<EmailDelivery>;
 }
 
 // In-memory storage implementation
@@ -135,6 +309,23 @@ export class MemStorage implements IStorage {
   private errorLogs: Map<number, ErrorLog>;
   private payments: Map<number, Payment>;
   private subscriptions: Map<number, Subscription>;
+  private mockExams: Map<number, MockExam>;
+  private mockExamAttempts: Map<number, MockExamAttempt>;
+  private reviewCards: Map<number, ReviewCard>;
+  private practiceSessions: Map<number, PracticeSession>;
+  private practiceSetQuestions: Map<number, PracticeSetQuestion>;
+  private questionRevisions: Map<number, QuestionRevision>;
+  private questionReports: Map<number, QuestionReport>;
+  private questionGroups: Map<number, QuestionGroup>;
+  private learningOutcomes: Map<number, LearningOutcome>;
+  private questionLearningOutcomes: Map<number, QuestionLearningOutcome>;
+  private questionBookmarks: Map<number, QuestionBookmark>;
+  private questionNotes: Map<number, QuestionNote>;
+  private studyDays: Map<number, StudyDay>;
+  private userBadges: Map<number, UserBadge>;
+  private notifications: Map<number, Notification>;
+  private jobRuns: Map<number, JobRun>;
+  private emailDeliveries: Map<number, EmailDelivery>;
   
   private userIdCounter: number;
   private topicIdCounter: number;
@@ -147,6 +338,23 @@ export class MemStorage implements IStorage {
   private errorLogIdCounter: number;
   private paymentIdCounter: number;
   private subscriptionIdCounter: number;
+  private mockExamIdCounter: number;
+  private mockExamAttemptIdCounter: number;
+  private reviewCardIdCounter: number;
+  private practiceSessionIdCounter: number;
+  private practiceSetQuestionIdCounter: number;
+  private questionRevisionIdCounter: number;
+  private questionReportIdCounter: number;
+  private questionGroupIdCounter: number;
+  private learningOutcomeIdCounter: number;
+  private questionLearningOutcomeIdCounter: number;
+  private questionBookmarkIdCounter: number;
+  private questionNoteIdCounter: number;
+  private studyDayIdCounter: number;
+  private userBadgeIdCounter: number;
+  private notificationIdCounter: number;
+  private jobRunIdCounter: number;
+  private emailDeliveryIdCounter: number;
   
   // Session store for authentication
   public sessionStore: session.Store;
@@ -169,6 +377,23 @@ export class MemStorage implements IStorage {
     this.errorLogs = new Map();
     this.payments = new Map();
     this.subscriptions = new Map();
+    this.mockExams = new Map();
+    this.mockExamAttempts = new Map();
+    this.reviewCards = new Map();
+    this.practiceSessions = new Map();
+    this.practiceSetQuestions = new Map();
+    this.questionRevisions = new Map();
+    this.questionReports = new Map();
+    this.questionGroups = new Map();
+    this.learningOutcomes = new Map();
+    this.questionLearningOutcomes = new Map();
+    this.questionBookmarks = new Map();
+    this.questionNotes = new Map();
+    this.studyDays = new Map();
+    this.userBadges = new Map();
+    this.notifications = new Map();
+    this.jobRuns = new Map();
+    this.emailDeliveries = new Map();
     
     this.userIdCounter = 1;
     this.topicIdCounter = 1;
@@ -181,6 +406,28 @@ export class MemStorage implements IStorage {
     this.errorLogIdCounter = 1;
     this.paymentIdCounter = 1;
     this.subscriptionIdCounter = 1;
+    this.mockExamIdCounter = 1;
+    this.mockExamAttemptIdCounter = 1;
+    this.reviewCardIdCounter = 1;
+    this.practiceSessionIdCounter = 1;
+    this.practiceSetQuestionIdCounter = 1;
+    this.questionRevisionIdCounter = 1;
+    this.questionReportIdCounter = 1;
+    this.questionGroupIdCounter = 1;
+    this.learningOutcomeIdCounter = 1;
+    this.questionLearningOutcomeIdCounter = 1;
+    this.questionBookmarkIdCounter = 1;
+    this.questionNoteIdCounter = 1;
+    this.studyDayIdCounter = 1;
+    this.userBadgeIdCounter = 1;
+    this.notificationIdCounter = 1;
+    this.jobRunIdCounter = 1;
+    this.emailDeliveryIdCounter = 1;
+  }
+  
+  // Nothing to roll back in memory
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    return work();
   }
   
   // User operations
@@ -202,6 +449,9 @@ export class MemStorage implements IStorage {
       ...insertUser, 
       id, 
       streakDays: 0, 
+      longestStreakDays: 0,
+      streakFreezes: 0,
+      timezone: null,
       lastLoginDate: new Date(),
       // Default role to student if not specified
       role: insertUser.role || 'student',
@@ -220,7 +470,8 @@ export class MemStorage implements IStorage {
       notificationPreferences: {
         practiceReminders: true,
         newContentAlerts: true,
-        progressUpdates: false
+        progressUpdates: false,
+        accountAlerts: true
       }
     };
     
@@ -228,10 +479,10 @@ export class MemStorage implements IStorage {
     return user;
   }
   
-  async updateUserStreak(userId: number, streakDays: number): Promise<User | undefined> {
+  async updateUserStreak(userId: number, streak: UserStreak): Promise<User | undefined> {
     const user = await this.getUser(userId);
     if (user) {
-      const updatedUser = { ...user, streakDays, lastLoginDate: new Date() };
+      const updatedUser = { ...user, ...streak };
       this.users.set(userId, updatedUser);
       return updatedUser;
     }
@@ -258,8 +509,9 @@ export class MemStorage implements IStorage {
   }
   
   // Topic operations
-  async getAllTopics(): Promise<Topic[]> {
-    return Array.from(this.topics.values());
+  async getAllTopics(level?: CurriculumLevel): Promise<Topic[]> {
+    const allTopics = Array.from(this.topics.values());
+    return level ? allTopics.filter(topic => topic.level === level) : allTopics;
   }
   
   async getTopic(id: number): Promise<Topic | undefined> {
@@ -268,7 +520,7 @@ export class MemStorage implements IStorage {
   
   async createTopic(insertTopic: InsertTopic): Promise<Topic> {
     const id = this.topicIdCounter++;
-    const topic: Topic = { ...insertTopic, id };
+    const topic: Topic = { ...insertTopic, id, level: insertTopic.level ?? "Level I" };
     this.topics.set(id, topic);
     return topic;
   }
@@ -301,7 +553,7 @@ export class MemStorage implements IStorage {
   
   async createChapter(insertChapter: InsertChapter): Promise<Chapter> {
     const id = this.chapterIdCounter++;
-    const chapter: Chapter = { ...insertChapter, id };
+    const chapter: Chapter = { ...insertChapter, id, level: insertChapter.level ?? "Level I" };
     this.chapters.set(id, chapter);
     return chapter;
   }
@@ -322,6 +574,17 @@ export class MemStorage implements IStorage {
   }
   
   // Question operations
+  async getAllQuestions(): Promise<Question[]> {
+    return Array.from(this.questions.values());
+  }
+  
+  async getQuestionsByIds(ids: number[]): Promise<Question[]> {
+    const idSet = new Set(ids);
+    return Array.from(this.questions.values()).filter(
+      (question) => idSet.has(question.id)
+    );
+  }
+  
   async getQuestionsByTopic(topicId: number): Promise<Question[]> {
     return Array.from(this.questions.values()).filter(
       (question) => question.topicId === topicId
@@ -340,11 +603,27 @@ export class MemStorage implements IStorage {
   
   async createQuestion(insertQuestion: InsertQuestion): Promise<Question> {
     const id = this.questionIdCounter++;
-    const question: Question = { ...insertQuestion, id };
+    const question: Question = {
+      ...insertQuestion,
+      id,
+      contentFormat: insertQuestion.contentFormat ?? "plain",
+      level: insertQuestion.level ?? "Level I",
+      groupId: null,
+      groupPosition: null,
+      currentRevision: 1
+    };
     this.questions.set(id, question);
     return question;
   }
   
+  async createQuestions(insertQuestions: InsertQuestion[]): Promise<Question[]> {
+    const created: Question[] = [];
+    for (const insertQuestion of insertQuestions) {
+      created.push(await this.createQuestion(insertQuestion));
+    }
+    return created;
+  }
+  
   async updateQuestion(id: number, questionData: Partial<Question>): Promise<Question> {
     const question = await this.getQuestion(id);
     if (!question) {
@@ -356,19 +635,41 @@ export class MemStorage implements IStorage {
     return updatedQuestion;
   }
   
+  async reviseQuestion(id: number, questionData: Partial<Question>): Promise<Question> {
+    const question = await this.getQuestion(id);
+    if (!question) {
+      throw new Error(`Question with id ${id} not found`);
+    }
+    
+    const updatedQuestion = { ...question, ...questionData, currentRevision: question.currentRevision + 1 };
+    this.questions.set(id, updatedQuestion);
+    return updatedQuestion;
+  }
+  
   async deleteQuestion(id: number): Promise<void> {
     this.questions.delete(id);
   }
   
   // User answer operations
-  async createUserAnswer(insertAnswer: InsertUserAnswer): Promise<UserAnswer> {
+  async createUserAnswer(insertAnswer: InsertUserAnswer): Promise<UserAnswer | undefined> {
+    if (insertAnswer.sessionId) {
+      const alreadyAnswered = Array.from(this.userAnswers.values()).some(a =>
+        a.sessionId === insertAnswer.sessionId && a.questionId === insertAnswer.questionId
+      );
+      if (alreadyAnswered) return undefined;
+    }
+    
     const id = this.userAnswerIdCounter++;
-    const answer: UserAnswer = { ...insertAnswer, id, answeredAt: new Date() };
+    const question = this.questions.get(insertAnswer.questionId);
+    const answer: UserAnswer = {
+      ...insertAnswer,
+      id,
+      sessionId: insertAnswer.sessionId ?? null,
+      questionRevision: question?.currentRevision ?? null,
+      answeredAt: new Date()
+    };
     this.userAnswers.set(id, answer);
     
-    // Update user progress
-    await this.updateUserProgressAfterAnswer(answer);
-    
     return answer;
   }
   
@@ -378,6 +679,10 @@ export class MemStorage implements IStorage {
     );
   }
   
+  async getAllUserAnswers(): Promise<UserAnswer[]> {
+    return Array.from(this.userAnswers.values()).filter(answer => !answer.isDeleted);
+  }
+  
   async getUserAnswersByTopic(userId: number, topicId: number): Promise<UserAnswer[]> {
     const userAnswers = await this.getUserAnswers(userId);
     const topicQuestions = await this.getQuestionsByTopic(topicId);
@@ -386,6 +691,34 @@ export class MemStorage implements IStorage {
     return userAnswers.filter(answer => topicQuestionIds.has(answer.questionId));
   }
   
+  async countUserAnswers(userId: number): Promise<number> {
+    return Array.from(this.userAnswers.values())
+      .filter(answer => answer.userId === userId && !answer.isDeleted)
+      .length;
+  }
+  
+  async getTopicQuestionCoverage(userId: number, topicIds: number[]): Promise<TopicQuestionCoverage[]> {
+    const answeredIds = new Set(
+      Array.from(this.userAnswers.values())
+        .filter(answer => answer.userId === userId && !answer.isDeleted)
+        .map(answer => answer.questionId)
+    );
+    const coverage = new Map<number, TopicQuestionCoverage>();
+    
+    for (const question of Array.from(this.questions.values())) {
+      if (question.isDeleted || !topicIds.includes(question.topicId) || question.chapterId === null) continue;
+      const chapter = this.chapters.get(question.chapterId);
+      if (!chapter || chapter.isDeleted) continue;
+      
+      const topicCoverage = coverage.get(question.topicId) || { topicId: question.topicId, questionCount: 0, answeredCount: 0 };
+      topicCoverage.questionCount++;
+      if (answeredIds.has(question.id)) topicCoverage.answeredCount++;
+      coverage.set(question.topicId, topicCoverage);
+    }
+    
+    return Array.from(coverage.values());
+  }
+  
   // User progress operations
   async getUserProgress(userId: number): Promise<UserProgress[]> {
     return Array.from(this.userProgress.values()).filter(
@@ -408,9 +741,13 @@ export class MemStorage implements IStorage {
     if (existingProgress) {
       const updatedProgress: UserProgress = {
         ...existingProgress,
-        questionsAttempted: insertProgress.questionsAttempted,
-        questionsCorrect: insertProgress.questionsCorrect,
-        totalTimeSpent: insertProgress.totalTimeSpent,
+        questionsAttempted: insertProgress.questionsAttempted ?? 0,
+        questionsCorrect: insertProgress.questionsCorrect ?? 0,
+        questionsSeen: insertProgress.questionsSeen ?? 0,
+        firstAttemptCorrect: insertProgress.firstAttemptCorrect ?? 0,
+        latestCorrect: insertProgress.latestCorrect ?? 0,
+        questionsMastered: insertProgress.questionsMastered ?? 0,
+        totalTimeSpent: insertProgress.totalTimeSpent ?? 0,
         lastUpdated: new Date(),
       };
       this.userProgress.set(existingProgress.id, updatedProgress);
@@ -420,6 +757,13 @@ export class MemStorage implements IStorage {
       const progress: UserProgress = { 
         ...insertProgress, 
         id, 
+        questionsAttempted: insertProgress.questionsAttempted ?? 0,
+        questionsCorrect: insertProgress.questionsCorrect ?? 0,
+        questionsSeen: insertProgress.questionsSeen ?? 0,
+        firstAttemptCorrect: insertProgress.firstAttemptCorrect ?? 0,
+        latestCorrect: insertProgress.latestCorrect ?? 0,
+        questionsMastered: insertProgress.questionsMastered ?? 0,
+        totalTimeSpent: insertProgress.totalTimeSpent ?? 0,
         lastUpdated: new Date() 
       };
       this.userProgress.set(id, progress);
@@ -448,24 +792,19 @@ export class MemStorage implements IStorage {
   }
   
   // Practice sets operations
-  async getPracticeSets(topicId?: number): Promise<PracticeSet[]> {
-    const sets = Array.from(this.practiceSets.values());
-    return topicId ? sets.filter(set => set.topicId === topicId) : sets;
+  async getPracticeSets(topicId?: number, level?: CurriculumLevel): Promise<PracticeSet[]> {
+    return Array.from(this.practiceSets.values()).filter(set =>
+      (!topicId || set.topicId === topicId) && (!level || set.level === level)
+    );
   }
   
   async getPracticeSet(id: number): Promise<PracticeSet | undefined> {
     return this.practiceSets.get(id);
   }
   
-  async getRecommendedPracticeSets(userId: number): Promise<PracticeSet[]> {
-    return Array.from(this.practiceSets.values())
-      .filter(set => set.isRecommended)
-      .slice(0, 3);
-  }
-  
   async createPracticeSet(insertPracticeSet: InsertPracticeSet): Promise<PracticeSet> {
     const id = this.practiceSetIdCounter++;
-    const practiceSet: PracticeSet = { ...insertPracticeSet, id };
+    const practiceSet: PracticeSet = { ...insertPracticeSet, id, level: insertPracticeSet.level ?? "Level I", announcedAt: null };
     this.practiceSets.set(id, practiceSet);
     return practiceSet;
   }
@@ -485,6 +824,34 @@ export class MemStorage implements IStorage {
     this.practiceSets.delete(id);
   }
   
+  async getUnannouncedPracticeSets(): Promise<PracticeSet[]> {
+    return Array.from(this.practiceSets.values()).filter(set => !set.announcedAt && !set.isDeleted);
+  }
+  
+  async getPracticeSetQuestions(practiceSetId: number): Promise<Question[]> {
+    return Array.from(this.practiceSetQuestions.values())
+      .filter(entry => entry.practiceSetId === practiceSetId)
+      .sort((a, b) => a.position - b.position)
+      .map(entry => this.questions.get(entry.questionId))
+      .filter((question): question is Question => !!question && !question.isDeleted);
+  }
+  
+  async setPracticeSetQuestions(practiceSetId: number, questionIds: number[]): Promise<void> {
+    Array.from(this.practiceSetQuestions.entries())
+      .filter(([, entry]) => entry.practiceSetId === practiceSetId)
+      .forEach(([id]) => this.practiceSetQuestions.delete(id));
+    
+    questionIds.forEach((questionId, position) => {
+      const id = this.practiceSetQuestionIdCounter++;
+      this.practiceSetQuestions.set(id, { id, practiceSetId, questionId, position });
+    });
+    
+    const practiceSet = this.practiceSets.get(practiceSetId);
+    if (practiceSet) {
+      this.practiceSets.set(practiceSetId, { ...practiceSet, questionCount: questionIds.length });
+    }
+  }
+  
   // Error logging operations
   async logError(insertErrorLog: InsertErrorLog): Promise<ErrorLog> {
     const id = this.errorLogIdCounter++;
@@ -743,739 +1110,2223 @@ export class MemStorage implements IStorage {
     return subscription;
   }
 
-  // Helper methods
-  private async updateUserProgressAfterAnswer(answer: UserAnswer): Promise<void> {
-    const question = await this.getQuestion(answer.questionId);
-    if (!question) return;
-    
-    const topicId = question.topicId;
-    const progress = await this.getUserProgressByTopic(answer.userId, topicId);
-    
-    if (progress) {
-      await this.createOrUpdateUserProgress({
-        userId: answer.userId,
-        topicId,
-        questionsAttempted: progress.questionsAttempted + 1,
-        questionsCorrect: progress.questionsCorrect + (answer.isCorrect ? 1 : 0),
-        totalTimeSpent: progress.totalTimeSpent + answer.timeSpent,
-      });
-    } else {
-      await this.createOrUpdateUserProgress({
-        userId: answer.userId,
-        topicId,
-        questionsAttempted: 1,
-        questionsCorrect: answer.isCorrect ? 1 : 0,
-        totalTimeSpent: answer.timeSpent,
-      });
-    }
-    
-    // Record activity
-    await this.createUserActivity({
-      userId: answer.userId,
-      activityType: 'question_answered',
-      topicId,
-      details: { 
-        questionId: answer.questionId,
-        isCorrect: answer.isCorrect,
-        timeSpent: answer.timeSpent
-      }
-    });
+  // Mock exam operations
+  async getMockExams(includeInactive: boolean = false): Promise<MockExam[]> {
+    return Array.from(this.mockExams.values())
+      .filter(exam => !exam.isDeleted && (includeInactive || exam.isActive));
   }
   
-  // No hardcoded initialization of data
-  // Data will be created through the API by users
-}
-
-// Database storage implementation
-export class DatabaseStorage implements IStorage {
-  // Session store for authentication
-  public sessionStore: session.Store;
+  async getMockExam(id: number): Promise<MockExam | undefined> {
+    const exam = this.mockExams.get(id);
+    return exam && !exam.isDeleted ? exam : undefined;
+  }
   
-  constructor() {
-    // Initialize the PostgreSQL session store
-    const PostgresSessionStore = ConnectPgSimple(session);
-    this.sessionStore = new PostgresSessionStore({
-      pool,
-      createTableIfMissing: true,
-      tableName: 'session',
-      conString: process.env.DATABASE_URL
-    });
+  async createMockExam(insertMockExam: InsertMockExam): Promise<MockExam> {
+    const id = this.mockExamIdCounter++;
+    const mockExam: MockExam = {
+      id,
+      name: insertMockExam.name,
+      description: insertMockExam.description ?? null,
+      sessionCount: insertMockExam.sessionCount ?? 2,
+      questionsPerSession: insertMockExam.questionsPerSession ?? 90,
+      sessionDuration: insertMockExam.sessionDuration ?? 135,
+      topicWeights: insertMockExam.topicWeights,
+      passingScore: insertMockExam.passingScore ?? 70,
+      isActive: insertMockExam.isActive ?? true,
+      createdAt: new Date(),
+      isDeleted: false
+    };
+    this.mockExams.set(id, mockExam);
+    return mockExam;
   }
   
-  // Payment operations
-  async createPayment(insertPayment: InsertPayment): Promise<Payment> {
-    const [payment] = await db.insert(payments)
-      .values({
-        ...insertPayment,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .returning();
-    
-    // Record activity for payment
-    await this.createUserActivity({
-      userId: payment.userId,
-      activityType: 'payment_created',
-      details: {
-        paymentId: payment.id,
-        amount: payment.amount,
-        status: payment.status,
-        planType: payment.planType
-      }
-    });
+  async updateMockExam(id: number, mockExamData: Partial<MockExam>): Promise<MockExam> {
+    const mockExam = await this.getMockExam(id);
+    if (!mockExam) {
+      throw new Error(`Mock exam with id ${id} not found`);
+    }
     
-    return payment;
+    const updatedMockExam = { ...mockExam, ...mockExamData };
+    this.mockExams.set(id, updatedMockExam);
+    return updatedMockExam;
   }
   
-  async getPayment(id: number): Promise<Payment | undefined> {
-    const [payment] = await db.select().from(payments).where(eq(payments.id, id));
-    return payment;
+  async deleteMockExam(id: number): Promise<void> {
+    const mockExam = this.mockExams.get(id);
+    if (mockExam) {
+      this.mockExams.set(id, { ...mockExam, isDeleted: true });
+    }
   }
   
-  async getUserPayments(userId: number): Promise<Payment[]> {
-    return db.select()
-      .from(payments)
-      .where(eq(payments.userId, userId))
-      .orderBy(desc(payments.createdAt));
+  // Mock exam attempt operations
+  async createMockExamAttempt(insertAttempt: InsertMockExamAttempt): Promise<MockExamAttempt> {
+    const id = this.mockExamAttemptIdCounter++;
+    const attempt: MockExamAttempt = {
+      ...insertAttempt,
+      id,
+      status: 'in_progress',
+      currentSession: 0,
+      answers: {},
+      flagged: [],
+      score: null,
+      report: null,
+      startedAt: new Date(),
+      completedAt: null,
+      isDeleted: false
+    };
+    this.mockExamAttempts.set(id, attempt);
+    return attempt;
   }
   
-  async getPaymentByOrderId(orderId: string): Promise<Payment | undefined> {
-    const [payment] = await db.select()
-      .from(payments)
-      .where(eq(payments.razorpayOrderId, orderId));
-    return payment;
+  async getMockExamAttempt(id: number): Promise<MockExamAttempt | undefined> {
+    return this.mockExamAttempts.get(id);
   }
   
-  async updatePayment(id: number, paymentData: Partial<Payment>): Promise<Payment> {
-    const [updatedPayment] = await db.update(payments)
-      .set({
-        ...paymentData,
-        updatedAt: new Date()
-      })
-      .where(eq(payments.id, id))
-      .returning();
-    
-    if (!updatedPayment) {
-      throw new Error(`Payment with id ${id} not found`);
+  async getUserMockExamAttempts(userId: number): Promise<MockExamAttempt[]> {
+    return Array.from(this.mockExamAttempts.values())
+      .filter(attempt => attempt.userId === userId)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  }
+  
+  async updateMockExamAttempt(id: number, attemptData: Partial<MockExamAttempt>): Promise<MockExamAttempt> {
+    const attempt = await this.getMockExamAttempt(id);
+    if (!attempt) {
+      throw new Error(`Mock exam attempt with id ${id} not found`);
     }
     
-    // If payment is captured/successful, update user premium status
-    if (updatedPayment.status === 'captured' || updatedPayment.status === 'authorized') {
-      await this.updateUserPremiumStatus(updatedPayment.userId, true);
-      
-      // Record activity for successful payment
-      await this.createUserActivity({
-        userId: updatedPayment.userId,
-        activityType: 'payment_success',
-        details: {
-          paymentId: updatedPayment.id,
-          amount: updatedPayment.amount,
-          planType: updatedPayment.planType
-        }
-      });
+    const updatedAttempt = { ...attempt, ...attemptData };
+    this.mockExamAttempts.set(id, updatedAttempt);
+    return updatedAttempt;
+  }
+  
+  async completeMockExamAttempt(id: number, attemptData: Partial<MockExamAttempt>): Promise<MockExamAttempt | undefined> {
+    const attempt = await this.getMockExamAttempt(id);
+    if (!attempt || attempt.status !== 'in_progress') {
+      return undefined;
     }
     
-    return updatedPayment;
+    const completedAttempt = { ...attempt, ...attemptData, status: 'completed' };
+    this.mockExamAttempts.set(id, completedAttempt);
+    return completedAttempt;
   }
   
-  async updateUserPremiumStatus(userId: number, isPremium: boolean): Promise<User> {
-    const [updatedUser] = await db.update(users)
-      .set({ isPremium })
-      .where(eq(users.id, userId))
-      .returning();
-    
-    if (!updatedUser) {
-      throw new Error(`User with id ${userId} not found`);
+  async saveMockExamAnswers(
+    id: number,
+    session: number,
+    attemptData: Pick<MockExamAttempt, 'answers' | 'flagged'>
+  ): Promise<MockExamAttempt | undefined> {
+    const attempt = await this.getMockExamAttempt(id);
+    if (!attempt || attempt.status !== 'in_progress' || attempt.currentSession !== session) {
+      return undefined;
     }
     
-    // Record activity for premium status change
-    await this.createUserActivity({
-      userId,
-      activityType: isPremium ? 'premium_activated' : 'premium_deactivated',
-      details: {
-        timestamp: new Date()
-      }
-    });
-    
-    return updatedUser;
+    const updatedAttempt = { ...attempt, ...attemptData };
+    this.mockExamAttempts.set(id, updatedAttempt);
+    return updatedAttempt;
   }
   
-  // Update Razorpay customer ID for a user
-  async updateRazorpayCustomerId(userId: number, customerId: string): Promise<User> {
-    const [updatedUser] = await db.update(users)
-      .set({ razorpayCustomerId: customerId })
-      .where(eq(users.id, userId))
-      .returning();
+  // Spaced-repetition review operations
+  async getReviewCard(userId: number, questionId: number): Promise<ReviewCard | undefined> {
+    return Array.from(this.reviewCards.values()).find(
+      card => card.userId === userId && card.questionId === questionId && !card.isDeleted
+    );
+  }
+  
+  async saveReviewCard(insertCard: InsertReviewCard): Promise<ReviewCard> {
+    const existingCard = await this.getReviewCard(insertCard.userId, insertCard.questionId);
     
-    if (!updatedUser) {
-      throw new Error(`User with id ${userId} not found`);
+    if (existingCard) {
+      const updatedCard: ReviewCard = { ...existingCard, ...insertCard };
+      this.reviewCards.set(existingCard.id, updatedCard);
+      return updatedCard;
     }
     
-    return updatedUser;
+    const id = this.reviewCardIdCounter++;
+    const card: ReviewCard = {
+      id,
+      userId: insertCard.userId,
+      questionId: insertCard.questionId,
+      easeFactor: insertCard.easeFactor ?? 2.5,
+      interval: insertCard.interval ?? 0,
+      repetitions: insertCard.repetitions ?? 0,
+      dueDate: insertCard.dueDate ?? new Date(),
+      lastReviewedAt: insertCard.lastReviewedAt ?? new Date(),
+      isDeleted: false
+    };
+    this.reviewCards.set(id, card);
+    return card;
   }
   
-  // Subscription operations
-  async createSubscription(subscription: InsertSubscription): Promise<Subscription> {
-    const [newSubscription] = await db.insert(subscriptions)
-      .values({
-        ...subscription,
-        createdAt: new Date(),
-        updatedAt: new Date()
+  async getDueReviewCards(userId: number, asOf: Date, limit?: number): Promise<ReviewCard[]> {
+    const dueCards = Array.from(this.reviewCards.values())
+      .filter(card => card.userId === userId && !card.isDeleted && card.dueDate <= asOf)
+      // Deleted questions are never reviewed, so their cards don't count
+      .filter(card => {
+        const question = this.questions.get(card.questionId);
+        return !!question && !question.isDeleted;
       })
-      .returning();
+      .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+    return limit ? dueCards.slice(0, limit) : dueCards;
+  }
+  
+  // Practice session operations
+  async createPracticeSession(insertSession: InsertPracticeSession): Promise<PracticeSession> {
+    const id = this.practiceSessionIdCounter++;
+    const now = new Date();
+    const practiceSession: PracticeSession = {
+      id,
+      userId: insertSession.userId,
+      mode: insertSession.mode ?? 'topic',
+      topicId: insertSession.topicId ?? null,
+      chapterId: insertSession.chapterId ?? null,
+      practiceSetId: insertSession.practiceSetId ?? null,
+      questionIds: insertSession.questionIds,
+      options: insertSession.options ?? null,
+      optionOrders: insertSession.optionOrders ?? null,
+      currentIndex: 0,
+      answeredCount: 0,
+      correctCount: 0,
+      timeSpent: 0,
+      status: 'active',
+      startedAt: now,
+      lastActivityAt: now,
+      completedAt: null,
+      isDeleted: false
+    };
+    this.practiceSessions.set(id, practiceSession);
+    return practiceSession;
+  }
+  
+  async getPracticeSession(id: number): Promise<PracticeSession | undefined> {
+    const practiceSession = this.practiceSessions.get(id);
+    return practiceSession && !practiceSession.isDeleted ? practiceSession : undefined;
+  }
+  
+  async getActivePracticeSessions(userId: number): Promise<PracticeSession[]> {
+    return Array.from(this.practiceSessions.values())
+      .filter(ps => ps.userId === userId && ps.status === 'active' && !ps.isDeleted)
+      .sort((a, b) => b.lastActivityAt.getTime() - a.lastActivityAt.getTime());
+  }
+  
+  async getCompletedPracticeSessions(userId: number): Promise<PracticeSession[]> {
+    return Array.from(this.practiceSessions.values())
+      .filter(ps => ps.userId === userId && ps.status === 'completed' && !ps.isDeleted)
+      .sort((a, b) => (b.completedAt?.getTime() ?? 0) - (a.completedAt?.getTime() ?? 0));
+  }
+  
+  async updatePracticeSession(id: number, sessionData: Partial<PracticeSession>): Promise<PracticeSession> {
+    const practiceSession = await this.getPracticeSession(id);
+    if (!practiceSession) {
+      throw new Error(`Practice session with id ${id} not found`);
+    }
     
-    // Update user premium status
-    await this.updateUserPremiumStatus(subscription.userId, true);
+    const updatedSession = { ...practiceSession, ...sessionData };
+    this.practiceSessions.set(id, updatedSession);
+    return updatedSession;
+  }
+  
+  async countPracticeSessionAnswer(
+    id: number,
+    answer: { position: number; isCorrect: boolean; timeSpent: number }
+  ): Promise<PracticeSession> {
+    const practiceSession = await this.getPracticeSession(id);
+    if (!practiceSession) {
+      throw new Error(`Practice session with id ${id} not found`);
+    }
     
-    // Record activity
-    await this.createUserActivity({
-      userId: subscription.userId,
-      activityType: 'subscription_created',
-      details: {
-        subscriptionId: newSubscription.id,
-        planType: subscription.planType,
-        startDate: subscription.startDate,
-        endDate: subscription.endDate
-      }
+    return this.updatePracticeSession(id, {
+      currentIndex: Math.max(practiceSession.currentIndex, answer.position + 1),
+      answeredCount: practiceSession.answeredCount + 1,
+      correctCount: practiceSession.correctCount + (answer.isCorrect ? 1 : 0),
+      timeSpent: practiceSession.timeSpent + answer.timeSpent,
+      lastActivityAt: new Date()
     });
-    
-    return newSubscription;
   }
   
-  async getSubscription(id: number): Promise<Subscription | undefined> {
-    const [subscription] = await db.select()
-      .from(subscriptions)
-      .where(eq(subscriptions.id, id));
-    
-    return subscription;
+  async getPracticeSessionAnswers(sessionId: number): Promise<UserAnswer[]> {
+    return Array.from(this.userAnswers.values())
+      .filter(answer => answer.sessionId === sessionId)
+      .sort((a, b) => a.answeredAt.getTime() - b.answeredAt.getTime());
   }
   
-  async getActiveSubscription(userId: number): Promise<Subscription | undefined> {
-    const [subscription] = await db.select()
-      .from(subscriptions)
-      .where(and(
-        eq(subscriptions.userId, userId),
-        eq(subscriptions.status, 'active')
-      ))
-      .orderBy(desc(subscriptions.createdAt))
-      .limit(1);
-    
-    return subscription;
+  // Question revision operations
+  async getQuestionRevisions(questionId: number): Promise<QuestionRevision[]> {
+    return Array.from(this.questionRevisions.values())
+      .filter(revision => revision.questionId === questionId)
+      .sort((a, b) => b.revision - a.revision);
   }
   
-  async getUserSubscriptions(userId: number): Promise<Subscription[]> {
-    return db.select()
-      .from(subscriptions)
-      .where(eq(subscriptions.userId, userId))
-      .orderBy(desc(subscriptions.createdAt));
+  async getQuestionRevision(questionId: number, revision: number): Promise<QuestionRevision | undefined> {
+    return Array.from(this.questionRevisions.values()).find(
+      (entry) => entry.questionId === questionId && entry.revision === revision
+    );
   }
   
-  async updateSubscription(id: number, subscriptionData: Partial<Subscription>): Promise<Subscription> {
-    const now = new Date();
-    const updateData = {
-      ...subscriptionData,
-      updatedAt: now
+  async createQuestionRevision(insertRevision: InsertQuestionRevision): Promise<QuestionRevision> {
+    const id = this.questionRevisionIdCounter++;
+    const revision: QuestionRevision = {
+      ...insertRevision,
+      id,
+      restoredFromRevision: insertRevision.restoredFromRevision ?? null,
+      changedBy: insertRevision.changedBy ?? null,
+      createdAt: new Date()
     };
-    
-    const [updatedSubscription] = await db.update(subscriptions)
-      .set(updateData)
-      .where(eq(subscriptions.id, id))
+    this.questionRevisions.set(id, revision);
+    return revision;
+  }
+  
+  // Question report operations
+  async createQuestionReport(insertReport: InsertQuestionReport): Promise<QuestionReport> {
+    const id = this.questionReportIdCounter++;
+    const report: QuestionReport = {
+      ...insertReport,
+      id,
+      message: insertReport.message ?? null,
+      questionRevision: insertReport.questionRevision ?? null,
+      status: 'open',
+      resolutionNote: null,
+      resolvedBy: null,
+      resolvedAt: null,
+      createdAt: new Date(),
+      isDeleted: false
+    };
+    this.questionReports.set(id, report);
+    return report;
+  }
+  
+  async getQuestionReport(id: number): Promise<QuestionReport | undefined> {
+    return this.questionReports.get(id);
+  }
+  
+  async getQuestionReports(status?: string): Promise<QuestionReport[]> {
+    return Array.from(this.questionReports.values())
+      .filter(report => !report.isDeleted && (!status || report.status === status))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async getUserQuestionReports(userId: number, questionId: number): Promise<QuestionReport[]> {
+    return Array.from(this.questionReports.values()).filter(
+      (report) => report.userId === userId && report.questionId === questionId && !report.isDeleted
+    );
+  }
+  
+  async updateQuestionReport(id: number, reportData: Partial<QuestionReport>): Promise<QuestionReport> {
+    const report = this.questionReports.get(id);
+    if (!report) {
+      throw new Error(`Question report with id ${id} not found`);
+    }
+    
+    const updatedReport = { ...report, ...reportData };
+    this.questionReports.set(id, updatedReport);
+    return updatedReport;
+  }
+  
+  // Question group operations
+  async getAllQuestionGroups(): Promise<QuestionGroup[]> {
+    return Array.from(this.questionGroups.values()).filter(group => !group.isDeleted);
+  }
+  
+  async getQuestionGroup(id: number): Promise<QuestionGroup | undefined> {
+    const group = this.questionGroups.get(id);
+    return group && !group.isDeleted ? group : undefined;
+  }
+  
+  async getQuestionGroupsByIds(ids: number[]): Promise<QuestionGroup[]> {
+    return ids
+      .map(id => this.questionGroups.get(id))
+      .filter((group): group is QuestionGroup => !!group);
+  }
+  
+  async createQuestionGroup(insertGroup: InsertQuestionGroup): Promise<QuestionGroup> {
+    const id = this.questionGroupIdCounter++;
+    const group: QuestionGroup = {
+      ...insertGroup,
+      id,
+      chapterId: insertGroup.chapterId ?? null,
+      exhibits: insertGroup.exhibits ?? null,
+      contentFormat: insertGroup.contentFormat ?? 'plain',
+      createdAt: new Date(),
+      isDeleted: false
+    };
+    this.questionGroups.set(id, group);
+    return group;
+  }
+  
+  async updateQuestionGroup(id: number, groupData: Partial<QuestionGroup>): Promise<QuestionGroup> {
+    const group = this.questionGroups.get(id);
+    if (!group) {
+      throw new Error(`Question group with id ${id} not found`);
+    }
+    
+    const updatedGroup = { ...group, ...groupData };
+    this.questionGroups.set(id, updatedGroup);
+    return updatedGroup;
+  }
+  
+  async getQuestionsByGroup(groupId: number): Promise<Question[]> {
+    return Array.from(this.questions.values())
+      .filter(question => question.groupId === groupId && !question.isDeleted)
+      .sort((a, b) => (a.groupPosition ?? 0) - (b.groupPosition ?? 0));
+  }
+  
+  // Learning outcome operations
+  async getAllLearningOutcomes(): Promise<LearningOutcome[]> {
+    return Array.from(this.learningOutcomes.values())
+      .filter(outcome => !outcome.isDeleted)
+      .sort((a, b) => a.chapterId - b.chapterId || a.order - b.order);
+  }
+  
+  async getLearningOutcomesByChapter(chapterId: number): Promise<LearningOutcome[]> {
+    return Array.from(this.learningOutcomes.values())
+      .filter(outcome => outcome.chapterId === chapterId && !outcome.isDeleted)
+      .sort((a, b) => a.order - b.order);
+  }
+  
+  async getLearningOutcome(id: number): Promise<LearningOutcome | undefined> {
+    const outcome = this.learningOutcomes.get(id);
+    return outcome && !outcome.isDeleted ? outcome : undefined;
+  }
+  
+  async createLearningOutcome(insertLearningOutcome: InsertLearningOutcome): Promise<LearningOutcome> {
+    const id = this.learningOutcomeIdCounter++;
+    const outcome: LearningOutcome = {
+      ...insertLearningOutcome,
+      id,
+      order: insertLearningOutcome.order ?? 0,
+      createdAt: new Date(),
+      isDeleted: false
+    };
+    this.learningOutcomes.set(id, outcome);
+    return outcome;
+  }
+  
+  async updateLearningOutcome(id: number, learningOutcomeData: Partial<LearningOutcome>): Promise<LearningOutcome> {
+    const outcome = this.learningOutcomes.get(id);
+    if (!outcome) {
+      throw new Error(`Learning outcome with id ${id} not found`);
+    }
+    
+    const updatedOutcome = { ...outcome, ...learningOutcomeData };
+    this.learningOutcomes.set(id, updatedOutcome);
+    return updatedOutcome;
+  }
+  
+  async getQuestionLearningOutcomeLinks(): Promise<QuestionLearningOutcome[]> {
+    return Array.from(this.questionLearningOutcomes.values());
+  }
+  
+  async getLearningOutcomeIdsForQuestion(questionId: number): Promise<number[]> {
+    return Array.from(this.questionLearningOutcomes.values())
+      .filter(link => link.questionId === questionId)
+      .map(link => link.learningOutcomeId);
+  }
+  
+  async setQuestionLearningOutcomes(questionId: number, learningOutcomeIds: number[]): Promise<void> {
+    Array.from(this.questionLearningOutcomes.entries())
+      .filter(([, link]) => link.questionId === questionId)
+      .forEach(([id]) => this.questionLearningOutcomes.delete(id));
+    
+    learningOutcomeIds.forEach(learningOutcomeId => {
+      const id = this.questionLearningOutcomeIdCounter++;
+      this.questionLearningOutcomes.set(id, { id, questionId, learningOutcomeId });
+    });
+  }
+  
+  // Bookmark and note operations
+  async getQuestionBookmarks(userId: number): Promise<QuestionBookmark[]> {
+    return Array.from(this.questionBookmarks.values())
+      .filter(bookmark => bookmark.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async getQuestionBookmark(userId: number, questionId: number): Promise<QuestionBookmark | undefined> {
+    return Array.from(this.questionBookmarks.values())
+      .find(bookmark => bookmark.userId === userId && bookmark.questionId === questionId);
+  }
+  
+  async createQuestionBookmark(insertBookmark: InsertQuestionBookmark): Promise<QuestionBookmark> {
+    const existing = await this.getQuestionBookmark(insertBookmark.userId, insertBookmark.questionId);
+    if (existing) return existing;
+    
+    const id = this.questionBookmarkIdCounter++;
+    const bookmark: QuestionBookmark = { ...insertBookmark, id, createdAt: new Date() };
+    this.questionBookmarks.set(id, bookmark);
+    return bookmark;
+  }
+  
+  async deleteQuestionBookmark(userId: number, questionId: number): Promise<void> {
+    const bookmark = await this.getQuestionBookmark(userId, questionId);
+    if (bookmark) {
+      this.questionBookmarks.delete(bookmark.id);
+    }
+  }
+  
+  async getQuestionNotes(userId: number): Promise<QuestionNote[]> {
+    return Array.from(this.questionNotes.values())
+      .filter(note => note.userId === userId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+  
+  async getQuestionNote(userId: number, questionId: number): Promise<QuestionNote | undefined> {
+    return Array.from(this.questionNotes.values())
+      .find(note => note.userId === userId && note.questionId === questionId);
+  }
+  
+  async saveQuestionNote(userId: number, questionId: number, content: string): Promise<QuestionNote> {
+    const existing = await this.getQuestionNote(userId, questionId);
+    const now = new Date();
+    const note: QuestionNote = existing
+      ? { ...existing, content, updatedAt: now }
+      : { id: this.questionNoteIdCounter++, userId, questionId, content, createdAt: now, updatedAt: now };
+    this.questionNotes.set(note.id, note);
+    return note;
+  }
+  
+  async deleteQuestionNote(userId: number, questionId: number): Promise<void> {
+    const note = await this.getQuestionNote(userId, questionId);
+    if (note) {
+      this.questionNotes.delete(note.id);
+    }
+  }
+  
+  // Study day operations
+  async getStudyDays(userId: number): Promise<StudyDay[]> {
+    return Array.from(this.studyDays.values())
+      .filter(day => day.userId === userId)
+      .sort((a, b) => b.studyDate.localeCompare(a.studyDate));
+  }
+  
+  async getStudyDay(userId: number, studyDate: string): Promise<StudyDay | undefined> {
+    return Array.from(this.studyDays.values())
+      .find(day => day.userId === userId && day.studyDate === studyDate);
+  }
+  
+  async saveStudyDay(insertStudyDay: InsertStudyDay): Promise<StudyDay> {
+    const existing = await this.getStudyDay(insertStudyDay.userId, insertStudyDay.studyDate);
+    const studyDay: StudyDay = {
+      id: existing?.id ?? this.studyDayIdCounter++,
+      userId: insertStudyDay.userId,
+      studyDate: insertStudyDay.studyDate,
+      questionsAnswered: insertStudyDay.questionsAnswered ?? 0,
+      isFrozen: insertStudyDay.isFrozen ?? false,
+      updatedAt: new Date()
+    };
+    this.studyDays.set(studyDay.id, studyDay);
+    return studyDay;
+  }
+  
+  async addStudyDayQuestions(userId: number, studyDate: string, questions: number): Promise<StudyDay> {
+    const existing = await this.getStudyDay(userId, studyDate);
+    return this.saveStudyDay({
+      userId,
+      studyDate,
+      questionsAnswered: (existing?.questionsAnswered ?? 0) + questions,
+      isFrozen: existing?.isFrozen ?? false
+    });
+  }
+  
+  // Badge operations
+  async getUserBadges(userId: number): Promise<UserBadge[]> {
+    return Array.from(this.userBadges.values())
+      .filter(badge => badge.userId === userId)
+      .sort((a, b) => b.earnedAt.getTime() - a.earnedAt.getTime());
+  }
+  
+  async awardUserBadge(insertBadge: InsertUserBadge): Promise<UserBadge | undefined> {
+    const alreadyEarned = Array.from(this.userBadges.values())
+      .some(badge => badge.userId === insertBadge.userId && badge.badgeKey === insertBadge.badgeKey);
+    if (alreadyEarned) return undefined;
+    
+    const badge: UserBadge = {
+      ...insertBadge,
+      id: this.userBadgeIdCounter++,
+      earnedAt: new Date()
+    };
+    this.userBadges.set(badge.id, badge);
+    return badge;
+  }
+  
+  // Notification operations
+  async getNotifications(userId: number, limit: number = 50): Promise<Notification[]> {
+    const userNotifications = Array.from(this.notifications.values())
+      .filter(n => n.userId === userId && !n.isDeleted)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    
+    return limit ? userNotifications.slice(0, limit) : userNotifications;
+  }
+  
+  async getNotification(id: number): Promise<Notification | undefined> {
+    return this.notifications.get(id);
+  }
+  
+  async createNotification(insertNotification: InsertNotification): Promise<Notification | undefined> {
+    if (insertNotification.dedupeKey) {
+      const alreadySent = Array.from(this.notifications.values()).some(n =>
+        n.userId === insertNotification.userId && n.dedupeKey === insertNotification.dedupeKey
+      );
+      if (alreadySent) return undefined;
+    }
+    
+    const notification: Notification = {
+      ...insertNotification,
+      id: this.notificationIdCounter++,
+      link: insertNotification.link ?? null,
+      dedupeKey: insertNotification.dedupeKey ?? null,
+      readAt: null,
+      createdAt: new Date(),
+      isDeleted: false
+    };
+    this.notifications.set(notification.id, notification);
+    return notification;
+  }
+  
+  async markNotificationRead(id: number): Promise<Notification> {
+    const notification = await this.getNotification(id);
+    if (!notification) {
+      throw new Error(`Notification with id ${id} not found`);
+    }
+    
+    const updatedNotification: Notification = {
+      ...notification,
+      readAt: notification.readAt ?? new Date()
+    };
+    this.notifications.set(id, updatedNotification);
+    return updatedNotification;
+  }
+  
+  async markAllNotificationsRead(userId: number): Promise<void> {
+    const now = new Date();
+    Array.from(this.notifications.values())
+      .filter(n => n.userId === userId && !n.readAt)
+      .forEach(n => this.notifications.set(n.id, { ...n, readAt: now }));
+  }
+  
+  async deleteNotification(id: number): Promise<void> {
+    const notification = await this.getNotification(id);
+    if (notification) {
+      this.notifications.set(id, { ...notification, isDeleted: true });
+    }
+  }
+  
+  // Job run operations
+  async getJobRuns(jobName?: string, limit: number = 20): Promise<JobRun[]> {
+    const runs = Array.from(this.jobRuns.values())
+      .filter(run => !jobName || run.jobName === jobName)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+    
+    return limit ? runs.slice(0, limit) : runs;
+  }
+  
+  async getLatestJobRun(jobName: string): Promise<JobRun | undefined> {
+    const [latest] = await this.getJobRuns(jobName, 1);
+    return latest;
+  }
+  
+  async createJobRun(insertJobRun: InsertJobRun): Promise<JobRun> {
+    const jobRun: JobRun = {
+      id: this.jobRunIdCounter++,
+      jobName: insertJobRun.jobName,
+      trigger: insertJobRun.trigger ?? 'schedule',
+      triggeredBy: insertJobRun.triggeredBy ?? null,
+      status: 'running',
+      summary: null,
+      error: null,
+      startedAt: new Date(),
+      finishedAt: null
+    };
+    this.jobRuns.set(jobRun.id, jobRun);
+    return jobRun;
+  }
+  
+  async updateJobRun(id: number, jobRunData: Partial<JobRun>): Promise<JobRun> {
+    const jobRun = this.jobRuns.get(id);
+    if (!jobRun) {
+      throw new Error(`Job run with id ${id} not found`);
+    }
+    
+    const updatedJobRun = { ...jobRun, ...jobRunData };
+    this.jobRuns.set(id, updatedJobRun);
+    return updatedJobRun;
+  }
+  
+  // Email delivery operations
+  async getEmailDeliveries(status?: EmailDeliveryStatus, limit: number = 50): Promise<EmailDelivery[]> {
+    const deliveries = Array.from(this.emailDeliveries.values())
+      .filter(delivery => !status || delivery.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    
+    return limit ? deliveries.slice(0, limit) : deliveries;
+  }
+  
+  async getDueEmailDeliveries(now: Date, limit: number): Promise<EmailDelivery[]> {
+    return Array.from(this.emailDeliveries.values())
+      .filter(delivery => delivery.status === 'queued' && delivery.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit);
+  }
+  
+  async createEmailDelivery(insertDelivery: InsertEmailDelivery): Promise<EmailDelivery> {
+    const now = new Date();
+    const delivery: EmailDelivery = {
+      id: this.emailDeliveryIdCounter++,
+      recipient: insertDelivery.recipient,
+      subject: insertDelivery.subject,
+      template: insertDelivery.template ?? null,
+      text: insertDelivery.text ?? null,
+      html: insertDelivery.html ?? null,
+      discardBody: insertDelivery.discardBody ?? false,
+      status: 'queued',
+      attempts: 0,
+      lastError: null,
+      transport: null,
+      messageId: null,
+      nextAttemptAt: now,
+      sentAt: null,
+      createdAt: now
+    };
+    this.emailDeliveries.set(delivery.id, delivery);
+    return delivery;
+  }
+  
+  async updateEmailDelivery(id: number, deliveryData: Partial<EmailDelivery>): Promise<EmailDelivery> {
+    const delivery = this.emailDeliveries.get(id);
+    if (!delivery) {
+      throw new Error(`Email delivery with id ${id} not found`);
+    }
+    
+    const updatedDelivery = { ...delivery, ...deliveryData };
+    this.emailDeliveries.set(id, updatedDelivery);
+    return updatedDelivery;
+  }
+
+  
+  // No hardcoded initialization of data
+  // Data will be created through the API by users
+}
+
+// Database storage implementation
+export class DatabaseStorage implements IStorage {
+  // Session store for authentication
+  public sessionStore: session.Store;
+  
+  constructor() {
+    // Initialize the PostgreSQL session store
+    const PostgresSessionStore = ConnectPgSimple(session);
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+      tableName: 'session',
+      conString: process.env.DATABASE_URL
+    });
+  }
+  
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    return runInTransaction(work);
+  }
+  
+  // Payment operations
+  async createPayment(insertPayment: InsertPayment): Promise<Payment> {
+    const [payment] = await db.insert(payments)
+      .values({
+        ...insertPayment,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
       .returning();
     
-    if (!updatedSubscription) {
-      throw new Error(`Subscription with id ${id} not found`);
+    // Record activity for payment
+    await this.createUserActivity({
+      userId: payment.userId,
+      activityType: 'payment_created',
+      details: {
+        paymentId: payment.id,
+        amount: payment.amount,
+        status: payment.status,
+        planType: payment.planType
+      }
+    });
+    
+    return payment;
+  }
+  
+  async getPayment(id: number): Promise<Payment | undefined> {
+    const [payment] = await db.select().from(payments).where(eq(payments.id, id));
+    return payment;
+  }
+  
+  async getUserPayments(userId: number): Promise<Payment[]> {
+    return db.select()
+      .from(payments)
+      .where(eq(payments.userId, userId))
+      .orderBy(desc(payments.createdAt));
+  }
+  
+  async getPaymentByOrderId(orderId: string): Promise<Payment | undefined> {
+    const [payment] = await db.select()
+      .from(payments)
+      .where(eq(payments.razorpayOrderId, orderId));
+    return payment;
+  }
+  
+  async updatePayment(id: number, paymentData: Partial<Payment>): Promise<Payment> {
+    const [updatedPayment] = await db.update(payments)
+      .set({
+        ...paymentData,
+        updatedAt: new Date()
+      })
+      .where(eq(payments.id, id))
+      .returning();
+    
+    if (!updatedPayment) {
+      throw new Error(`Payment with id ${id} not found`);
     }
     
-    // If status changed to cancelled or expired, update user premium status
-    if (subscriptionData.status === 'cancelled' || subscriptionData.status === 'expired') {
-      await this.updateUserPremiumStatus(updatedSubscription.userId, false);
+    // If payment is captured/successful, update user premium status
+    if (updatedPayment.status === 'captured' || updatedPayment.status === 'authorized') {
+      await this.updateUserPremiumStatus(updatedPayment.userId, true);
       
-      // Record activity
+      // Record activity for successful payment
       await this.createUserActivity({
-        userId: updatedSubscription.userId,
-        activityType: 'subscription_' + subscriptionData.status,
+        userId: updatedPayment.userId,
+        activityType: 'payment_success',
         details: {
-          subscriptionId: id,
-          reason: subscriptionData.status === 'expired' ? 'expired' : 'user_cancelled'
+          paymentId: updatedPayment.id,
+          amount: updatedPayment.amount,
+          planType: updatedPayment.planType
         }
       });
     }
     
-    return updatedSubscription;
+    return updatedPayment;
+  }
+  
+  async updateUserPremiumStatus(userId: number, isPremium: boolean): Promise<User> {
+    const [updatedUser] = await db.update(users)
+      .set({ isPremium })
+      .where(eq(users.id, userId))
+      .returning();
+    
+    if (!updatedUser) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+    
+    // Record activity for premium status change
+    await this.createUserActivity({
+      userId,
+      activityType: isPremium ? 'premium_activated' : 'premium_deactivated',
+      details: {
+        timestamp: new Date()
+      }
+    });
+    
+    return updatedUser;
+  }
+  
+  // Update Razorpay customer ID for a user
+  async updateRazorpayCustomerId(userId: number, customerId: string): Promise<User> {
+    const [updatedUser] = await db.update(users)
+      .set({ razorpayCustomerId: customerId })
+      .where(eq(users.id, userId))
+      .returning();
+    
+    if (!updatedUser) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+    
+    return updatedUser;
+  }
+  
+  // Subscription operations
+  async createSubscription(subscription: InsertSubscription): Promise<Subscription> {
+    const [newSubscription] = await db.insert(subscriptions)
+      .values({
+        ...subscription,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      })
+      .returning();
+    
+    // Update user premium status
+    await this.updateUserPremiumStatus(subscription.userId, true);
+    
+    // Record activity
+    await this.createUserActivity({
+      userId: subscription.userId,
+      activityType: 'subscription_created',
+      details: {
+        subscriptionId: newSubscription.id,
+        planType: subscription.planType,
+        startDate: subscription.startDate,
+        endDate: subscription.endDate
+      }
+    });
+    
+    return newSubscription;
+  }
+  
+  async getSubscription(id: number): Promise<Subscription | undefined> {
+    const [subscription] = await db.select()
+      .from(subscriptions)
+      .where(eq(subscriptions.id, id));
+    
+    return subscription;
+  }
+  
+  async getActiveSubscription(userId: number): Promise<Subscription | undefined> {
+    const [subscription] = await db.select()
+      .from(subscriptions)
+      .where(and(
+        eq(subscriptions.userId, userId),
+        eq(subscriptions.status, 'active')
+      ))
+      .orderBy(desc(subscriptions.createdAt))
+      .limit(1);
+    
+    return subscription;
+  }
+  
+  async getUserSubscriptions(userId: number): Promise<Subscription[]> {
+    return db.select()
+      .from(subscriptions)
+      .where(eq(subscriptions.userId, userId))
+      .orderBy(desc(subscriptions.createdAt));
+  }
+  
+  async updateSubscription(id: number, subscriptionData: Partial<Subscription>): Promise<Subscription> {
+    const now = new Date();
+    const updateData = {
+      ...subscriptionData,
+      updatedAt: now
+    };
+    
+    const [updatedSubscription] = await db.update(subscriptions)
+      .set(updateData)
+      .where(eq(subscriptions.id, id))
+      .returning();
+    
+    if (!updatedSubscription) {
+      throw new Error(`Subscription with id ${id} not found`);
+    }
+    
+    // If status changed to cancelled or expired, update user premium status
+    if (subscriptionData.status === 'cancelled' || subscriptionData.status === 'expired') {
+      await this.updateUserPremiumStatus(updatedSubscription.userId, false);
+      
+      // Record activity
+      await this.createUserActivity({
+        userId: updatedSubscription.userId,
+        activityType: 'subscription_' + subscriptionData.status,
+        details: {
+          subscriptionId: id,
+          reason: subscriptionData.status === 'expired' ? 'expired' : 'user_cancelled'
+        }
+      });
+    }
+    
+    return updatedSubscription;
+  }
+  
+  async checkAndUpdateSubscriptionStatus(id: number): Promise<Subscription> {
+    const subscription = await this.getSubscription(id);
+    if (!subscription) {
+      throw new Error(`Subscription with id ${id} not found`);
+    }
+    
+    // If already cancelled or expired, no need to check
+    if (subscription.status !== 'active') {
+      return subscription;
+    }
+    
+    const now = new Date();
+    
+    // If end date has passed, mark as expired
+    if (subscription.endDate < now) {
+      // If auto-renew is enabled, extend the subscription
+      if (subscription.autoRenew) {
+        // Calculate new end date based on plan type
+        let newEndDate = new Date(subscription.endDate);
+        
+        if (subscription.planType === 'monthly') {
+          newEndDate.setMonth(newEndDate.getMonth() + 1);
+        } else if (subscription.planType === 'quarterly') {
+          newEndDate.setMonth(newEndDate.getMonth() + 3);
+        } else if (subscription.planType === 'yearly') {
+          newEndDate.setFullYear(newEndDate.getFullYear() + 1);
+        }
+        
+        return this.updateSubscription(id, {
+          startDate: subscription.endDate,
+          endDate: newEndDate
+        });
+      }
+      
+      // Otherwise, mark as expired
+      return this.updateSubscription(id, {
+        status: 'expired'
+      });
+    }
+    
+    return subscription;
+  }
+  
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+  
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+  
+  async createUser(insertUser: InsertUser): Promise<User> {
+    // Set default values for required fields
+    const userData = {
+      ...insertUser,
+      streakDays: 0,
+      lastLoginDate: new Date(),
+      // Default role to student if not specified
+      role: insertUser.role || 'student',
+      // Default level if not specified
+      level: insertUser.level || 'Level I Candidate',
+      // Default premium status
+      isPremium: false,
+      // Default Razorpay customer ID
+      razorpayCustomerId: null,
+      // Empty reset token fields are handled by the schema defaults
+      email: insertUser.email || null
+    };
+    
+    const [user] = await db.insert(users).values(userData).returning();
+    return user;
+  }
+  
+  async updateUserStreak(userId: number, streak: UserStreak): Promise<User | undefined> {
+    const [updatedUser] = await db.update(users)
+      .set(streak)
+      .where(eq(users.id, userId))
+      .returning();
+    return updatedUser;
+  }
+  
+  async getAllUsers(): Promise<User[]> {
+    return db.select().from(users);
+  }
+  
+  async updateUser(id: number, userData: Partial<User>): Promise<User> {
+    const [updatedUser] = await db.update(users)
+      .set(userData)
+      .where(eq(users.id, id))
+      .returning();
+    
+    if (!updatedUser) {
+      throw new Error(`User with id ${id} not found`);
+    }
+    
+    return updatedUser;
+  }
+  
+  async deleteUser(id: number): Promise<void> {
+    // Instead of hard delete, perform soft delete
+    await db.update(users)
+      .set({ isDeleted: true })
+      .where(eq(users.id, id));
+  }
+  
+  // Topic operations
+  async getAllTopics(level?: CurriculumLevel): Promise<Topic[]> {
+    const conditions = [eq(topics.isDeleted, false)];
+    if (level) {
+      conditions.push(eq(topics.level, level));
+    }
+    return db.select().from(topics).where(and(...conditions));
+  }
+  
+  async getTopic(id: number): Promise<Topic | undefined> {
+    const [topic] = await db.select().from(topics).where(
+      and(
+        eq(topics.id, id),
+        eq(topics.isDeleted, false)
+      )
+    );
+    return topic;
+  }
+  
+  async createTopic(insertTopic: InsertTopic): Promise<Topic> {
+    try {
+      const [topic] = await db.insert(topics).values(insertTopic).returning();
+      return topic;
+    } catch (error: unknown) {
+      // Check for duplicate name constraint violation
+      if (typeof error === 'object' && 
+          error !== null && 
+          'code' in error && 
+          error.code === '23505' && 
+          'constraint' in error && 
+          error.constraint === 'topics_name_level_idx') {
+        throw new Error(`A ${insertTopic.level ?? 'Level I'} topic with the name "${insertTopic.name}" already exists`);
+      }
+      // Re-throw the original error if it's not a duplicate
+      throw error;
+    }
+  }
+  
+  async updateTopic(id: number, topicData: Partial<Topic>): Promise<Topic> {
+    const [updatedTopic] = await db.update(topics)
+      .set(topicData)
+      .where(eq(topics.id, id))
+      .returning();
+    
+    if (!updatedTopic) {
+      throw new Error(`Topic with id ${id} not found`);
+    }
+    
+    return updatedTopic;
+  }
+  
+  async deleteTopic(id: number): Promise<void> {
+    // First, get all chapters for this topic
+    const topicChapters = await db.select().from(chapters).where(eq(chapters.topicId, id));
+    
+    // For each chapter, soft delete related questions
+    for (const chapter of topicChapters) {
+      await db.update(questions)
+        .set({ isDeleted: true })
+        .where(eq(questions.chapterId, chapter.id));
+    }
+    
+    // Soft delete questions directly linked to this topic (without chapter)
+    await db.update(questions)
+      .set({ isDeleted: true })
+      .where(eq(questions.topicId, id));
+    
+    // Soft delete all chapters for this topic
+    await db.update(chapters)
+      .set({ isDeleted: true })
+      .where(eq(chapters.topicId, id));
+    
+    // Soft delete user progress for this topic
+    await db.update(userProgress)
+      .set({ isDeleted: true })
+      .where(eq(userProgress.topicId, id));
+    
+    // Soft delete practice sets for this topic
+    await db.update(practiceSets)
+      .set({ isDeleted: true })
+      .where(eq(practiceSets.topicId, id));
+    
+    // Finally, soft delete the topic itself
+    await db.update(topics)
+      .set({ isDeleted: true })
+      .where(eq(topics.id, id));
+  }
+  
+  // Chapter operations
+  async getChaptersByTopic(topicId: number): Promise<Chapter[]> {
+    return db.select()
+      .from(chapters)
+      .where(
+        and(
+          eq(chapters.topicId, topicId),
+          eq(chapters.isDeleted, false)
+        )
+      )
+      .orderBy(chapters.order);
+  }
+  
+  async getChapter(id: number): Promise<Chapter | undefined> {
+    const [chapter] = await db.select()
+      .from(chapters)
+      .where(
+        and(
+          eq(chapters.id, id),
+          eq(chapters.isDeleted, false)
+        )
+      );
+    return chapter;
+  }
+  
+  async createChapter(insertChapter: InsertChapter): Promise<Chapter> {
+    const [chapter] = await db.insert(chapters)
+      .values(insertChapter)
+      .returning();
+    return chapter;
+  }
+  
+  async updateChapter(id: number, chapterData: Partial<Chapter>): Promise<Chapter> {
+    const [updatedChapter] = await db.update(chapters)
+      .set(chapterData)
+      .where(eq(chapters.id, id))
+      .returning();
+    
+    if (!updatedChapter) {
+      throw new Error(`Chapter with id ${id} not found`);
+    }
+    
+    return updatedChapter;
+  }
+  
+  async deleteChapter(id: number): Promise<void> {
+    // First, soft delete all questions linked to this chapter
+    await db.update(questions)
+      .set({ isDeleted: true })
+      .where(eq(questions.chapterId, id));
+    
+    // Then soft delete the chapter itself
+    await db.update(chapters)
+      .set({ isDeleted: true })
+      .where(eq(chapters.id, id));
+  }
+  
+  // Question operations
+  async getAllQuestions(): Promise<Question[]> {
+    return db.select().from(questions).where(eq(questions.isDeleted, false));
+  }
+  
+  async getQuestionsByIds(ids: number[]): Promise<Question[]> {
+    if (ids.length === 0) return [];
+    return db.select().from(questions).where(inArray(questions.id, ids));
+  }
+  
+  async getQuestionsByTopic(topicId: number): Promise<Question[]> {
+    return db.select().from(questions).where(
+      and(
+        eq(questions.topicId, topicId),
+        eq(questions.isDeleted, false)
+      )
+    );
+  }
+  
+  async getQuestionsByChapter(chapterId: number): Promise<Question[]> {
+    return db.select().from(questions).where(
+      and(
+        eq(questions.chapterId, chapterId),
+        eq(questions.isDeleted, false)
+      )
+    );
+  }
+  
+  async getQuestion(id: number): Promise<Question | undefined> {
+    const [question] = await db.select().from(questions).where(
+      and(
+        eq(questions.id, id),
+        eq(questions.isDeleted, false)
+      )
+    );
+    return question;
+  }
+  
+  async createQuestion(insertQuestion: InsertQuestion): Promise<Question> {
+    const [question] = await db.insert(questions).values(insertQuestion).returning();
+    return question;
+  }
+  
+  async createQuestions(insertQuestions: InsertQuestion[]): Promise<Question[]> {
+    if (insertQuestions.length === 0) return [];
+    
+    // Insert in batches to stay under Postgres' bind parameter limit, all or nothing
+    return db.transaction(async (tx) => {
+      const created: Question[] = [];
+      for (let i = 0; i < insertQuestions.length; i += 500) {
+        const batch = await tx.insert(questions)
+          .values(insertQuestions.slice(i, i + 500))
+          .returning();
+        created.push(...batch);
+      }
+      return created;
+    });
+  }
+  
+  async updateQuestion(id: number, questionData: Partial<Question>): Promise<Question> {
+    const [updatedQuestion] = await db.update(questions)
+      .set(questionData)
+      .where(eq(questions.id, id))
+      .returning();
+    
+    if (!updatedQuestion) {
+      throw new Error(`Question with id ${id} not found`);
+    }
+    
+    return updatedQuestion;
+  }
+  
+  async reviseQuestion(id: number, questionData: Partial<Question>): Promise<Question> {
+    // The next revision number comes from the row being updated, never from an earlier read
+    const [updatedQuestion] = await db.update(questions)
+      .set({ ...questionData, currentRevision: sql`${questions.currentRevision} + 1` })
+      .where(eq(questions.id, id))
+      .returning();
+    
+    if (!updatedQuestion) {
+      throw new Error(`Question with id ${id} not found`);
+    }
+    
+    return updatedQuestion;
+  }
+  
+  async deleteQuestion(id: number): Promise<void> {
+    // Soft delete question
+    await db.update(questions)
+      .set({ isDeleted: true })
+      .where(eq(questions.id, id));
+  }
+  
+  // User answer operations
+  async createUserAnswer(insertAnswer: InsertUserAnswer): Promise<UserAnswer | undefined> {
+    // Pin the answer to the question content it was given against
+    const question = await this.getQuestion(insertAnswer.questionId);
+    // Returns nothing when the session already has an answer to this question
+    const [answer] = await db.insert(userAnswers)
+      .values({
+        ...insertAnswer,
+        questionRevision: question?.currentRevision ?? null,
+        answeredAt: new Date()
+      })
+      .onConflictDoNothing({ target: [userAnswers.sessionId, userAnswers.questionId] })
+      .returning();
+    
+    return answer;
+  }
+  
+  async getUserAnswers(userId: number): Promise<UserAnswer[]> {
+    return db.select().from(userAnswers).where(eq(userAnswers.userId, userId));
+  }
+  
+  async getAllUserAnswers(): Promise<UserAnswer[]> {
+    return db.select().from(userAnswers).where(eq(userAnswers.isDeleted, false));
+  }
+  
+  async getUserAnswersByTopic(userId: number, topicId: number): Promise<UserAnswer[]> {
+    // Join userAnswers with questions to filter by topicId
+    const result = await db.select({
+      userAnswer: userAnswers
+    })
+    .from(userAnswers)
+    .innerJoin(questions, eq(userAnswers.questionId, questions.id))
+    .where(and(
+      eq(userAnswers.userId, userId),
+      eq(questions.topicId, topicId)
+    ));
+    
+    // Extract userAnswer from the result
+    return result.map(r => r.userAnswer);
+  }
+  
+  async countUserAnswers(userId: number): Promise<number> {
+    const [result] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(userAnswers)
+      .where(and(
+        eq(userAnswers.userId, userId),
+        eq(userAnswers.isDeleted, false)
+      ));
+    return result?.count ?? 0;
+  }
+  
+  async getTopicQuestionCoverage(userId: number, topicIds: number[]): Promise<TopicQuestionCoverage[]> {
+    if (topicIds.length === 0) return [];
+    
+    // One pass over the topics' questions, checking each for a live answer
+    return db.select({
+      topicId: questions.topicId,
+      questionCount: sql<number>`count(*)::int`,
+      answeredCount: sql<number>`(count(*) filter (where exists (
+        select 1 from ${userAnswers}
+        where ${userAnswers.questionId} = ${questions.id}
+          and ${userAnswers.userId} = ${userId}
+          and ${userAnswers.isDeleted} = false
+      )))::int`,
+    })
+      .from(questions)
+      .innerJoin(chapters, eq(questions.chapterId, chapters.id))
+      .where(and(
+        inArray(questions.topicId, topicIds),
+        eq(questions.isDeleted, false),
+        eq(chapters.isDeleted, false)
+      ))
+      .groupBy(questions.topicId);
+  }
+  
+  // User progress operations
+  async getUserProgress(userId: number): Promise<UserProgress[]> {
+    return db.select().from(userProgress).where(eq(userProgress.userId, userId));
+  }
+  
+  async getUserProgressByTopic(userId: number, topicId: number): Promise<UserProgress | undefined> {
+    const [progress] = await db.select().from(userProgress)
+      .where(and(
+        eq(userProgress.userId, userId),
+        eq(userProgress.topicId, topicId)
+      ));
+    return progress;
+  }
+  
+  async createOrUpdateUserProgress(insertProgress: InsertUserProgress): Promise<UserProgress> {
+    const existingProgress = await this.getUserProgressByTopic(
+      insertProgress.userId,
+      insertProgress.topicId
+    );
+    
+    if (existingProgress) {
+      // Update existing progress
+      const [updatedProgress] = await db.update(userProgress)
+        .set({
+          questionsAttempted: insertProgress.questionsAttempted,
+          questionsCorrect: insertProgress.questionsCorrect,
+          questionsSeen: insertProgress.questionsSeen,
+          firstAttemptCorrect: insertProgress.firstAttemptCorrect,
+          latestCorrect: insertProgress.latestCorrect,
+          questionsMastered: insertProgress.questionsMastered,
+          totalTimeSpent: insertProgress.totalTimeSpent,
+          lastUpdated: new Date()
+        })
+        .where(eq(userProgress.id, existingProgress.id))
+        .returning();
+      return updatedProgress;
+    } else {
+      // Create new progress
+      const [progress] = await db.insert(userProgress)
+        .values({
+          ...insertProgress,
+          lastUpdated: new Date()
+        })
+        .returning();
+      return progress;
+    }
+  }
+  
+  // User activity operations
+  async getUserActivity(userId: number, limit: number = 10): Promise<UserActivity[]> {
+    return db.select().from(userActivity)
+      .where(eq(userActivity.userId, userId))
+      .orderBy(desc(userActivity.activityDate))
+      .limit(limit);
+  }
+  
+  async createUserActivity(insertActivity: InsertUserActivity): Promise<UserActivity> {
+    const [activity] = await db.insert(userActivity)
+      .values({
+        ...insertActivity,
+        activityDate: new Date()
+      })
+      .returning();
+    return activity;
+  }
+  
+  // Practice sets operations
+  async getPracticeSets(topicId?: number, level?: CurriculumLevel): Promise<PracticeSet[]> {
+    const conditions = [];
+    if (topicId) {
+      conditions.push(eq(practiceSets.topicId, topicId));
+    }
+    if (level) {
+      conditions.push(eq(practiceSets.level, level));
+    }
+    return db.select().from(practiceSets).where(and(...conditions));
+  }
+  
+  async getPracticeSet(id: number): Promise<PracticeSet | undefined> {
+    const [practiceSet] = await db.select().from(practiceSets).where(eq(practiceSets.id, id));
+    return practiceSet;
+  }
+  
+  async createPracticeSet(insertPracticeSet: InsertPracticeSet): Promise<PracticeSet> {
+    const [practiceSet] = await db.insert(practiceSets)
+      .values(insertPracticeSet)
+      .returning();
+    return practiceSet;
+  }
+  
+  async updatePracticeSet(id: number, practiceSetData: Partial<PracticeSet>): Promise<PracticeSet> {
+    const [updatedPracticeSet] = await db.update(practiceSets)
+      .set(practiceSetData)
+      .where(eq(practiceSets.id, id))
+      .returning();
+    
+    if (!updatedPracticeSet) {
+      throw new Error(`Practice set with id ${id} not found`);
+    }
+    
+    return updatedPracticeSet;
+  }
+  
+  async deletePracticeSet(id: number): Promise<void> {
+    // Soft delete practice set
+    await db.update(practiceSets)
+      .set({ isDeleted: true })
+      .where(eq(practiceSets.id, id));
+  }
+  
+  async getUnannouncedPracticeSets(): Promise<PracticeSet[]> {
+    return db.select().from(practiceSets).where(and(
+      isNull(practiceSets.announcedAt),
+      eq(practiceSets.isDeleted, false)
+    ));
+  }
+  
+  async getPracticeSetQuestions(practiceSetId: number): Promise<Question[]> {
+    const rows = await db.select({ question: questions })
+      .from(practiceSetQuestions)
+      .innerJoin(questions, eq(practiceSetQuestions.questionId, questions.id))
+      .where(and(
+        eq(practiceSetQuestions.practiceSetId, practiceSetId),
+        eq(questions.isDeleted, false)
+      ))
+      .orderBy(practiceSetQuestions.position);
+    return rows.map(row => row.question);
+  }
+  
+  async setPracticeSetQuestions(practiceSetId: number, questionIds: number[]): Promise<void> {
+    // Replace the whole ordering at once so positions never clash
+    await db.transaction(async (tx) => {
+      await tx.delete(practiceSetQuestions)
+        .where(eq(practiceSetQuestions.practiceSetId, practiceSetId));
+      
+      if (questionIds.length > 0) {
+        await tx.insert(practiceSetQuestions)
+          .values(questionIds.map((questionId, position) => ({ practiceSetId, questionId, position })));
+      }
+      
+      // Keep the advertised question count in step with the actual contents
+      await tx.update(practiceSets)
+        .set({ questionCount: questionIds.length })
+        .where(eq(practiceSets.id, practiceSetId));
+    });
+  }
+  
+  // Error logging operations
+  async logError(insertErrorLog: InsertErrorLog): Promise<ErrorLog> {
+    const [errorLog] = await db.insert(errorLogs)
+      .values({
+        ...insertErrorLog,
+        timestamp: new Date()
+      })
+      .returning();
+    return errorLog;
+  }
+  
+  async getErrorLogs(limit: number = 50): Promise<ErrorLog[]> {
+    return db.select()
+      .from(errorLogs)
+      .orderBy(desc(errorLogs.timestamp))
+      .limit(limit);
+  }
+  
+  async getErrorLogsByUser(userId: number, limit: number = 50): Promise<ErrorLog[]> {
+    return db.select()
+      .from(errorLogs)
+      .where(eq(errorLogs.userId, userId))
+      .orderBy(desc(errorLogs.timestamp))
+      .limit(limit);
   }
   
-  async checkAndUpdateSubscriptionStatus(id: number): Promise<Subscription> {
-    const subscription = await this.getSubscription(id);
-    if (!subscription) {
-      throw new Error(`Subscription with id ${id} not found`);
+  // Mock exam operations
+  async getMockExams(includeInactive: boolean = false): Promise<MockExam[]> {
+    const conditions = [eq(mockExams.isDeleted, false)];
+    if (!includeInactive) {
+      conditions.push(eq(mockExams.isActive, true));
     }
+    return db.select()
+      .from(mockExams)
+      .where(and(...conditions))
+      .orderBy(desc(mockExams.createdAt));
+  }
+  
+  async getMockExam(id: number): Promise<MockExam | undefined> {
+    const [mockExam] = await db.select()
+      .from(mockExams)
+      .where(and(
+        eq(mockExams.id, id),
+        eq(mockExams.isDeleted, false)
+      ));
+    return mockExam;
+  }
+  
+  async createMockExam(insertMockExam: InsertMockExam): Promise<MockExam> {
+    const [mockExam] = await db.insert(mockExams)
+      .values({
+        ...insertMockExam,
+        createdAt: new Date()
+      })
+      .returning();
+    return mockExam;
+  }
+  
+  async updateMockExam(id: number, mockExamData: Partial<MockExam>): Promise<MockExam> {
+    const [updatedMockExam] = await db.update(mockExams)
+      .set(mockExamData)
+      .where(eq(mockExams.id, id))
+      .returning();
     
-    // If already cancelled or expired, no need to check
-    if (subscription.status !== 'active') {
-      return subscription;
+    if (!updatedMockExam) {
+      throw new Error(`Mock exam with id ${id} not found`);
     }
     
-    const now = new Date();
+    return updatedMockExam;
+  }
+  
+  async deleteMockExam(id: number): Promise<void> {
+    // Soft delete so past attempts keep their exam reference
+    await db.update(mockExams)
+      .set({ isDeleted: true })
+      .where(eq(mockExams.id, id));
+  }
+  
+  // Mock exam attempt operations
+  async createMockExamAttempt(insertAttempt: InsertMockExamAttempt): Promise<MockExamAttempt> {
+    const [attempt] = await db.insert(mockExamAttempts)
+      .values({
+        ...insertAttempt,
+        startedAt: new Date()
+      })
+      .returning();
+    return attempt;
+  }
+  
+  async getMockExamAttempt(id: number): Promise<MockExamAttempt | undefined> {
+    const [attempt] = await db.select()
+      .from(mockExamAttempts)
+      .where(and(
+        eq(mockExamAttempts.id, id),
+        eq(mockExamAttempts.isDeleted, false)
+      ));
+    return attempt;
+  }
+  
+  async getUserMockExamAttempts(userId: number): Promise<MockExamAttempt[]> {
+    return db.select()
+      .from(mockExamAttempts)
+      .where(and(
+        eq(mockExamAttempts.userId, userId),
+        eq(mockExamAttempts.isDeleted, false)
+      ))
+      .orderBy(desc(mockExamAttempts.startedAt));
+  }
+  
+  async updateMockExamAttempt(id: number, attemptData: Partial<MockExamAttempt>): Promise<MockExamAttempt> {
+    const [updatedAttempt] = await db.update(mockExamAttempts)
+      .set(attemptData)
+      .where(eq(mockExamAttempts.id, id))
+      .returning();
     
-    // If end date has passed, mark as expired
-    if (subscription.endDate < now) {
-      // If auto-renew is enabled, extend the subscription
-      if (subscription.autoRenew) {
-        // Calculate new end date based on plan type
-        let newEndDate = new Date(subscription.endDate);
-        
-        if (subscription.planType === 'monthly') {
-          newEndDate.setMonth(newEndDate.getMonth() + 1);
-        } else if (subscription.planType === 'quarterly') {
-          newEndDate.setMonth(newEndDate.getMonth() + 3);
-        } else if (subscription.planType === 'yearly') {
-          newEndDate.setFullYear(newEndDate.getFullYear() + 1);
-        }
-        
-        return this.updateSubscription(id, {
-          startDate: subscription.endDate,
-          endDate: newEndDate
-        });
-      }
-      
-      // Otherwise, mark as expired
-      return this.updateSubscription(id, {
-        status: 'expired'
-      });
+    if (!updatedAttempt) {
+      throw new Error(`Mock exam attempt with id ${id} not found`);
     }
     
-    return subscription;
+    return updatedAttempt;
   }
   
-  // User operations
-  async getUser(id: number): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
-    return user;
+  async completeMockExamAttempt(id: number, attemptData: Partial<MockExamAttempt>): Promise<MockExamAttempt | undefined> {
+    // Only one caller can move an attempt out of in_progress
+    const [completedAttempt] = await db.update(mockExamAttempts)
+      .set({ ...attemptData, status: 'completed' })
+      .where(and(
+        eq(mockExamAttempts.id, id),
+        eq(mockExamAttempts.status, 'in_progress')
+      ))
+      .returning();
+    return completedAttempt;
   }
   
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
-    return user;
+  async saveMockExamAnswers(
+    id: number,
+    session: number,
+    attemptData: Pick<MockExamAttempt, 'answers' | 'flagged'>
+  ): Promise<MockExamAttempt | undefined> {
+    // Answers written after the session was submitted would change a scored paper
+    const [updatedAttempt] = await db.update(mockExamAttempts)
+      .set(attemptData)
+      .where(and(
+        eq(mockExamAttempts.id, id),
+        eq(mockExamAttempts.status, 'in_progress'),
+        eq(mockExamAttempts.currentSession, session)
+      ))
+      .returning();
+    return updatedAttempt;
   }
   
-  async createUser(insertUser: InsertUser): Promise<User> {
-    // Set default values for required fields
-    const userData = {
-      ...insertUser,
-      streakDays: 0,
-      lastLoginDate: new Date(),
-      // Default role to student if not specified
-      role: insertUser.role || 'student',
-      // Default level if not specified
-      level: insertUser.level || 'Level I Candidate',
-      // Default premium status
-      isPremium: false,
-      // Default Razorpay customer ID
-      razorpayCustomerId: null,
-      // Empty reset token fields are handled by the schema defaults
-      email: insertUser.email || null
-    };
+  // Spaced-repetition review operations
+  async getReviewCard(userId: number, questionId: number): Promise<ReviewCard | undefined> {
+    const [card] = await db.select()
+      .from(reviewCards)
+      .where(and(
+        eq(reviewCards.userId, userId),
+        eq(reviewCards.questionId, questionId),
+        eq(reviewCards.isDeleted, false)
+      ));
+    return card;
+  }
+  
+  async saveReviewCard(insertCard: InsertReviewCard): Promise<ReviewCard> {
+    // One card per user and question, so update it in place when it exists
+    const [card] = await db.insert(reviewCards)
+      .values(insertCard)
+      .onConflictDoUpdate({
+        target: [reviewCards.userId, reviewCards.questionId],
+        set: {
+          easeFactor: insertCard.easeFactor,
+          interval: insertCard.interval,
+          repetitions: insertCard.repetitions,
+          dueDate: insertCard.dueDate,
+          lastReviewedAt: insertCard.lastReviewedAt,
+          isDeleted: false
+        }
+      })
+      .returning();
+    return card;
+  }
+  
+  async getDueReviewCards(userId: number, asOf: Date, limit?: number): Promise<ReviewCard[]> {
+    // Deleted questions are never reviewed, so their cards don't count
+    const query = db.select(getTableColumns(reviewCards))
+      .from(reviewCards)
+      .innerJoin(questions, eq(questions.id, reviewCards.questionId))
+      .where(and(
+        eq(reviewCards.userId, userId),
+        eq(reviewCards.isDeleted, false),
+        eq(questions.isDeleted, false),
+        lte(reviewCards.dueDate, asOf)
+      ))
+      .orderBy(reviewCards.dueDate);
     
-    const [user] = await db.insert(users).values(userData).returning();
-    return user;
+    return limit ? query.limit(limit) : query;
   }
   
-  async updateUserStreak(userId: number, streakDays: number): Promise<User | undefined> {
-    const [updatedUser] = await db.update(users)
-      .set({ streakDays, lastLoginDate: new Date() })
-      .where(eq(users.id, userId))
+  // Practice session operations
+  async createPracticeSession(insertSession: InsertPracticeSession): Promise<PracticeSession> {
+    const now = new Date();
+    const [practiceSession] = await db.insert(practiceSessions)
+      .values({
+        ...insertSession,
+        startedAt: now,
+        lastActivityAt: now
+      })
       .returning();
-    return updatedUser;
+    return practiceSession;
   }
   
-  async getAllUsers(): Promise<User[]> {
-    return db.select().from(users);
+  async getPracticeSession(id: number): Promise<PracticeSession | undefined> {
+    const [practiceSession] = await db.select()
+      .from(practiceSessions)
+      .where(and(
+        eq(practiceSessions.id, id),
+        eq(practiceSessions.isDeleted, false)
+      ));
+    return practiceSession;
   }
   
-  async updateUser(id: number, userData: Partial<User>): Promise<User> {
-    const [updatedUser] = await db.update(users)
-      .set(userData)
-      .where(eq(users.id, id))
+  async getActivePracticeSessions(userId: number): Promise<PracticeSession[]> {
+    return db.select()
+      .from(practiceSessions)
+      .where(and(
+        eq(practiceSessions.userId, userId),
+        eq(practiceSessions.status, 'active'),
+        eq(practiceSessions.isDeleted, false)
+      ))
+      .orderBy(desc(practiceSessions.lastActivityAt));
+  }
+  
+  async getCompletedPracticeSessions(userId: number): Promise<PracticeSession[]> {
+    return db.select()
+      .from(practiceSessions)
+      .where(and(
+        eq(practiceSessions.userId, userId),
+        eq(practiceSessions.status, 'completed'),
+        eq(practiceSessions.isDeleted, false)
+      ))
+      .orderBy(desc(practiceSessions.completedAt));
+  }
+  
+  async updatePracticeSession(id: number, sessionData: Partial<PracticeSession>): Promise<PracticeSession> {
+    const [updatedSession] = await db.update(practiceSessions)
+      .set(sessionData)
+      .where(eq(practiceSessions.id, id))
       .returning();
     
-    if (!updatedUser) {
-      throw new Error(`User with id ${id} not found`);
+    if (!updatedSession) {
+      throw new Error(`Practice session with id ${id} not found`);
     }
     
-    return updatedUser;
+    return updatedSession;
   }
   
-  async deleteUser(id: number): Promise<void> {
-    // Instead of hard delete, perform soft delete
-    await db.update(users)
-      .set({ isDeleted: true })
-      .where(eq(users.id, id));
+  async countPracticeSessionAnswer(
+    id: number,
+    answer: { position: number; isCorrect: boolean; timeSpent: number }
+  ): Promise<PracticeSession> {
+    // Counters are bumped in the database so answers saved at the same time all count
+    const [updatedSession] = await db.update(practiceSessions)
+      .set({
+        currentIndex: sql`greatest(${practiceSessions.currentIndex}, ${answer.position + 1})`,
+        answeredCount: sql`${practiceSessions.answeredCount} + 1`,
+        correctCount: sql`${practiceSessions.correctCount} + ${answer.isCorrect ? 1 : 0}`,
+        timeSpent: sql`${practiceSessions.timeSpent} + ${answer.timeSpent}`,
+        lastActivityAt: new Date()
+      })
+      .where(eq(practiceSessions.id, id))
+      .returning();
+    
+    if (!updatedSession) {
+      throw new Error(`Practice session with id ${id} not found`);
+    }
+    
+    return updatedSession;
   }
   
-  // Topic operations
-  async getAllTopics(): Promise<Topic[]> {
-    return db.select().from(topics).where(eq(topics.isDeleted, false));
+  async getPracticeSessionAnswers(sessionId: number): Promise<UserAnswer[]> {
+    return db.select()
+      .from(userAnswers)
+      .where(and(
+        eq(userAnswers.sessionId, sessionId),
+        eq(userAnswers.isDeleted, false)
+      ))
+      .orderBy(userAnswers.answeredAt);
   }
   
-  async getTopic(id: number): Promise<Topic | undefined> {
-    const [topic] = await db.select().from(topics).where(
-      and(
-        eq(topics.id, id),
-        eq(topics.isDeleted, false)
-      )
-    );
-    return topic;
+  // Question revision operations
+  async getQuestionRevisions(questionId: number): Promise<QuestionRevision[]> {
+    return db.select()
+      .from(questionRevisions)
+      .where(eq(questionRevisions.questionId, questionId))
+      .orderBy(desc(questionRevisions.revision));
   }
   
-  async createTopic(insertTopic: InsertTopic): Promise<Topic> {
-    try {
-      const [topic] = await db.insert(topics).values(insertTopic).returning();
-      return topic;
-    } catch (error: unknown) {
-      // Check for duplicate name constraint violation
-      if (typeof error === 'object' && 
-          error !== null && 
-          'code' in error && 
-          error.code === '23505' && 
-          'constraint' in error && 
-          error.constraint === 'topics_name_unique') {
-        throw new Error(`A topic with the name "${insertTopic.name}" already exists`);
-      }
-      // Re-throw the original error if it's not a duplicate
-      throw error;
+  async getQuestionRevision(questionId: number, revision: number): Promise<QuestionRevision | undefined> {
+    const [entry] = await db.select()
+      .from(questionRevisions)
+      .where(and(
+        eq(questionRevisions.questionId, questionId),
+        eq(questionRevisions.revision, revision)
+      ));
+    return entry;
+  }
+  
+  async createQuestionRevision(insertRevision: InsertQuestionRevision): Promise<QuestionRevision> {
+    const [revision] = await db.insert(questionRevisions)
+      .values(insertRevision)
+      .returning();
+    return revision;
+  }
+  
+  // Question report operations
+  async createQuestionReport(insertReport: InsertQuestionReport): Promise<QuestionReport> {
+    const [report] = await db.insert(questionReports)
+      .values({
+        ...insertReport,
+        createdAt: new Date()
+      })
+      .returning();
+    return report;
+  }
+  
+  async getQuestionReport(id: number): Promise<QuestionReport | undefined> {
+    const [report] = await db.select().from(questionReports).where(eq(questionReports.id, id));
+    return report;
+  }
+  
+  async getQuestionReports(status?: string): Promise<QuestionReport[]> {
+    const conditions = [eq(questionReports.isDeleted, false)];
+    if (status) {
+      conditions.push(eq(questionReports.status, status));
     }
+    return db.select()
+      .from(questionReports)
+      .where(and(...conditions))
+      .orderBy(desc(questionReports.createdAt));
   }
   
-  async updateTopic(id: number, topicData: Partial<Topic>): Promise<Topic> {
-    const [updatedTopic] = await db.update(topics)
-      .set(topicData)
-      .where(eq(topics.id, id))
+  async getUserQuestionReports(userId: number, questionId: number): Promise<QuestionReport[]> {
+    return db.select()
+      .from(questionReports)
+      .where(and(
+        eq(questionReports.userId, userId),
+        eq(questionReports.questionId, questionId),
+        eq(questionReports.isDeleted, false)
+      ));
+  }
+  
+  async updateQuestionReport(id: number, reportData: Partial<QuestionReport>): Promise<QuestionReport> {
+    const [updatedReport] = await db.update(questionReports)
+      .set(reportData)
+      .where(eq(questionReports.id, id))
       .returning();
     
-    if (!updatedTopic) {
-      throw new Error(`Topic with id ${id} not found`);
+    if (!updatedReport) {
+      throw new Error(`Question report with id ${id} not found`);
     }
     
-    return updatedTopic;
+    return updatedReport;
   }
   
-  async deleteTopic(id: number): Promise<void> {
-    // First, get all chapters for this topic
-    const topicChapters = await db.select().from(chapters).where(eq(chapters.topicId, id));
+  // Question group operations
+  async getAllQuestionGroups(): Promise<QuestionGroup[]> {
+    return db.select().from(questionGroups).where(eq(questionGroups.isDeleted, false));
+  }
+  
+  async getQuestionGroup(id: number): Promise<QuestionGroup | undefined> {
+    const [group] = await db.select().from(questionGroups).where(
+      and(
+        eq(questionGroups.id, id),
+        eq(questionGroups.isDeleted, false)
+      )
+    );
+    return group;
+  }
+  
+  async getQuestionGroupsByIds(ids: number[]): Promise<QuestionGroup[]> {
+    if (ids.length === 0) return [];
+    return db.select().from(questionGroups).where(inArray(questionGroups.id, ids));
+  }
+  
+  async createQuestionGroup(insertGroup: InsertQuestionGroup): Promise<QuestionGroup> {
+    const [group] = await db.insert(questionGroups).values(insertGroup).returning();
+    return group;
+  }
+  
+  async updateQuestionGroup(id: number, groupData: Partial<QuestionGroup>): Promise<QuestionGroup> {
+    const [updatedGroup] = await db.update(questionGroups)
+      .set(groupData)
+      .where(eq(questionGroups.id, id))
+      .returning();
     
-    // For each chapter, soft delete related questions
-    for (const chapter of topicChapters) {
-      await db.update(questions)
-        .set({ isDeleted: true })
-        .where(eq(questions.chapterId, chapter.id));
+    if (!updatedGroup) {
+      throw new Error(`Question group with id ${id} not found`);
     }
     
-    // Soft delete questions directly linked to this topic (without chapter)
-    await db.update(questions)
-      .set({ isDeleted: true })
-      .where(eq(questions.topicId, id));
-    
-    // Soft delete all chapters for this topic
-    await db.update(chapters)
-      .set({ isDeleted: true })
-      .where(eq(chapters.topicId, id));
-    
-    // Soft delete user progress for this topic
-    await db.update(userProgress)
-      .set({ isDeleted: true })
-      .where(eq(userProgress.topicId, id));
-    
-    // Soft delete practice sets for this topic
-    await db.update(practiceSets)
-      .set({ isDeleted: true })
-      .where(eq(practiceSets.topicId, id));
-    
-    // Finally, soft delete the topic itself
-    await db.update(topics)
-      .set({ isDeleted: true })
-      .where(eq(topics.id, id));
-  }
-  
-  // Chapter operations
-  async getChaptersByTopic(topicId: number): Promise<Chapter[]> {
-    return db.select()
-      .from(chapters)
+    return updatedGroup;
+  }
+  
+  async getQuestionsByGroup(groupId: number): Promise<Question[]> {
+    return db.select().from(questions)
       .where(
         and(
-          eq(chapters.topicId, topicId),
-          eq(chapters.isDeleted, false)
+          eq(questions.groupId, groupId),
+          eq(questions.isDeleted, false)
         )
       )
-      .orderBy(chapters.order);
+      .orderBy(questions.groupPosition);
   }
   
-  async getChapter(id: number): Promise<Chapter | undefined> {
-    const [chapter] = await db.select()
-      .from(chapters)
+  // Learning outcome operations
+  async getAllLearningOutcomes(): Promise<LearningOutcome[]> {
+    return db.select().from(learningOutcomes)
+      .where(eq(learningOutcomes.isDeleted, false))
+      .orderBy(learningOutcomes.chapterId, learningOutcomes.order);
+  }
+  
+  async getLearningOutcomesByChapter(chapterId: number): Promise<LearningOutcome[]> {
+    return db.select().from(learningOutcomes)
       .where(
         and(
-          eq(chapters.id, id),
-          eq(chapters.isDeleted, false)
+          eq(learningOutcomes.chapterId, chapterId),
+          eq(learningOutcomes.isDeleted, false)
         )
-      );
-    return chapter;
+      )
+      .orderBy(learningOutcomes.order);
   }
   
-  async createChapter(insertChapter: InsertChapter): Promise<Chapter> {
-    const [chapter] = await db.insert(chapters)
-      .values(insertChapter)
-      .returning();
-    return chapter;
+  async getLearningOutcome(id: number): Promise<LearningOutcome | undefined> {
+    const [outcome] = await db.select().from(learningOutcomes).where(
+      and(
+        eq(learningOutcomes.id, id),
+        eq(learningOutcomes.isDeleted, false)
+      )
+    );
+    return outcome;
   }
   
-  async updateChapter(id: number, chapterData: Partial<Chapter>): Promise<Chapter> {
-    const [updatedChapter] = await db.update(chapters)
-      .set(chapterData)
-      .where(eq(chapters.id, id))
+  async createLearningOutcome(insertLearningOutcome: InsertLearningOutcome): Promise<LearningOutcome> {
+    const [outcome] = await db.insert(learningOutcomes).values(insertLearningOutcome).returning();
+    return outcome;
+  }
+  
+  async updateLearningOutcome(id: number, learningOutcomeData: Partial<LearningOutcome>): Promise<LearningOutcome> {
+    const [updatedOutcome] = await db.update(learningOutcomes)
+      .set(learningOutcomeData)
+      .where(eq(learningOutcomes.id, id))
       .returning();
     
-    if (!updatedChapter) {
-      throw new Error(`Chapter with id ${id} not found`);
+    if (!updatedOutcome) {
+      throw new Error(`Learning outcome with id ${id} not found`);
     }
     
-    return updatedChapter;
+    return updatedOutcome;
   }
   
-  async deleteChapter(id: number): Promise<void> {
-    // First, soft delete all questions linked to this chapter
-    await db.update(questions)
-      .set({ isDeleted: true })
-      .where(eq(questions.chapterId, id));
-    
-    // Then soft delete the chapter itself
-    await db.update(chapters)
-      .set({ isDeleted: true })
-      .where(eq(chapters.id, id));
+  async getQuestionLearningOutcomeLinks(): Promise<QuestionLearningOutcome[]> {
+    return db.select().from(questionLearningOutcomes);
   }
   
-  // Question operations
-  async getQuestionsByTopic(topicId: number): Promise<Question[]> {
-    return db.select().from(questions).where(
+  async getLearningOutcomeIdsForQuestion(questionId: number): Promise<number[]> {
+    const links = await db.select().from(questionLearningOutcomes)
+      .where(eq(questionLearningOutcomes.questionId, questionId));
+    return links.map(link => link.learningOutcomeId);
+  }
+  
+  async setQuestionLearningOutcomes(questionId: number, learningOutcomeIds: number[]): Promise<void> {
+    // Replace the question's tags in one go
+    await db.transaction(async (tx) => {
+      await tx.delete(questionLearningOutcomes)
+        .where(eq(questionLearningOutcomes.questionId, questionId));
+      
+      if (learningOutcomeIds.length > 0) {
+        await tx.insert(questionLearningOutcomes)
+          .values(learningOutcomeIds.map(learningOutcomeId => ({ questionId, learningOutcomeId })));
+      }
+    });
+  }
+  
+  // Bookmark and note operations
+  async getQuestionBookmarks(userId: number): Promise<QuestionBookmark[]> {
+    return db.select().from(questionBookmarks)
+      .where(eq(questionBookmarks.userId, userId))
+      .orderBy(desc(questionBookmarks.createdAt));
+  }
+  
+  async getQuestionBookmark(userId: number, questionId: number): Promise<QuestionBookmark | undefined> {
+    const [bookmark] = await db.select().from(questionBookmarks).where(
       and(
-        eq(questions.topicId, topicId),
-        eq(questions.isDeleted, false)
+        eq(questionBookmarks.userId, userId),
+        eq(questionBookmarks.questionId, questionId)
       )
     );
+    return bookmark;
   }
   
-  async getQuestionsByChapter(chapterId: number): Promise<Question[]> {
-    return db.select().from(questions).where(
+  async createQuestionBookmark(insertBookmark: InsertQuestionBookmark): Promise<QuestionBookmark> {
+    // Bookmarking twice keeps the original bookmark
+    await db.insert(questionBookmarks)
+      .values(insertBookmark)
+      .onConflictDoNothing({ target: [questionBookmarks.userId, questionBookmarks.questionId] });
+    
+    const bookmark = await this.getQuestionBookmark(insertBookmark.userId, insertBookmark.questionId);
+    return bookmark!;
+  }
+  
+  async deleteQuestionBookmark(userId: number, questionId: number): Promise<void> {
+    await db.delete(questionBookmarks).where(
       and(
-        eq(questions.chapterId, chapterId),
-        eq(questions.isDeleted, false)
+        eq(questionBookmarks.userId, userId),
+        eq(questionBookmarks.questionId, questionId)
       )
     );
   }
   
-  async getQuestion(id: number): Promise<Question | undefined> {
-    const [question] = await db.select().from(questions).where(
+  async getQuestionNotes(userId: number): Promise<QuestionNote[]> {
+    return db.select().from(questionNotes)
+      .where(eq(questionNotes.userId, userId))
+      .orderBy(desc(questionNotes.updatedAt));
+  }
+  
+  async getQuestionNote(userId: number, questionId: number): Promise<QuestionNote | undefined> {
+    const [note] = await db.select().from(questionNotes).where(
       and(
-        eq(questions.id, id),
-        eq(questions.isDeleted, false)
+        eq(questionNotes.userId, userId),
+        eq(questionNotes.questionId, questionId)
       )
     );
-    return question;
+    return note;
   }
   
-  async createQuestion(insertQuestion: InsertQuestion): Promise<Question> {
-    const [question] = await db.insert(questions).values(insertQuestion).returning();
-    return question;
+  async saveQuestionNote(userId: number, questionId: number, content: string): Promise<QuestionNote> {
+    const now = new Date();
+    const [note] = await db.insert(questionNotes)
+      .values({ userId, questionId, content, createdAt: now, updatedAt: now })
+      .onConflictDoUpdate({
+        target: [questionNotes.userId, questionNotes.questionId],
+        set: { content, updatedAt: now }
+      })
+      .returning();
+    return note;
   }
   
-  async updateQuestion(id: number, questionData: Partial<Question>): Promise<Question> {
-    const [updatedQuestion] = await db.update(questions)
-      .set(questionData)
-      .where(eq(questions.id, id))
-      .returning();
-    
-    if (!updatedQuestion) {
-      throw new Error(`Question with id ${id} not found`);
-    }
-    
-    return updatedQuestion;
+  async deleteQuestionNote(userId: number, questionId: number): Promise<void> {
+    await db.delete(questionNotes).where(
+      and(
+        eq(questionNotes.userId, userId),
+        eq(questionNotes.questionId, questionId)
+      )
+    );
   }
   
-  async deleteQuestion(id: number): Promise<void> {
-    // Soft delete question
-    await db.update(questions)
-      .set({ isDeleted: true })
-      .where(eq(questions.id, id));
+  // Study day operations
+  async getStudyDays(userId: number): Promise<StudyDay[]> {
+    return db.select().from(studyDays)
+      .where(eq(studyDays.userId, userId))
+      .orderBy(desc(studyDays.studyDate));
   }
   
-  // User answer operations
-  async createUserAnswer(insertAnswer: InsertUserAnswer): Promise<UserAnswer> {
-    const [answer] = await db.insert(userAnswers)
-      .values({
-        ...insertAnswer,
-        answeredAt: new Date()
+  async getStudyDay(userId: number, studyDate: string): Promise<StudyDay | undefined> {
+    const [studyDay] = await db.select().from(studyDays).where(
+      and(
+        eq(studyDays.userId, userId),
+        eq(studyDays.studyDate, studyDate)
+      )
+    );
+    return studyDay;
+  }
+  
+  async saveStudyDay(insertStudyDay: InsertStudyDay): Promise<StudyDay> {
+    const now = new Date();
+    const [studyDay] = await db.insert(studyDays)
+      .values({ ...insertStudyDay, updatedAt: now })
+      .onConflictDoUpdate({
+        target: [studyDays.userId, studyDays.studyDate],
+        set: {
+          questionsAnswered: insertStudyDay.questionsAnswered,
+          isFrozen: insertStudyDay.isFrozen,
+          updatedAt: now
+        }
       })
       .returning();
-    
-    // Update user progress
-    await this.updateUserProgressAfterAnswer(answer);
-    
-    return answer;
+    return studyDay;
   }
   
-  async getUserAnswers(userId: number): Promise<UserAnswer[]> {
-    return db.select().from(userAnswers).where(eq(userAnswers.userId, userId));
+  async addStudyDayQuestions(userId: number, studyDate: string, questions: number): Promise<StudyDay> {
+    // Incremented in the database so concurrent answers can't overwrite each other
+    const now = new Date();
+    const [studyDay] = await db.insert(studyDays)
+      .values({ userId, studyDate, questionsAnswered: questions, updatedAt: now })
+      .onConflictDoUpdate({
+        target: [studyDays.userId, studyDays.studyDate],
+        set: {
+          questionsAnswered: sql`${studyDays.questionsAnswered} + ${questions}`,
+          updatedAt: now
+        }
+      })
+      .returning();
+    return studyDay;
   }
   
-  async getUserAnswersByTopic(userId: number, topicId: number): Promise<UserAnswer[]> {
-    // Join userAnswers with questions to filter by topicId
-    const result = await db.select({
-      userAnswer: userAnswers
-    })
-    .from(userAnswers)
-    .innerJoin(questions, eq(userAnswers.questionId, questions.id))
-    .where(and(
-      eq(userAnswers.userId, userId),
-      eq(questions.topicId, topicId)
-    ));
-    
-    // Extract userAnswer from the result
-    return result.map(r => r.userAnswer);
+  // Badge operations
+  async getUserBadges(userId: number): Promise<UserBadge[]> {
+    return db.select().from(userBadges)
+      .where(eq(userBadges.userId, userId))
+      .orderBy(desc(userBadges.earnedAt));
   }
   
-  // User progress operations
-  async getUserProgress(userId: number): Promise<UserProgress[]> {
-    return db.select().from(userProgress).where(eq(userProgress.userId, userId));
+  async awardUserBadge(insertBadge: InsertUserBadge): Promise<UserBadge | undefined> {
+    // Returns nothing when the user already has the badge
+    const [badge] = await db.insert(userBadges)
+      .values({ ...insertBadge, earnedAt: new Date() })
+      .onConflictDoNothing()
+      .returning();
+    return badge;
   }
   
-  async getUserProgressByTopic(userId: number, topicId: number): Promise<UserProgress | undefined> {
-    const [progress] = await db.select().from(userProgress)
+  // Notification operations
+  async getNotifications(userId: number, limit: number = 50): Promise<Notification[]> {
+    return db.select().from(notifications)
       .where(and(
-        eq(userProgress.userId, userId),
-        eq(userProgress.topicId, topicId)
-      ));
-    return progress;
+        eq(notifications.userId, userId),
+        eq(notifications.isDeleted, false)
+      ))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
   }
   
-  async createOrUpdateUserProgress(insertProgress: InsertUserProgress): Promise<UserProgress> {
-    const existingProgress = await this.getUserProgressByTopic(
-      insertProgress.userId,
-      insertProgress.topicId
-    );
-    
-    if (existingProgress) {
-      // Update existing progress
-      const [updatedProgress] = await db.update(userProgress)
-        .set({
-          questionsAttempted: insertProgress.questionsAttempted,
-          questionsCorrect: insertProgress.questionsCorrect,
-          totalTimeSpent: insertProgress.totalTimeSpent,
-          lastUpdated: new Date()
-        })
-        .where(eq(userProgress.id, existingProgress.id))
-        .returning();
-      return updatedProgress;
-    } else {
-      // Create new progress
-      const [progress] = await db.insert(userProgress)
-        .values({
-          ...insertProgress,
-          lastUpdated: new Date()
-        })
-        .returning();
-      return progress;
-    }
+  async getNotification(id: number): Promise<Notification | undefined> {
+    const [notification] = await db.select().from(notifications).where(eq(notifications.id, id));
+    return notification;
   }
   
-  // User activity operations
-  async getUserActivity(userId: number, limit: number = 10): Promise<UserActivity[]> {
-    return db.select().from(userActivity)
-      .where(eq(userActivity.userId, userId))
-      .orderBy(desc(userActivity.activityDate))
-      .limit(limit);
+  async createNotification(insertNotification: InsertNotification): Promise<Notification | undefined> {
+    // Returns nothing when a notification with the same dedupe key was already sent
+    const [notification] = await db.insert(notifications)
+      .values({ ...insertNotification, createdAt: new Date() })
+      .onConflictDoNothing()
+      .returning();
+    return notification;
   }
   
-  async createUserActivity(insertActivity: InsertUserActivity): Promise<UserActivity> {
-    const [activity] = await db.insert(userActivity)
-      .values({
-        ...insertActivity,
-        activityDate: new Date()
-      })
+  async markNotificationRead(id: number): Promise<Notification> {
+    const [notification] = await db.update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(notifications.id, id),
+        isNull(notifications.readAt)
+      ))
       .returning();
-    return activity;
+    return notification ?? (await this.getNotification(id))!;
   }
   
-  // Practice sets operations
-  async getPracticeSets(topicId?: number): Promise<PracticeSet[]> {
-    if (topicId) {
-      return db.select().from(practiceSets).where(eq(practiceSets.topicId, topicId));
-    }
-    return db.select().from(practiceSets);
+  async markAllNotificationsRead(userId: number): Promise<void> {
+    await db.update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(notifications.userId, userId),
+        isNull(notifications.readAt)
+      ));
   }
   
-  async getPracticeSet(id: number): Promise<PracticeSet | undefined> {
-    const [practiceSet] = await db.select().from(practiceSets).where(eq(practiceSets.id, id));
-    return practiceSet;
+  async deleteNotification(id: number): Promise<void> {
+    await db.update(notifications)
+      .set({ isDeleted: true })
+      .where(eq(notifications.id, id));
   }
   
-  async getRecommendedPracticeSets(userId: number): Promise<PracticeSet[]> {
-    return db.select().from(practiceSets)
-      .where(eq(practiceSets.isRecommended, true))
-      .limit(3);
+  // Job run operations
+  async getJobRuns(jobName?: string, limit: number = 20): Promise<JobRun[]> {
+    return db.select().from(jobRuns)
+      .where(jobName ? eq(jobRuns.jobName, jobName) : undefined)
+      .orderBy(desc(jobRuns.startedAt))
+      .limit(limit);
   }
   
-  async createPracticeSet(insertPracticeSet: InsertPracticeSet): Promise<PracticeSet> {
-    const [practiceSet] = await db.insert(practiceSets)
-      .values(insertPracticeSet)
-      .returning();
-    return practiceSet;
+  async getLatestJobRun(jobName: string): Promise<JobRun | undefined> {
+    const [latest] = await this.getJobRuns(jobName, 1);
+    return latest;
   }
   
-  async updatePracticeSet(id: number, practiceSetData: Partial<PracticeSet>): Promise<PracticeSet> {
-    const [updatedPracticeSet] = await db.update(practiceSets)
-      .set(practiceSetData)
-      .where(eq(practiceSets.id, id))
+  async createJobRun(insertJobRun: InsertJobRun): Promise<JobRun> {
+    const [jobRun] = await db.insert(jobRuns)
+      .values({ ...insertJobRun, status: 'running', startedAt: new Date() })
       .returning();
-    
-    if (!updatedPracticeSet) {
-      throw new Error(`Practice set with id ${id} not found`);
-    }
-    
-    return updatedPracticeSet;
-  }
-  
-  async deletePracticeSet(id: number): Promise<void> {
-    // Soft delete practice set
-    await db.update(practiceSets)
-      .set({ isDeleted: true })
-      .where(eq(practiceSets.id, id));
+    return jobRun;
   }
   
-  // Error logging operations
-  async logError(insertErrorLog: InsertErrorLog): Promise<ErrorLog> {
-    const [errorLog] = await db.insert(errorLogs)
-      .values({
-        ...insertErrorLog,
-        timestamp: new Date()
-      })
+  async updateJobRun(id: number, jobRunData: Partial<JobRun>): Promise<JobRun> {
+    const [updatedJobRun] = await db.update(jobRuns)
+      .set(jobRunData)
+      .where(eq(jobRuns.id, id))
       .returning();
-    return errorLog;
+    return updatedJobRun;
   }
   
-  async getErrorLogs(limit: number = 50): Promise<ErrorLog[]> {
-    return db.select()
-      .from(errorLogs)
-      .orderBy(desc(errorLogs.timestamp))
+  // Email delivery operations
+  async getEmailDeliveries(status?: EmailDeliveryStatus, limit: number = 50): Promise<EmailDelivery[]> {
+    return db.select().from(emailDeliveries)
+      .where(status ? eq(emailDeliveries.status, status) : undefined)
+      .orderBy(desc(emailDeliveries.createdAt))
       .limit(limit);
   }
   
-  async getErrorLogsByUser(userId: number, limit: number = 50): Promise<ErrorLog[]> {
-    return db.select()
-      .from(errorLogs)
-      .where(eq(errorLogs.userId, userId))
-      .orderBy(desc(errorLogs.timestamp))
+  async getDueEmailDeliveries(now: Date, limit: number): Promise<EmailDelivery[]> {
+    return db.select().from(emailDeliveries)
+      .where(and(
+        eq(emailDeliveries.status, 'queued'),
+        lte(emailDeliveries.nextAttemptAt, now)
+      ))
+      .orderBy(emailDeliveries.nextAttemptAt)
       .limit(limit);
   }
   
+  async createEmailDelivery(insertDelivery: InsertEmailDelivery): Promise<EmailDelivery> {
+    const now = new Date();
+    const [delivery] = await db.insert(emailDeliveries)
+      .values({ ...insertDelivery, status: 'queued', nextAttemptAt: now, createdAt: now })
+      .returning();
+    return delivery;
+  }
+  
+  async updateEmailDelivery(id: number, deliveryData: Partial<EmailDelivery>): Promise<EmailDelivery> {
+    const [updatedDelivery] = await db.update(emailDeliveries)
+      .set(deliveryData)
+      .where(eq(emailDeliveries.id, id))
+      .returning();
+    return updatedDelivery;
+  }
+  
   // Study plan operations
   async getStudyPlans(userId: number): Promise<StudyPlan[]> {
     return db.select().from(studyPlans).where(eq(studyPlans.userId, userId));
@@ -1572,10 +3423,10 @@ export class DatabaseStorage implements IStorage {
         
         const progress = userProgress.find(p => p.topicId === topic.id);
         
-        // Calculate proficiency as percentage of correct answers
+        // Calculate proficiency as percentage of questions whose latest answer is correct
         let proficiency = 0;
-        if (progress && progress.questionsAttempted > 0) {
-          proficiency = Math.round((progress.questionsCorrect / progress.questionsAttempted) * 100);
+        if (progress && progress.questionsSeen > 0) {
+          proficiency = Math.round((progress.latestCorrect / progress.questionsSeen) * 100);
         }
         
         // Determine priority based on proficiency
@@ -1704,44 +3555,6 @@ export class DatabaseStorage implements IStorage {
     return newPlan;
   }
   
-  // Helper methods
-  private async updateUserProgressAfterAnswer(answer: UserAnswer): Promise<void> {
-    const question = await this.getQuestion(answer.questionId);
-    if (!question) return;
-    
-    const topicId = question.topicId;
-    const progress = await this.getUserProgressByTopic(answer.userId, topicId);
-    
-    if (progress) {
-      await this.createOrUpdateUserProgress({
-        userId: answer.userId,
-        topicId,
-        questionsAttempted: progress.questionsAttempted + 1,
-        questionsCorrect: progress.questionsCorrect + (answer.isCorrect ? 1 : 0),
-        totalTimeSpent: progress.totalTimeSpent + answer.timeSpent,
-      });
-    } else {
-      await this.createOrUpdateUserProgress({
-        userId: answer.userId,
-        topicId,
-        questionsAttempted: 1,
-        questionsCorrect: answer.isCorrect ? 1 : 0,
-        totalTimeSpent: answer.timeSpent,
-      });
-    }
-    
-    // Record activity
-    await this.createUserActivity({
-      userId: answer.userId,
-      activityType: 'question_answered',
-      topicId,
-      details: { 
-        questionId: answer.questionId,
-        isCorrect: answer.isCorrect,
-        timeSpent: answer.timeSpent
-      }
-    });
-  }
 }
 
 // Use Database Storage
@@ -0,0 +1,253 @@
+import { storage } from './storage';
+import { notifyStreakMilestone } from './notifications';
+import type { StudyDay, User, UserStreak } from '@shared/schema';
+
+// Questions a student has to answer in a day for it to count towards the streak
+export const DAILY_GOAL_QUESTIONS = 5;
+// Streak lengths that are logged as milestones in the activity feed
+export const STREAK_MILESTONES = [3, 7, 14, 30, 50, 100, 365];
+// A freeze is earned every time the streak grows by this many days...
+const FREEZE_EARNED_EVERY = 7;
+// ...up to this many banked at once
+export const MAX_STREAK_FREEZES = 2;
+// Days of history returned with a streak summary
+const RECENT_DAYS = 14;
+
+export type StreakSummary = {
+  currentStreak: number;
+  longestStreak: number;
+  freezes: number;
+  maxFreezes: number;
+  dailyGoal: number;
+  todayAnswered: number;
+  studiedToday: boolean;
+  recentDays: Array<{
+    date: string;
+    questionsAnswered: number;
+    isActive: boolean;
+    isFrozen: boolean;
+  }>;
+};
+
+/**
+ * Whether a timezone name is one the runtime knows, e.g. 'Asia/Kolkata'
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The calendar day (YYYY-MM-DD) a moment falls on in the given timezone.
+ * Unset and unknown timezones fall back to UTC.
+ */
+export function toStudyDate(date: Date, timezone: string | null): string {
+  const timeZone = timezone && isValidTimezone(timezone) ? timezone : 'UTC';
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+}
+
+function addDays(studyDate: string, days: number): string {
+  const date = new Date(`${studyDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86400000
+  );
+}
+
+/**
+ * A day keeps the streak alive when the daily goal was met or a freeze covered it
+ */
+export function isActiveDay(day: Pick<StudyDay, 'questionsAnswered' | 'isFrozen'>): boolean {
+  return day.isFrozen || day.questionsAnswered >= DAILY_GOAL_QUESTIONS;
+}
+
+/**
+ * Most recent active day before the given date; study days come newest first
+ */
+function lastActiveDayBefore(days: StudyDay[], studyDate: string): StudyDay | undefined {
+  return days.find(day => day.studyDate < studyDate && isActiveDay(day));
+}
+
+async function saveStreak(user: User, streak: UserStreak): Promise<void> {
+  if (
+    streak.streakDays !== user.streakDays ||
+    streak.longestStreakDays !== user.longestStreakDays ||
+    streak.streakFreezes !== user.streakFreezes
+  ) {
+    await storage.updateUserStreak(user.id, streak);
+  }
+}
+
+/**
+ * Count answered questions towards the user's study day. The answers that
+ * meet the daily goal extend the streak: straight on from yesterday, across
+ * missed days if enough freezes are banked to cover them, or from 1 otherwise.
+ */
+export async function recordStudyActivity(
+  userId: number,
+  at: Date = new Date(),
+  questions: number = 1
+): Promise<void> {
+  const user = await storage.getUser(userId);
+  if (!user) return;
+
+  const today = toStudyDate(at, user.timezone);
+  const studyDay = await storage.addStudyDayQuestions(userId, today, questions);
+  const answeredBefore = studyDay.questionsAnswered - questions;
+
+  // Only the answers that reach the goal count, and a day a freeze already
+  // covered (possible after a timezone change) is never counted twice
+  const reachedGoal = answeredBefore < DAILY_GOAL_QUESTIONS && studyDay.questionsAnswered >= DAILY_GOAL_QUESTIONS;
+  if (!reachedGoal || studyDay.isFrozen) return;
+
+  const days = await storage.getStudyDays(userId);
+  const lastActive = lastActiveDayBefore(days, today);
+  const missedDays = lastActive ? daysBetween(lastActive.studyDate, today) - 1 : 0;
+
+  let streakDays = user.streakDays;
+  let streakFreezes = user.streakFreezes;
+
+  if (lastActive && streakDays > 0 && missedDays === 0) {
+    streakDays += 1;
+  } else if (lastActive && streakDays > 0 && missedDays <= streakFreezes) {
+    for (let i = 1; i <= missedDays; i++) {
+      const studyDate = addDays(lastActive.studyDate, i);
+      const missed = await storage.getStudyDay(userId, studyDate);
+      await storage.saveStudyDay({
+        userId,
+        studyDate,
+        questionsAnswered: missed?.questionsAnswered ?? 0,
+        isFrozen: true,
+      });
+    }
+    streakFreezes -= missedDays;
+    streakDays += 1;
+
+    await storage.createUserActivity({
+      userId,
+      activityType: 'streak_freeze_used',
+      details: {
+        freezesUsed: missedDays,
+        freezesLeft: streakFreezes,
+        streakDays,
+      },
+    });
+  } else {
+    streakDays = 1;
+  }
+
+  if (streakDays % FREEZE_EARNED_EVERY === 0 && streakFreezes < MAX_STREAK_FREEZES) {
+    streakFreezes += 1;
+
+    await storage.createUserActivity({
+      userId,
+      activityType: 'streak_freeze_earned',
+      details: {
+        streakDays,
+        freezes: streakFreezes,
+      },
+    });
+  }
+
+  if (STREAK_MILESTONES.includes(streakDays)) {
+    const isPersonalBest = streakDays > user.longestStreakDays;
+    await storage.createUserActivity({
+      userId,
+      activityType: 'streak_milestone',
+      details: {
+        streakDays,
+        isPersonalBest,
+      },
+    });
+    await notifyStreakMilestone(user, streakDays, isPersonalBest);
+  }
+
+  await saveStreak(user, {
+    streakDays,
+    longestStreakDays: Math.max(user.longestStreakDays, streakDays),
+    streakFreezes,
+  });
+}
+
+/**
+ * A stored streak as it stands now, without saving anything. A streak that
+ * has lapsed by more days than the banked freezes can cover is 0; one that
+ * freezes can still save is left for the next qualifying day to extend.
+ */
+export async function getCurrentStreak(user: User, now: Date = new Date()): Promise<User> {
+  if (user.streakDays === 0) return user;
+
+  const today = toStudyDate(now, user.timezone);
+  const days = await storage.getStudyDays(user.id);
+  const lastActive = lastActiveDayBefore(days, addDays(today, 1));
+  const missedDays = lastActive ? daysBetween(lastActive.studyDate, today) - 1 : Infinity;
+
+  if (missedDays <= user.streakFreezes) return user;
+  return { ...user, streakDays: 0 };
+}
+
+/**
+ * Bring a stored streak up to date before it is shown to its owner, saving
+ * the reset of a lapsed streak
+ */
+export async function refreshStreak(user: User, now: Date = new Date()): Promise<User> {
+  const current = await getCurrentStreak(user, now);
+  await saveStreak(user, {
+    streakDays: current.streakDays,
+    longestStreakDays: current.longestStreakDays,
+    streakFreezes: current.streakFreezes,
+  });
+  return current;
+}
+
+/**
+ * A user's streak as shown on the dashboard, with today's progress towards
+ * the daily goal and the last couple of weeks of study days
+ */
+export async function getStreakSummary(userId: number, now: Date = new Date()): Promise<StreakSummary | undefined> {
+  const stored = await storage.getUser(userId);
+  if (!stored) return undefined;
+
+  const user = await refreshStreak(stored, now);
+  const today = toStudyDate(now, user.timezone);
+  const daysByDate = new Map((await storage.getStudyDays(userId)).map(day => [day.studyDate, day] as [string, StudyDay]));
+
+  const recentDays: StreakSummary['recentDays'] = [];
+  for (let i = RECENT_DAYS - 1; i >= 0; i--) {
+    const date = addDays(today, -i);
+    const day = daysByDate.get(date);
+    recentDays.push({
+      date,
+      questionsAnswered: day?.questionsAnswered ?? 0,
+      isActive: day ? isActiveDay(day) : false,
+      isFrozen: day?.isFrozen ?? false,
+    });
+  }
+
+  const todayAnswered = daysByDate.get(today)?.questionsAnswered ?? 0;
+
+  return {
+    currentStreak: user.streakDays,
+    longestStreak: user.longestStreakDays,
+    freezes: user.streakFreezes,
+    maxFreezes: MAX_STREAK_FREEZES,
+    dailyGoal: DAILY_GOAL_QUESTIONS,
+    todayAnswered,
+    studiedToday: todayAnswered >= DAILY_GOAL_QUESTIONS,
+    recentDays,
+  };
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json, uniqueIndex } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, json, real, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
@@ -14,6 +14,9 @@ export const users = pgTable("users", {
   isPremium: boolean("is_premium").notNull().default(false), // indicates if user has paid
   razorpayCustomerId: text("razorpay_customer_id"), // customer ID from Razorpay
   streakDays: integer("streak_days").notNull().default(0),
+  longestStreakDays: integer("longest_streak_days").notNull().default(0),
+  streakFreezes: integer("streak_freezes").notNull().default(0), // freezes banked to cover a missed day
+  timezone: text("timezone"), // IANA zone study days are counted in; UTC until the user chooses one
   lastLoginDate: timestamp("last_login_date").notNull().default(new Date()),
   resetPasswordToken: text("reset_password_token"),
   resetPasswordExpires: timestamp("reset_password_expires"),
@@ -21,6 +24,7 @@ export const users = pgTable("users", {
     practiceReminders: boolean;
     newContentAlerts: boolean;
     progressUpdates: boolean;
+    accountAlerts?: boolean; // subscription expiry; added later, so older rows lack it
   }>(),
   isDeleted: boolean("is_deleted").notNull().default(false),
 });
@@ -33,20 +37,42 @@ export const insertUserSchema = createInsertSchema(users).pick({
   role: true,
 });
 
+// Curriculum levels. Topics, chapters, questions and practice sets each belong
+// to one; users.level holds the candidate form of it, e.g. "Level II Candidate"
+export const CURRICULUM_LEVELS = ["Level I", "Level II", "Level III"] as const;
+export type CurriculumLevel = typeof CURRICULUM_LEVELS[number];
+export const USER_LEVELS = ["Level I Candidate", "Level II Candidate", "Level III Candidate"] as const;
+export type UserLevel = typeof USER_LEVELS[number];
+
+// The curriculum level a user studies, from their users.level value
+export function getCurriculumLevel(userLevel: string | null | undefined): CurriculumLevel {
+  const match = CURRICULUM_LEVELS.find(level => userLevel === level || userLevel?.startsWith(`${level} `));
+  return match ?? "Level I";
+}
+
 // Topics table
 export const topics = pgTable("topics", {
   id: serial("id").primaryKey(),
-  name: text("name").notNull().unique(),
+  name: text("name").notNull(),
   description: text("description"),
   icon: text("icon").default("book"),
+  level: text("level").notNull().default("Level I"), // one of CURRICULUM_LEVELS
   isDeleted: boolean("is_deleted").notNull().default(false),
-});
+}, (table) => ({
+  // The same topic name is reused across levels (e.g. Ethics)
+  nameLevelIdx: uniqueIndex("topics_name_level_idx").on(table.name, table.level),
+}));
 
-export const insertTopicSchema = createInsertSchema(topics).pick({
-  name: true,
-  description: true,
-  icon: true,
-});
+export const insertTopicSchema = createInsertSchema(topics)
+  .pick({
+    name: true,
+    description: true,
+    icon: true,
+    level: true,
+  })
+  .extend({
+    level: z.enum(CURRICULUM_LEVELS).optional(),
+  });
 
 // Chapters table
 export const chapters = pgTable("chapters", {
@@ -55,17 +81,28 @@ export const chapters = pgTable("chapters", {
   name: text("name").notNull(),
   description: text("description"),
   order: integer("order").notNull().default(0), // For ordering chapters within a topic
+  level: text("level").notNull().default("Level I"), // one of CURRICULUM_LEVELS
   isDeleted: boolean("is_deleted").notNull().default(false),
 });
 
-export const insertChapterSchema = createInsertSchema(chapters).pick({
-  topicId: true,
-  name: true,
-  description: true,
-  order: true,
-});
+export const insertChapterSchema = createInsertSchema(chapters)
+  .pick({
+    topicId: true,
+    name: true,
+    description: true,
+    order: true,
+    level: true,
+  })
+  .extend({
+    level: z.enum(CURRICULUM_LEVELS).optional(),
+  });
 
 // Questions table
+// How question text, options and explanation are written: "plain" is shown
+// as-is, "markdown" supports Markdown tables, $LaTeX$ and uploaded images
+export const CONTENT_FORMATS = ["plain", "markdown"] as const;
+export type ContentFormat = typeof CONTENT_FORMATS[number];
+
 export const questions = pgTable("questions", {
   id: serial("id").primaryKey(),
   topicId: integer("topic_id").notNull().references(() => topics.id),
@@ -80,6 +117,11 @@ export const questions = pgTable("questions", {
   correctOption: text("correct_option").notNull(),
   explanation: text("explanation").notNull(),
   difficulty: integer("difficulty").notNull().default(1), // 1-3: easy, medium, hard
+  contentFormat: text("content_format").notNull().default("plain"), // one of CONTENT_FORMATS
+  level: text("level").notNull().default("Level I"), // one of CURRICULUM_LEVELS
+  groupId: integer("group_id").references(() => questionGroups.id), // item set this question belongs to
+  groupPosition: integer("group_position"), // order within the item set
+  currentRevision: integer("current_revision").notNull().default(1), // latest entry in question_revisions
   isDeleted: boolean("is_deleted").notNull().default(false),
 });
 
@@ -97,10 +139,14 @@ export const insertQuestionSchema = createInsertSchema(questions)
     correctOption: true,
     explanation: true,
     difficulty: true,
+    contentFormat: true,
+    level: true,
   })
   // Make optionD optional since we now use only 3 options
   .extend({
     optionD: z.string().optional(),
+    contentFormat: z.enum(CONTENT_FORMATS).optional(),
+    level: z.enum(CURRICULUM_LEVELS).optional(),
   });
 
 // User answers tracking
@@ -111,9 +157,14 @@ export const userAnswers = pgTable("user_answers", {
   userOption: text("user_option").notNull(),
   isCorrect: boolean("is_correct").notNull(),
   timeSpent: integer("time_spent").notNull(), // in seconds
+  sessionId: integer("session_id").references(() => practiceSessions.id), // null for answers given outside a practice session
+  questionRevision: integer("question_revision"), // question revision the answer was given against; null before versioning
   answeredAt: timestamp("answered_at").notNull().default(new Date()),
   isDeleted: boolean("is_deleted").notNull().default(false),
-});
+}, (table) => ({
+  // A question is answered at most once per practice session
+  sessionQuestionIdx: uniqueIndex("user_answers_session_question_idx").on(table.sessionId, table.questionId),
+}));
 
 export const insertUserAnswerSchema = createInsertSchema(userAnswers).pick({
   userId: true,
@@ -121,15 +172,20 @@ export const insertUserAnswerSchema = createInsertSchema(userAnswers).pick({
   userOption: true,
   isCorrect: true,
   timeSpent: true,
+  sessionId: true,
 });
 
-// User progress by topic
+// User progress by topic, recomputed from the user's answers after each one
 export const userProgress = pgTable("user_progress", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
   topicId: integer("topic_id").notNull().references(() => topics.id),
-  questionsAttempted: integer("questions_attempted").notNull().default(0),
-  questionsCorrect: integer("questions_correct").notNull().default(0),
+  questionsAttempted: integer("questions_attempted").notNull().default(0), // every attempt, repeats included
+  questionsCorrect: integer("questions_correct").notNull().default(0), // correct attempts
+  questionsSeen: integer("questions_seen").notNull().default(0), // distinct questions answered
+  firstAttemptCorrect: integer("first_attempt_correct").notNull().default(0),
+  latestCorrect: integer("latest_correct").notNull().default(0), // questions whose latest answer is correct
+  questionsMastered: integer("questions_mastered").notNull().default(0),
   totalTimeSpent: integer("total_time_spent").notNull().default(0), // in seconds
   lastUpdated: timestamp("last_updated").notNull().default(new Date()),
   isDeleted: boolean("is_deleted").notNull().default(false),
@@ -140,6 +196,10 @@ export const insertUserProgressSchema = createInsertSchema(userProgress).pick({
   topicId: true,
   questionsAttempted: true,
   questionsCorrect: true,
+  questionsSeen: true,
+  firstAttemptCorrect: true,
+  latestCorrect: true,
+  questionsMastered: true,
   totalTimeSpent: true,
 });
 
@@ -172,19 +232,26 @@ export const practiceSets = pgTable("practice_sets", {
   difficulty: integer("difficulty").notNull().default(1), // 1-3: easy, medium, hard
   isRecommended: boolean("is_recommended").default(false),
   status: text("status").default("new"), // new, needs_review, completed
+  level: text("level").notNull().default("Level I"), // one of CURRICULUM_LEVELS
+  announcedAt: timestamp("announced_at"), // when students were told the set is available
   isDeleted: boolean("is_deleted").notNull().default(false),
 });
 
-export const insertPracticeSetSchema = createInsertSchema(practiceSets).pick({
-  name: true,
-  topicId: true,
-  subtopic: true,
-  questionCount: true,
-  estimatedTime: true,
-  difficulty: true,
-  isRecommended: true,
-  status: true,
-});
+export const insertPracticeSetSchema = createInsertSchema(practiceSets)
+  .pick({
+    name: true,
+    topicId: true,
+    subtopic: true,
+    questionCount: true,
+    estimatedTime: true,
+    difficulty: true,
+    isRecommended: true,
+    status: true,
+    level: true,
+  })
+  .extend({
+    level: z.enum(CURRICULUM_LEVELS).optional(),
+  });
 
 // Study Plans have been removed
 
@@ -214,7 +281,13 @@ export const questionsRelations = relations(questions, ({ one, many }) => ({
     fields: [questions.chapterId],
     references: [chapters.id]
   }),
-  userAnswers: many(userAnswers)
+  group: one(questionGroups, {
+    fields: [questions.groupId],
+    references: [questionGroups.id]
+  }),
+  userAnswers: many(userAnswers),
+  revisions: many(questionRevisions),
+  reports: many(questionReports)
 }));
 
 export const userAnswersRelations = relations(userAnswers, ({ one }) => ({
@@ -225,6 +298,10 @@ export const userAnswersRelations = relations(userAnswers, ({ one }) => ({
   question: one(questions, {
     fields: [userAnswers.questionId],
     references: [questions.id]
+  }),
+  session: one(practiceSessions, {
+    fields: [userAnswers.sessionId],
+    references: [practiceSessions.id]
   })
 }));
 
@@ -260,6 +337,7 @@ export const practiceSetsRelations = relations(practiceSets, ({ one }) => ({
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UserStreak = Pick<User, "streakDays" | "longestStreakDays" | "streakFreezes">;
 
 export type Topic = typeof topics.$inferSelect;
 export type InsertTopic = z.infer<typeof insertTopicSchema>;
@@ -398,7 +476,698 @@ export const usersRelations = relations(users, ({ many }) => ({
   userActivity: many(userActivity),
   payments: many(payments),
   subscriptions: many(subscriptions),
+  mockExamAttempts: many(mockExamAttempts),
+  reviewCards: many(reviewCards),
+  practiceSessions: many(practiceSessions),
+  questionReports: many(questionReports),
 }));
 
 export type Subscription = typeof subscriptions.$inferSelect;
 export type InsertSubscription = z.infer<typeof insertSubscriptionSchema>;
+
+// Mock exams (full-length timed papers assembled across topics by weight)
+export type MockExamTopicWeight = {
+  topicId: number;
+  weight: number; // relative share of the paper, e.g. 15 for 15%
+};
+
+export const mockExams = pgTable("mock_exams", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  sessionCount: integer("session_count").notNull().default(2),
+  questionsPerSession: integer("questions_per_session").notNull().default(90),
+  sessionDuration: integer("session_duration").notNull().default(135), // in minutes
+  topicWeights: json("topic_weights").$type<MockExamTopicWeight[]>().notNull(),
+  passingScore: integer("passing_score").notNull().default(70), // percentage
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().default(new Date()),
+  isDeleted: boolean("is_deleted").notNull().default(false),
+});
+
+export const insertMockExamSchema = createInsertSchema(mockExams)
+  .pick({
+    name: true,
+    description: true,
+    sessionCount: true,
+    questionsPerSession: true,
+    sessionDuration: true,
+    topicWeights: true,
+    passingScore: true,
+    isActive: true,
+  })
+  .extend({
+    sessionCount: z.number().int().min(1).max(4).optional(),
+    questionsPerSession: z.number().int().min(1).max(200).optional(),
+    sessionDuration: z.number().int().min(1).max(300).optional(),
+    topicWeights: z.array(z.object({
+      topicId: z.number().int(),
+      weight: z.number().min(0),
+    })).min(1),
+    passingScore: z.number().int().min(0).max(100).optional(),
+  });
+
+// One sitting of a mock exam; the paper is frozen when the attempt starts
+export type MockExamSession = {
+  questionIds: number[];
+  startedAt: string | null;
+  deadline: string | null; // hard cut-off for the session countdown
+  submittedAt: string | null;
+};
+
+export type MockExamReport = {
+  totalQuestions: number;
+  answered: number;
+  correct: number;
+  score: number; // percentage
+  passed: boolean;
+  topicBreakdown: {
+    topicId: number;
+    topicName: string;
+    total: number;
+    correct: number;
+    accuracy: number;
+  }[];
+  sessionBreakdown: {
+    session: number;
+    total: number;
+    answered: number;
+    correct: number;
+  }[];
+};
+
+export const mockExamAttempts = pgTable("mock_exam_attempts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  mockExamId: integer("mock_exam_id").notNull().references(() => mockExams.id),
+  status: text("status").notNull().default("in_progress"), // in_progress, completed
+  currentSession: integer("current_session").notNull().default(0), // zero-based
+  sessions: json("sessions").$type<MockExamSession[]>().notNull(),
+  answers: json("answers").$type<Record<string, string>>().notNull().default({}), // questionId -> option
+  flagged: json("flagged").$type<number[]>().notNull().default([]),
+  score: integer("score"), // percentage, set on completion
+  report: json("report").$type<MockExamReport>(),
+  startedAt: timestamp("started_at").notNull().default(new Date()),
+  completedAt: timestamp("completed_at"),
+  isDeleted: boolean("is_deleted").notNull().default(false),
+});
+
+export const insertMockExamAttemptSchema = createInsertSchema(mockExamAttempts)
+  .pick({
+    userId: true,
+    mockExamId: true,
+  })
+  .extend({
+    sessions: z.array(z.object({
+      questionIds: z.array(z.number().int()),
+      startedAt: z.string().nullable(),
+      deadline: z.string().nullable(),
+      submittedAt: z.string().nullable(),
+    })),
+  });
+
+export const mockExamsRelations = relations(mockExams, ({ many }) => ({
+  attempts: many(mockExamAttempts),
+}));
+
+export const mockExamAttemptsRelations = relations(mockExamAttempts, ({ one }) => ({
+  user: one(users, {
+    fields: [mockExamAttempts.userId],
+    references: [users.id],
+  }),
+  mockExam: one(mockExams, {
+    fields: [mockExamAttempts.mockExamId],
+    references: [mockExams.id],
+  }),
+}));
+
+export type MockExam = typeof mockExams.$inferSelect;
+export type InsertMockExam = z.infer<typeof insertMockExamSchema>;
+
+export type MockExamAttempt = typeof mockExamAttempts.$inferSelect;
+export type InsertMockExamAttempt = z.infer<typeof insertMockExamAttemptSchema>;
+
+// Spaced-repetition schedule (SM-2) for each question a user has answered
+export const reviewCards = pgTable("review_cards", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  questionId: integer("question_id").notNull().references(() => questions.id),
+  easeFactor: real("ease_factor").notNull().default(2.5),
+  interval: integer("interval").notNull().default(0), // in days
+  repetitions: integer("repetitions").notNull().default(0), // consecutive successful reviews
+  dueDate: timestamp("due_date").notNull().default(new Date()),
+  lastReviewedAt: timestamp("last_reviewed_at").notNull().default(new Date()),
+  isDeleted: boolean("is_deleted").notNull().default(false),
+}, (table) => ({
+  userQuestionIdx: uniqueIndex("review_cards_user_question_idx").on(table.userId, table.questionId),
+}));
+
+export const insertReviewCardSchema = createInsertSchema(reviewCards).pick({
+  userId: true,
+  questionId: true,
+  easeFactor: true,
+  interval: true,
+  repetitions: true,
+  dueDate: true,
+  lastReviewedAt: true,
+});
+
+export const reviewCardsRelations = relations(reviewCards, ({ one }) => ({
+  user: one(users, {
+    fields: [reviewCards.userId],
+    references: [users.id],
+  }),
+  question: one(questions, {
+    fields: [reviewCards.questionId],
+    references: [questions.id],
+  }),
+}));
+
+export type ReviewCard = typeof reviewCards.$inferSelect;
+export type InsertReviewCard = z.infer<typeof insertReviewCardSchema>;
+
+// Settings picked in the session builder before a topic sitting starts
+export const practiceSessionOptionsSchema = z.object({
+  count: z.number().int().min(1).max(50),
+  difficulties: z.array(z.number().int().min(1).max(3)).optional(), // empty means every difficulty
+  chapterIds: z.array(z.number().int()).optional(), // empty means the whole topic
+  unseenOnly: z.boolean().optional(),
+  incorrectOnly: z.boolean().optional(), // latest answer was wrong
+  shuffleQuestions: z.boolean().optional(),
+  shuffleOptions: z.boolean().optional(),
+});
+
+export type PracticeSessionOptions = z.infer<typeof practiceSessionOptionsSchema>;
+
+// Practice sessions (one sitting of questions, kept on the server so it can be resumed)
+export const practiceSessions = pgTable("practice_sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  mode: text("mode").notNull().default("topic"), // topic, chapter, review, set, adaptive, bookmarks, mistakes
+  topicId: integer("topic_id").references(() => topics.id),
+  chapterId: integer("chapter_id").references(() => chapters.id),
+  practiceSetId: integer("practice_set_id").references(() => practiceSets.id),
+  questionIds: json("question_ids").$type<number[]>().notNull(), // in the order they are shown
+  options: json("options").$type<PracticeSessionOptions>(), // null unless started from the session builder
+  optionOrders: json("option_orders").$type<Record<string, string[]>>(), // per question id, the original option shown as A, B, C, D
+  currentIndex: integer("current_index").notNull().default(0),
+  answeredCount: integer("answered_count").notNull().default(0),
+  correctCount: integer("correct_count").notNull().default(0),
+  timeSpent: integer("time_spent").notNull().default(0), // in seconds
+  status: text("status").notNull().default("active"), // active, completed
+  startedAt: timestamp("started_at").notNull().default(new Date()),
+  lastActivityAt: timestamp("last_activity_at").notNull().default(new Date()),
+  completedAt: timestamp("completed_at"),
+  isDeleted: boolean("is_deleted").notNull().default(false),
+});
+
+export const insertPracticeSessionSchema = createInsertSchema(practiceSessions)
+  .pick({
+    userId: true,
+    mode: true,
+    topicId: true,
+    chapterId: true,
+    practiceSetId: true,
+  })
+  .extend({
+    questionIds: z.array(z.number().int()),
+    options: practiceSessionOptionsSchema.nullable().optional(),
+    optionOrders: z.record(z.array(z.string())).nullable().optional(),
+  });
+
+export const practiceSessionsRelations = relations(practiceSessions, ({ one, many }) => ({
+  user: one(users, {
+    fields: [practiceSessions.userId],
+    references: [users.id],
+  }),
+  topic: one(topics, {
+    fields: [practiceSessions.topicId],
+    references: [topics.id],
+  }),
+  chapter: one(chapters, {
+    fields: [practiceSessions.chapterId],
+    references: [chapters.id],
+  }),
+  practiceSet: one(practiceSets, {
+    fields: [practiceSessions.practiceSetId],
+    references: [practiceSets.id],
+  }),
+  answers: many(userAnswers),
+}));
+
+export type PracticeSession = typeof practiceSessions.$inferSelect;
+export type InsertPracticeSession = z.infer<typeof insertPracticeSessionSchema>;
+
+// Ordered questions that make up a practice set
+export const practiceSetQuestions = pgTable("practice_set_questions", {
+  id: serial("id").primaryKey(),
+  practiceSetId: integer("practice_set_id").notNull().references(() => practiceSets.id),
+  questionId: integer("question_id").notNull().references(() => questions.id),
+  position: integer("position").notNull(), // zero-based order within the set
+}, (table) => ({
+  setQuestionIdx: uniqueIndex("practice_set_questions_set_question_idx").on(table.practiceSetId, table.questionId),
+}));
+
+export const insertPracticeSetQuestionSchema = createInsertSchema(practiceSetQuestions).pick({
+  practiceSetId: true,
+  questionId: true,
+  position: true,
+});
+
+export const practiceSetQuestionsRelations = relations(practiceSetQuestions, ({ one }) => ({
+  practiceSet: one(practiceSets, {
+    fields: [practiceSetQuestions.practiceSetId],
+    references: [practiceSets.id],
+  }),
+  question: one(questions, {
+    fields: [practiceSetQuestions.questionId],
+    references: [questions.id],
+  }),
+}));
+
+export type PracticeSetQuestion = typeof practiceSetQuestions.$inferSelect;
+export type InsertPracticeSetQuestion = z.infer<typeof insertPracticeSetQuestionSchema>;
+
+// Content history for questions: one row per create, edit or restore
+export const questionRevisions = pgTable("question_revisions", {
+  id: serial("id").primaryKey(),
+  questionId: integer("question_id").notNull().references(() => questions.id),
+  revision: integer("revision").notNull(), // 1-based, matches questions.current_revision when latest
+  snapshot: json("snapshot").$type<InsertQuestion>().notNull(), // question content as of this revision
+  changedFields: json("changed_fields").$type<string[]>().notNull().default([]),
+  changeType: text("change_type").notNull(), // create, update, restore
+  restoredFromRevision: integer("restored_from_revision"),
+  changedBy: integer("changed_by").references(() => users.id), // null for revisions recorded by the system
+  createdAt: timestamp("created_at").notNull().default(new Date()),
+}, (table) => ({
+  questionRevisionIdx: uniqueIndex("question_revisions_question_revision_idx").on(table.questionId, table.revision),
+}));
+
+export const insertQuestionRevisionSchema = createInsertSchema(questionRevisions)
+  .pick({
+    questionId: true,
+    revision: true,
+    changeType: true,
+    restoredFromRevision: true,
+    changedBy: true,
+  })
+  .extend({
+    snapshot: insertQuestionSchema,
+    changedFields: z.array(z.string()),
+  });
+
+export const questionRevisionsRelations = relations(questionRevisions, ({ one }) => ({
+  question: one(questions, {
+    fields: [questionRevisions.questionId],
+    references: [questions.id],
+  }),
+  author: one(users, {
+    fields: [questionRevisions.changedBy],
+    references: [users.id],
+  }),
+}));
+
+export type QuestionRevision = typeof questionRevisions.$inferSelect;
+export type InsertQuestionRevision = z.infer<typeof insertQuestionRevisionSchema>;
+
+// Problems students report against individual questions, triaged by admins
+export const QUESTION_REPORT_CATEGORIES = [
+  "wrong_key",
+  "typo",
+  "unclear_explanation",
+  "outdated_curriculum",
+  "other",
+] as const;
+
+export type QuestionReportCategory = typeof QUESTION_REPORT_CATEGORIES[number];
+
+export const questionReports = pgTable("question_reports", {
+  id: serial("id").primaryKey(),
+  questionId: integer("question_id").notNull().references(() => questions.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  category: text("category").notNull(), // one of QUESTION_REPORT_CATEGORIES
+  message: text("message"),
+  questionRevision: integer("question_revision"), // question revision the student was looking at
+  status: text("status").notNull().default("open"), // open, resolved, rejected
+  resolutionNote: text("resolution_note"),
+  resolvedBy: integer("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").notNull().default(new Date()),
+  isDeleted: boolean("is_deleted").notNull().default(false),
+});
+
+export const insertQuestionReportSchema = createInsertSchema(questionReports)
+  .pick({
+    questionId: true,
+    userId: true,
+    message: true,
+    questionRevision: true,
+  })
+  .extend({
+    category: z.enum(QUESTION_REPORT_CATEGORIES),
+  });
+
+export const questionReportsRelations = relations(questionReports, ({ one }) => ({
+  question: one(questions, {
+    fields: [questionReports.questionId],
+    references: [questions.id],
+  }),
+  user: one(users, {
+    fields: [questionReports.userId],
+    references: [users.id],
+  }),
+}));
+
+export type QuestionReport = typeof questionReports.$inferSelect;
+export type InsertQuestionReport = z.infer<typeof insertQuestionReportSchema>;
+
+// Item sets: one vignette (shared context and exhibits) answered through
+// several questions, which point back via questions.groupId
+export const questionGroups = pgTable("question_groups", {
+  id: serial("id").primaryKey(),
+  topicId: integer("topic_id").notNull().references(() => topics.id),
+  chapterId: integer("chapter_id").references(() => chapters.id),
+  title: text("title").notNull(),
+  context: text("context").notNull(), // the vignette
+  exhibits: text("exhibits"), // tables and figures shown alongside the vignette
+  contentFormat: text("content_format").notNull().default("plain"), // one of CONTENT_FORMATS, shared by the child questions
+  createdAt: timestamp("created_at").notNull().default(new Date()),
+  isDeleted: boolean("is_deleted").notNull().default(false),
+});
+
+export const insertQuestionGroupSchema = createInsertSchema(questionGroups)
+  .pick({
+    topicId: true,
+    chapterId: true,
+    title: true,
+    context: true,
+    exhibits: true,
+    contentFormat: true,
+  })
+  .extend({
+    contentFormat: z.enum(CONTENT_FORMATS).optional(),
+  });
+
+export const questionGroupsRelations = relations(questionGroups, ({ one, many }) => ({
+  topic: one(topics, {
+    fields: [questionGroups.topicId],
+    references: [topics.id],
+  }),
+  chapter: one(chapters, {
+    fields: [questionGroups.chapterId],
+    references: [chapters.id],
+  }),
+  questions: many(questions),
+}));
+
+export type QuestionGroup = typeof questionGroups.$inferSelect;
+export type InsertQuestionGroup = z.infer<typeof insertQuestionGroupSchema>;
+
+// Learning outcome statements (LOS) from the curriculum, listed under a chapter
+export const learningOutcomes = pgTable("learning_outcomes", {
+  id: serial("id").primaryKey(),
+  chapterId: integer("chapter_id").notNull().references(() => chapters.id),
+  code: text("code").notNull(), // curriculum reference, e.g. "LOS 4.a"
+  statement: text("statement").notNull(), // e.g. "calculate and interpret the present value of..."
+  order: integer("order").notNull().default(0), // For ordering outcomes within a chapter
+  createdAt: timestamp("created_at").notNull().default(new Date()),
+  isDeleted: boolean("is_deleted").notNull().default(false),
+});
+
+export const insertLearningOutcomeSchema = createInsertSchema(learningOutcomes).pick({
+  chapterId: true,
+  code: true,
+  statement: true,
+  order: true,
+});
+
+// Which learning outcomes a question tests; a question can cover several
+export const questionLearningOutcomes = pgTable("question_learning_outcomes", {
+  id: serial("id").primaryKey(),
+  questionId: integer("question_id").notNull().references(() => questions.id),
+  learningOutcomeId: integer("learning_outcome_id").notNull().references(() => learningOutcomes.id),
+}, (table) => ({
+  questionOutcomeIdx: uniqueIndex("question_learning_outcomes_question_outcome_idx").on(table.questionId, table.learningOutcomeId),
+}));
+
+export const learningOutcomesRelations = relations(learningOutcomes, ({ one, many }) => ({
+  chapter: one(chapters, {
+    fields: [learningOutcomes.chapterId],
+    references: [chapters.id],
+  }),
+  questions: many(questionLearningOutcomes),
+}));
+
+export const questionLearningOutcomesRelations = relations(questionLearningOutcomes, ({ one }) => ({
+  question: one(questions, {
+    fields: [questionLearningOutcomes.questionId],
+    references: [questions.id],
+  }),
+  learningOutcome: one(learningOutcomes, {
+    fields: [questionLearningOutcomes.learningOutcomeId],
+    references: [learningOutcomes.id],
+  }),
+}));
+
+export type LearningOutcome = typeof learningOutcomes.$inferSelect;
+export type InsertLearningOutcome = z.infer<typeof insertLearningOutcomeSchema>;
+export type QuestionLearningOutcome = typeof questionLearningOutcomes.$inferSelect;
+
+// Questions a student has saved to come back to
+export const questionBookmarks = pgTable("question_bookmarks", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  questionId: integer("question_id").notNull().references(() => questions.id),
+  createdAt: timestamp("created_at").notNull().default(new Date()),
+}, (table) => ({
+  userQuestionIdx: uniqueIndex("question_bookmarks_user_question_idx").on(table.userId, table.questionId),
+}));
+
+export const insertQuestionBookmarkSchema = createInsertSchema(questionBookmarks).pick({
+  userId: true,
+  questionId: true,
+});
+
+// A student's own note on a question; one per user and question
+export const questionNotes = pgTable("question_notes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  questionId: integer("question_id").notNull().references(() => questions.id),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").notNull().default(new Date()),
+  updatedAt: timestamp("updated_at").notNull().default(new Date()),
+}, (table) => ({
+  userQuestionIdx: uniqueIndex("question_notes_user_question_idx").on(table.userId, table.questionId),
+}));
+
+export const insertQuestionNoteSchema = createInsertSchema(questionNotes).pick({
+  userId: true,
+  questionId: true,
+  content: true,
+});
+
+export const questionBookmarksRelations = relations(questionBookmarks, ({ one }) => ({
+  user: one(users, {
+    fields: [questionBookmarks.userId],
+    references: [users.id],
+  }),
+  question: one(questions, {
+    fields: [questionBookmarks.questionId],
+    references: [questions.id],
+  }),
+}));
+
+export const questionNotesRelations = relations(questionNotes, ({ one }) => ({
+  user: one(users, {
+    fields: [questionNotes.userId],
+    references: [users.id],
+  }),
+  question: one(questions, {
+    fields: [questionNotes.questionId],
+    references: [questions.id],
+  }),
+}));
+
+export type QuestionBookmark = typeof questionBookmarks.$inferSelect;
+export type InsertQuestionBookmark = z.infer<typeof insertQuestionBookmarkSchema>;
+export type QuestionNote = typeof questionNotes.$inferSelect;
+export type InsertQuestionNote = z.infer<typeof insertQuestionNoteSchema>;
+
+// One row per day a student studied (or had a missed day covered by a streak
+// freeze). studyDate is the calendar day in the student's own timezone.
+export const studyDays = pgTable("study_days", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  studyDate: text("study_date").notNull(), // YYYY-MM-DD
+  questionsAnswered: integer("questions_answered").notNull().default(0),
+  isFrozen: boolean("is_frozen").notNull().default(false),
+  updatedAt: timestamp("updated_at").notNull().default(new Date()),
+}, (table) => ({
+  userDateIdx: uniqueIndex("study_days_user_date_idx").on(table.userId, table.studyDate),
+}));
+
+export const insertStudyDaySchema = createInsertSchema(studyDays).pick({
+  userId: true,
+  studyDate: true,
+  questionsAnswered: true,
+  isFrozen: true,
+});
+
+export const studyDaysRelations = relations(studyDays, ({ one }) => ({
+  user: one(users, {
+    fields: [studyDays.userId],
+    references: [users.id],
+  }),
+}));
+
+export type StudyDay = typeof studyDays.$inferSelect;
+export type InsertStudyDay = z.infer<typeof insertStudyDaySchema>;
+
+// Badges a student has earned. The badge catalogue and the rules for earning
+// each one live in server/badges.ts; badgeKey refers to an entry there.
+export const userBadges = pgTable("user_badges", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  badgeKey: text("badge_key").notNull(),
+  earnedAt: timestamp("earned_at").notNull().default(new Date()),
+}, (table) => ({
+  userBadgeIdx: uniqueIndex("user_badges_user_badge_idx").on(table.userId, table.badgeKey),
+}));
+
+export const insertUserBadgeSchema = createInsertSchema(userBadges).pick({
+  userId: true,
+  badgeKey: true,
+});
+
+export const userBadgesRelations = relations(userBadges, ({ one }) => ({
+  user: one(users, {
+    fields: [userBadges.userId],
+    references: [users.id],
+  }),
+}));
+
+export type UserBadge = typeof userBadges.$inferSelect;
+export type InsertUserBadge = z.infer<typeof insertUserBadgeSchema>;
+
+// In-app notifications shown in the notification centre. Producers live in
+// server/notifications.ts and check the user's notificationPreferences first.
+export const NOTIFICATION_TYPES = [
+  "new_practice_set",
+  "badge_earned",
+  "streak_milestone",
+  "subscription_expiring",
+  "subscription_expired",
+  "report_resolved",
+] as const;
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  type: text("type").notNull(), // one of NOTIFICATION_TYPES
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  link: text("link"), // page the notification opens, if any
+  dedupeKey: text("dedupe_key"), // set for notifications that must only be sent once
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").notNull().default(new Date()),
+  isDeleted: boolean("is_deleted").notNull().default(false),
+}, (table) => ({
+  userDedupeIdx: uniqueIndex("notifications_user_dedupe_idx").on(table.userId, table.dedupeKey),
+}));
+
+export const insertNotificationSchema = createInsertSchema(notifications)
+  .pick({
+    userId: true,
+    title: true,
+    message: true,
+    link: true,
+    dedupeKey: true,
+  })
+  .extend({
+    type: z.enum(NOTIFICATION_TYPES),
+  });
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+  }),
+}));
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+
+// History of background jobs run by the scheduler in server/job-scheduler.ts,
+// whether on their schedule or from the admin "run now" button
+export const jobRuns = pgTable("job_runs", {
+  id: serial("id").primaryKey(),
+  jobName: text("job_name").notNull(),
+  trigger: text("trigger").notNull().default("schedule"), // schedule, manual
+  triggeredBy: integer("triggered_by").references(() => users.id), // admin who pressed run now
+  status: text("status").notNull().default("running"), // running, succeeded, failed
+  summary: json("summary").$type<JobRunSummary>(),
+  error: text("error"),
+  startedAt: timestamp("started_at").notNull().default(new Date()),
+  finishedAt: timestamp("finished_at"),
+});
+
+export type JobRunSummary = {
+  processed: number; // users or practice sets looked at
+  sent: number; // emails queued or notifications sent
+  failed: number; // emails that could not be queued
+};
+
+export const insertJobRunSchema = createInsertSchema(jobRuns).pick({
+  jobName: true,
+  trigger: true,
+  triggeredBy: true,
+});
+
+export const jobRunsRelations = relations(jobRuns, ({ one }) => ({
+  triggeredByUser: one(users, {
+    fields: [jobRuns.triggeredBy],
+    references: [users.id],
+  }),
+}));
+
+export type JobRun = typeof jobRuns.$inferSelect;
+export type InsertJobRun = z.infer<typeof insertJobRunSchema>;
+
+// Outbound email queue. Every email is recorded here and sent by the queue in
+// server/email-queue.ts, which retries failed deliveries with a backoff.
+export const EMAIL_DELIVERY_STATUSES = ["queued", "sending", "sent", "failed"] as const;
+export type EmailDeliveryStatus = typeof EMAIL_DELIVERY_STATUSES[number];
+
+export const emailDeliveries = pgTable("email_deliveries", {
+  id: serial("id").primaryKey(),
+  recipient: text("recipient").notNull(),
+  subject: text("subject").notNull(),
+  template: text("template"), // template the body was rendered from, if any
+  text: text("text"),
+  html: text("html"),
+  discardBody: boolean("discard_body").notNull().default(false), // text and html are cleared once delivery finishes
+  status: text("status").notNull().default("queued"), // one of EMAIL_DELIVERY_STATUSES
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  transport: text("transport"), // smtp, maildir or console, whichever sent it
+  messageId: text("message_id"), // as reported by the transport
+  nextAttemptAt: timestamp("next_attempt_at").notNull().default(new Date()),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").notNull().default(new Date()),
+});
+
+export const insertEmailDeliverySchema = createInsertSchema(emailDeliveries).pick({
+  recipient: true,
+  subject: true,
+  template: true,
+  text: true,
+  html: true,
+  discardBody: true,
+});
+
+export type EmailDelivery = typeof emailDeliveries.$inferSelect;
+export type InsertEmailDelivery = z.infer<typeof insertEmailDeliverySchema>;
+// What admins see of a delivery: everything but the body
+export type EmailDeliverySummary = Omit<EmailDelivery, "text" | "html">;